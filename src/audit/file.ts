@@ -0,0 +1,33 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { AuditRecord, AuditSink } from './types.js';
+
+/**
+ * Appends each record to a JSON Lines file, one record per line.
+ *
+ * Writes are chained so lines never interleave and land in call order. A
+ * failed write is logged and dropped; the next write tries again.
+ */
+export class JsonlFileAuditSink implements AuditSink {
+  private queue: Promise<void>;
+
+  constructor(private readonly path: string) {
+    this.queue = mkdir(dirname(path), { recursive: true })
+      .then(() => undefined)
+      .catch((err) => console.error(`[audit] Cannot create directory for ${path}:`, err));
+  }
+
+  write(record: AuditRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    this.queue = this.queue.then(() =>
+      appendFile(this.path, line, 'utf8').catch((err) =>
+        console.error(`[audit] Failed to write to ${this.path}:`, err),
+      ),
+    );
+    return this.queue;
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+  }
+}
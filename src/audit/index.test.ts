@@ -0,0 +1,250 @@
+/**
+ * Audit Trail Tests
+ *
+ * Records must be safe to store (no credentials, no multi-megabyte reports),
+ * name the entities a call touched, and reach every configured sink.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { hashToken } from '../cache/keys.js';
+import { requestTokenStorage } from '../utils/auth-context.js';
+import { richResult } from '../utils/rich-response.js';
+import {
+  buildAuditSink,
+  setAuditSink,
+  startAudit,
+  finishAudit,
+  sanitizeArguments,
+  collectEntityIds,
+  JsonlFileAuditSink,
+  RedisStreamAuditSink,
+  StderrAuditSink,
+  type AuditRecord,
+  type AuditSink,
+} from './index.js';
+
+function memorySink(): AuditSink & { records: AuditRecord[] } {
+  const records: AuditRecord[] = [];
+  return {
+    records,
+    async write(record) {
+      records.push(record);
+    },
+    async close() {},
+  };
+}
+
+let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+beforeEach(() => {
+  consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setAuditSink(undefined);
+  consoleErrorSpy.mockRestore();
+});
+
+describe('sanitizeArguments', () => {
+  it('redacts credentials by name, at any depth', () => {
+    expect(
+      sanitizeArguments({
+        code: 'DEMO',
+        api_token: 'secret',
+        headers: { Authorization: 'Bearer x', Accept: 'json' },
+      }),
+    ).toEqual({
+      code: 'DEMO',
+      api_token: '[redacted]',
+      headers: { Authorization: '[redacted]', Accept: 'json' },
+    });
+  });
+
+  it('truncates long strings and long arrays', () => {
+    const sanitized = sanitizeArguments({
+      file_base64: 'A'.repeat(10_000),
+      results: Array.from({ length: 25 }, (_, i) => ({ case_id: i })),
+    });
+
+    expect(sanitized.file_base64).toBe(`${'A'.repeat(64)}… [10000 chars]`);
+    expect(sanitized.results).toHaveLength(21);
+    expect((sanitized.results as unknown[])[20]).toBe('… 5 more');
+  });
+});
+
+describe('collectEntityIds', () => {
+  it('merges ID fields from arguments and results', () => {
+    expect(
+      collectEntityIds(
+        { code: 'DEMO', id: 5, suite_id: 2, title: 'x' },
+        richResult([], { run_id: 7, created_case_ids: [10, 11], id: 5 }),
+      ),
+    ).toEqual({ id: [5], suite_id: [2], run_id: [7], created_case_ids: [10, 11] });
+  });
+
+  it('returns undefined when nothing is identified', () => {
+    expect(collectEntityIds({ query: 'entity = "case"' }, [1, 2])).toBeUndefined();
+  });
+});
+
+describe('startAudit / finishAudit', () => {
+  it('writes one record with the caller, outcome, and entity IDs', async () => {
+    const sink = memorySink();
+    setAuditSink(sink);
+
+    const draft = requestTokenStorage.run('user-token', () =>
+      startAudit('qase_case_delete', { code: 'DEMO', id: 9, dry_run: false }),
+    );
+    draft.confirmation = 'accepted';
+    draft.outcome = 'success';
+    draft.result = { id: 9 };
+    await finishAudit(draft);
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0]).toMatchObject({
+      tool: 'qase_case_delete',
+      arguments: { code: 'DEMO', id: 9, dry_run: false },
+      tenant: hashToken('user-token'),
+      outcome: 'success',
+      confirmation: 'accepted',
+      entity_ids: { id: [9] },
+    });
+    expect(sink.records[0].duration_ms).toBeGreaterThanOrEqual(0);
+    expect(Date.parse(sink.records[0].timestamp)).not.toBeNaN();
+  });
+
+  it('records errors and dry runs', async () => {
+    const sink = memorySink();
+    setAuditSink(sink);
+
+    const draft = startAudit('qase_case_upsert', { code: 'DEMO' });
+    draft.dryRun = true;
+    draft.error = 'Validation error';
+    await finishAudit(draft);
+
+    expect(sink.records[0]).toMatchObject({
+      outcome: 'error',
+      error: 'Validation error',
+      dry_run: true,
+    });
+  });
+
+  it('does nothing when auditing is off', async () => {
+    await expect(finishAudit(startAudit('qase_get', {}))).resolves.toBeUndefined();
+  });
+
+  it('survives a failing sink', async () => {
+    setAuditSink({
+      write: () => Promise.reject(new Error('disk full')),
+      close: async () => {},
+    });
+
+    await expect(finishAudit(startAudit('qase_get', {}))).resolves.toBeUndefined();
+  });
+});
+
+describe('sinks', () => {
+  const record: AuditRecord = {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    tool: 'qase_get',
+    arguments: {},
+    outcome: 'success',
+    duration_ms: 3,
+  };
+
+  it('appends JSON lines to a file, creating its directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    try {
+      const path = join(dir, 'nested', 'audit.jsonl');
+      const sink = new JsonlFileAuditSink(path);
+
+      await sink.write(record);
+      await sink.write({ ...record, tool: 'qql_search' });
+      await sink.close();
+
+      const lines = readFileSync(path, 'utf8')
+        .trim()
+        .split('\n')
+        .map((l) => JSON.parse(l));
+      expect(lines.map((l) => l.tool)).toEqual(['qase_get', 'qql_search']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('adds each record to a capped Redis stream', async () => {
+    const xadd = jest.fn(async () => '1-0');
+    const sink = new RedisStreamAuditSink({ xadd, quit: async () => 'OK' as const }, 'audit', 500);
+
+    await sink.write(record);
+
+    expect(xadd).toHaveBeenCalledWith(
+      'audit',
+      'MAXLEN',
+      '~',
+      '500',
+      '*',
+      'record',
+      JSON.stringify(record),
+    );
+  });
+
+  it('swallows Redis failures', async () => {
+    const sink = new RedisStreamAuditSink(
+      { xadd: () => Promise.reject(new Error('down')), quit: async () => 'OK' as const },
+      'audit',
+    );
+
+    await expect(sink.write(record)).resolves.toBeUndefined();
+  });
+});
+
+describe('buildAuditSink', () => {
+  it('is off when unset', async () => {
+    expect(await buildAuditSink(undefined)).toBeUndefined();
+    expect(await buildAuditSink('')).toBeUndefined();
+  });
+
+  it('builds a single sink', async () => {
+    expect(await buildAuditSink('stderr')).toBeInstanceOf(StderrAuditSink);
+
+    const dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    try {
+      const sink = await buildAuditSink(`file:${join(dir, 'a.jsonl')}`);
+      expect(sink).toBeInstanceOf(JsonlFileAuditSink);
+      await sink!.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('ignores unknown entries and a redis sink without a URL', async () => {
+    const previous = process.env.QASE_MCP_REDIS_URL;
+    delete process.env.QASE_MCP_REDIS_URL;
+    try {
+      expect(await buildAuditSink('syslog, redis')).toBeUndefined();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('"syslog"'));
+    } finally {
+      if (previous !== undefined) process.env.QASE_MCP_REDIS_URL = previous;
+    }
+  });
+
+  it('fans out to several sinks', async () => {
+    const sink = await buildAuditSink('stderr, stderr');
+
+    await sink!.write({
+      timestamp: 'now',
+      tool: 'qase_get',
+      arguments: {},
+      outcome: 'success',
+      duration_ms: 0,
+    });
+
+    expect(
+      consoleErrorSpy.mock.calls.filter((c) => String(c[0]).startsWith('[audit] {')),
+    ).toHaveLength(2);
+  });
+});
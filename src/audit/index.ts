@@ -0,0 +1,171 @@
+import type { AuditRecord, AuditSink } from './types.js';
+import { StderrAuditSink } from './stderr.js';
+import { JsonlFileAuditSink } from './file.js';
+import { RedisStreamAuditSink } from './redis.js';
+
+export type { AuditRecord, AuditSink } from './types.js';
+export { StderrAuditSink } from './stderr.js';
+export { JsonlFileAuditSink } from './file.js';
+export { RedisStreamAuditSink } from './redis.js';
+export type { RedisLikeStreamClient } from './redis.js';
+import { sanitizeArguments, collectEntityIds, callerContext } from './record.js';
+
+export { sanitizeArguments, collectEntityIds, callerContext };
+
+const DEFAULT_STREAM = 'qase-mcp:audit';
+
+/** Fans each record out to several sinks. */
+class MultiAuditSink implements AuditSink {
+  constructor(private readonly sinks: AuditSink[]) {}
+
+  async write(record: AuditRecord): Promise<void> {
+    await Promise.all(this.sinks.map((s) => s.write(record)));
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.sinks.map((s) => s.close()));
+  }
+}
+
+async function buildRedisSink(stream: string): Promise<AuditSink | undefined> {
+  const redisUrl = process.env.QASE_MCP_REDIS_URL;
+  if (!redisUrl) {
+    console.error('[audit] The redis audit sink needs QASE_MCP_REDIS_URL; skipping it.');
+    return undefined;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let Redis: any;
+  try {
+    const mod = await import('ioredis');
+    Redis = mod.default ?? mod.Redis;
+  } catch (err) {
+    console.error(
+      '[audit] The redis audit sink needs the optional `ioredis` dependency, which is not ' +
+        'installed; skipping it.',
+      err,
+    );
+    return undefined;
+  }
+
+  // Same fail-fast options as the cache: an unreachable Redis drops records
+  // instead of queueing them and stalling tool calls.
+  const client = new Redis(redisUrl, {
+    maxRetriesPerRequest: 1,
+    enableOfflineQueue: false,
+    connectTimeout: 3000,
+    commandTimeout: 2000,
+  });
+  return new RedisStreamAuditSink(client, stream);
+}
+
+/**
+ * Build the audit sink from QASE_MCP_AUDIT, a comma-separated list of:
+ *
+ * - `stderr`
+ * - `file:<path>` — JSON Lines, appended
+ * - `redis` or `redis:<stream>` — a Redis stream on QASE_MCP_REDIS_URL
+ *   (default stream `qase-mcp:audit`)
+ *
+ * Returns undefined when auditing is off (unset, or no usable sink).
+ * Unknown entries are logged and ignored.
+ */
+export async function buildAuditSink(
+  spec: string | undefined = process.env.QASE_MCP_AUDIT,
+): Promise<AuditSink | undefined> {
+  const sinks: AuditSink[] = [];
+  for (const entry of (spec ?? '')
+    .split(',')
+    .map((e) => e.trim())
+    .filter(Boolean)) {
+    const [kind, ...rest] = entry.split(':');
+    const target = rest.join(':').trim();
+
+    if (kind === 'stderr') {
+      sinks.push(new StderrAuditSink());
+    } else if (kind === 'file' && target) {
+      sinks.push(new JsonlFileAuditSink(target));
+    } else if (kind === 'redis') {
+      const sink = await buildRedisSink(target || DEFAULT_STREAM);
+      if (sink) sinks.push(sink);
+    } else {
+      console.error(
+        `[audit] Ignoring QASE_MCP_AUDIT entry "${entry}" ` +
+          '(expected stderr, file:<path>, redis, or redis:<stream>).',
+      );
+    }
+  }
+
+  if (sinks.length === 0) return undefined;
+  return sinks.length === 1 ? sinks[0] : new MultiAuditSink(sinks);
+}
+
+let sink: AuditSink | undefined;
+
+/** Install the process-wide sink. Called once at startup; undefined turns auditing off. */
+export function setAuditSink(next: AuditSink | undefined): void {
+  sink = next;
+}
+
+/** Whether audit records are being written. */
+export function isAuditEnabled(): boolean {
+  return sink !== undefined;
+}
+
+/** Write a record to the installed sink, if any. Never throws. */
+export async function writeAuditRecord(record: AuditRecord): Promise<void> {
+  if (!sink) return;
+  try {
+    await sink.write(record);
+  } catch (err) {
+    console.error('[audit] Failed to write audit record:', err);
+  }
+}
+
+/** An audit record being filled in while a tool call runs. */
+export interface AuditDraft {
+  tool: string;
+  args: Record<string, unknown>;
+  startedAt: number;
+  caller: Pick<AuditRecord, 'tenant' | 'client' | 'integration'>;
+  /** Stays `error` unless the call records another outcome. */
+  outcome: AuditRecord['outcome'];
+  error?: string;
+  dryRun?: boolean;
+  confirmation?: AuditRecord['confirmation'];
+  /** The handler's result, for entity IDs. */
+  result?: unknown;
+}
+
+/**
+ * Start the record for a tool call. Reads the caller from the request
+ * context, so it must run inside serverStorage.
+ */
+export function startAudit(tool: string, args: Record<string, unknown> | undefined): AuditDraft {
+  return {
+    tool,
+    args: args ?? {},
+    startedAt: Date.now(),
+    caller: isAuditEnabled() ? callerContext() : {},
+    outcome: 'error',
+  };
+}
+
+/** Complete and write the record. A no-op when auditing is off; never throws. */
+export async function finishAudit(draft: AuditDraft): Promise<void> {
+  if (!isAuditEnabled()) return;
+
+  const entityIds = collectEntityIds(draft.args, draft.result);
+  await writeAuditRecord({
+    timestamp: new Date(draft.startedAt).toISOString(),
+    tool: draft.tool,
+    arguments: sanitizeArguments(draft.args),
+    ...draft.caller,
+    outcome: draft.outcome,
+    ...(draft.error !== undefined && { error: draft.error }),
+    ...(draft.dryRun && { dry_run: true as const }),
+    ...(draft.confirmation && { confirmation: draft.confirmation }),
+    ...(entityIds && { entity_ids: entityIds }),
+    duration_ms: Date.now() - draft.startedAt,
+  });
+}
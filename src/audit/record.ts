@@ -0,0 +1,105 @@
+import { hashToken } from '../cache/keys.js';
+import { getEffectiveToken } from '../utils/auth-context.js';
+import { getServer } from '../utils/server-context.js';
+import { getIntegration } from '../utils/integration-context.js';
+import { parseIntegrationMarker } from '../utils/integration-marker.js';
+import { isRichResult } from '../utils/rich-response.js';
+import type { AuditRecord } from './types.js';
+
+/** Argument names whose values are credentials. */
+const SECRET_KEY = /token|secret|password|authorization|api[_-]?key|cookie/i;
+
+/** Strings longer than this (base64 files, whole reports) are cut down. */
+const MAX_STRING_LENGTH = 256;
+
+/** Array items kept per array; results and cases can run into thousands. */
+const MAX_ARRAY_ITEMS = 20;
+
+const MAX_DEPTH = 6;
+
+/** Field names that identify entities: id, ids, hash, and *_id / *_ids / *_hash. */
+const ID_KEY = /^(id|ids|hash)$|_(id|ids|hash)$/;
+
+function sanitizeValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, 64)}… [${value.length} chars]`
+      : value;
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[…]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((v) => sanitizeValue(v, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) {
+      items.push(`… ${value.length - MAX_ARRAY_ITEMS} more`);
+    }
+    return items;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, v]) => [
+      key,
+      SECRET_KEY.test(key) ? '[redacted]' : sanitizeValue(v, depth + 1),
+    ]),
+  );
+}
+
+/**
+ * Make tool arguments safe and compact for the audit trail: credentials are
+ * redacted by name, long strings truncated, and long arrays shortened.
+ */
+export function sanitizeArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return sanitizeValue(args, 0) as Record<string, unknown>;
+}
+
+function isId(value: unknown): value is number | string {
+  return (typeof value === 'number' && Number.isFinite(value)) || typeof value === 'string';
+}
+
+/**
+ * Collect the entity IDs a call names, from the top level of its arguments and
+ * of its result (a rich result's structured content). Values of the same field
+ * are merged and de-duplicated.
+ */
+export function collectEntityIds(
+  ...sources: unknown[]
+): Record<string, Array<number | string>> | undefined {
+  const ids: Record<string, Array<number | string>> = {};
+  for (const source of sources) {
+    const data = isRichResult(source) ? source.structuredContent : source;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) continue;
+
+    for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+      if (!ID_KEY.test(key)) continue;
+      const values = (Array.isArray(value) ? value : [value]).filter(isId);
+      if (values.length === 0) continue;
+      ids[key] = [...new Set([...(ids[key] ?? []), ...values])];
+    }
+  }
+  return Object.keys(ids).length > 0 ? ids : undefined;
+}
+
+/**
+ * Who is calling: tenant hash, MCP client, and integration marker, read from
+ * the current request context. Must run inside serverStorage.
+ */
+export function callerContext(): Pick<AuditRecord, 'tenant' | 'client' | 'integration'> {
+  const context: Pick<AuditRecord, 'tenant' | 'client' | 'integration'> = {};
+
+  try {
+    context.tenant = hashToken(getEffectiveToken());
+  } catch {
+    // No token at all — the call will fail on its own; record it without a tenant.
+  }
+
+  const client = getServer()?.getClientVersion();
+  if (client?.name) {
+    context.client = { name: client.name, ...(client.version && { version: client.version }) };
+  }
+
+  const integration = parseIntegrationMarker(getIntegration());
+  if (integration) context.integration = integration;
+
+  return context;
+}
@@ -0,0 +1,44 @@
+import type { AuditRecord, AuditSink } from './types.js';
+
+export interface RedisLikeStreamClient {
+  xadd(key: string, ...args: string[]): Promise<string | null>;
+  quit(): Promise<'OK'>;
+}
+
+/** Approximate cap on stream length; older records are trimmed by Redis. */
+const DEFAULT_MAX_LEN = 100_000;
+
+/**
+ * Appends each record to a Redis stream (`XADD key MAXLEN ~ n * record <json>`),
+ * so several server instances share one trail that consumers can tail.
+ *
+ * Failures are logged and dropped, as with the cache's write path: a Redis
+ * outage never blocks a tool call.
+ */
+export class RedisStreamAuditSink implements AuditSink {
+  constructor(
+    private readonly client: RedisLikeStreamClient,
+    private readonly stream: string,
+    private readonly maxLen = DEFAULT_MAX_LEN,
+  ) {}
+
+  async write(record: AuditRecord): Promise<void> {
+    try {
+      await this.client.xadd(
+        this.stream,
+        'MAXLEN',
+        '~',
+        String(this.maxLen),
+        '*',
+        'record',
+        JSON.stringify(record),
+      );
+    } catch (err) {
+      console.error(`[audit] Failed to append to Redis stream ${this.stream}:`, err);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit().catch(() => undefined);
+  }
+}
@@ -0,0 +1,13 @@
+import type { AuditRecord, AuditSink } from './types.js';
+
+/**
+ * Writes each record to stderr as one `[audit] {json}` line, next to the
+ * server's own logs. stdout is never used — it carries the stdio protocol.
+ */
+export class StderrAuditSink implements AuditSink {
+  async write(record: AuditRecord): Promise<void> {
+    console.error(`[audit] ${JSON.stringify(record)}`);
+  }
+
+  async close(): Promise<void> {}
+}
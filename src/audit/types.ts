@@ -0,0 +1,45 @@
+import type { ConfirmationDecision } from '../utils/server-context.js';
+
+/**
+ * One tool invocation, as written to the audit trail.
+ */
+export interface AuditRecord {
+  /** ISO 8601, when the call arrived. */
+  timestamp: string;
+  tool: string;
+  /** Arguments with credentials redacted and long values (file content, reports) truncated. */
+  arguments: Record<string, unknown>;
+  /** hashToken() of the API token the call ran with — never the token itself. */
+  tenant?: string;
+  /** The MCP client (AI host) from the initialize handshake. */
+  client?: { name: string; version?: string };
+  /** The integration marker, when one was supplied and allowlisted. */
+  integration?: { name: string; version?: string };
+  /**
+   * - `success` — the tool returned a result
+   * - `error` — the tool, or the lookup of the tool, failed
+   * - `cancelled` — the user declined the confirmation prompt
+   * - `refused` — the tool is hidden by read-only mode or the allow/deny filter
+   */
+  outcome: 'success' | 'error' | 'cancelled' | 'refused';
+  error?: string;
+  /** Set when the call was a dry run, so nothing was changed. */
+  dry_run?: true;
+  /** Destructive tools only: how the confirmation prompt went. */
+  confirmation?: ConfirmationDecision;
+  /** IDs named in the arguments and the result, by field (`id`, `run_id`, `created_case_ids`, …). */
+  entity_ids?: Record<string, Array<number | string>>;
+  duration_ms: number;
+}
+
+/**
+ * Destination for audit records. Implementations: StderrAuditSink,
+ * JsonlFileAuditSink, RedisStreamAuditSink.
+ *
+ * write() must never throw or reject — an audit outage must not fail the
+ * tool call it describes. Implementations log failures to stderr instead.
+ */
+export interface AuditSink {
+  write(record: AuditRecord): Promise<void>;
+  close(): Promise<void>;
+}
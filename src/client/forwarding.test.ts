@@ -60,4 +60,24 @@ describe('Qase API token forwarding', () => {
     expect(headers['Token']).toBe(OPAQUE);
     expect(headers['Authorization']).toBeUndefined();
   });
+
+  it('downloads linked files without sending the token anywhere', async () => {
+    const instance = axios.create();
+    const apiMock = new MockAdapter(instance);
+    const fileMock = new MockAdapter(axios);
+    fileMock.onGet('https://storage.example.com/a.png').reply(200, Buffer.from('png'));
+
+    try {
+      const client = new QaseApiClient({ token: JWT, host: HOST }, instance);
+      const file = await client.downloadFile('https://storage.example.com/a.png');
+
+      expect(file.toString()).toBe('png');
+      expect(apiMock.history.get).toHaveLength(0);
+      const headers = fileMock.history.get[0].headers ?? {};
+      expect(headers['Authorization']).toBeUndefined();
+      expect(headers['Token']).toBeUndefined();
+    } finally {
+      fileMock.restore();
+    }
+  });
 });
@@ -31,7 +31,12 @@ import {
   ReviewsApi,
 } from 'qase-api-client';
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { createKeepAliveAgent, attachRetry, attachInflightDedupe } from '../http/index.js';
+import {
+  createKeepAliveAgent,
+  attachRetry,
+  attachInflightDedupe,
+  attachDryRun,
+} from '../http/index.js';
 import { isJwt } from '../auth/token-type.js';
 import FormData from 'form-data';
 import { requestTokenStorage, getEffectiveToken } from '../utils/auth-context.js';
@@ -153,6 +158,7 @@ class QaseApiClient {
 
     attachRetry(this.axiosInstance);
     attachInflightDedupe(this.axiosInstance);
+    attachDryRun(this.axiosInstance);
 
     const basePath = `${config.host}/v1`;
     const cfg = new Configuration({
@@ -205,6 +211,21 @@ class QaseApiClient {
 
     return response.data;
   }
+
+  /**
+   * Download a file the API links to, such as an attachment's `url`.
+   *
+   * Uses a bare axios call rather than the API instance: the instance's
+   * interceptors would add the JWT `Authorization` header, and the file lives
+   * on a storage host that must not receive the token.
+   */
+  async downloadFile(url: string): Promise<Buffer> {
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      headers: { 'User-Agent': getUserAgent() },
+    });
+    return Buffer.from(response.data);
+  }
 }
 
 /**
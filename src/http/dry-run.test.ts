@@ -0,0 +1,76 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { QaseApiClient } from '../client/index.js';
+import { dryRunStorage, type PlannedRequest } from '../utils/dry-run.js';
+
+const HOST = 'https://api.qase.io';
+
+describe('attachDryRun', () => {
+  let mock: MockAdapter;
+  let client: QaseApiClient;
+
+  beforeEach(() => {
+    const instance = axios.create();
+    mock = new MockAdapter(instance);
+    client = new QaseApiClient({ token: 'opaque-token', host: HOST }, instance);
+  });
+
+  afterEach(() => mock.reset());
+
+  it('captures SDK writes with their path and body instead of sending them', async () => {
+    const requests: PlannedRequest[] = [];
+
+    const res = await dryRunStorage.run(requests, () =>
+      client.cases.createCase('DEMO', { title: 'Login works', priority: 2 }),
+    );
+
+    expect(mock.history.post).toHaveLength(0);
+    expect(requests).toEqual([
+      { method: 'POST', path: '/v1/case/DEMO', body: { title: 'Login works', priority: 2 } },
+    ]);
+    expect(res.data).toEqual({ status: true, result: { id: 0, ids: [], hash: '' } });
+  });
+
+  it('still sends reads, so lookups behave as in a real call', async () => {
+    mock.onGet(/\/v1\/project/).reply(200, { status: true, result: { entities: [], total: 0 } });
+    const requests: PlannedRequest[] = [];
+
+    await dryRunStorage.run(requests, () => client.projects.getProjects(10, 0));
+
+    expect(mock.history.get).toHaveLength(1);
+    expect(requests).toEqual([]);
+  });
+
+  it('captures escape-hatch requests with their query', async () => {
+    const requests: PlannedRequest[] = [];
+
+    await dryRunStorage.run(requests, () =>
+      client.request('/v1/case/DEMO/7', { method: 'DELETE', params: { force: 'true' } }),
+    );
+
+    expect(requests).toEqual([
+      { method: 'DELETE', path: '/v1/case/DEMO/7', query: { force: 'true' } },
+    ]);
+  });
+
+  it('describes multipart bodies instead of dumping them', async () => {
+    const requests: PlannedRequest[] = [];
+
+    await dryRunStorage.run(requests, () =>
+      client.attachments.uploadAttachment('DEMO', [Buffer.from('x')] as any),
+    );
+
+    expect(requests).toEqual([
+      { method: 'POST', path: '/v1/attachment/DEMO', body: '[multipart/form-data]' },
+    ]);
+  });
+
+  it('sends writes outside a dry run', async () => {
+    mock.onPost(/\/v1\/case\/DEMO/).reply(200, { status: true, result: { id: 42 } });
+
+    const res = await client.cases.createCase('DEMO', { title: 'Real' });
+
+    expect(mock.history.post).toHaveLength(1);
+    expect(res.data.result?.id).toBe(42);
+  });
+});
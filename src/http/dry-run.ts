@@ -0,0 +1,80 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { getDryRun, type PlannedRequest } from '../utils/dry-run.js';
+
+const MUTATING_METHODS = new Set(['post', 'put', 'patch', 'delete']);
+
+/**
+ * Placeholder answer to a captured request. Tools read `result.id`,
+ * `result.ids` or `result.hash` from write responses; zero and empty values
+ * keep multi-step tools (create run → record results) going so every request
+ * they would send is captured.
+ */
+const PLACEHOLDER_BODY = { status: true, result: { id: 0, ids: [], hash: '' } };
+
+/**
+ * Attach the dry-run adapter.
+ *
+ * Inside a dry run (dryRunStorage), mutating requests are recorded and answered
+ * with a placeholder instead of being sent; reads pass through. Outside one,
+ * every request passes through untouched.
+ *
+ * Attach last: it wraps whatever adapter is installed at attach time (the
+ * dedupe adapter, or MockAdapter in tests).
+ */
+export function attachDryRun(instance: AxiosInstance): void {
+  const captured = instance.defaults.adapter;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const next: any =
+    typeof captured === 'function' ? captured : axios.getAdapter(captured ?? ['xhr', 'http']);
+
+  instance.defaults.adapter = (config): Promise<AxiosResponse> => {
+    const requests = getDryRun();
+    const method = (config.method ?? 'get').toLowerCase();
+    if (!requests || !MUTATING_METHODS.has(method)) {
+      return next(config);
+    }
+
+    requests.push(toPlannedRequest(config));
+    return Promise.resolve({
+      data: PLACEHOLDER_BODY,
+      status: 200,
+      statusText: 'OK (dry run)',
+      headers: {},
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      config: config as any,
+    });
+  };
+}
+
+function toPlannedRequest(config: AxiosRequestConfig): PlannedRequest {
+  const url = new URL(config.url ?? '', config.baseURL ?? 'http://localhost');
+  const planned: PlannedRequest = {
+    method: (config.method ?? 'get').toUpperCase(),
+    path: url.pathname,
+  };
+
+  const query: Record<string, unknown> = Object.fromEntries(url.searchParams);
+  Object.assign(query, config.params ?? {});
+  if (Object.keys(query).length > 0) planned.query = query;
+
+  const body = readBody(config.data);
+  if (body !== undefined) planned.body = body;
+
+  return planned;
+}
+
+/** By the time the adapter runs, axios has serialised JSON bodies to strings. */
+function readBody(data: unknown): unknown {
+  if (data === undefined || data === null || data === '') return undefined;
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  if (typeof (data as { getBoundary?: unknown }).getBoundary === 'function') {
+    return '[multipart/form-data]';
+  }
+  return data;
+}
@@ -3,3 +3,4 @@ export type { KeepAliveAgentOptions } from './agent.js';
 export { attachRetry } from './retry.js';
 export type { RetryOptions } from './retry.js';
 export { attachInflightDedupe } from './dedupe.js';
+export { attachDryRun } from './dry-run.js';
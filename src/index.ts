@@ -20,20 +20,165 @@ import {
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { toolRegistry } from './utils/registry.js';
+import { toolFilterFromEnv, unmatchedToolPatterns } from './utils/tool-filter.js';
 import { formatApiError, ToolExecutionError } from './utils/errors.js';
 import { compactResponse } from './utils/response-shape.js';
 import { isRichResult } from './utils/rich-response.js';
-import { serverStorage, confirmDestructiveAction } from './utils/server-context.js';
+import { runDryRun } from './utils/dry-run.js';
+import {
+  serverStorage,
+  progressStorage,
+  requestDestructiveConfirmation,
+} from './utils/server-context.js';
+import {
+  buildAuditSink,
+  setAuditSink,
+  startAudit,
+  finishAudit,
+  type AuditDraft,
+} from './audit/index.js';
 import { setupSSETransport } from './transports/sse.js';
 import { setupStreamableHttpTransport } from './transports/streamableHttp.js';
 import { VERSION } from './version.js';
 import { listPrompts, getPrompt } from './prompts/index.js';
+import { listResources, listResourceTemplates, readResource } from './resources/index.js';
+import { RunSubscriptions } from './resources/subscriptions.js';
 
 // Import operation modules - each module registers its tools on import
 import './operations-v2/index.js';
 
+/**
+ * Execute a tool call and record how it went in `audit`.
+ *
+ * Arguments are validated against the tool's schema before execution.
+ * Hidden tools are refused, destructive tools are confirmed through
+ * elicitation, and `dry_run` calls capture their writes instead of sending them.
+ */
+async function executeTool(name: string, args: Record<string, unknown>, audit: AuditDraft) {
+  console.error(`[Server] Executing tool: ${name}`);
+
+  // Get tool handler from registry
+  const handler = toolRegistry.getHandler(name);
+  if (!handler) {
+    throw new Error(`Unknown tool: ${name}. Use list_tools to see available tools.`);
+  }
+
+  // Read-only mode and the allow/deny filter: hidden tools stay hidden
+  // even when called by name
+  if (!toolRegistry.isExposed(name)) {
+    const reason = toolRegistry.isReadOnly()
+      ? 'it modifies data and this server runs in read-only mode'
+      : "it is excluded by the server's tool allow/deny configuration";
+    console.error(`[Server] Refused hidden tool: ${name}`);
+    audit.outcome = 'refused';
+    return {
+      content: [{ type: 'text' as const, text: `Tool "${name}" is disabled: ${reason}.` }],
+      isError: true,
+    };
+  }
+
+  // Dry run: write tools accept dry_run, which the handler never sees
+  const callArgs: Record<string, unknown> = { ...args };
+  const dryRun = toolRegistry.supportsDryRun(name) && callArgs.dry_run === true;
+  if (toolRegistry.supportsDryRun(name)) delete callArgs.dry_run;
+  audit.dryRun = dryRun;
+
+  const toolDef = toolRegistry.getTool(name);
+
+  try {
+    // Bulk tools resolve their selection up front, so the prompt can say what
+    // it matched and the handler acts on exactly that
+    let handlerArgs = callArgs;
+    let details: string | undefined;
+    const prepare = toolRegistry.getConfirmationPreparer(name);
+    if (prepare) {
+      const prepared = await prepare(callArgs);
+      handlerArgs = prepared.args;
+      details = prepared.message;
+    }
+
+    // Elicitation: confirm destructive actions before execution (a dry run deletes nothing)
+    if (toolDef?.annotations?.destructiveHint === true && !dryRun) {
+      audit.confirmation = await requestDestructiveConfirmation(name, callArgs, details);
+      if (audit.confirmation === 'declined') {
+        audit.outcome = 'cancelled';
+        return {
+          content: [{ type: 'text' as const, text: `Action "${name}" cancelled by user.` }],
+        };
+      }
+    }
+
+    // Execute the tool handler with provided arguments
+    const result = dryRun
+      ? await runDryRun(name, () => handler(handlerArgs))
+      : await handler(handlerArgs);
+    audit.outcome = 'success';
+    audit.result = result;
+
+    // Rich results: pass through pre-formatted content blocks directly
+    if (isRichResult(result)) {
+      return {
+        content: result.content,
+        ...(result.structuredContent && { structuredContent: result.structuredContent }),
+      };
+    }
+
+    // Default: wrap in compact JSON text block
+    const compacted = compactResponse(result);
+    const hasOutputSchema = toolDef?.outputSchema !== undefined;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(compacted),
+        },
+      ],
+      // SDK requires structuredContent when outputSchema is defined
+      ...(hasOutputSchema && { structuredContent: compacted as Record<string, unknown> }),
+    };
+  } catch (error) {
+    // Handle tool execution errors (expected failures like validation, API errors)
+    // These are returned with isError: true so the LLM can understand and recover
+    if (error instanceof ToolExecutionError) {
+      console.error(`[Server] Tool '${name}' execution error:`, error.message);
+      audit.error = error.message;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: error.toUserMessage(),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Handle unexpected errors (protocol-level failures)
+    // Format error message using our error utilities
+    const errorMessage = formatApiError(error);
+    console.error(`[Server] Tool '${name}' unexpected error:`, errorMessage);
+    audit.error = errorMessage;
+
+    // Return as tool execution error with isError: true for better LLM recovery
+    return {
+      content: [
+        {
+          type: 'text',
+          text: errorMessage,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
 /**
  * Create and configure a new MCP Server instance.
  *
@@ -51,6 +196,7 @@ function createServer(): Server {
       capabilities: {
         tools: { listChanged: true },
         prompts: {},
+        resources: { subscribe: true },
       },
     },
   );
@@ -86,94 +232,99 @@ function createServer(): Server {
   });
 
   /**
-   * Handler: Execute a tool
-   *
-   * Executes the specified tool with provided arguments.
-   * Arguments are validated against the tool's schema before execution.
+   * Handler: List static resources (none — every Qase resource is a template)
    */
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    return serverStorage.run(server, async () => {
-      const { name, arguments: args } = request.params;
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources() };
+  });
 
-      console.error(`[Server] Executing tool: ${name}`);
+  /**
+   * Handler: List resource URI templates (qase://{code}/{entity}/{id}, suite-tree)
+   */
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    const resourceTemplates = listResourceTemplates();
+    console.error(`[Server] Listing ${resourceTemplates.length} resource templates`);
+    return { resourceTemplates };
+  });
 
-      // Get tool handler from registry
-      const handler = toolRegistry.getHandler(name);
-      if (!handler) {
-        throw new Error(`Unknown tool: ${name}. Use list_tools to see available tools.`);
+  /**
+   * Handler: Read a resource
+   *
+   * Runs inside serverStorage like tool calls, so API requests carry the
+   * same client identification headers.
+   */
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return serverStorage.run(server, async () => {
+      const { uri } = request.params;
+      console.error(`[Server] Reading resource: ${uri}`);
+      try {
+        return await readResource(uri);
+      } catch (error) {
+        // Surface the API's message rather than a bare internal error
+        const message =
+          error instanceof ToolExecutionError ? error.toUserMessage() : formatApiError(error);
+        throw new Error(message);
       }
+    });
+  });
 
-      // Elicitation: confirm destructive actions before execution
-      const toolDef = toolRegistry.getTool(name);
-      if (toolDef?.annotations?.destructiveHint === true) {
-        const confirmed = await confirmDestructiveAction(
-          name,
-          (args as Record<string, unknown>) || {},
-        );
-        if (!confirmed) {
-          return {
-            content: [{ type: 'text' as const, text: `Action "${name}" cancelled by user.` }],
-          };
-        }
-      }
+  /**
+   * Handlers: Subscribe / unsubscribe to run progress
+   *
+   * Only run URIs are subscribable. The server polls the run in the background
+   * and sends notifications/resources/updated when its counts change.
+   */
+  const subscriptions = new RunSubscriptions(server);
 
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    return serverStorage.run(server, async () => {
+      const { uri } = request.params;
+      console.error(`[Server] Subscribing to resource: ${uri}`);
       try {
-        // Execute the tool handler with provided arguments
-        const result = await handler(args || {});
-
-        // Rich results: pass through pre-formatted content blocks directly
-        if (isRichResult(result)) {
-          return {
-            content: result.content,
-            ...(result.structuredContent && { structuredContent: result.structuredContent }),
-          };
-        }
-
-        // Default: wrap in compact JSON text block
-        const compacted = compactResponse(result);
-        const hasOutputSchema = toolDef?.outputSchema !== undefined;
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(compacted),
-            },
-          ],
-          // SDK requires structuredContent when outputSchema is defined
-          ...(hasOutputSchema && { structuredContent: compacted as Record<string, unknown> }),
-        };
+        await subscriptions.subscribe(uri);
       } catch (error) {
-        // Handle tool execution errors (expected failures like validation, API errors)
-        // These are returned with isError: true so the LLM can understand and recover
-        if (error instanceof ToolExecutionError) {
-          console.error(`[Server] Tool '${name}' execution error:`, error.message);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: error.toUserMessage(),
-              },
-            ],
-            isError: true,
-          };
-        }
+        const message =
+          error instanceof ToolExecutionError ? error.toUserMessage() : formatApiError(error);
+        throw new Error(message);
+      }
+      return {};
+    });
+  });
 
-        // Handle unexpected errors (protocol-level failures)
-        // Format error message using our error utilities
-        const errorMessage = formatApiError(error);
-        console.error(`[Server] Tool '${name}' unexpected error:`, errorMessage);
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
 
-        // Return as tool execution error with isError: true for better LLM recovery
-        return {
-          content: [
-            {
-              type: 'text',
-              text: errorMessage,
-            },
-          ],
-          isError: true,
-        };
-      }
+  // Pollers die with the server: a closed stdio pipe or an evicted HTTP session
+  // closes the transport, which closes the server.
+  server.onclose = () => subscriptions.close();
+
+  /**
+   * Handler: Execute a tool
+   *
+   * Executes the specified tool with provided arguments and writes one audit
+   * record per call, however it ends (see executeTool for the steps).
+   */
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    return serverStorage.run(server, async () => {
+      const { name, arguments: args } = request.params;
+      const audit = startAudit(name, args);
+      const execute = async () => {
+        try {
+          return await executeTool(name, args ?? {}, audit);
+        } catch (error) {
+          audit.error = error instanceof Error ? error.message : String(error);
+          throw error;
+        } finally {
+          void finishAudit(audit);
+        }
+      };
+      // Long-running tools report progress only when the client asked for it
+      const token = request.params._meta?.progressToken;
+      return token === undefined
+        ? execute()
+        : progressStorage.run({ token, send: extra.sendNotification }, execute);
     });
   });
 
@@ -191,13 +342,15 @@ function createServer(): Server {
 /**
  * Parse command line arguments
  */
-function parseArgs(): { transport: string; port: number; host: string } {
+function parseArgs(): { transport: string; port: number; host: string; readOnly: boolean } {
   const args = process.argv.slice(2);
 
   // Default values
   let transport = 'stdio';
   let port = 3000;
   let host = '0.0.0.0';
+  const readOnly =
+    args.includes('--read-only') || /^(1|true|yes)$/i.test(process.env.QASE_MCP_READ_ONLY ?? '');
 
   // Parse --transport
   const transportIndex = args.indexOf('--transport');
@@ -220,14 +373,21 @@ function parseArgs(): { transport: string; port: number; host: string } {
     host = args[hostIndex + 1];
   }
 
-  return { transport, port, host };
+  return { transport, port, host, readOnly };
 }
 
 /**
  * Main function - Start the MCP server
  */
 async function main() {
-  const { transport, port, host } = parseArgs();
+  const { transport, port, host, readOnly } = parseArgs();
+  const toolFilter = toolFilterFromEnv();
+  // Checked against the full catalog, before either restriction applies
+  const unmatched = unmatchedToolPatterns(toolRegistry.getAllTools(), toolFilter);
+  toolRegistry.setReadOnly(readOnly);
+  toolRegistry.setToolFilter(toolFilter);
+  const auditSink = await buildAuditSink();
+  setAuditSink(auditSink);
 
   // Log server information to stderr (stdout is used for MCP protocol)
   const title = `Qase MCP Server v${VERSION}`;
@@ -238,6 +398,24 @@ async function main() {
   console.error('╚══════════════════════════════════════════════════════════════╝');
   console.error('');
   console.error(`✓ Registered ${toolRegistry.getToolCount()} tools`);
+  const filtered = toolFilter.allow.length > 0 || toolFilter.deny.length > 0;
+  if (readOnly) {
+    console.error(`✓ Read-only mode`);
+  }
+  if (filtered) {
+    console.error(
+      `✓ Tool filter: allow [${toolFilter.allow.join(', ')}], deny [${toolFilter.deny.join(', ')}]`,
+    );
+  }
+  if (unmatched.length > 0) {
+    console.error(`⚠ Tool filter entries that match no tool: ${unmatched.join(', ')}`);
+  }
+  if (readOnly || filtered) {
+    console.error(`✓ Exposing ${toolRegistry.getAllTools().length} tools`);
+  }
+  if (auditSink) {
+    console.error(`✓ Audit log: ${process.env.QASE_MCP_AUDIT}`);
+  }
   console.error('');
 
   try {
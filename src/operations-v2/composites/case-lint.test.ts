@@ -0,0 +1,278 @@
+/**
+ * Tests for qase_case_lint — the Gherkin check, each rule and the score, and
+ * loading only the data the enabled rules need.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetCase = jest.fn();
+const mockGetCases = jest.fn();
+const mockGetSuites = jest.fn();
+const mockGetSharedSteps = jest.fn();
+const mockGetResults = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    cases: { getCase: mockGetCase, getCases: mockGetCases },
+    suites: { getSuites: mockGetSuites },
+    sharedSteps: { getSharedSteps: mockGetSharedSteps },
+    results: { getResults: mockGetResults },
+  }),
+}));
+
+import './case-lint.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { gherkinError, lintCase, type LintCase, type LintContext } from './case-lint.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+const page = (entities: unknown[], total = entities.length) => ok({ total, entities });
+
+const GOOD: LintCase = {
+  id: 1,
+  title: 'Login rejects an expired password',
+  suite_id: 10,
+  preconditions: '<p>A user whose password expired yesterday</p>',
+  severity: 2,
+  priority: 1,
+  automation: 2,
+  steps: [
+    { action: 'Open the login page', expected_result: 'The form is shown' },
+    { shared_step_hash: 'abc' },
+  ],
+};
+
+const POOR: LintCase = {
+  id: 2,
+  title: 'Test login',
+  suite_id: 11,
+  preconditions: 'N/A',
+  severity: 0,
+  steps: [
+    { action: 'Open the login page', expected_result: null },
+    { action: 'Sign in', steps: [{ action: 'Enter the password', expected_result: '' }] },
+  ],
+};
+
+const GHERKIN: LintCase = {
+  id: 3,
+  title: 'Checkout applies a discount code',
+  suite_id: 12,
+  preconditions: 'A cart with one item',
+  severity: 3,
+  priority: 2,
+  steps_type: 'gherkin',
+  steps: [{ value: 'And the cart has one item\nWhen I apply "SAVE10"' }],
+};
+
+const context = (overrides: Partial<LintContext> = {}): LintContext => ({
+  rules: new Set([
+    'missing_expected_result',
+    'empty_preconditions',
+    'vague_title',
+    'long_title',
+    'missing_severity',
+    'missing_priority',
+    'invalid_gherkin',
+    'deleted_shared_step',
+    'stale_automation',
+  ]),
+  maxTitleLength: 120,
+  minTitleWords: 2,
+  automationDays: 30,
+  ...overrides,
+});
+
+function lint(args: Record<string, unknown> = {}): Promise<any> {
+  return toolRegistry.getHandler('qase_case_lint')!({ code: 'DEMO', ...args });
+}
+
+let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+beforeEach(() => {
+  consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockGetCase.mockReset().mockImplementation(() => ok(GOOD));
+  mockGetCases
+    .mockReset()
+    .mockImplementation((_code, _search, _milestone, suiteId) =>
+      page([GOOD, POOR, GHERKIN].filter((c) => suiteId === undefined || c.suite_id === suiteId)),
+    );
+  mockGetSuites.mockReset().mockImplementation(() =>
+    page([
+      { id: 10, title: 'Auth', parent_id: null },
+      { id: 11, title: 'Login', parent_id: 10 },
+      { id: 12, title: 'Checkout', parent_id: null },
+    ]),
+  );
+  mockGetSharedSteps.mockReset().mockImplementation(() => page([{ hash: 'abc' }]));
+  mockGetResults.mockReset().mockImplementation(() => page([{ case_id: 1, hash: 'r1' }]));
+});
+
+afterEach(() => {
+  consoleErrorSpy.mockRestore();
+});
+
+describe('gherkinError', () => {
+  it('accepts scenarios, outlines with examples, tables and doc strings', () => {
+    const outline = [
+      'Scenario Outline: Discounts',
+      '  Shoppers can stack one code.',
+      '  Given a cart with <items> item(s)',
+      '  When I apply "SAVE10"',
+      '  Then the total is <total>',
+      '  And the receipt says:',
+      '    """',
+      '    Discount: 10%',
+      '    """',
+      '  Examples:',
+      '    | items | total |',
+      '    | 1     | 9     |',
+    ].join('\n');
+
+    expect(gherkinError(outline)).toBeUndefined();
+    expect(gherkinError('Given a user\n* they sign in\nThen the dashboard opens')).toBeUndefined();
+  });
+
+  it('explains the first line that does not parse', () => {
+    expect(gherkinError('And the cart has one item')).toBe(
+      'Line 1 starts the steps with "And" — use Given, When or Then first.',
+    );
+    expect(gherkinError('Given a cart\nclick checkout')).toBe(
+      'Line 2 is not a Gherkin step: "click checkout".',
+    );
+    expect(gherkinError('Given prices\n| a | b |\n| 1 |')).toBe(
+      'Line 3 has 1 cell(s) where the table has 2.',
+    );
+    expect(gherkinError('Given a note\n"""\nunclosed')).toBe(
+      'A doc string opened with """ is never closed.',
+    );
+    expect(gherkinError('Scenario: Empty')).toBe('There are no Given/When/Then steps.');
+  });
+});
+
+describe('lintCase', () => {
+  it('passes a complete case with a full score', () => {
+    const result = lintCase(
+      GOOD,
+      context({ sharedSteps: new Set(['abc']), automatedRecently: new Set([1]) }),
+    );
+
+    expect(result).toEqual({ id: 1, title: GOOD.title, score: 100, findings: [] });
+  });
+
+  it('reports each broken rule once with a suggestion, and scores by rule', () => {
+    const result = lintCase(POOR, context());
+
+    expect(result.findings.map((f) => f.rule)).toEqual([
+      'vague_title',
+      'empty_preconditions',
+      'missing_severity',
+      'missing_priority',
+      'missing_expected_result',
+    ]);
+    expect(result.findings[1].message).toBe('The preconditions are only "N/A".');
+    // A parent step is judged by its substeps
+    expect(result.findings[4]).toMatchObject({
+      severity: 'error',
+      message: 'Steps 1, 2.1 have no expected result.',
+    });
+    expect(result.findings.every((f) => f.suggestion.length > 0)).toBe(true);
+    expect(result.score).toBe(45);
+  });
+
+  it('checks only the enabled rules and honours the limits', () => {
+    const result = lintCase(
+      { ...GOOD, title: `Login ${'x'.repeat(40)}` },
+      context({ rules: new Set(['long_title', 'vague_title']), maxTitleLength: 30 }),
+    );
+
+    expect(result.findings.map((f) => f.rule)).toEqual(['long_title']);
+    expect(result.score).toBe(95);
+  });
+
+  it('flags deleted shared steps and automated cases that stopped reporting', () => {
+    const result = lintCase(
+      GOOD,
+      context({ sharedSteps: new Set(), automatedRecently: new Set() }),
+    );
+
+    expect(result.findings.map((f) => f.message)).toEqual([
+      'Step 2 links a shared step that no longer exists.',
+      'The case is automated but has no automated result in the last 30 day(s).',
+    ]);
+  });
+});
+
+describe('qase_case_lint', () => {
+  it('lints one case, loading only its own automated results', async () => {
+    const res = await lint({ id: 1 });
+
+    expect(mockGetCase).toHaveBeenCalledWith('DEMO', 1);
+    expect(mockGetCases).not.toHaveBeenCalled();
+    const [, , , caseId, , api] = mockGetResults.mock.calls[0] as unknown[];
+    expect([caseId, api]).toEqual(['1', true]);
+    expect(res.structuredContent).toMatchObject({ id: 1, cases_checked: 1, average_score: 100 });
+    expect(res.content[0].text).toContain(
+      '### DEMO-1 — 100/100: Login rejects an expired password',
+    );
+    expect(res.content[0].text).toContain('No findings.');
+  });
+
+  it('lints a suite subtree, lowest score first, with counts per rule', async () => {
+    const res = await lint({ suite_id: 10 });
+
+    expect(mockGetCases.mock.calls.map((c) => c[3])).toEqual([10, 11]);
+    expect(res.structuredContent.cases_checked).toBe(2);
+    expect(res.structuredContent.cases.map((c: { id: number }) => c.id)).toEqual([2]);
+    expect(res.structuredContent.findings_by_rule).toEqual({
+      missing_expected_result: 1,
+      empty_preconditions: 1,
+      vague_title: 1,
+      missing_severity: 1,
+      missing_priority: 1,
+    });
+    expect(res.content[0].text).toMatch(/\| missing_expected_result \| error +\| 1 +\|/);
+  });
+
+  it('reports unparsable Gherkin and skips a rule whose data was capped', async () => {
+    mockGetSharedSteps.mockImplementation(() => page([{ hash: 'zzz' }], 500));
+
+    const res = await lint();
+
+    expect(res.structuredContent.cases.map((c: { id: number }) => c.id)).toEqual([2, 3]);
+    expect(res.structuredContent.cases[1].findings[0]).toMatchObject({
+      rule: 'invalid_gherkin',
+      message: 'Step 1: Line 1 starts the steps with "And" — use Given, When or Then first.',
+    });
+    expect(res.structuredContent.skipped_rules).toEqual([
+      { rule: 'deleted_shared_step', reason: 'the shared step list was capped' },
+    ]);
+    expect(res.content[0].text).toContain('Skipped `deleted_shared_step`');
+  });
+
+  it('checks automated results against the filtered count, not every result', async () => {
+    mockGetResults.mockImplementation(() =>
+      ok({ total: 9000, filtered: 1, entities: [{ case_id: 1, hash: 'r1' }] }),
+    );
+
+    const res = await lint({ id: 1 });
+
+    expect(res.structuredContent.skipped_rules).toBeUndefined();
+    expect(res.structuredContent.average_score).toBe(100);
+  });
+
+  it('loads nothing extra when its rules are not enabled', async () => {
+    await lint({ rules: ['vague_title'] });
+
+    expect(mockGetSharedSteps).not.toHaveBeenCalled();
+    expect(mockGetResults).not.toHaveBeenCalled();
+  });
+
+  it('rejects both id and suite_id', async () => {
+    await expect(lint({ id: 1, suite_id: 10 })).rejects.toThrow(
+      'Pass either `id` or `suite_id`, not both.',
+    );
+  });
+});
@@ -0,0 +1,557 @@
+import { z } from 'zod';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, ReadAnnotation } from '../../utils/registry.js';
+import { ToolExecutionError, toResultAsync, createToolError } from '../../utils/errors.js';
+import { ProjectCodeSchema, IdSchema } from '../../utils/validation.js';
+import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import { reportProgress } from '../../utils/server-context.js';
+import { fetchAllSuites, buildSuiteTree, suiteSubtreeIds } from '../../utils/suite-tree.js';
+import { CaseFieldsSchema, TestStepSchema } from '../write/case-fields.js';
+import { loadAll, loadCases, loadResultsSince } from './run-results.js';
+
+type Severity = 'error' | 'warning';
+
+/**
+ * Every rule the linter knows. A case starts at 100 and loses the rule's
+ * weight once for each rule it breaks, however many of its steps break it.
+ */
+const RULES = {
+  missing_expected_result: {
+    severity: 'error',
+    weight: 20,
+    description: 'A step has an action but no expected result',
+  },
+  empty_preconditions: {
+    severity: 'warning',
+    weight: 5,
+    description: 'Preconditions are empty or a placeholder',
+  },
+  vague_title: {
+    severity: 'warning',
+    weight: 10,
+    description: 'The title has too few specific words to tell what is tested',
+  },
+  long_title: {
+    severity: 'warning',
+    weight: 5,
+    description: 'The title is longer than the limit',
+  },
+  missing_severity: { severity: 'warning', weight: 10, description: 'Severity is not set' },
+  missing_priority: { severity: 'warning', weight: 10, description: 'Priority is not set' },
+  invalid_gherkin: {
+    severity: 'error',
+    weight: 20,
+    description: 'A Gherkin step does not parse',
+  },
+  deleted_shared_step: {
+    severity: 'error',
+    weight: 25,
+    description: 'A step links a shared step that no longer exists',
+  },
+  stale_automation: {
+    severity: 'warning',
+    weight: 15,
+    description: 'An automated case has no automated result in the last N days',
+  },
+} satisfies Record<string, { severity: Severity; weight: number; description: string }>;
+
+export type RuleId = keyof typeof RULES;
+
+const RULE_IDS = Object.keys(RULES) as [RuleId, ...RuleId[]];
+
+const DEFAULT_MAX_TITLE_LENGTH = 120;
+const DEFAULT_MIN_TITLE_WORDS = 2;
+const DEFAULT_AUTOMATION_DAYS = 30;
+const DEFAULT_LIMIT = 50;
+
+// The longest title the API accepts; a lint limit above it would never fire
+const TITLE_LIMIT = CaseFieldsSchema.shape.title.maxLength ?? 255;
+
+// Words that say a case exists without saying what it checks
+const VAGUE_WORDS = new Set(
+  (
+    'a an and the of to for in on with is it this that ' +
+    'test tests testing case check checks verify works working work new copy ' +
+    'todo tbd temp untitled misc scenario basic simple general'
+  ).split(' '),
+);
+
+// Preconditions that were filled in only to leave the field non-empty
+const PLACEHOLDER = /^(n\/?a|none|nothing|no|-+|\.+|tbd|todo)$/i;
+
+const Schema = z.object({
+  code: ProjectCodeSchema,
+  id: IdSchema.optional().describe('Lint only this case'),
+  suite_id: IdSchema.optional().describe('Lint the cases in this suite and its sub-suites'),
+  rules: z
+    .array(z.enum(RULE_IDS))
+    .min(1)
+    .optional()
+    .describe(`Rules to check (default all): ${RULE_IDS.join(', ')}`),
+  max_title_length: z
+    .number()
+    .int()
+    .min(20)
+    .max(TITLE_LIMIT)
+    .optional()
+    .describe(`long_title: longest acceptable title (default ${DEFAULT_MAX_TITLE_LENGTH})`),
+  min_title_words: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .describe(
+      `vague_title: fewest specific words a title needs, not counting words like ` +
+        `"test" or "check" (default ${DEFAULT_MIN_TITLE_WORDS})`,
+    ),
+  automation_days: z
+    .number()
+    .int()
+    .min(1)
+    .max(365)
+    .optional()
+    .describe(
+      `stale_automation: how recent an automated result must be (default ${DEFAULT_AUTOMATION_DAYS} days)`,
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe(`Most cases to list, lowest score first (default ${DEFAULT_LIMIT})`),
+});
+
+type Nullable<T> = { [K in keyof T]?: T[K] | null };
+
+/** A step as read back from the API, shaped like `TestStepSchema`. */
+export type LintStep = Nullable<Omit<z.infer<typeof TestStepSchema>, 'steps'>> & {
+  steps?: LintStep[] | null;
+};
+
+/**
+ * A case as read back from the API: the `CaseFieldsSchema` text fields, with
+ * enum fields as numeric IDs.
+ */
+export type LintCase = Nullable<
+  Pick<z.infer<typeof CaseFieldsSchema>, 'title' | 'preconditions' | 'steps_type'>
+> & {
+  id: number;
+  suite_id?: number | null;
+  severity?: number | null;
+  priority?: number | null;
+  automation?: number | null;
+  steps?: LintStep[] | null;
+};
+
+export interface LintFinding {
+  rule: RuleId;
+  severity: Severity;
+  message: string;
+  suggestion: string;
+}
+
+export interface CaseLint {
+  id: number;
+  title: string;
+  score: number;
+  findings: LintFinding[];
+}
+
+/** What the rules are checked against. Data left undefined skips its rule. */
+export interface LintContext {
+  rules: Set<RuleId>;
+  maxTitleLength: number;
+  minTitleWords: number;
+  automationDays: number;
+  /** Hashes of the project's shared steps. */
+  sharedSteps?: Set<string>;
+  /** IDs of the cases with an automated result in the last `automationDays`. */
+  automatedRecently?: Set<number>;
+}
+
+const plainText = (html: string | null | undefined) =>
+  (html ?? '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&[a-z]+;|&#\d+;/gi, '')
+    .trim();
+
+const GHERKIN_HEADER =
+  /^(Feature|Rule|Background|Scenario|Scenario Outline|Scenario Template|Example|Examples|Scenarios):/;
+const GHERKIN_STEP = /^(Given|When|Then|And|But|\*)(\s|$)/;
+
+/**
+ * Why a Gherkin text does not parse, or undefined when it does. Checks the
+ * structure a runner would reject: lines outside any keyword, a scenario that
+ * opens with And or But, no steps at all, ragged tables and unclosed doc strings.
+ */
+export function gherkinError(text: string): string | undefined {
+  let docString: string | undefined;
+  // Free text is a description only between a header and its first step or table
+  let description = false;
+  let scenarioSteps = 0;
+  let totalSteps = 0;
+  let tableCells: number | undefined;
+
+  for (const [index, raw] of text.split(/\r?\n/).entries()) {
+    const line = raw.trim();
+    const at = `Line ${index + 1}`;
+
+    if (docString) {
+      if (line.startsWith(docString)) docString = undefined;
+      continue;
+    }
+    if (line.startsWith('"""') || line.startsWith('```')) {
+      if (scenarioSteps === 0) return `${at} opens a doc string before any step.`;
+      docString = line.slice(0, 3);
+      continue;
+    }
+    if (line === '' || line.startsWith('#') || line.startsWith('@')) continue;
+
+    if (line.startsWith('|')) {
+      if (!line.endsWith('|')) return `${at} is a table row that does not end with "|".`;
+      const cells = line.split('|').length - 2;
+      if (tableCells !== undefined && cells !== tableCells) {
+        return `${at} has ${cells} cell(s) where the table has ${tableCells}.`;
+      }
+      tableCells = cells;
+      description = false;
+      continue;
+    }
+    tableCells = undefined;
+
+    const header = GHERKIN_HEADER.exec(line);
+    if (header) {
+      description = true;
+      // Examples belong to the scenario above them
+      if (header[1] !== 'Examples' && header[1] !== 'Scenarios') scenarioSteps = 0;
+      continue;
+    }
+    const step = GHERKIN_STEP.exec(line);
+    if (step) {
+      if (scenarioSteps === 0 && (step[1] === 'And' || step[1] === 'But')) {
+        return `${at} starts the steps with "${step[1]}" — use Given, When or Then first.`;
+      }
+      scenarioSteps++;
+      totalSteps++;
+      description = false;
+      continue;
+    }
+    if (!description) {
+      return `${at} is not a Gherkin step: "${line.length > 40 ? `${line.slice(0, 40)}…` : line}".`;
+    }
+  }
+
+  if (docString) return `A doc string opened with ${docString} is never closed.`;
+  if (totalSteps === 0 && !/^\s*(Feature|Rule):/m.test(text)) {
+    return 'There are no Given/When/Then steps.';
+  }
+  return undefined;
+}
+
+/** Steps with their position in the tree, as "2" or "2.1". */
+function flattenSteps(
+  steps: LintStep[] | null | undefined,
+  prefix = '',
+): Array<[string, LintStep]> {
+  return (steps ?? []).flatMap((step, i) => {
+    const position = `${prefix}${i + 1}`;
+    return [[position, step] as [string, LintStep], ...flattenSteps(step.steps, `${position}.`)];
+  });
+}
+
+const stepList = (positions: string[]) =>
+  `${positions.length === 1 ? 'Step' : 'Steps'} ${positions.join(', ')}`;
+
+/** Check one case against the enabled rules and score it. */
+export function lintCase(c: LintCase, context: LintContext): CaseLint {
+  const findings: LintFinding[] = [];
+  const add = (rule: RuleId, message: string, suggestion: string) => {
+    if (context.rules.has(rule)) {
+      findings.push({ rule, severity: RULES[rule].severity, message, suggestion });
+    }
+  };
+
+  const title = c.title ?? '';
+  const specific = title
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w && !VAGUE_WORDS.has(w) && !/^\d+$/.test(w));
+  if (specific.length < context.minTitleWords) {
+    add(
+      'vague_title',
+      `The title "${title}" does not say what is checked.`,
+      'Name the feature and the expected behaviour, e.g. "Login rejects an expired password".',
+    );
+  }
+  if (title.length > context.maxTitleLength) {
+    add(
+      'long_title',
+      `The title is ${title.length} characters, over ${context.maxTitleLength}.`,
+      'Keep the title to what is checked and move the detail into the description or steps.',
+    );
+  }
+
+  const preconditions = plainText(c.preconditions);
+  if (preconditions === '' || PLACEHOLDER.test(preconditions)) {
+    add(
+      'empty_preconditions',
+      preconditions
+        ? `The preconditions are only "${preconditions}".`
+        : 'There are no preconditions.',
+      'State the starting point: the user, the data and the state the system must be in.',
+    );
+  }
+
+  if (!c.severity) {
+    add('missing_severity', 'Severity is not set.', 'Set a severity so failures can be triaged.');
+  }
+  if (!c.priority) {
+    add(
+      'missing_priority',
+      'Priority is not set.',
+      'Set a priority so the case is ordered correctly in runs.',
+    );
+  }
+
+  const steps = flattenSteps(c.steps);
+  const gherkin = c.steps_type === 'gherkin';
+  const shared = (s: LintStep) => s.shared ?? s.shared_step_hash;
+
+  if (!gherkin) {
+    // A shared step brings its own content, and a parent step is checked through its substeps
+    const missing = steps
+      .filter(
+        ([, s]) =>
+          !shared(s) && plainText(s.action) && !plainText(s.expected_result) && !s.steps?.length,
+      )
+      .map(([position]) => position);
+    if (missing.length > 0) {
+      add(
+        'missing_expected_result',
+        `${stepList(missing)} ${missing.length === 1 ? 'has' : 'have'} no expected result.`,
+        'Write what the tester should see after each action, so a pass or fail is unambiguous.',
+      );
+    }
+  } else {
+    for (const [position, s] of steps) {
+      const text = s.value ?? s.action;
+      const error = text ? gherkinError(text) : undefined;
+      if (error) {
+        add(
+          'invalid_gherkin',
+          `Step ${position}: ${error}`,
+          'Rewrite the step as Given / When / Then lines, one step per line.',
+        );
+      }
+    }
+  }
+
+  if (context.sharedSteps) {
+    const dangling = steps
+      .filter(([, s]) => shared(s) && !context.sharedSteps!.has(shared(s)!))
+      .map(([position]) => position);
+    if (dangling.length > 0) {
+      add(
+        'deleted_shared_step',
+        dangling.length === 1
+          ? `Step ${dangling[0]} links a shared step that no longer exists.`
+          : `${stepList(dangling)} link shared steps that no longer exist.`,
+        'Replace the link with a current shared step (qase_shared_step_upsert) or write the step out.',
+      );
+    }
+  }
+
+  if (c.automation === 2 && context.automatedRecently && !context.automatedRecently.has(c.id)) {
+    add(
+      'stale_automation',
+      `The case is automated but has no automated result in the last ${context.automationDays} day(s).`,
+      'Check the test still runs and reports to Qase, or mark the case as manual or to be automated.',
+    );
+  }
+
+  const lost = new Set(findings.map((f) => f.rule));
+  const score = Math.max(0, 100 - [...lost].reduce((n, rule) => n + RULES[rule].weight, 0));
+  return { id: c.id, title, score, findings };
+}
+
+async function loadCase(code: string, id: number): Promise<LintCase> {
+  const res = await toResultAsync(getApiClient().cases.getCase(code, id));
+  return res.match(
+    (r) => r.data.result as LintCase,
+    (e) => {
+      throw createToolError(e, `loading case ${id} failed`);
+    },
+  );
+}
+
+/** The cases to lint, and whether the page cap cut them short. */
+async function casesToLint(code: string, suiteId: number | undefined) {
+  let suites: Set<number> | undefined;
+  if (suiteId !== undefined) {
+    suites = suiteSubtreeIds(buildSuiteTree((await fetchAllSuites(code)).suites), suiteId);
+    if (suites.size === 0) {
+      throw new ToolExecutionError(
+        `Suite ${suiteId} was not found in project ${code}.`,
+        'Check the ID with qase_suite_tree.',
+      );
+    }
+  }
+
+  const { entities: cases, truncated } = await loadCases<LintCase>(code, suites);
+  return { cases, truncated };
+}
+
+async function handler(args: z.infer<typeof Schema>) {
+  const {
+    code,
+    id,
+    suite_id,
+    rules = RULE_IDS,
+    max_title_length = DEFAULT_MAX_TITLE_LENGTH,
+    min_title_words = DEFAULT_MIN_TITLE_WORDS,
+    automation_days = DEFAULT_AUTOMATION_DAYS,
+    limit = DEFAULT_LIMIT,
+  } = args;
+  if (id !== undefined && suite_id !== undefined) {
+    throw new ToolExecutionError(
+      'Pass either `id` or `suite_id`, not both.',
+      'Use `id` for one case, `suite_id` for a suite and its sub-suites, or neither for the whole project.',
+    );
+  }
+  const client = getApiClient();
+  const context: LintContext = {
+    rules: new Set(rules),
+    maxTitleLength: max_title_length,
+    minTitleWords: min_title_words,
+    automationDays: automation_days,
+  };
+  const skipped: Array<{ rule: RuleId; reason: string }> = [];
+  const steps = 3;
+
+  const { cases, truncated } =
+    id !== undefined
+      ? { cases: [await loadCase(code, id)], truncated: false }
+      : await casesToLint(code, suite_id);
+  await reportProgress(1, steps, 'Loaded cases');
+
+  const linksShared = cases.some((c) =>
+    flattenSteps(c.steps).some(([, s]) => s.shared ?? s.shared_step_hash),
+  );
+  if (context.rules.has('deleted_shared_step') && linksShared) {
+    const shared = await loadAll<{ hash?: string }>(
+      (pageLimit, offset) => client.sharedSteps.getSharedSteps(code, undefined, pageLimit, offset),
+      'loading shared steps failed',
+    );
+    // A hash missing from a partial list may still exist
+    if (shared.entities.length < shared.total) {
+      skipped.push({ rule: 'deleted_shared_step', reason: 'the shared step list was capped' });
+    } else {
+      context.sharedSteps = new Set(shared.entities.flatMap((s) => (s.hash ? [s.hash] : [])));
+    }
+  }
+  await reportProgress(2, steps, 'Checked shared steps');
+
+  if (context.rules.has('stale_automation') && cases.some((c) => c.automation === 2)) {
+    const results = await loadResultsSince(
+      code,
+      new Date(Date.now() - automation_days * 86_400_000),
+      { automated: true, ...(id !== undefined && { caseId: id }) },
+    );
+    if (results.entities.length < results.total) {
+      skipped.push({
+        rule: 'stale_automation',
+        reason: 'the automated results were capped — try fewer automation_days',
+      });
+    } else {
+      context.automatedRecently = new Set(
+        results.entities.flatMap((r) => (r.case_id !== undefined ? [r.case_id] : [])),
+      );
+    }
+  }
+  await reportProgress(3, steps, 'Checked automated results');
+
+  const linted = cases.map((c) => lintCase(c, context));
+  const flagged = linted
+    .filter((c) => c.findings.length > 0)
+    .sort((a, b) => a.score - b.score || a.id - b.id);
+  const shown = id !== undefined ? linted : flagged.slice(0, limit);
+  const byRule: Partial<Record<RuleId, number>> = {};
+  for (const c of linted) {
+    for (const rule of new Set(c.findings.map((f) => f.rule)))
+      byRule[rule] = (byRule[rule] ?? 0) + 1;
+  }
+  const average =
+    linted.length > 0 ? Math.round(linted.reduce((n, c) => n + c.score, 0) / linted.length) : 100;
+
+  const scope =
+    id !== undefined
+      ? `${code}-${id}`
+      : suite_id !== undefined
+        ? `${code} (suite ${suite_id})`
+        : code;
+  const narrower = suite_id === undefined ? 'narrow with suite_id' : 'pick a sub-suite';
+  const lines = [
+    `## Case lint for ${scope}`,
+    '',
+    `- **Cases checked:** ${linted.length}${truncated ? ` (capped — ${narrower} for the rest)` : ''}, ` +
+      `${flagged.length} with findings`,
+    `- **Average score:** ${average}/100`,
+  ];
+  for (const s of skipped) lines.push(`- ⚠️ Skipped \`${s.rule}\`: ${s.reason}.`);
+  const counted = RULE_IDS.filter((rule) => byRule[rule]);
+  if (id === undefined && counted.length > 0) {
+    lines.push(
+      '',
+      markdownTable(
+        ['Rule', 'Severity', 'Cases', 'Checks'],
+        counted.map((rule) => [
+          rule,
+          RULES[rule].severity,
+          String(byRule[rule]),
+          RULES[rule].description,
+        ]),
+      ),
+    );
+  }
+  if (flagged.length > shown.length) lines.push('', `Showing the ${shown.length} lowest scores.`);
+  for (const c of shown) {
+    lines.push('', `### ${code}-${c.id} — ${c.score}/100: ${c.title || '(untitled)'}`, '');
+    if (c.findings.length === 0) lines.push('No findings.');
+    for (const f of c.findings) {
+      lines.push(`- **${f.severity}** \`${f.rule}\`: ${f.message} ${f.suggestion}`);
+    }
+  }
+
+  const structured = {
+    code,
+    ...(id !== undefined && { id }),
+    ...(suite_id !== undefined && { suite_id }),
+    rules,
+    cases_checked: linted.length,
+    truncated,
+    cases_with_findings: flagged.length,
+    average_score: average,
+    findings_by_rule: byRule,
+    ...(skipped.length > 0 && { skipped_rules: skipped }),
+    cases: shown,
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+toolRegistry.register({
+  name: 'qase_case_lint',
+  description:
+    'Check test case quality against configurable rules, for one case (id), a suite with its ' +
+    'sub-suites (suite_id), or a whole project. Rules: steps without expected results, empty ' +
+    'preconditions, vague or over-long titles, no severity or priority, Gherkin steps that do ' +
+    'not parse, links to deleted shared steps, and automated cases with no automated result in ' +
+    'the last N days. Each case gets a score out of 100 and a fix suggestion per finding; ' +
+    'pick rules with `rules`. Use the suggestions with qase_case_upsert or qase_case_bulk_update.',
+  schema: Schema,
+  handler,
+  annotations: ReadAnnotation,
+  visibility: 'discoverable',
+});
@@ -1,24 +1,42 @@
 import { z } from 'zod';
+import type { RunCreate } from 'qase-api-client';
 import { getApiClient } from '../../client/index.js';
 import { toolRegistry, CreateAnnotation } from '../../utils/registry.js';
 import { toResultAsync, createToolError } from '../../utils/errors.js';
 import { ProjectCodeSchema } from '../../utils/validation.js';
 import { CiReportOutput } from '../../utils/output-schemas.js';
 import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import { ResultStepSchema } from '../write/results.js';
+import {
+  RESULT_CHUNK_SIZE,
+  readResumeToken,
+  recordResultsChunked,
+  uploadFailureLines,
+  type UploadReport,
+} from '../write/result-chunks.js';
 
-const CaseResultSchema = z.object({
+export const CaseResultSchema = z.object({
   case_id: z.number().int().positive(),
   status: z.enum(['passed', 'failed', 'blocked', 'skipped', 'invalid']),
   comment: z.string().optional(),
   time_ms: z.number().int().min(0).optional(),
   stacktrace: z.string().optional(),
   defect: z.boolean().optional(),
+  steps: z.array(ResultStepSchema).optional(),
   attachments: z
     .array(z.string())
     .optional()
     .describe('Attachment hashes from qase_attachment_upload'),
 });
 
+export const ResumeTokenSchema = z
+  .string()
+  .optional()
+  .describe(
+    'Token from a previous call whose upload partly failed. Send it with the same results to ' +
+      'record only the chunks that failed, into the same run — no new run is created.',
+  );
+
 const Schema = z.object({
   code: ProjectCodeSchema,
   title: z.string().min(1).max(255).describe('Run title (e.g., "CI Build #1234")'),
@@ -34,44 +52,80 @@ const Schema = z.object({
     .optional()
     .default(true)
     .describe('Mark as automated run (default: true)'),
+  resume_token: ResumeTokenSchema,
 });
 
-async function handler(args: z.infer<typeof Schema>) {
+export type CaseResult = z.infer<typeof CaseResultSchema>;
+
+export type RunStatus = 'active' | 'complete' | 'complete_failed';
+
+/** Run-level options shared by every tool that reports a batch of results. */
+export interface ReportRunOptions {
+  title: string;
+  environment_id?: number;
+  complete: boolean;
+  is_autotest: boolean;
+  /** Resume a partly failed upload instead of creating a run. */
+  resume_token?: string;
+}
+
+/**
+ * Create a run over the reported cases, record the results in chunks, and
+ * optionally complete it. A failed completion is not an error — the run and
+ * its results already exist — and is reported as `complete_failed`.
+ *
+ * A run whose upload partly failed is left active, and the upload report
+ * carries a resume token; resuming records the missing chunks into that run
+ * and then completes it. A batch small enough for one call fails outright,
+ * as there is nothing partial to resume.
+ *
+ * @param context prefix for error messages, naming the calling tool
+ */
+export async function reportRun(
+  code: string,
+  options: ReportRunOptions,
+  results: CaseResult[],
+  context = 'CI report',
+): Promise<{ runId: number; runStatus: RunStatus; upload: UploadReport }> {
   const client = getApiClient();
-  const { code, title, environment_id, results, complete, is_autotest } = args;
+  const { title, environment_id, complete, is_autotest, resume_token } = options;
 
-  // Step 1: Create run
-  const runPayload: any = {
-    title,
-    is_autotest,
-    cases: results.map((r) => r.case_id),
-  };
-  if (environment_id) runPayload.environment_id = environment_id;
-
-  const runRes = await toResultAsync(client.runs.createRun(code, runPayload));
-  const run = runRes.match(
-    (r) => r.data.result,
-    (e) => {
-      throw createToolError(e, 'CI report: run creation failed');
-    },
-  );
+  let runId: number;
+  let pending: Set<number> | undefined;
+  if (resume_token) {
+    ({ runId, pending } = readResumeToken(resume_token, code, results));
+  } else {
+    // Step 1: Create run
+    const runPayload: RunCreate = {
+      title,
+      is_autotest,
+      cases: [...new Set(results.map((r) => r.case_id))],
+    };
+    if (environment_id) runPayload.environment_id = environment_id;
 
-  const runId = (run as any).id;
+    const runRes = await toResultAsync(client.runs.createRun(code, runPayload));
+    const run = runRes.match(
+      (r) => r.data.result,
+      (e) => {
+        throw createToolError(e, `${context}: run creation failed`);
+      },
+    );
 
-  // Step 2: Bulk record results
-  const bulkRes = await toResultAsync(
-    client.results.createResultBulk(code, runId, { results: results as any }),
-  );
-  bulkRes.match(
-    () => {},
-    (e) => {
-      throw createToolError(e, 'CI report: result recording failed');
-    },
-  );
+    runId = run?.id as number;
+  }
 
-  // Step 3: Complete run (optional)
-  let runStatus = 'active';
-  if (complete) {
+  // Step 2: Record results, one chunk per bulk call
+  const upload = await recordResultsChunked(code, runId, results, { pending });
+  if (upload.failed > 0 && results.length <= RESULT_CHUNK_SIZE) {
+    throw createToolError(
+      upload.chunks[0].error ?? 'Unknown error',
+      `${context}: result recording failed`,
+    );
+  }
+
+  // Step 3: Complete run (optional) — only once every result is in
+  let runStatus: RunStatus = 'active';
+  if (complete && upload.failed === 0) {
     const completeRes = await toResultAsync(client.runs.completeRun(code, runId));
     completeRes.match(
       () => {
@@ -83,6 +137,17 @@ async function handler(args: z.infer<typeof Schema>) {
     );
   }
 
+  return { runId, runStatus, upload };
+}
+
+/** Markdown lines for a reported run: header, counts table, and failed cases. */
+export function runReportLines(
+  heading: string,
+  code: string,
+  runId: number,
+  runStatus: RunStatus,
+  results: CaseResult[],
+): string[] {
   const passed = results.filter((r) => r.status === 'passed').length;
   const failed = results.filter((r) => r.status === 'failed').length;
   const blocked = results.filter((r) => r.status === 'blocked').length;
@@ -90,7 +155,7 @@ async function handler(args: z.infer<typeof Schema>) {
 
   const statusIcon = failed > 0 ? '🔴' : '🟢';
   const lines = [
-    `## ${statusIcon} CI Report: ${title}`,
+    `## ${statusIcon} ${heading}`,
     '',
     `- **Run ID:** ${runId}`,
     `- **Project:** ${code}`,
@@ -112,7 +177,29 @@ async function handler(args: z.infer<typeof Schema>) {
     }
   }
 
-  const structured = { run_id: runId, run_status: runStatus, results_recorded: results.length };
+  return lines;
+}
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { code, title, environment_id, results, complete, is_autotest, resume_token } = args;
+
+  const { runId, runStatus, upload } = await reportRun(
+    code,
+    { title, environment_id, complete, is_autotest, resume_token },
+    results,
+  );
+
+  const lines = [
+    ...runReportLines(`CI Report: ${title}`, code, runId, runStatus, results),
+    ...uploadFailureLines(upload, '`qase_ci_report`'),
+  ];
+  const structured = {
+    run_id: runId,
+    run_status: runStatus,
+    results_recorded: upload.recorded,
+    upload,
+    ...(upload.resume_token ? { resume_token: upload.resume_token } : {}),
+  };
 
   return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
 }
@@ -0,0 +1,178 @@
+/**
+ * Tests for qase_coverage_matrix — per-suite roll-ups, automation labels,
+ * defect linking through results, caching, and CSV output.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetSuites = jest.fn();
+const mockGetCases = jest.fn();
+const mockGetResults = jest.fn();
+const mockGetDefects = jest.fn();
+const mockGetSystemFields = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    suites: { getSuites: mockGetSuites },
+    cases: { getCases: mockGetCases },
+    results: { getResults: mockGetResults },
+    defects: { getDefects: mockGetDefects },
+    systemFields: { getSystemFields: mockGetSystemFields },
+  }),
+}));
+
+import './coverage-matrix.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { resetCacheForTest } from '../../cache/index.js';
+import { buildCoverageMatrix } from './coverage-matrix.js';
+
+const page = (entities: unknown[]) =>
+  Promise.resolve({ data: { status: true, result: { total: entities.length, entities } } });
+
+const SUITES = [
+  { id: 1, title: 'Auth', parent_id: null, position: 1 },
+  { id: 2, title: 'Login', parent_id: 1, position: 1 },
+  { id: 3, title: 'Billing', parent_id: null, position: 2 },
+];
+
+const CASES = [
+  { id: 10, suite_id: 1, automation: 2 },
+  { id: 11, suite_id: 2, automation: 0 },
+  { id: 12, suite_id: 2, automation: 2 },
+  { id: 13, suite_id: 3, automation: 1 },
+  { id: 14, suite_id: null, automation: 0 },
+];
+
+const RESULTS = [
+  { hash: 'a', case_id: 10, status: 'passed', end_time: '2026-10-10 10:00:00' },
+  { hash: 'b', case_id: 11, status: 'failed', end_time: '2026-10-12 10:00:00' },
+  { hash: 'c', case_id: 11, status: 'passed', end_time: '2026-10-11 10:00:00' },
+];
+
+function matrix(args: Record<string, unknown> = {}): Promise<any> {
+  return toolRegistry.getHandler('qase_coverage_matrix')!({ code: 'DEMO', ...args });
+}
+
+let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+beforeEach(async () => {
+  await resetCacheForTest();
+  mockGetSuites.mockReset().mockImplementation(() => page(SUITES));
+  mockGetCases.mockReset().mockImplementation(() => page(CASES));
+  mockGetResults.mockReset().mockImplementation(() => page(RESULTS));
+  mockGetDefects.mockReset().mockImplementation(() =>
+    page([
+      { id: 50, results: ['b', 'zzz'] },
+      { id: 51, results: [] },
+    ]),
+  );
+  mockGetSystemFields.mockReset().mockResolvedValue({
+    data: {
+      status: true,
+      result: [
+        {
+          slug: 'automation',
+          options: [
+            { id: 0, slug: 'manual', title: 'Manual' },
+            { id: 1, slug: 'to-be-automated', title: 'To be automated' },
+            { id: 2, slug: 'automated', title: 'Automated' },
+          ],
+        },
+      ],
+    },
+  });
+  consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  consoleErrorSpy.mockRestore();
+});
+
+describe('buildCoverageMatrix', () => {
+  it('rolls sub-suites into their parents and collects orphaned cases', () => {
+    const rows = buildCoverageMatrix(
+      [{ id: 1, title: 'Root', parent_id: null, cases_count: 1, children: [] }],
+      [
+        { id: 1, suite_id: 1, automation: 0 },
+        { id: 2, suite_id: 99, automation: 7 },
+      ],
+      new Map(),
+      new Map(),
+      { '0': 'Manual' },
+    );
+
+    expect(rows.map((r) => [r.path, r.cases, r.automation])).toEqual([
+      ['Root', 1, { Manual: 1 }],
+      ['(no suite)', 1, { 'automation 7': 1 }],
+    ]);
+  });
+});
+
+describe('qase_coverage_matrix', () => {
+  it('returns one row per suite with recursive counts', async () => {
+    const res = await matrix();
+    const rows = res.structuredContent.rows;
+
+    expect(rows.map((r: any) => [r.path, r.depth])).toEqual([
+      ['Auth', 0],
+      ['Auth / Login', 1],
+      ['Billing', 0],
+      ['(no suite)', 0],
+    ]);
+    expect(rows[0]).toEqual({
+      suite_id: 1,
+      title: 'Auth',
+      path: 'Auth',
+      depth: 0,
+      cases: 3,
+      automation: { Automated: 2, Manual: 1 },
+      executed: 2,
+      not_executed: 1,
+      last_status: 'failed',
+      last_executed_at: '2026-10-12 10:00:00',
+      defects: 1,
+    });
+    expect(rows[2]).toMatchObject({ cases: 1, executed: 0, last_status: null, defects: 0 });
+    expect(res.content[0].text).toContain('- **Cases:** 5, 2 executed, 3 not executed');
+    expect(res.content[0].text).toContain('| · Login ');
+  });
+
+  it('reuses the cached matrix until refresh is set', async () => {
+    await matrix();
+    const again = await matrix();
+    expect(again.structuredContent.cached).toBe(true);
+    expect(mockGetCases).toHaveBeenCalledTimes(1);
+
+    await matrix({ refresh: true });
+    expect(mockGetCases).toHaveBeenCalledTimes(2);
+
+    await matrix({ days: 7 });
+    expect(mockGetCases).toHaveBeenCalledTimes(3);
+  });
+
+  it('renders CSV with full paths', async () => {
+    const res = await matrix({ format: 'csv' });
+
+    expect(res.content[0].text.split('\r\n').slice(0, 3)).toEqual([
+      'Suite,Cases,Manual,To be automated,Automated,Executed (30d),Not executed,Last status,Last executed,Defects',
+      'Auth,3,1,0,2,2,1,failed,2026-10-12 10:00:00,1',
+      'Auth / Login,2,1,0,1,1,1,failed,2026-10-12 10:00:00,1',
+    ]);
+  });
+
+  it('falls back to the default automation labels without system fields', async () => {
+    mockGetSystemFields.mockRejectedValue(new Error('forbidden'));
+
+    const res = await matrix();
+
+    expect(res.structuredContent.automation_labels).toEqual([
+      'Manual',
+      'To be automated',
+      'Automated',
+    ]);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('forbidden'));
+  });
+});
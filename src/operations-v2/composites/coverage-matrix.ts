@@ -0,0 +1,365 @@
+import { z } from 'zod';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, ReadAnnotation } from '../../utils/registry.js';
+import { ProjectCodeSchema } from '../../utils/validation.js';
+import {
+  richResult,
+  summaryBlock,
+  dataBlock,
+  markdownTable,
+  csvTable,
+} from '../../utils/rich-response.js';
+import { getCache, buildCacheKey, hashToken } from '../../cache/index.js';
+import { getEffectiveToken } from '../../utils/auth-context.js';
+import { DEFAULT_AUTOMATION_LABELS, getSystemFieldLabels } from '../../utils/case-enums.js';
+import { fetchAllSuites, buildSuiteTree, type SuiteNode } from '../../utils/suite-tree.js';
+import { reportProgress } from '../../utils/server-context.js';
+import { latestByCase, loadAll, loadResultsSince, type RunResult } from './run-results.js';
+
+const DEFAULT_DAYS = 30;
+
+// Cases, results and defects all change while a team is testing, so the matrix
+// is only reused for a few minutes — long enough for follow-up questions.
+const MATRIX_TTL_MS = 5 * 60 * 1000;
+
+const Schema = z.object({
+  code: ProjectCodeSchema,
+  days: z
+    .number()
+    .int()
+    .min(1)
+    .max(365)
+    .optional()
+    .describe(
+      `Count a case as executed when it has a result in the last N days (default ${DEFAULT_DAYS})`,
+    ),
+  format: z
+    .enum(['markdown', 'csv'])
+    .optional()
+    .describe('Summary as a markdown table (default) or as CSV ready to save'),
+  refresh: z
+    .boolean()
+    .optional()
+    .describe('Rebuild the matrix instead of reusing one computed in the last 5 minutes'),
+});
+
+/** One row of the matrix: a suite with everything under it. */
+export interface SuiteCoverage {
+  /** null for the row of cases outside any suite. */
+  suite_id: number | null;
+  title: string;
+  /** Titles from the root down, joined with ` / `. */
+  path: string;
+  depth: number;
+  cases: number;
+  /** Case counts by automation label. */
+  automation: Record<string, number>;
+  executed: number;
+  not_executed: number;
+  last_status: string | null;
+  last_executed_at: string | null;
+  defects: number;
+}
+
+interface CaseRow {
+  id: number;
+  suite_id?: number | null;
+  automation?: number;
+}
+
+interface DefectRow {
+  id: number;
+  results?: string[];
+}
+
+/** Per-suite tallies before rolling them up the tree. */
+interface Tally {
+  cases: number;
+  automation: Record<string, number>;
+  executed: number;
+  last: RunResult | null;
+  defects: Set<number>;
+}
+
+const emptyTally = (): Tally => ({
+  cases: 0,
+  automation: {},
+  executed: 0,
+  last: null,
+  defects: new Set(),
+});
+
+const later = (a: RunResult | null, b: RunResult | null) =>
+  !a ? b : !b ? a : (b.end_time ?? '') > (a.end_time ?? '') ? b : a;
+
+function merge(into: Tally, from: Tally) {
+  into.cases += from.cases;
+  for (const [label, n] of Object.entries(from.automation)) {
+    into.automation[label] = (into.automation[label] ?? 0) + n;
+  }
+  into.executed += from.executed;
+  into.last = later(into.last, from.last);
+  for (const id of from.defects) into.defects.add(id);
+}
+
+const toRow = (
+  suiteId: number | null,
+  title: string,
+  path: string,
+  depth: number,
+  t: Tally,
+): SuiteCoverage => ({
+  suite_id: suiteId,
+  title,
+  path,
+  depth,
+  cases: t.cases,
+  automation: t.automation,
+  executed: t.executed,
+  not_executed: t.cases - t.executed,
+  last_status: t.last?.status ?? null,
+  last_executed_at: t.last?.end_time ?? null,
+  defects: t.defects.size,
+});
+
+/**
+ * Build the suite-by-metric matrix. Each suite's row covers its own cases and
+ * every sub-suite's, in tree order; a last row collects cases outside any
+ * suite, or in a suite missing from the tree, when there are some. Defects count once per suite however many of its
+ * cases they were reported from.
+ */
+export function buildCoverageMatrix(
+  tree: SuiteNode[],
+  cases: CaseRow[],
+  latest: Map<number, RunResult>,
+  defectsByCase: Map<number, Set<number>>,
+  automationLabels: Record<string, string>,
+): SuiteCoverage[] {
+  const direct = new Map<number | null, Tally>();
+  for (const c of cases) {
+    const suiteId = c.suite_id ?? null;
+    const tally = direct.get(suiteId) ?? emptyTally();
+    direct.set(suiteId, tally);
+
+    tally.cases++;
+    const label = automationLabels[String(c.automation ?? 0)] ?? `automation ${c.automation}`;
+    tally.automation[label] = (tally.automation[label] ?? 0) + 1;
+    const result = latest.get(c.id);
+    if (result) {
+      tally.executed++;
+      tally.last = later(tally.last, result);
+    }
+    for (const id of defectsByCase.get(c.id) ?? []) tally.defects.add(id);
+  }
+
+  const rows: SuiteCoverage[] = [];
+  const walk = (node: SuiteNode, prefix: string, depth: number): Tally => {
+    const path = prefix ? `${prefix} / ${node.title}` : node.title;
+    const index = rows.length;
+    rows.push(toRow(node.id, node.title, path, depth, emptyTally()));
+
+    const total = emptyTally();
+    merge(total, direct.get(node.id) ?? emptyTally());
+    direct.delete(node.id);
+    for (const child of node.children) merge(total, walk(child, path, depth + 1));
+    rows[index] = toRow(node.id, node.title, path, depth, total);
+    return total;
+  };
+  for (const root of tree) walk(root, '', 0);
+
+  if (direct.size > 0) {
+    const outside = emptyTally();
+    for (const tally of direct.values()) merge(outside, tally);
+    rows.push(toRow(null, '(no suite)', '(no suite)', 0, outside));
+  }
+  return rows;
+}
+
+/** Case ID → IDs of the defects reported from its results. */
+function defectsByCase(defects: DefectRow[], results: RunResult[]) {
+  const caseOfHash = new Map<string, number>();
+  for (const r of results) {
+    if (r.hash && r.case_id !== undefined) caseOfHash.set(r.hash, r.case_id);
+  }
+  const byCase = new Map<number, Set<number>>();
+  for (const d of defects) {
+    for (const hash of d.results ?? []) {
+      const caseId = caseOfHash.get(hash);
+      if (caseId === undefined) continue;
+      const set = byCase.get(caseId) ?? new Set<number>();
+      set.add(d.id);
+      byCase.set(caseId, set);
+    }
+  }
+  return byCase;
+}
+
+async function computeMatrix(code: string, days: number) {
+  const client = getApiClient();
+  const steps = 4;
+
+  const suites = await fetchAllSuites(code);
+  await reportProgress(1, steps, 'Loaded suites');
+
+  // getCases(code, search, milestoneId, suiteId, ..., limit, offset)
+  const cases = await loadAll<CaseRow>(
+    (limit, offset) =>
+      client.cases.getCases(
+        code,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        limit,
+        offset,
+      ),
+    'loading cases failed',
+  );
+  await reportProgress(2, steps, 'Loaded cases');
+
+  const results = await loadResultsSince(code, new Date(Date.now() - days * 86_400_000));
+  await reportProgress(3, steps, 'Loaded results');
+
+  const defects = await loadAll<DefectRow>(
+    (limit, offset) => client.defects.getDefects(code, undefined, limit, offset),
+    'loading defects failed',
+  );
+  await reportProgress(4, steps, 'Loaded defects');
+
+  let automationLabels = DEFAULT_AUTOMATION_LABELS;
+  try {
+    automationLabels = {
+      ...DEFAULT_AUTOMATION_LABELS,
+      ...(await getSystemFieldLabels()).automation,
+    };
+  } catch (error) {
+    console.error(
+      `[coverage] Could not load system fields, using default automation labels: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const rows = buildCoverageMatrix(
+    buildSuiteTree(suites.suites),
+    cases.entities,
+    latestByCase(results.entities),
+    defectsByCase(defects.entities, results.entities),
+    automationLabels,
+  );
+
+  return {
+    code,
+    days,
+    generated_at: new Date().toISOString(),
+    automation_labels: Object.values(automationLabels),
+    rows,
+    coverage: {
+      suites_truncated: suites.suites.length < suites.total,
+      cases_truncated: cases.entities.length < cases.total,
+      results_truncated: results.entities.length < results.total,
+      defects_truncated: defects.entities.length < defects.total,
+    },
+  };
+}
+
+type Matrix = Awaited<ReturnType<typeof computeMatrix>>;
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { code, days = DEFAULT_DAYS, format = 'markdown', refresh = false } = args;
+  const cache = await getCache();
+  const key = buildCacheKey({
+    host: process.env.QASE_API_DOMAIN || 'api.qase.io',
+    tenantId: hashToken(getEffectiveToken()),
+    resource: 'coverage_matrix',
+    scope: code,
+    params: { days },
+  });
+
+  let matrix = refresh ? undefined : await cache.get<Matrix>(key);
+  const cached = Boolean(matrix);
+  if (!matrix) {
+    matrix = await computeMatrix(code, days);
+    await cache.set(key, matrix, MATRIX_TTL_MS);
+  }
+
+  const labels = matrix.automation_labels;
+  const headers = [
+    'Suite',
+    'Cases',
+    ...labels,
+    `Executed (${days}d)`,
+    'Not executed',
+    'Last status',
+    'Last executed',
+    'Defects',
+  ];
+  // CSV rows carry the full path and leave missing values empty
+  const cells = (r: SuiteCoverage, csv: boolean) => [
+    csv ? r.path : `${'· '.repeat(r.depth)}${r.title}`,
+    String(r.cases),
+    ...labels.map((l) => String(r.automation[l] ?? 0)),
+    String(r.executed),
+    String(r.not_executed),
+    r.last_status ?? (csv ? '' : '-'),
+    r.last_executed_at ?? (csv ? '' : '-'),
+    String(r.defects),
+  ];
+
+  const structured = { ...matrix, cached };
+  if (format === 'csv') {
+    const csv = csvTable(
+      headers,
+      matrix.rows.map((r) => cells(r, true)),
+    );
+    return richResult([summaryBlock(csv), dataBlock(structured)], structured);
+  }
+
+  const truncated = Object.entries(matrix.coverage)
+    .filter(([, value]) => value)
+    .map(([name]) => name.replace('_truncated', ''));
+  const totals = matrix.rows.filter((r) => r.depth === 0);
+  const sum = (pick: (r: SuiteCoverage) => number) => totals.reduce((n, r) => n + pick(r), 0);
+  const lines = [
+    `## Coverage matrix for ${code} — last ${days} day(s)`,
+    '',
+    `- **Cases:** ${sum((r) => r.cases)}, ${sum((r) => r.executed)} executed, ${sum((r) => r.not_executed)} not executed`,
+    ...labels.map((l) => `- **${l}:** ${sum((r) => r.automation[l] ?? 0)}`),
+  ];
+  if (cached)
+    lines.push(`- Computed at ${matrix.generated_at}; pass \`refresh: true\` to rebuild.`);
+  if (truncated.length > 0) {
+    lines.push(`- ⚠️ Capped while loading ${truncated.join(', ')} — counts are partial.`);
+  }
+  if (matrix.rows.length > 0) {
+    lines.push(
+      '',
+      markdownTable(
+        headers,
+        matrix.rows.map((r) => cells(r, false)),
+      ),
+    );
+  }
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+toolRegistry.register({
+  name: 'qase_coverage_matrix',
+  description:
+    'Suite-by-metric coverage matrix for a project. Walks the whole suite tree and, for each ' +
+    'suite including its sub-suites, reports case count, the automation split (Manual / To be ' +
+    'automated / Automated), cases executed and not executed in the last N days (default ' +
+    `${DEFAULT_DAYS}), the status and time of the latest result, and defects reported from ` +
+    'those results. Answers "which suites have no automated coverage" and "which cases were ' +
+    'never run". Returns markdown or CSV; the matrix is reused for 5 minutes unless refresh is set.',
+  schema: Schema,
+  handler,
+  annotations: ReadAnnotation,
+  visibility: 'discoverable',
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for qase_find_duplicates — normalisation, clustering, keeper choice,
+ * suite scoping, and opening reviews for the duplicates.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetSuites = jest.fn();
+const mockGetCases = jest.fn();
+const mockSearch = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    suites: { getSuites: mockGetSuites },
+    cases: { getCases: mockGetCases },
+    search: { search: mockSearch },
+  }),
+}));
+
+import './find-duplicates.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { resetCacheForTest } from '../../cache/index.js';
+import { findDuplicates, normalizeWords, type CaseRow } from './find-duplicates.js';
+
+const page = (entities: unknown[], total = entities.length) =>
+  Promise.resolve({ data: { status: true, result: { total, entities } } });
+
+const LOGIN_STEPS = [
+  { action: 'Open the <b>login</b> page', expected_result: 'The form is shown' },
+  { action: 'Enter a valid email and password', expected_result: 'The dashboard opens' },
+];
+
+const CASES: CaseRow[] = [
+  { id: 1, title: 'Login with valid credentials', suite_id: 10, steps: LOGIN_STEPS },
+  {
+    id: 2,
+    title: 'Valid credentials login',
+    suite_id: 11,
+    automation: 2,
+    steps: LOGIN_STEPS,
+    tags: [{ title: 'smoke' }],
+  },
+  { id: 3, title: 'Login with valid credentials', suite_id: 12 },
+  { id: 4, title: 'Export invoices as PDF', suite_id: 10, steps: LOGIN_STEPS },
+  { id: 5, title: 'Export invoices as CSV', suite_id: 10 },
+];
+
+function find(args: Record<string, unknown> = {}): Promise<any> {
+  return toolRegistry.getHandler('qase_find_duplicates')!({ code: 'DEMO', ...args });
+}
+
+let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+beforeEach(async () => {
+  await resetCacheForTest();
+  consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockGetSuites.mockReset().mockImplementation(() =>
+    page([
+      { id: 10, title: 'Auth', parent_id: null },
+      { id: 11, title: 'Login', parent_id: 10 },
+      { id: 12, title: 'Billing', parent_id: null },
+    ]),
+  );
+  mockGetCases
+    .mockReset()
+    .mockImplementation((_code, _search, _milestone, suiteId) =>
+      page(suiteId === undefined ? CASES : CASES.filter((c) => c.suite_id === suiteId)),
+    );
+  mockSearch.mockReset().mockImplementation(() => page([{ id: 1 }]));
+});
+
+afterEach(() => {
+  consoleErrorSpy.mockRestore();
+});
+
+describe('normalizeWords', () => {
+  it('drops markup, accents, punctuation and filler words', () => {
+    expect(normalizeWords('Open the <b>Café</b> page, then click &quot;Save&quot;!')).toEqual([
+      'open',
+      'cafe',
+      'page',
+      'then',
+      'click',
+      'save',
+    ]);
+  });
+});
+
+describe('findDuplicates', () => {
+  it('clusters reworded cases but not cases that only share steps', () => {
+    const clusters = findDuplicates(CASES, 0.8);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].cases.map((c) => c.id)).toEqual([2, 1, 3]);
+    expect(clusters[0].keeper).toBe(2);
+    expect(clusters[0].keeper_reason).toBe('more automated');
+  });
+
+  it('prefers a case written by a person over an AI-generated one', () => {
+    const [cluster] = findDuplicates(CASES.slice(0, 2), 0.8, new Set([2]));
+
+    expect(cluster.keeper).toBe(1);
+    expect(cluster.keeper_reason).toBe('not AI-generated');
+    expect(cluster.cases.find((c) => c.id === 2)).toMatchObject({ ai_generated: true });
+  });
+
+  it('keeps a large set of identical copies in one cluster', () => {
+    const copies = Array.from({ length: 60 }, (_, i) => ({ ...CASES[0], id: 100 + i }));
+
+    const clusters = findDuplicates(copies, 0.9);
+
+    expect(clusters.map((c) => c.cases.length)).toEqual([60]);
+    expect(clusters[0]).toMatchObject({ keeper: 100, keeper_reason: 'oldest' });
+  });
+
+  it('finds nothing when the threshold is above every pair', () => {
+    expect(findDuplicates(CASES, 1).map((c) => c.cases.length)).toEqual([2]);
+    expect(findDuplicates(CASES.slice(1, 2), 0.5)).toEqual([]);
+  });
+});
+
+describe('qase_find_duplicates', () => {
+  it('compares only the cases under a suite, and ranks without QQL when it is unavailable', async () => {
+    mockSearch.mockImplementation(() => Promise.reject(new Error('QQL needs a Business plan')));
+
+    const res = await find({ suite_id: 10 });
+
+    // Case 3 is in another root suite, so only 10 and its child 11 are fetched
+    expect(mockGetCases.mock.calls.map((c) => c[3])).toEqual([10, 11]);
+    expect(res.structuredContent).toMatchObject({
+      cases_compared: 4,
+      ai_generated_known: false,
+      clusters_total: 1,
+    });
+    expect(res.structuredContent.clusters[0].cases.map((c: { id: number }) => c.id)).toEqual([
+      2, 1,
+    ]);
+    expect(res.content[0].text).toContain('### 1. Keep DEMO-2 (more automated)');
+    expect(res.content[0].text).toContain('AI-generated cases could not be identified');
+  });
+
+  it('reports a cap only for the cases of the requested suite', async () => {
+    mockGetCases.mockImplementation((_code, _search, _milestone, suiteId, ...rest) =>
+      suiteId === 11 && rest.at(-1) === 0 ? page([CASES[1]], 6000) : page([]),
+    );
+
+    const res = await find({ suite_id: 11 });
+
+    expect(res.structuredContent).toMatchObject({ cases_compared: 1, truncated: true });
+    expect(res.content[0].text).toContain('(capped — pick a sub-suite for the rest)');
+  });
+
+  it('proposes a deprecation review for each duplicate without opening any', async () => {
+    const res = await find();
+
+    expect(mockSearch).toHaveBeenCalledWith(
+      'entity = "case" and project = "DEMO" and isAiGenerated is true',
+      100,
+      0,
+    );
+    // Case 1 is AI-generated, so case 2 is kept and the other two are proposed for deprecation
+    expect(res.structuredContent.proposed_reviews).toEqual([
+      { case_id: 1, status: 'deprecated', tags: ['duplicate-of-DEMO-2'] },
+      { case_id: 3, status: 'deprecated', tags: ['duplicate-of-DEMO-2'] },
+    ]);
+    expect(res.content[0].text).toContain('pass `proposed_reviews` to `qase_review_bulk_create`');
+    expect(toolRegistry.getTool('qase_find_duplicates')!.annotations).toMatchObject({
+      readOnlyHint: true,
+    });
+  });
+});
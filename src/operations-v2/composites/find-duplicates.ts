@@ -0,0 +1,462 @@
+import { z } from 'zod';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, ReadAnnotation } from '../../utils/registry.js';
+import { ToolExecutionError, formatApiError } from '../../utils/errors.js';
+import { ProjectCodeSchema, IdSchema } from '../../utils/validation.js';
+import { fetchAll, type ListPage } from '../../utils/pagination.js';
+import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import { reportProgress } from '../../utils/server-context.js';
+import { fetchAllSuites, buildSuiteTree, suiteSubtreeIds } from '../../utils/suite-tree.js';
+import { loadCases } from './run-results.js';
+
+const DEFAULT_THRESHOLD = 0.8;
+const DEFAULT_LIMIT = 20;
+
+// MinHash signatures are split into BANDS bands of ROWS values; two cases
+// become a candidate pair when any band matches. 20×3 catches pairs above 0.5
+// Jaccard more than 9 times in 10, and every candidate is then scored exactly.
+const BANDS = 20;
+const ROWS = 3;
+
+// A band value shared by more cases than this usually comes from boilerplate
+// every case repeats (a common login step, say). Pairing all of them would be
+// quadratic in the project size, so such a bucket is only compared against its
+// first case — enough to still catch a large set of identical copies.
+const MAX_BUCKET = 50;
+
+const STOPWORDS = new Set(
+  'a an and are as at be by for from in is it of on or that the this to with'.split(' '),
+);
+
+const Schema = z.object({
+  code: ProjectCodeSchema,
+  suite_id: IdSchema.optional().describe('Only the cases in this suite and its sub-suites'),
+  threshold: z
+    .number()
+    .min(0.5)
+    .max(1)
+    .optional()
+    .describe(
+      `Similarity from 0.5 to 1 at which two cases count as duplicates (default ${DEFAULT_THRESHOLD})`,
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .optional()
+    .describe(`Clusters to return, largest and most similar first (default ${DEFAULT_LIMIT})`),
+});
+
+interface StepRow {
+  action?: string | null;
+  expected_result?: string | null;
+  data?: string | null;
+  shared_step_hash?: string | null;
+  steps?: StepRow[];
+}
+
+export interface CaseRow {
+  id: number;
+  title?: string;
+  preconditions?: string | null;
+  suite_id?: number | null;
+  automation?: number;
+  steps?: StepRow[];
+  tags?: Array<{ title?: string }>;
+}
+
+export interface DuplicateMember {
+  id: number;
+  title: string;
+  /** Similarity to the keeper; 1 for the keeper itself. */
+  similarity: number;
+  ai_generated?: boolean;
+}
+
+export interface DuplicateCluster {
+  keeper: number;
+  /** Why the keeper was picked over the rest. */
+  keeper_reason: string;
+  /** Lowest similarity between two cases of the cluster that were linked. */
+  min_similarity: number;
+  cases: DuplicateMember[];
+}
+
+/** Lowercased words without accents, markup or common filler words. */
+export function normalizeWords(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[a-z0-9#]+;/gi, ' ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 0 && !STOPWORDS.has(w));
+}
+
+/** Single words plus adjacent pairs, so reordering and small rewrites still overlap. */
+function shingles(words: string[]): Set<string> {
+  const out = new Set(words);
+  for (let i = 1; i < words.length; i++) out.add(`${words[i - 1]} ${words[i]}`);
+  return out;
+}
+
+function stepWords(steps: StepRow[] | undefined): string[] {
+  const words: string[] = [];
+  for (const step of steps ?? []) {
+    // A shared step has no text of its own; the same reference counts as the same step
+    if (step.shared_step_hash) words.push(`shared${step.shared_step_hash}`);
+    words.push(
+      ...normalizeWords(step.action),
+      ...normalizeWords(step.expected_result),
+      ...normalizeWords(step.data),
+      ...stepWords(step.steps),
+    );
+  }
+  return words;
+}
+
+interface Profile {
+  c: CaseRow;
+  title: Set<string>;
+  body: Set<string>;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const s of small) if (large.has(s)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Title and body (preconditions and steps) weigh the same, so cases that only
+ * share boilerplate steps stay apart. When either case has no body, only the
+ * titles are compared.
+ */
+function similarity(a: Profile, b: Profile): number {
+  const title = jaccard(a.title, b.title);
+  if (a.body.size === 0 || b.body.size === 0) return title;
+  return (title + jaccard(a.body, b.body)) / 2;
+}
+
+/** FNV-1a, then a murmur3 finaliser per seed — cheap, deterministic 32-bit hashes. */
+function hashString(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function mix(x: number, seed: number): number {
+  let h = (x ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+const SEEDS = Array.from({ length: BANDS * ROWS }, (_, i) => mix(i + 1, 0x9e3779b9));
+
+function minHash(items: Set<string>): number[] {
+  const signature = new Array<number>(SEEDS.length).fill(0xffffffff);
+  for (const item of items) {
+    const h = hashString(item);
+    for (let i = 0; i < SEEDS.length; i++) {
+      const v = mix(h, SEEDS[i]);
+      if (v < signature[i]) signature[i] = v;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Pairs of profile indexes whose title or body signatures agree on at least
+ * one band. Titles and bodies are banded apart because a pair scoring above
+ * the threshold is close on at least one of them, while a title-only case is
+ * never close to a full one taken as a whole.
+ */
+function candidatePairs(profiles: Profile[]): Array<[number, number]> {
+  const buckets = new Map<string, number[]>();
+  const addBands = (part: string, items: Set<string>, index: number) => {
+    if (items.size === 0) return;
+    const signature = minHash(items);
+    for (let band = 0; band < BANDS; band++) {
+      const key = `${part}${band}:${signature.slice(band * ROWS, (band + 1) * ROWS).join(',')}`;
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(index);
+      buckets.set(key, bucket);
+    }
+  };
+  profiles.forEach((p, index) => {
+    addBands('t', p.title, index);
+    addBands('b', p.body, index);
+  });
+
+  const seen = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+  for (const bucket of buckets.values()) {
+    const firsts = bucket.length > MAX_BUCKET ? 1 : bucket.length;
+    for (let i = 0; i < firsts; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = bucket[i] * profiles.length + bucket[j];
+        if (seen.has(key)) continue;
+        seen.add(key);
+        pairs.push([bucket[i], bucket[j]]);
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * The case to keep: written by a person rather than generated, then automated,
+ * then with the most steps, then with preconditions, then the oldest.
+ */
+function pickKeeper(cases: CaseRow[], aiGenerated: Set<number>): { id: number; reason: string } {
+  const rank = (c: CaseRow) => [
+    aiGenerated.has(c.id) ? 0 : 1,
+    c.automation ?? 0,
+    c.steps?.length ?? 0,
+    c.preconditions ? 1 : 0,
+    -c.id,
+  ];
+  const sorted = [...cases].sort((a, b) => {
+    const [ra, rb] = [rank(a), rank(b)];
+    const i = ra.findIndex((v, k) => v !== rb[k]);
+    return i === -1 ? 0 : rb[i] - ra[i];
+  });
+
+  const [keeper, runnerUp] = [sorted[0], sorted[1]];
+  const [rk, rr] = [rank(keeper), rank(runnerUp)];
+  const reasons = [
+    'not AI-generated',
+    'more automated',
+    'most steps',
+    'has preconditions',
+    'oldest',
+  ];
+  const decisive = rk.findIndex((v, k) => v !== rr[k]);
+  return { id: keeper.id, reason: decisive === -1 ? 'oldest' : reasons[decisive] };
+}
+
+/**
+ * Group cases into clusters of likely duplicates. Pairs at or above
+ * `threshold` are linked and linked cases form one cluster, so a cluster can
+ * hold cases that are each close to a third one rather than to each other.
+ * Clusters come largest first, then most similar.
+ */
+export function findDuplicates(
+  cases: CaseRow[],
+  threshold: number,
+  aiGenerated: Set<number> = new Set(),
+): DuplicateCluster[] {
+  const profiles: Profile[] = cases
+    .map((c) => ({
+      c,
+      title: shingles(normalizeWords(c.title)),
+      body: shingles([...normalizeWords(c.preconditions), ...stepWords(c.steps)]),
+    }))
+    .filter((p) => p.title.size > 0 || p.body.size > 0);
+
+  // Union-find over the linked pairs
+  const parent = profiles.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const linkScore = new Map<number, number>();
+  for (const [i, j] of candidatePairs(profiles)) {
+    const score = similarity(profiles[i], profiles[j]);
+    if (score < threshold) continue;
+    const [ri, rj] = [root(i), root(j)];
+    const lowest = Math.min(score, linkScore.get(ri) ?? 1, linkScore.get(rj) ?? 1);
+    parent[ri] = rj;
+    linkScore.set(rj, lowest);
+  }
+
+  const groups = new Map<number, number[]>();
+  profiles.forEach((_, i) => {
+    const group = groups.get(root(i)) ?? [];
+    group.push(i);
+    groups.set(root(i), group);
+  });
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const clusters: DuplicateCluster[] = [];
+  for (const [r, members] of groups) {
+    if (members.length < 2) continue;
+    const keeper = pickKeeper(
+      members.map((i) => profiles[i].c),
+      aiGenerated,
+    );
+    const keeperProfile = profiles[members.find((i) => profiles[i].c.id === keeper.id)!];
+    clusters.push({
+      keeper: keeper.id,
+      keeper_reason: keeper.reason,
+      min_similarity: round(linkScore.get(r) ?? 1),
+      cases: members
+        .map((i) => ({
+          id: profiles[i].c.id,
+          title: profiles[i].c.title ?? '',
+          similarity:
+            profiles[i] === keeperProfile ? 1 : round(similarity(keeperProfile, profiles[i])),
+          ...(aiGenerated.has(profiles[i].c.id) && { ai_generated: true }),
+        }))
+        .sort((a, b) => b.similarity - a.similarity || a.id - b.id),
+    });
+  }
+  return clusters.sort(
+    (a, b) => b.cases.length - a.cases.length || b.min_similarity - a.min_similarity,
+  );
+}
+
+/** IDs of AI-generated cases, via QQL — undefined when search is unavailable. */
+async function loadAiGenerated(code: string): Promise<Set<number> | undefined> {
+  const client = getApiClient();
+  try {
+    const page = await fetchAll(
+      (limit, offset): Promise<ListPage> =>
+        client.search
+          .search(
+            `entity = "case" and project = "${code}" and isAiGenerated is true`,
+            limit,
+            offset,
+          )
+          .then((r) => r.data.result ?? null),
+    );
+    return new Set(
+      ((page?.entities ?? []) as Array<{ id?: number }>)
+        .map((c) => c.id)
+        .filter((id): id is number => typeof id === 'number'),
+    );
+  } catch (error) {
+    // QQL needs a Business subscription; the report works without the flag
+    console.error(
+      `[duplicates] Could not look up AI-generated cases, ranking without them: ${formatApiError(error)}`,
+    );
+    return undefined;
+  }
+}
+
+/** A qase_review_bulk_create item proposing to deprecate a duplicate. */
+interface ProposedReview {
+  case_id: number;
+  status: 'deprecated';
+  tags: string[];
+}
+
+/**
+ * One review per non-keeper case in the clusters, keeping the case's tags —
+ * a proposed tag list replaces the old one.
+ */
+function proposeReviews(
+  code: string,
+  clusters: DuplicateCluster[],
+  cases: CaseRow[],
+): ProposedReview[] {
+  const byId = new Map(cases.map((c) => [c.id, c]));
+  const reviews: ProposedReview[] = [];
+  for (const cluster of clusters) {
+    for (const member of cluster.cases) {
+      if (member.id === cluster.keeper) continue;
+      const tags = (byId.get(member.id)?.tags ?? []).map((t) => String(t.title));
+      reviews.push({
+        case_id: member.id,
+        status: 'deprecated',
+        tags: [...tags, `duplicate-of-${code}-${cluster.keeper}`],
+      });
+    }
+  }
+  return reviews;
+}
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { code, suite_id, threshold = DEFAULT_THRESHOLD, limit = DEFAULT_LIMIT } = args;
+  const steps = suite_id === undefined ? 2 : 3;
+
+  let suites: Set<number> | undefined;
+  if (suite_id !== undefined) {
+    suites = suiteSubtreeIds(buildSuiteTree((await fetchAllSuites(code)).suites), suite_id);
+    if (suites.size === 0) {
+      throw new ToolExecutionError(
+        `Suite ${suite_id} was not found in project ${code}.`,
+        'Check the ID with qase_suite_tree.',
+      );
+    }
+    await reportProgress(1, steps, 'Loaded suites');
+  }
+
+  const { entities: cases, truncated } = await loadCases<CaseRow>(code, suites);
+  await reportProgress(steps - 1, steps, 'Loaded cases');
+
+  const aiGenerated = await loadAiGenerated(code);
+  const all = findDuplicates(cases, threshold, aiGenerated);
+  const clusters = all.slice(0, limit);
+  await reportProgress(steps, steps, 'Compared cases');
+
+  const narrower = suite_id === undefined ? 'narrow with suite_id' : 'pick a sub-suite';
+  const duplicates = all.reduce((n, c) => n + c.cases.length - 1, 0);
+  const lines = [
+    `## Likely duplicates in ${code}${suite_id !== undefined ? ` (suite ${suite_id})` : ''}`,
+    '',
+    `- **Cases compared:** ${cases.length}${truncated ? ` (capped — ${narrower} for the rest)` : ''}`,
+    `- **Clusters:** ${all.length}${all.length > clusters.length ? ` (showing ${clusters.length})` : ''}, ` +
+      `${duplicates} case(s) that duplicate a keeper`,
+  ];
+  if (!aiGenerated) lines.push('- AI-generated cases could not be identified (QQL unavailable).');
+  for (const [i, cluster] of clusters.entries()) {
+    lines.push(
+      '',
+      `### ${i + 1}. Keep ${code}-${cluster.keeper} (${cluster.keeper_reason})`,
+      '',
+      markdownTable(
+        ['Case', 'Title', 'Similarity'],
+        cluster.cases.map((c) => [
+          `${code}-${c.id}${c.id === cluster.keeper ? ' ✓' : ''}${c.ai_generated ? ' (AI)' : ''}`,
+          c.title || '-',
+          c.id === cluster.keeper ? 'keeper' : `${Math.round(c.similarity * 100)}%`,
+        ]),
+      ),
+    );
+  }
+  const proposedReviews = proposeReviews(code, clusters, cases);
+  if (proposedReviews.length > 0) {
+    lines.push(
+      '',
+      'To propose deprecating the duplicates, pass `proposed_reviews` to ' +
+        '`qase_review_bulk_create` — one edit review per duplicate.',
+    );
+  }
+
+  const structured = {
+    code,
+    ...(suite_id !== undefined && { suite_id }),
+    threshold,
+    cases_compared: cases.length,
+    truncated,
+    ai_generated_known: aiGenerated !== undefined,
+    clusters_total: all.length,
+    clusters,
+    proposed_reviews: proposedReviews,
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+toolRegistry.register({
+  name: 'qase_find_duplicates',
+  description:
+    'Find near-duplicate test cases in a project or suite (with its sub-suites). Compares ' +
+    'normalised titles, preconditions and steps locally — word shingles with MinHash to find ' +
+    'candidates, then exact similarity — and returns clusters of likely duplicates, each with ' +
+    'a suggested keeper (written by a person rather than AI-generated, then automated, most ' +
+    `steps, oldest). threshold sets how similar counts as duplicate (default ${DEFAULT_THRESHOLD}). ` +
+    'Also returns proposed_reviews, ready for qase_review_bulk_create: one edit review per ' +
+    'duplicate, proposing to deprecate it and tag it `duplicate-of-<code>-<keeper>`. Merging ' +
+    'stays in the Qase UI.',
+  schema: Schema,
+  handler,
+  annotations: ReadAnnotation,
+  visibility: 'discoverable',
+});
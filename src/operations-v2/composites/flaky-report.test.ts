@@ -0,0 +1,278 @@
+/**
+ * Tests for qase_flaky_report — flip scoring, the run/day windows, the suite
+ * filter, and marking the returned cases.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetRuns = jest.fn();
+const mockGetResults = jest.fn();
+const mockGetCases = jest.fn();
+const mockGetCase = jest.fn();
+const mockUpdateCase = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    runs: { getRuns: mockGetRuns },
+    results: { getResults: mockGetResults },
+    cases: { getCases: mockGetCases, getCase: mockGetCase, updateCase: mockUpdateCase },
+  }),
+}));
+
+import './flaky-report.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { progressStorage } from '../../utils/server-context.js';
+import { scoreFlakiness } from './flaky-report.js';
+
+const page = (entities: unknown[]) =>
+  Promise.resolve({ data: { status: true, result: { total: entities.length, entities } } });
+
+const result = (case_id: number, status: string, extra: Record<string, unknown> = {}) => ({
+  case_id,
+  status,
+  ...extra,
+});
+
+/** Results per run ID, as the results endpoint filters them. */
+function serveRuns(byRun: Record<number, unknown[]>) {
+  mockGetRuns.mockImplementation(() => page(Object.keys(byRun).map((id) => ({ id: Number(id) }))));
+  mockGetResults.mockImplementation((_code: string, _status: unknown, run: string) =>
+    page(byRun[Number(run)] ?? []),
+  );
+}
+
+function report(args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler('qase_flaky_report')!({ code: 'DEMO', ...args });
+}
+
+function mark(args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler('qase_flaky_mark')!({ code: 'DEMO', ...args });
+}
+
+beforeEach(() => {
+  for (const mock of [mockGetRuns, mockGetResults, mockGetCases, mockGetCase, mockUpdateCase]) {
+    mock.mockReset();
+  }
+  mockUpdateCase.mockResolvedValue({ data: { status: true } });
+});
+
+describe('scoreFlakiness', () => {
+  it('counts flips in end-time order and ranks by flip rate', () => {
+    const flaky = scoreFlakiness([
+      result(1, 'failed', { end_time: '2026-10-03 10:00:00', time_spent_ms: 300 }),
+      result(1, 'passed', { end_time: '2026-10-01 10:00:00', time_spent_ms: 100 }),
+      result(1, 'passed', { end_time: '2026-10-02 10:00:00', time_spent_ms: 200 }),
+      result(2, 'passed'),
+      result(2, 'failed'),
+      result(2, 'passed'),
+      result(3, 'passed'),
+      result(3, 'passed'),
+      result(3, 'passed'),
+    ]);
+
+    expect(flaky).toEqual([
+      {
+        case_id: 2,
+        executions: 3,
+        passes: 2,
+        failures: 1,
+        flips: 2,
+        flip_rate: 1,
+        failure_rate: 0.333,
+        mean_duration_ms: null,
+        last_status: 'passed',
+      },
+      {
+        case_id: 1,
+        executions: 3,
+        passes: 2,
+        failures: 1,
+        flips: 1,
+        flip_rate: 0.5,
+        failure_rate: 0.333,
+        mean_duration_ms: 200,
+        last_status: 'failed',
+      },
+    ]);
+  });
+
+  it('ignores skipped results and cases below the execution minimum', () => {
+    const flaky = scoreFlakiness([
+      result(1, 'passed'),
+      result(1, 'skipped'),
+      result(1, 'failed'),
+      result(2, 'passed'),
+      result(2, 'failed'),
+      result(2, 'passed'),
+    ]);
+
+    expect(flaky.map((c) => c.case_id)).toEqual([2]);
+  });
+});
+
+describe('qase_flaky_report', () => {
+  it('analyses the last runs oldest first and reports progress', async () => {
+    serveRuns({
+      1: [result(7, 'failed')],
+      2: [result(7, 'passed')],
+      3: [result(7, 'failed')],
+      4: [result(7, 'passed')],
+    });
+    const send = jest.fn().mockResolvedValue(undefined);
+
+    const res = await progressStorage.run({ token: 't', send }, () => report({ last_runs: 3 }));
+
+    expect(mockGetResults.mock.calls.map((c) => c[2])).toEqual(['2', '3', '4']);
+    expect(res.structuredContent.window).toEqual({ last_runs: 3, runs: 3 });
+    expect(res.structuredContent.flaky).toEqual([
+      expect.objectContaining({ case_id: 7, flips: 2, last_status: 'passed' }),
+    ]);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(res.content[0].text).toContain('## Flaky tests in DEMO — last 3 run(s)');
+    expect(res.content[0].text).toContain('| DEMO-7 ');
+  });
+
+  it('fetches only the last runs of a large project by offset', async () => {
+    const runs = (from: number, to: number) =>
+      Array.from({ length: to - from + 1 }, (_, i) => ({ id: from + i }));
+    mockGetRuns.mockImplementation((...args: unknown[]) => {
+      const offset = args[8] as number;
+      return Promise.resolve({
+        data: {
+          status: true,
+          result: { total: 250, entities: offset === 0 ? runs(1, 100) : runs(248, 250) },
+        },
+      });
+    });
+    mockGetResults.mockImplementation(() => page([]));
+
+    await report({ last_runs: 3 });
+
+    expect(mockGetRuns.mock.calls.map((c) => c[8])).toEqual([0, 247]);
+    expect(mockGetResults.mock.calls.map((c) => c[2])).toEqual(['248', '249', '250']);
+  });
+
+  it('filters results by end time for a day window', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    mockGetResults.mockImplementation(() =>
+      page([
+        result(5, 'passed', { run_id: 1 }),
+        result(5, 'failed', { run_id: 2 }),
+        result(5, 'passed', { run_id: 2 }),
+      ]),
+    );
+
+    try {
+      const res = await report({ days: 7 });
+
+      expect(mockGetResults.mock.calls[0][6]).toBe('2026-10-12 12:00:00');
+      expect(mockGetRuns).not.toHaveBeenCalled();
+      expect(res.structuredContent.window).toEqual({ days: 7, runs: 2 });
+      expect(res.structuredContent.flaky_total).toBe(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("compares a run's results with the filtered count, not the project total", async () => {
+    serveRuns({ 1: [], 2: [], 3: [] });
+    mockGetResults.mockImplementation(() =>
+      Promise.resolve({
+        data: {
+          status: true,
+          result: { total: 9000, filtered: 1, entities: [result(1, 'passed')] },
+        },
+      }),
+    );
+
+    const res = await report({});
+
+    expect(mockGetResults).toHaveBeenCalledTimes(3);
+    expect(res.structuredContent.truncated).toBe(false);
+    expect(res.content[0].text).not.toContain('capped');
+  });
+
+  it('keeps only cases in the given suites', async () => {
+    serveRuns({
+      1: [result(1, 'passed'), result(2, 'passed')],
+      2: [result(1, 'failed'), result(2, 'failed')],
+      3: [result(1, 'passed'), result(2, 'passed')],
+    });
+    mockGetCases.mockImplementation(() => page([{ id: 2 }]));
+
+    const res = await report({ suite_ids: [40] });
+
+    expect(mockGetCases.mock.calls[0][3]).toBe(40);
+    expect(res.structuredContent.flaky.map((c: any) => c.case_id)).toEqual([2]);
+  });
+
+  it('stays read-only and points at qase_flaky_mark for flagging', async () => {
+    serveRuns({
+      1: [result(1, 'passed')],
+      2: [result(1, 'failed')],
+      3: [result(1, 'passed')],
+    });
+
+    const res = await report({});
+
+    expect(toolRegistry.getTool('qase_flaky_report')!.annotations).toMatchObject({
+      readOnlyHint: true,
+    });
+    expect(mockUpdateCase).not.toHaveBeenCalled();
+    expect(res.content[0].text).toContain('call `qase_flaky_mark` with the same arguments');
+  });
+
+  it('rejects last_runs together with days', async () => {
+    await expect(report({ last_runs: 5, days: 7 })).rejects.toThrow(
+      'Pass either last_runs or days, not both',
+    );
+    expect(mockGetResults).not.toHaveBeenCalled();
+  });
+});
+
+describe('qase_flaky_mark', () => {
+  it('is a write tool, so read-only mode hides it', () => {
+    expect(toolRegistry.getTool('qase_flaky_mark')!.annotations).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: false,
+    });
+  });
+
+  it('marks the returned cases, adding the tag and keeping existing ones', async () => {
+    serveRuns({
+      1: [result(1, 'passed'), result(2, 'passed')],
+      2: [result(1, 'failed'), result(2, 'failed')],
+      3: [result(1, 'passed'), result(2, 'passed')],
+    });
+    mockGetCase.mockImplementation((_code: string, id: number) =>
+      Promise.resolve({
+        data: {
+          status: true,
+          result: { id, tags: id === 1 ? [{ title: 'ui' }] : [{ title: 'flaky' }] },
+        },
+      }),
+    );
+    mockUpdateCase.mockImplementation((_code: string, id: number) =>
+      id === 2 ? Promise.reject(new Error('forbidden')) : Promise.resolve({ data: {} }),
+    );
+
+    const res = await mark({ mark_flaky: true, tag: 'flaky' });
+
+    expect(mockUpdateCase).toHaveBeenCalledWith('DEMO', 1, { is_flaky: 1, tags: ['ui', 'flaky'] });
+    expect(mockUpdateCase).toHaveBeenCalledWith('DEMO', 2, { is_flaky: 1 });
+    expect(res.structuredContent.flaky.map((c: any) => c.case_id)).toEqual([1, 2]);
+    expect(res.structuredContent.marked).toEqual({
+      updated: [1],
+      failed: [{ id: 2, error: expect.stringContaining('forbidden') }],
+    });
+    expect(res.content[0].text).toContain('1 case(s) could not be updated');
+  });
+
+  it('requires mark_flaky or tag', async () => {
+    await expect(mark({})).rejects.toThrow('Pass mark_flaky, tag, or both.');
+    expect(mockGetResults).not.toHaveBeenCalled();
+  });
+});
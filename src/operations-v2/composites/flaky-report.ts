@@ -0,0 +1,298 @@
+import { z } from 'zod';
+import type { TestCaseUpdate } from 'qase-api-client';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, ReadAnnotation, UpdateAnnotation } from '../../utils/registry.js';
+import { ToolExecutionError, createToolError, formatApiError } from '../../utils/errors.js';
+import { ProjectCodeSchema } from '../../utils/validation.js';
+import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import { reportProgress } from '../../utils/server-context.js';
+import {
+  loadRecentRuns,
+  loadResultsSince,
+  loadRunResults,
+  loadSuiteCaseIds,
+  type RunResult,
+} from './run-results.js';
+
+const CONTEXT = 'Flaky report';
+
+const DEFAULT_LAST_RUNS = 10;
+
+const Schema = z.object({
+  code: ProjectCodeSchema,
+  last_runs: z
+    .number()
+    .int()
+    .min(2)
+    .max(50)
+    .optional()
+    .describe(`Analyse the results of the N most recent runs (default ${DEFAULT_LAST_RUNS})`),
+  days: z
+    .number()
+    .int()
+    .min(1)
+    .max(90)
+    .optional()
+    .describe('Analyse results that ended in the last N days instead of the last runs'),
+  suite_ids: z
+    .array(z.number().int().positive())
+    .optional()
+    .describe('Only cases directly in these suites'),
+  min_executions: z
+    .number()
+    .int()
+    .min(2)
+    .optional()
+    .describe('Ignore cases with fewer pass/fail results than this (default 3)'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .optional()
+    .describe('Flaky cases to return, highest flip rate first (default 20)'),
+});
+
+const MarkSchema = Schema.extend({
+  mark_flaky: z
+    .boolean()
+    .optional()
+    .describe('Set the isFlaky flag on every case in the returned list'),
+  tag: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Add this tag to every case in the returned list, keeping existing tags'),
+});
+
+export interface FlakyCase {
+  case_id: number;
+  /** Pass/fail results considered, oldest first. Skipped, blocked etc. are left out. */
+  executions: number;
+  passes: number;
+  failures: number;
+  /** Changes between pass and fail from one execution to the next. */
+  flips: number;
+  flip_rate: number;
+  failure_rate: number;
+  mean_duration_ms: number | null;
+  last_status: string;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const endTime = (r: RunResult) => {
+  const t = r.end_time ? Date.parse(r.end_time) : NaN;
+  return Number.isNaN(t) ? Infinity : t;
+};
+
+/**
+ * Per-case flakiness from a set of results. Only passed and failed results
+ * count; a case is flaky when its outcome flips at least once. Ranked by flip
+ * rate, then by how often it ran.
+ */
+export function scoreFlakiness(results: RunResult[], minExecutions = 3): FlakyCase[] {
+  const byCase = new Map<number, RunResult[]>();
+  for (const r of results) {
+    if (r.case_id === undefined || (r.status !== 'passed' && r.status !== 'failed')) continue;
+    const list = byCase.get(r.case_id) ?? [];
+    list.push(r);
+    byCase.set(r.case_id, list);
+  }
+
+  const flaky: FlakyCase[] = [];
+  for (const [caseId, list] of byCase) {
+    if (list.length < minExecutions) continue;
+    // Stable sort keeps load order (run by run) for results without an end time
+    list.sort((a, b) => endTime(a) - endTime(b));
+
+    let flips = 0;
+    for (let i = 1; i < list.length; i++) {
+      if (list[i].status !== list[i - 1].status) flips++;
+    }
+    if (flips === 0) continue;
+
+    const failures = list.filter((r) => r.status === 'failed').length;
+    const durations = list
+      .map((r) => r.time_spent_ms)
+      .filter((ms): ms is number => typeof ms === 'number');
+    flaky.push({
+      case_id: caseId,
+      executions: list.length,
+      passes: list.length - failures,
+      failures,
+      flips,
+      flip_rate: round(flips / (list.length - 1)),
+      failure_rate: round(failures / list.length),
+      mean_duration_ms: durations.length
+        ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length)
+        : null,
+      last_status: list[list.length - 1].status!,
+    });
+  }
+
+  return flaky.sort(
+    (a, b) => b.flip_rate - a.flip_rate || b.executions - a.executions || a.case_id - b.case_id,
+  );
+}
+
+/** Set isFlaky and/or add a tag on each case; failures are collected, not thrown. */
+async function markCases(code: string, caseIds: number[], markFlaky: boolean, tag?: string) {
+  const client = getApiClient();
+  const updated: number[] = [];
+  const failed: Array<{ id: number; error: string }> = [];
+
+  for (const id of caseIds) {
+    try {
+      const payload: TestCaseUpdate = {};
+      if (markFlaky) payload.is_flaky = 1;
+      if (tag) {
+        const res = await client.cases.getCase(code, id);
+        const tags = (res.data.result?.tags ?? []).flatMap((t) => (t.title ? [t.title] : []));
+        if (!tags.includes(tag)) payload.tags = [...tags, tag];
+      }
+      if (Object.keys(payload).length > 0) {
+        await client.cases.updateCase(code, id, payload);
+      }
+      updated.push(id);
+    } catch (error) {
+      failed.push({ id, error: formatApiError(error) });
+    }
+  }
+  return { updated, failed };
+}
+
+/** Load the window's results and score them: the report both tools share. */
+async function analyse(args: z.infer<typeof Schema>) {
+  const { code, days, suite_ids, min_executions = 3, limit = 20 } = args;
+  if (days !== undefined && args.last_runs !== undefined) {
+    throw createToolError('Pass either last_runs or days, not both', CONTEXT);
+  }
+
+  let results: RunResult[];
+  let window: Record<string, number>;
+  let truncated = false;
+  if (days !== undefined) {
+    const loaded = await loadResultsSince(code, new Date(Date.now() - days * 86_400_000));
+    results = loaded.entities;
+    truncated = loaded.entities.length < loaded.total;
+    window = { days, runs: new Set(results.map((r) => r.run_id)).size };
+  } else {
+    const lastRuns = args.last_runs ?? DEFAULT_LAST_RUNS;
+    // Oldest first, so results load in the order the runs happened
+    const runs = (await loadRecentRuns(code, lastRuns)).reverse();
+    results = [];
+    for (const [i, run] of runs.entries()) {
+      const loaded = await loadRunResults(code, run.id);
+      results.push(...loaded.entities);
+      if (loaded.entities.length < loaded.total) truncated = true;
+      await reportProgress(i + 1, runs.length, `Loaded results of ${i + 1} of ${runs.length} runs`);
+    }
+    window = { last_runs: lastRuns, runs: runs.length };
+  }
+
+  if (suite_ids?.length) {
+    const inSuites = await loadSuiteCaseIds(code, suite_ids);
+    results = results.filter((r) => r.case_id !== undefined && inSuites.has(r.case_id));
+  }
+
+  const scored = scoreFlakiness(results, min_executions);
+  const flaky = scored.slice(0, limit);
+
+  const scope = days !== undefined ? `last ${days} day(s)` : `last ${window.runs} run(s)`;
+  const lines = [
+    `## Flaky tests in ${code} — ${scope}`,
+    '',
+    `- **Results analysed:** ${results.length}${truncated ? ' (capped — narrow the window for the rest)' : ''}`,
+    `- **Flaky cases:** ${scored.length}${scored.length > flaky.length ? ` (showing ${flaky.length})` : ''}`,
+  ];
+  if (flaky.length > 0) {
+    lines.push(
+      '',
+      markdownTable(
+        ['Case', 'Runs', 'Flips', 'Flip rate', 'Fail rate', 'Mean duration', 'Last'],
+        flaky.map((c) => [
+          `${code}-${c.case_id}`,
+          String(c.executions),
+          String(c.flips),
+          `${Math.round(c.flip_rate * 100)}%`,
+          `${Math.round(c.failure_rate * 100)}%`,
+          c.mean_duration_ms === null ? '-' : `${c.mean_duration_ms} ms`,
+          c.last_status,
+        ]),
+      ),
+    );
+  }
+
+  const structured = {
+    code,
+    window,
+    results_analyzed: results.length,
+    truncated,
+    flaky_total: scored.length,
+    flaky,
+  };
+  return { lines, structured };
+}
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { lines, structured } = await analyse(args);
+  if (structured.flaky.length > 0) {
+    lines.push(
+      '',
+      'To flag these cases, call `qase_flaky_mark` with the same arguments and ' +
+        '`mark_flaky` or `tag`.',
+    );
+  }
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+async function markHandler(args: z.infer<typeof MarkSchema>) {
+  const { mark_flaky = false, tag } = args;
+  if (!mark_flaky && !tag) {
+    throw new ToolExecutionError(
+      'Pass mark_flaky, tag, or both.',
+      'Use qase_flaky_report to only list the flaky cases.',
+    );
+  }
+  const { lines, structured } = await analyse(args);
+
+  const ids = structured.flaky.map((c) => c.case_id);
+  const marked =
+    ids.length > 0 ? await markCases(args.code, ids, mark_flaky, tag) : { updated: [], failed: [] };
+  const what = [mark_flaky && 'isFlaky', tag && `tag "${tag}"`].filter(Boolean).join(' and ');
+  lines.push('', `Set ${what} on ${marked.updated.length} case(s).`);
+  if (marked.failed.length > 0) {
+    lines.push(`⚠️ ${marked.failed.length} case(s) could not be updated — see \`marked.failed\`.`);
+  }
+
+  const result = { ...structured, marked };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(result)], result);
+}
+
+toolRegistry.register({
+  name: 'qase_flaky_report',
+  description:
+    'Find flaky tests from recent run history. Loads the results of the last N runs (default ' +
+    `${DEFAULT_LAST_RUNS}) or of the last N days, optionally limited to some suites, and ` +
+    'scores each case: flips between pass and fail, flip rate, failure rate, and mean ' +
+    'duration. Returns the cases that flipped, highest flip rate first; flag them with ' +
+    'qase_flaky_mark. Works without QQL.',
+  schema: Schema,
+  handler,
+  annotations: ReadAnnotation,
+  visibility: 'discoverable',
+});
+
+toolRegistry.register({
+  name: 'qase_flaky_mark',
+  description:
+    'Run the qase_flaky_report analysis and flag the cases it returns: `mark_flaky` sets ' +
+    'isFlaky and `tag` adds a tag, keeping existing tags. Takes the same window, suite and ' +
+    'limit options as the report. Cases that fail to update are listed under ' +
+    '`marked.failed` rather than aborting the rest.',
+  schema: MarkSchema,
+  handler: markHandler,
+  annotations: UpdateAnnotation,
+  visibility: 'discoverable',
+});
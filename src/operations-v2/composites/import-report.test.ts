@@ -0,0 +1,318 @@
+/**
+ * Tests for qase_import_report and qase_import_junit.
+ *
+ * A report is mapped to cases in three passes — explicit markers, then exact
+ * titles, then (when asked) newly created cases — and only mapped tests reach
+ * the run. The run itself goes through the same flow as qase_ci_report.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetCases = jest.fn();
+const mockBulkCases = jest.fn();
+const mockCreateRun = jest.fn();
+const mockCreateResultBulk = jest.fn();
+const mockCompleteRun = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    cases: { getCases: mockGetCases, bulk: mockBulkCases },
+    runs: { createRun: mockCreateRun, completeRun: mockCompleteRun },
+    results: { createResultBulk: mockCreateResultBulk },
+  }),
+}));
+
+import './import-report.js';
+import { toolRegistry } from '../../utils/registry.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+
+function invoke(args: Record<string, unknown>, tool = 'qase_import_junit') {
+  const handler = toolRegistry.getHandler(tool)!;
+  return handler(args) as Promise<any>;
+}
+
+function importReport(args: Record<string, unknown>) {
+  return invoke({ code: 'DEMO', title: 'Build 1', ...args }, 'qase_import_report');
+}
+
+const REPORT = `<testsuites>
+  <testsuite name="auth">
+    <testcase classname="LoginTest" name="@QaseID(12) logs in" time="0.2"/>
+    <testcase classname="LoginTest" name="Rejects a  bad password">
+      <failure message="expected 401">stack</failure>
+    </testcase>
+    <testcase classname="LoginTest" name="locks the account"/>
+    <testcase classname="LoginTest" name="shared title"/>
+  </testsuite>
+</testsuites>`;
+
+function recordedResults(): any[] {
+  return mockCreateResultBulk.mock.calls[0][2].results;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetCases.mockImplementation(() =>
+    ok({
+      total: 3,
+      entities: [
+        { id: 20, title: 'rejects a bad password' },
+        { id: 21, title: 'Shared title' },
+        { id: 22, title: 'shared title' },
+      ],
+    }),
+  );
+  mockBulkCases.mockImplementation(() => ok({ ids: [90] }));
+  mockCreateRun.mockImplementation(() => ok({ id: 7 }));
+  mockCreateResultBulk.mockImplementation(() => ok(true));
+  mockCompleteRun.mockImplementation(() => ok(true));
+});
+
+describe('qase_import_junit — mapping', () => {
+  it('maps by marker, then by exact title, and reports the rest', async () => {
+    const result = await invoke({ code: 'DEMO', title: 'Build 1', xml: REPORT });
+
+    expect(recordedResults()).toEqual([
+      { case_id: 12, status: 'passed', time_ms: 200 },
+      { case_id: 20, status: 'failed', comment: 'expected 401', stacktrace: 'stack' },
+    ]);
+    expect(result.structuredContent).toMatchObject({
+      run_id: 7,
+      run_status: 'complete',
+      results_recorded: 2,
+      matched_by_marker: 1,
+      matched_by_title: 1,
+      created_case_ids: [],
+      unmatched: [
+        { title: 'locks the account', classname: 'LoginTest', reason: 'no_match' },
+        { title: 'shared title', classname: 'LoginTest', reason: 'ambiguous_title' },
+      ],
+    });
+  });
+
+  it('skips the case lookup when title matching is off', async () => {
+    const result = await invoke({
+      code: 'DEMO',
+      title: 'Build 1',
+      xml: REPORT,
+      match_by_title: false,
+    });
+
+    expect(mockGetCases).not.toHaveBeenCalled();
+    expect(result.structuredContent.results_recorded).toBe(1);
+  });
+
+  it('creates automated cases for unmatched tests when asked', async () => {
+    const result = await invoke({
+      code: 'DEMO',
+      title: 'Build 1',
+      xml: REPORT,
+      create_missing: true,
+      suite_id: 5,
+    });
+
+    expect(mockBulkCases).toHaveBeenCalledWith('DEMO', {
+      cases: [{ title: 'locks the account', suite_id: 5, isManual: 0 }],
+    });
+    expect(result.structuredContent.created_case_ids).toEqual([90]);
+    expect(recordedResults().map((r) => r.case_id)).toEqual([12, 20, 90]);
+  });
+
+  it('does not create yet another case for an ambiguous title', async () => {
+    const result = await invoke({
+      code: 'DEMO',
+      title: 'Build 1',
+      xml: REPORT,
+      create_missing: true,
+    });
+
+    const titles = mockBulkCases.mock.calls[0][1].cases.map((c: any) => c.title);
+    expect(titles).not.toContain('shared title');
+    expect(result.structuredContent.unmatched).toEqual([
+      { title: 'shared title', classname: 'LoginTest', reason: 'ambiguous_title' },
+    ]);
+  });
+
+  it('accepts the report as base64', async () => {
+    await invoke({
+      code: 'DEMO',
+      title: 'Build 1',
+      xml_base64: Buffer.from(REPORT).toString('base64'),
+    });
+
+    expect(mockCreateRun).toHaveBeenCalledWith('DEMO', {
+      title: 'Build 1',
+      is_autotest: true,
+      cases: [12, 20],
+    });
+  });
+});
+
+describe('qase_import_junit — resuming', () => {
+  // One new test and 100 marked ones: two result chunks, the second of which fails
+  const LARGE = `<testsuite><testcase name="locks the account"/>${Array.from(
+    { length: 100 },
+    (_, i) => `<testcase name="@QaseID(${i + 100}) test ${i}"/>`,
+  ).join('')}</testsuite>`;
+
+  it('finds the cases the first call created instead of creating them again', async () => {
+    mockCreateResultBulk
+      .mockImplementationOnce(() => ok(true))
+      .mockImplementationOnce(() => Promise.reject(new Error('Server error')));
+    const args = { code: 'DEMO', title: 'Build 1', xml: LARGE, create_missing: true };
+    const first = await invoke(args);
+    expect(recordedResults()[0]).toMatchObject({ case_id: 90 });
+
+    jest.clearAllMocks();
+    mockGetCases.mockImplementation(() =>
+      ok({ total: 1, entities: [{ id: 90, title: 'locks the account' }] }),
+    );
+    const resumed = await invoke({ ...args, resume_token: first.structuredContent.resume_token });
+
+    expect(mockBulkCases).not.toHaveBeenCalled();
+    expect(mockCreateRun).not.toHaveBeenCalled();
+    expect(mockCreateResultBulk).toHaveBeenCalledTimes(1);
+    expect(resumed.structuredContent).toMatchObject({ run_id: 7, created_case_ids: [] });
+  });
+
+  it('rejects a bad token before changing anything', async () => {
+    await expect(
+      invoke({
+        code: 'DEMO',
+        title: 'Build 1',
+        xml: REPORT,
+        create_missing: true,
+        resume_token: 'bogus',
+      }),
+    ).rejects.toThrow('resume_token is not a valid resume token');
+    expect(mockBulkCases).not.toHaveBeenCalled();
+    expect(mockCreateResultBulk).not.toHaveBeenCalled();
+  });
+});
+
+describe('qase_import_junit — failures', () => {
+  it('creates no run when nothing maps', async () => {
+    await expect(
+      invoke({
+        code: 'DEMO',
+        title: 'Build 1',
+        xml: '<testsuite><testcase name="unknown"/></testsuite>',
+      }),
+    ).rejects.toThrow(/None of the 1 tests/);
+    expect(mockCreateRun).not.toHaveBeenCalled();
+  });
+
+  it('explains a malformed report', async () => {
+    await expect(
+      invoke({ code: 'DEMO', title: 'Build 1', xml: '<testsuites><testsuite>' }),
+    ).rejects.toThrow(/Could not read the report: .*unclosed element/);
+  });
+
+  it('rejects base64 that is not XML', async () => {
+    await expect(
+      invoke({
+        code: 'DEMO',
+        title: 'Build 1',
+        xml_base64: Buffer.from('hello').toString('base64'),
+      }),
+    ).rejects.toThrow(/does not decode to an XML or JSON report/);
+  });
+
+  it('requires a report', async () => {
+    await expect(invoke({ code: 'DEMO', title: 'Build 1' })).rejects.toThrow(
+      /A JUnit report is required/,
+    );
+  });
+});
+
+describe('qase_import_report — formats', () => {
+  const TRX = `<TestRun xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">
+    <Results>
+      <UnitTestResult testId="a" testName="Rejects a bad password" outcome="Failed"/>
+    </Results>
+  </TestRun>`;
+
+  const CUCUMBER = JSON.stringify([
+    {
+      uri: 'login.feature',
+      name: 'Login',
+      elements: [
+        {
+          type: 'scenario',
+          name: 'Logs in',
+          tags: [{ name: '@QaseID=12' }],
+          steps: [{ keyword: 'When ', name: 'I log in', result: { status: 'passed' } }],
+        },
+      ],
+    },
+  ]);
+
+  it('detects the format from content and reports it', async () => {
+    const result = await importReport({ content: TRX });
+
+    expect(recordedResults()).toEqual([{ case_id: 20, status: 'failed' }]);
+    expect(result.structuredContent.formats).toEqual(['trx']);
+    expect(result.content[0].text).toContain('Visual Studio TRX');
+  });
+
+  it('records Cucumber steps as result steps', async () => {
+    await importReport({ content: CUCUMBER });
+
+    expect(recordedResults()).toEqual([
+      {
+        case_id: 12,
+        status: 'passed',
+        steps: [{ position: 1, status: 'passed', comment: 'When I log in' }],
+      },
+    ]);
+  });
+
+  it('honours an explicit format', async () => {
+    await expect(importReport({ content: CUCUMBER, format: 'allure' })).rejects.toThrow(
+      /expected Allure results/,
+    );
+  });
+
+  it('reads every report file in a local directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'allure-results-'));
+    try {
+      const result = (status: string, stop: number) =>
+        JSON.stringify({
+          uuid: `u${stop}`,
+          historyId: 'h',
+          name: 'Logs in (Qase ID: 12)',
+          status,
+          start: 0,
+          stop,
+        });
+      writeFileSync(join(dir, 'a-result.json'), result('failed', 10));
+      writeFileSync(join(dir, 'b-result.json'), result('passed', 20));
+      writeFileSync(join(dir, 'c-container.json'), '{"uuid":"c","children":[]}');
+      writeFileSync(join(dir, 'screenshot.png'), 'not a report');
+
+      await importReport({ path: dir });
+
+      expect(recordedResults()).toEqual([{ case_id: 12, status: 'passed', time_ms: 20 }]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('explains a missing local path', async () => {
+    await expect(importReport({ path: '/nonexistent/allure-results' })).rejects.toThrow(
+      /No file or directory/,
+    );
+  });
+
+  it('requires exactly one source', async () => {
+    await expect(importReport({})).rejects.toThrow(/A test report is required/);
+    await expect(importReport({ content: TRX, path: '/tmp' })).rejects.toThrow(/exactly one/);
+  });
+});
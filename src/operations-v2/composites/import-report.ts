@@ -0,0 +1,486 @@
+import { z } from 'zod';
+import type { TestCasebulkCasesInner } from 'qase-api-client';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, CreateAnnotation } from '../../utils/registry.js';
+import { toResultAsync, createToolError, ToolExecutionError } from '../../utils/errors.js';
+import { ProjectCodeSchema } from '../../utils/validation.js';
+import { ImportReportOutput } from '../../utils/output-schemas.js';
+import { richResult, summaryBlock, dataBlock } from '../../utils/rich-response.js';
+import { fetchAll, PAGE_SIZE, type ListPage } from '../../utils/pagination.js';
+import {
+  REPORT_FORMATS,
+  getReportParser,
+  loadReportDocument,
+  parseReport,
+  type ParsedReport,
+  type ParsedTest,
+  type ReportDocument,
+  type ReportFormat,
+} from '../../report-parsers/index.js';
+import { toCaseWrite } from '../write/case-fields.js';
+import { uploadFailureLines } from '../write/result-chunks.js';
+import { ResumeTokenSchema, reportRun, runReportLines, type CaseResult } from './ci-report.js';
+
+const CONTEXT = 'Report import';
+
+/** Unmatched tests listed in the summary; the structured output has them all. */
+const MAX_LISTED_UNMATCHED = 20;
+
+/** Files read from a report directory; anything else (screenshots, logs) is skipped. */
+const REPORT_EXTENSIONS = new Set(['.xml', '.trx', '.json']);
+
+/** Run and mapping options shared by both import tools. */
+const ImportOptions = {
+  code: ProjectCodeSchema,
+  title: z.string().min(1).max(255).describe('Run title (e.g., "CI Build #1234")'),
+  environment_id: z.number().int().positive().optional(),
+  match_by_title: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe(
+      'Map tests without a Qase ID marker to existing cases with the same title ' +
+        '(case-insensitive, exact). Ambiguous titles are left unmatched. Default: true',
+    ),
+  create_missing: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Create an automated case for each test that still has no case. Titles shared by ' +
+        'several existing cases are left unmatched. Default: false',
+    ),
+  suite_id: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Suite for cases created by create_missing'),
+  complete: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Complete the run after recording results (default: true)'),
+  is_autotest: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Mark as automated run (default: true)'),
+  resume_token: ResumeTokenSchema,
+};
+
+const JunitSchema = z.object({
+  ...ImportOptions,
+  xml: z.string().optional().describe('JUnit XML report as text'),
+  xml_base64: z
+    .string()
+    .optional()
+    .describe('JUnit XML report, base64 encoded. Use instead of `xml` for binary-safe transport.'),
+});
+
+const ReportSchema = z.object({
+  ...ImportOptions,
+  format: z
+    .enum(['auto', ...REPORT_FORMATS])
+    .optional()
+    .default('auto')
+    .describe(
+      'Report format. "auto" (default) detects it from the content: JUnit XML, TRX, ' +
+        'NUnit 3 XML, xUnit v2 XML, Cucumber JSON, or Allure result JSON.',
+    ),
+  content: z
+    .string()
+    .optional()
+    .describe(
+      'Report file as text. For Allure, one result object or a JSON array of result objects.',
+    ),
+  content_base64: z
+    .string()
+    .optional()
+    .describe('Report file, base64 encoded. Use instead of `content` for binary-safe transport.'),
+  path: z
+    .string()
+    .optional()
+    .describe(
+      'Absolute path to a report file, or a directory of them (e.g. allure-results), on the ' +
+        'machine running THIS server. Only usable for a local stdio server — send content ' +
+        'otherwise.',
+    ),
+});
+
+type ImportArgs = z.infer<typeof ReportSchema>;
+
+interface UnmatchedTest {
+  title: string;
+  classname?: string;
+  reason: 'no_match' | 'ambiguous_title';
+}
+
+/** Title key for matching: case-insensitive, whitespace-normalised. */
+function titleKey(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function parseArgs<T extends z.ZodTypeAny>(schema: T, rawArgs: unknown): z.infer<T> {
+  // Tool handlers get raw MCP arguments — parse here so the defaults apply.
+  const parsed = schema.safeParse(rawArgs);
+  if (!parsed.success) {
+    const details = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+      .join('; ');
+    throw createToolError(`Invalid arguments — ${details}`, CONTEXT);
+  }
+  return parsed.data;
+}
+
+function decodeBase64(value: string, field: string): string {
+  const text = Buffer.from(value, 'base64').toString('utf8');
+  const start = text.replace(/^\uFEFF/, '').trimStart()[0];
+  if (start !== '<' && start !== '{' && start !== '[') {
+    throw new ToolExecutionError(
+      `${field} does not decode to an XML or JSON report.`,
+      'Base64-encode the raw report file, or pass its text instead.',
+    );
+  }
+  return text;
+}
+
+/** Read a report file, or every report file directly inside a directory. */
+function readLocalReport(path: string): ReportDocument[] {
+  if (!existsSync(path)) {
+    throw new ToolExecutionError(
+      `No file or directory at "${path}" on the machine running this server.`,
+      'If the server is remote (for example the hosted connector) it cannot read your local ' +
+        'filesystem — pass the report as content or content_base64.',
+    );
+  }
+  if (!statSync(path).isDirectory()) {
+    return [loadReportDocument(basename(path), readFileSync(path, 'utf8'))];
+  }
+
+  const files = readdirSync(path)
+    .filter((name) => REPORT_EXTENSIONS.has(extname(name).toLowerCase()))
+    .sort();
+  if (files.length === 0) {
+    throw new ToolExecutionError(`No .xml, .trx, or .json files in "${path}".`);
+  }
+  return files.map((name) => loadReportDocument(name, readFileSync(join(path, name), 'utf8')));
+}
+
+/**
+ * Index every case in the project by title. Titles shared by more than one
+ * case map to null, so they are reported as ambiguous instead of guessed.
+ */
+async function fetchCaseTitles(code: string): Promise<Map<string, number | null>> {
+  const client = getApiClient();
+
+  const page = await fetchAll(async (limit, offset): Promise<ListPage> => {
+    // getCases(code, search, milestoneId, suiteId, ..., include, limit, offset)
+    const res = await toResultAsync(
+      client.cases.getCases(
+        code,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        limit,
+        offset,
+      ),
+    );
+    return res.match(
+      (r) => r.data.result as ListPage,
+      (e) => {
+        throw createToolError(e, `${CONTEXT}: loading cases for title matching failed`);
+      },
+    );
+  });
+
+  const titles = new Map<string, number | null>();
+  for (const c of (page?.entities ?? []) as Array<{ id: number; title?: string }>) {
+    if (!c.title) continue;
+    const key = titleKey(c.title);
+    titles.set(key, titles.has(key) ? null : c.id);
+  }
+  return titles;
+}
+
+/**
+ * Create one automated case per distinct title, in batches of one page.
+ * Returns the new case ID for each title key.
+ */
+async function createCases(
+  code: string,
+  tests: ParsedTest[],
+  suiteId: number | undefined,
+): Promise<Map<string, number>> {
+  const client = getApiClient();
+
+  const distinct = new Map<string, string>();
+  for (const t of tests) {
+    const key = titleKey(t.title);
+    if (!distinct.has(key)) distinct.set(key, t.title);
+  }
+  const entries = [...distinct.entries()];
+
+  const created = new Map<string, number>();
+  for (let i = 0; i < entries.length; i += PAGE_SIZE) {
+    const batch = entries.slice(i, i + PAGE_SIZE);
+    const cases = batch.map(([, title]) =>
+      toCaseWrite<TestCasebulkCasesInner>({
+        title,
+        automation: 2,
+        ...(suiteId ? { suite_id: suiteId } : {}),
+      }),
+    );
+
+    const res = await toResultAsync(client.cases.bulk(code, { cases }));
+    const ids: number[] = res.match(
+      (r) => r.data.result?.ids ?? [],
+      (e) => {
+        throw createToolError(e, `${CONTEXT}: creating missing cases failed`);
+      },
+    );
+    batch.forEach(([key], index) => {
+      if (ids[index] !== undefined) created.set(key, ids[index]);
+    });
+  }
+  return created;
+}
+
+function toCaseResult(test: ParsedTest, caseId: number): CaseResult {
+  const { title: _title, classname: _classname, suite: _suite, ...result } = test;
+  return { ...result, case_id: caseId };
+}
+
+/**
+ * Map parsed tests to cases — markers first, then exact titles, then (when
+ * asked) new cases — and report the mapped ones through the CI report flow.
+ */
+async function importTests(
+  args: Omit<ImportArgs, 'format'>,
+  report: ParsedReport,
+  heading: string,
+  toolName: string,
+) {
+  const { code, title, environment_id, complete, is_autotest, resume_token } = args;
+  const { tests } = report;
+
+  if (tests.length === 0) {
+    throw new ToolExecutionError('The report contains no tests.');
+  }
+
+  // Pass 1: explicit markers.
+  const mapped: Array<{ test: ParsedTest; caseId: number }> = [];
+  let pending: ParsedTest[] = [];
+  for (const test of tests) {
+    if (test.case_id !== undefined) {
+      mapped.push({ test, caseId: test.case_id });
+    } else {
+      pending.push(test);
+    }
+  }
+  const matchedByMarker = mapped.length;
+
+  // A resumed import has to rebuild the first call's results. That call has
+  // already created the missing cases, so they are found by title this time;
+  // creating them again would duplicate them, and the token is only checked
+  // once the results are known.
+  const resuming = resume_token !== undefined;
+
+  // Pass 2: existing cases with the same title.
+  const ambiguous = new Set<string>();
+  let matchedByTitle = 0;
+  if ((args.match_by_title || (resuming && args.create_missing)) && pending.length > 0) {
+    const titles = await fetchCaseTitles(code);
+    const stillPending: ParsedTest[] = [];
+    for (const test of pending) {
+      const key = titleKey(test.title);
+      const caseId = titles.get(key);
+      if (typeof caseId === 'number') {
+        mapped.push({ test, caseId });
+        matchedByTitle++;
+      } else {
+        if (caseId === null) ambiguous.add(key);
+        stillPending.push(test);
+      }
+    }
+    pending = stillPending;
+  }
+
+  // Pass 3: create cases for the rest, if asked. Ambiguous titles already
+  // have cases — another one would only add to the duplication.
+  let createdIds: number[] = [];
+  const creatable = pending.filter((t) => !ambiguous.has(titleKey(t.title)));
+  if (args.create_missing && !resuming && creatable.length > 0) {
+    const created = await createCases(code, creatable, args.suite_id);
+    createdIds = [...created.values()];
+    const stillPending: ParsedTest[] = [];
+    for (const test of pending) {
+      const caseId = created.get(titleKey(test.title));
+      if (caseId !== undefined) {
+        mapped.push({ test, caseId });
+      } else {
+        stillPending.push(test);
+      }
+    }
+    pending = stillPending;
+  }
+
+  const unmatched: UnmatchedTest[] = pending.map((t) => ({
+    title: t.title,
+    ...(t.classname ? { classname: t.classname } : {}),
+    reason: ambiguous.has(titleKey(t.title)) ? 'ambiguous_title' : 'no_match',
+  }));
+
+  if (mapped.length === 0) {
+    throw new ToolExecutionError(
+      `None of the ${tests.length} tests in the report map to a Qase case. No run was created.`,
+      'Tag tests with a Qase ID marker (e.g. "@QaseID(12)" or "(Qase ID: 12)" in the name), ' +
+        'or set create_missing: true to create cases for them.',
+    );
+  }
+
+  // In report order, so a resumed call lists the results the same way
+  // whichever pass mapped each test
+  const position = new Map(tests.map((test, i) => [test, i]));
+  mapped.sort((a, b) => position.get(a.test)! - position.get(b.test)!);
+  const results = mapped.map(({ test, caseId }) => toCaseResult(test, caseId));
+  const { runId, runStatus, upload } = await reportRun(
+    code,
+    { title, environment_id, complete, is_autotest, resume_token },
+    results,
+    CONTEXT,
+  );
+
+  const formats = report.formats.map((f) => getReportParser(f).label).join(', ');
+  const lines = runReportLines(`${heading}: ${title}`, code, runId, runStatus, results);
+  lines.push(
+    '',
+    `**Format:** ${formats}`,
+    `**Mapping:** ${matchedByMarker} by marker, ${matchedByTitle} by title, ` +
+      `${createdIds.length} new cases, ${unmatched.length} unmatched`,
+  );
+  if (unmatched.length > 0) {
+    lines.push('', '**Unmatched tests (not recorded):**');
+    for (const u of unmatched.slice(0, MAX_LISTED_UNMATCHED)) {
+      const where = u.classname ? ` (${u.classname})` : '';
+      const why = u.reason === 'ambiguous_title' ? ' — several cases share this title' : '';
+      lines.push(`- ${u.title}${where}${why}`);
+    }
+    if (unmatched.length > MAX_LISTED_UNMATCHED) {
+      lines.push(`- …and ${unmatched.length - MAX_LISTED_UNMATCHED} more`);
+    }
+  }
+  lines.push(...uploadFailureLines(upload, `\`${toolName}\``));
+
+  const structured = {
+    run_id: runId,
+    run_status: runStatus,
+    results_recorded: upload.recorded,
+    formats: report.formats,
+    matched_by_marker: matchedByMarker,
+    matched_by_title: matchedByTitle,
+    created_case_ids: createdIds,
+    unmatched,
+    upload,
+    ...(upload.resume_token ? { resume_token: upload.resume_token } : {}),
+  };
+
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+/** Parse documents, turning parser errors into tool errors. */
+function parseDocuments(load: () => ReportDocument[], format: ReportFormat | 'auto'): ParsedReport {
+  try {
+    return parseReport(load(), format);
+  } catch (error) {
+    if (error instanceof ToolExecutionError) throw error;
+    throw new ToolExecutionError(
+      `Could not read the report: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+async function importReport(rawArgs: unknown) {
+  const args = parseArgs(ReportSchema, rawArgs);
+  const sources = [args.content, args.content_base64, args.path].filter((s) => s !== undefined);
+  if (sources.length !== 1) {
+    throw new ToolExecutionError(
+      sources.length === 0
+        ? 'A test report is required.'
+        : 'Pass exactly one of content, content_base64, or path.',
+      'Pass the report as content (text), content_base64, or path (local server only).',
+    );
+  }
+
+  const report = parseDocuments(() => {
+    if (args.path) return readLocalReport(args.path);
+    const text = args.content ?? decodeBase64(args.content_base64!, 'content_base64');
+    return [loadReportDocument('content', text)];
+  }, args.format);
+
+  return importTests(args, report, 'Report Import', 'qase_import_report');
+}
+
+async function importJunit(rawArgs: unknown) {
+  const args = parseArgs(JunitSchema, rawArgs);
+  if (args.xml && args.xml_base64) {
+    throw new ToolExecutionError('Pass either xml or xml_base64, not both.');
+  }
+  if (!args.xml && !args.xml_base64) {
+    throw new ToolExecutionError(
+      'A JUnit report is required.',
+      'Pass the report as xml or xml_base64.',
+    );
+  }
+
+  const report = parseDocuments(() => {
+    const text = args.xml ?? decodeBase64(args.xml_base64!, 'xml_base64');
+    return [loadReportDocument('xml', text)];
+  }, 'junit');
+
+  return importTests(args, report, 'JUnit Import', 'qase_import_junit');
+}
+
+toolRegistry.register({
+  name: 'qase_import_report',
+  description:
+    'Import a CI test report as a test run in one call. Reads JUnit XML, Visual Studio TRX, ' +
+    'NUnit 3 XML, xUnit v2 XML, Cucumber JSON, and Allure results, detecting the format from ' +
+    'the content. Maps each test to a Qase case by a Qase ID marker ("@QaseID(12)", ' +
+    '"Qase ID: 12", or a qase_id property, trait, tag, or label); otherwise by an existing ' +
+    'case with the same title. Optionally creates cases for tests that still have none. ' +
+    'Then creates the run, records every mapped result (with steps, for Cucumber and Allure), ' +
+    'and completes it, as `qase_ci_report` does. Unmapped tests are listed, not recorded.',
+  schema: ReportSchema,
+  handler: importReport,
+  annotations: CreateAnnotation,
+  outputSchema: ImportReportOutput,
+  visibility: 'discoverable',
+});
+
+toolRegistry.register({
+  name: 'qase_import_junit',
+  description:
+    'Import a JUnit XML report as a test run in one call. Maps each testcase to a Qase case ' +
+    'by a Qase ID marker in its name, a `qase_id` property, or its output ("@QaseID(12)", ' +
+    '"Qase ID: 12"); otherwise by an existing case with the same title. Optionally creates ' +
+    'cases for tests that still have none. Then creates the run, records every mapped ' +
+    'result, and completes it, as `qase_ci_report` does. Unmapped tests are listed, not ' +
+    'recorded. For other report formats use `qase_import_report`.',
+  schema: JunitSchema,
+  handler: importJunit,
+  annotations: CreateAnnotation,
+  outputSchema: ImportReportOutput,
+  visibility: 'discoverable',
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for qase_release_readiness — milestone resolution, latest results
+ * across runs, untested plan cases, defect scoping, and the go/no-go checks.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetMilestone = jest.fn();
+const mockGetMilestones = jest.fn();
+const mockGetRuns = jest.fn();
+const mockGetResults = jest.fn();
+const mockGetPlan = jest.fn();
+const mockGetDefects = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    milestones: { getMilestone: mockGetMilestone, getMilestones: mockGetMilestones },
+    runs: { getRuns: mockGetRuns },
+    results: { getResults: mockGetResults },
+    plans: { getPlan: mockGetPlan },
+    defects: { getDefects: mockGetDefects },
+  }),
+}));
+
+import './release-readiness.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { evaluateReadiness } from './release-readiness.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+const page = (entities: unknown[]) => ok({ total: entities.length, entities });
+
+const MILESTONE = { id: 7, title: 'Release 3.0', status: 'active', due_date: '2026-11-01' };
+
+const RESULTS: Record<number, unknown[]> = {
+  100: [
+    { case_id: 1, status: 'failed', end_time: '2026-10-10 10:00:00' },
+    { case_id: 2, status: 'passed', end_time: '2026-10-10 10:00:00' },
+  ],
+  101: [{ case_id: 1, status: 'passed', end_time: '2026-10-12 10:00:00' }],
+};
+
+function readiness(args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler('qase_release_readiness')!({ code: 'DEMO', ...args });
+}
+
+beforeEach(() => {
+  mockGetMilestone.mockReset().mockImplementation(() => ok(MILESTONE));
+  mockGetMilestones.mockReset().mockImplementation(() => page([MILESTONE]));
+  mockGetRuns.mockReset().mockImplementation(() =>
+    page([
+      { id: 100, title: 'Nightly', status_text: 'complete', cases: [1, 2], plan_id: 5 },
+      { id: 101, title: 'Rerun', status_text: 'complete', cases: [1] },
+    ]),
+  );
+  mockGetResults
+    .mockReset()
+    .mockImplementation((_code: string, _status: unknown, run: string) =>
+      page(RESULTS[Number(run)] ?? []),
+    );
+  mockGetPlan
+    .mockReset()
+    .mockImplementation(() =>
+      ok({ id: 5, cases: [{ case_id: 1 }, { case_id: 2 }, { case_id: 3 }] }),
+    );
+  mockGetDefects.mockReset().mockImplementation((_code: string, status: string) =>
+    page(
+      status === 'open'
+        ? [
+            { id: 1, title: 'Crash', severity: 'critical', milestone_id: 7 },
+            { id: 2, title: 'Typo', severity: 'minor', runs: [100] },
+            { id: 3, title: 'Other release', severity: 'blocker', milestone_id: 9 },
+          ]
+        : [],
+    ),
+  );
+});
+
+describe('evaluateReadiness', () => {
+  it('applies the default thresholds', () => {
+    const checks = evaluateReadiness({
+      pass_rate: 96,
+      failed: 2,
+      untested: 0,
+      blocking_defects: 0,
+    });
+
+    expect(checks.map((c) => [c.name, c.passed])).toEqual([
+      ['pass_rate', true],
+      ['untested', true],
+      ['blocking_defects', true],
+    ]);
+  });
+
+  it('adds a failed-case check only when max_failed is set', () => {
+    const checks = evaluateReadiness(
+      { pass_rate: 80, failed: 2, untested: 3, blocking_defects: 1 },
+      { min_pass_rate: 75, max_failed: 1, max_untested: 5, max_blocking_defects: 1 },
+    );
+
+    expect(checks.map((c) => [c.name, c.passed])).toEqual([
+      ['pass_rate', true],
+      ['failed', false],
+      ['untested', true],
+      ['blocking_defects', true],
+    ]);
+  });
+});
+
+describe('qase_release_readiness', () => {
+  it('reports a no-go from the latest results, plan cases and milestone defects', async () => {
+    const res = await readiness({ milestone: 7 });
+    const report = res.structuredContent;
+
+    expect(mockGetRuns.mock.calls[0][3]).toBe(7);
+    expect(mockGetRuns.mock.calls[0][9]).toBe('cases');
+    expect(report.cases).toEqual({
+      total: 3,
+      tested: 2,
+      untested: 1,
+      by_status: { passed: 2 },
+      pass_rate: 100,
+    });
+    expect(report.untested_case_ids).toEqual([3]);
+    expect(report.defects).toEqual({
+      unresolved: 2,
+      by_severity: { critical: 1, minor: 1 },
+      blocking: [{ id: 1, title: 'Crash', severity: 'critical' }],
+    });
+    expect(report.verdict).toBe('no-go');
+    expect(report.score).toBe(33);
+    expect(res.content[0].text).toContain('## ❌ NO-GO — Release 3.0 in DEMO');
+    expect(res.content[0].text).toContain('❌ Untested cases 1 (allowed ≤ 0)');
+  });
+
+  it('goes when the thresholds allow what is left', async () => {
+    const res = await readiness({
+      milestone: 'release 3.0',
+      thresholds: { max_untested: 1, blocking_severities: ['blocker'] },
+    });
+
+    expect(mockGetMilestones).toHaveBeenCalledWith('DEMO', 'release 3.0', 100, 0);
+    expect(res.structuredContent.verdict).toBe('go');
+    expect(res.structuredContent.score).toBe(100);
+  });
+
+  it('lists candidates when no milestone has the exact title', async () => {
+    mockGetMilestones.mockImplementation(() => page([{ id: 8, title: 'Release 3.0.1' }]));
+
+    await expect(readiness({ milestone: 'Release 3' })).rejects.toThrow(
+      'No milestone in DEMO is titled "Release 3".',
+    );
+    expect(mockGetRuns).not.toHaveBeenCalled();
+  });
+
+  it('still reports when a linked plan cannot be loaded', async () => {
+    mockGetPlan.mockRejectedValue(new Error('not found'));
+
+    const res = await readiness({ milestone: '7' });
+
+    expect(mockGetMilestone).toHaveBeenCalledWith('DEMO', 7);
+    expect(res.structuredContent.plans_not_loaded).toEqual([5]);
+    expect(res.structuredContent.cases.untested).toBe(0);
+  });
+
+  it('flags a run whose results were capped while loading', async () => {
+    mockGetResults.mockImplementation((...args: unknown[]) =>
+      args[2] === '101'
+        ? ok({ total: 9000, entities: args[9] === 0 ? RESULTS[101] : [] })
+        : page(RESULTS[Number(args[2])] ?? []),
+    );
+
+    const res = await readiness({ milestone: '7' });
+
+    expect(res.structuredContent).toMatchObject({ truncated: true, truncated_run_ids: [101] });
+    expect(res.content[0].text).toContain('Results of run(s) 101 were capped while loading');
+  });
+});
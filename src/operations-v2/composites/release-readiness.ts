@@ -0,0 +1,362 @@
+import { z } from 'zod';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, ReadAnnotation } from '../../utils/registry.js';
+import { toResultAsync, createToolError, ToolExecutionError } from '../../utils/errors.js';
+import { ProjectCodeSchema } from '../../utils/validation.js';
+import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import { reportProgress } from '../../utils/server-context.js';
+import {
+  latestByCase,
+  loadAll,
+  loadMilestoneRuns,
+  loadRunResults,
+  type RunResult,
+} from './run-results.js';
+
+const DEFECT_SEVERITIES = ['blocker', 'critical', 'major', 'normal', 'minor', 'trivial'] as const;
+
+const ThresholdsSchema = z.object({
+  min_pass_rate: z
+    .number()
+    .min(0)
+    .max(100)
+    .optional()
+    .describe('Lowest acceptable pass rate, in percent of tested cases (default 95)'),
+  max_failed: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      'Most cases whose latest result may be failed, blocked or invalid (default: no limit)',
+    ),
+  max_untested: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Most cases in the runs or their plans that may have no result (default 0)'),
+  blocking_severities: z
+    .array(z.enum(DEFECT_SEVERITIES))
+    .optional()
+    .describe(
+      'Severities that block a release while a defect is unresolved (default blocker, critical)',
+    ),
+  max_blocking_defects: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Most unresolved defects of a blocking severity (default 0)'),
+});
+
+const Schema = z.object({
+  code: ProjectCodeSchema,
+  milestone: z
+    .union([z.number().int().positive(), z.string().min(1)])
+    .describe('Milestone ID, or its exact title (case-insensitive)'),
+  thresholds: ThresholdsSchema.optional().describe('Go/no-go thresholds; each has a default'),
+});
+
+interface Milestone {
+  id: number;
+  title?: string;
+  status?: string;
+  due_date?: string | null;
+}
+
+interface Defect {
+  id: number;
+  title?: string;
+  severity?: string;
+  status?: string;
+  milestone_id?: number | null;
+  runs?: number[];
+}
+
+export interface ReadinessCheck {
+  name: string;
+  actual: number;
+  threshold: number;
+  passed: boolean;
+}
+
+const FAILING = new Set(['failed', 'blocked', 'invalid']);
+
+async function resolveMilestone(code: string, milestone: number | string): Promise<Milestone> {
+  const client = getApiClient();
+  const asId = typeof milestone === 'number' ? milestone : /^\d+$/.test(milestone) ? +milestone : 0;
+  if (asId) {
+    const res = await toResultAsync(client.milestones.getMilestone(code, asId));
+    return res.match(
+      (r) => r.data.result as Milestone,
+      (e) => {
+        throw createToolError(e, `loading milestone ${asId} failed`);
+      },
+    );
+  }
+
+  const title = String(milestone);
+  const { entities } = await loadAll<Milestone>(
+    (limit, offset) => client.milestones.getMilestones(code, title, limit, offset),
+    'searching milestones failed',
+  );
+  const exact = entities.filter((m) => m.title?.toLowerCase() === title.toLowerCase());
+  if (exact.length === 1) return exact[0];
+
+  const candidates = (exact.length > 1 ? exact : entities)
+    .slice(0, 10)
+    .map((m) => `${m.id} "${m.title}"`);
+  throw new ToolExecutionError(
+    exact.length > 1
+      ? `${exact.length} milestones in ${code} are titled "${title}".`
+      : `No milestone in ${code} is titled "${title}".`,
+    candidates.length > 0
+      ? `Pass the milestone ID instead. Candidates: ${candidates.join(', ')}.`
+      : 'Check the title, or pass the milestone ID.',
+  );
+}
+
+/** Unresolved (open or in progress) defects, from both status filters. */
+async function loadUnresolvedDefects(code: string): Promise<Defect[]> {
+  const client = getApiClient();
+  const lists = await Promise.all(
+    (['open', 'in_progress'] as const).map((status) =>
+      loadAll<Defect>(
+        (limit, offset) => client.defects.getDefects(code, status, limit, offset),
+        `loading ${status} defects failed`,
+      ),
+    ),
+  );
+  return lists.flatMap((l) => l.entities);
+}
+
+/** Case IDs of each plan; a plan that fails to load is reported, not fatal. */
+async function loadPlanCases(code: string, planIds: number[]) {
+  const client = getApiClient();
+  const cases = new Set<number>();
+  const failed: number[] = [];
+  for (const id of planIds) {
+    const res = await toResultAsync(client.plans.getPlan(code, id));
+    res.match(
+      (r) => {
+        for (const c of r.data.result?.cases ?? []) {
+          if (c.case_id !== undefined) cases.add(c.case_id);
+        }
+      },
+      () => failed.push(id),
+    );
+  }
+  return { cases, failed };
+}
+
+/** Evaluate every threshold; a release is a go only when all checks pass. */
+export function evaluateReadiness(
+  stats: { pass_rate: number | null; failed: number; untested: number; blocking_defects: number },
+  thresholds: z.infer<typeof ThresholdsSchema> = {},
+): ReadinessCheck[] {
+  const { min_pass_rate = 95, max_failed, max_untested = 0, max_blocking_defects = 0 } = thresholds;
+  const checks: ReadinessCheck[] = [
+    {
+      name: 'pass_rate',
+      actual: stats.pass_rate ?? 0,
+      threshold: min_pass_rate,
+      passed: (stats.pass_rate ?? 0) >= min_pass_rate,
+    },
+    {
+      name: 'untested',
+      actual: stats.untested,
+      threshold: max_untested,
+      passed: stats.untested <= max_untested,
+    },
+    {
+      name: 'blocking_defects',
+      actual: stats.blocking_defects,
+      threshold: max_blocking_defects,
+      passed: stats.blocking_defects <= max_blocking_defects,
+    },
+  ];
+  if (max_failed !== undefined) {
+    checks.splice(1, 0, {
+      name: 'failed',
+      actual: stats.failed,
+      threshold: max_failed,
+      passed: stats.failed <= max_failed,
+    });
+  }
+  return checks;
+}
+
+const CHECK_LABELS: Record<string, (c: ReadinessCheck) => string> = {
+  pass_rate: (c) => `Pass rate ${c.actual}% (needs ≥ ${c.threshold}%)`,
+  failed: (c) => `Failing cases ${c.actual} (allowed ≤ ${c.threshold})`,
+  untested: (c) => `Untested cases ${c.actual} (allowed ≤ ${c.threshold})`,
+  blocking_defects: (c) => `Blocking defects ${c.actual} (allowed ≤ ${c.threshold})`,
+};
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { code, thresholds = {} } = args;
+  const blocking = new Set<string>(thresholds.blocking_severities ?? ['blocker', 'critical']);
+
+  const milestone = await resolveMilestone(code, args.milestone);
+  const runs = await loadMilestoneRuns(code, milestone.id);
+
+  const results: RunResult[] = [];
+  const truncatedRuns: number[] = [];
+  for (const [i, run] of runs.entries()) {
+    const loaded = await loadRunResults(code, run.id);
+    results.push(...loaded.entities);
+    if (loaded.entities.length < loaded.total) truncatedRuns.push(run.id);
+    await reportProgress(i + 1, runs.length, `Loaded results of ${i + 1} of ${runs.length} runs`);
+  }
+  const latest = latestByCase(results);
+
+  const planIds = [...new Set(runs.map((r) => r.plan_id).filter((id): id is number => !!id))];
+  const plans = await loadPlanCases(code, planIds);
+
+  const scope = new Set<number>([...plans.cases, ...runs.flatMap((r) => r.cases ?? [])]);
+  for (const id of latest.keys()) scope.add(id);
+  const untested = [...scope].filter((id) => !latest.has(id)).sort((a, b) => a - b);
+
+  const statuses: Record<string, number> = {};
+  for (const r of latest.values()) {
+    const status = r.status ?? 'unknown';
+    statuses[status] = (statuses[status] ?? 0) + 1;
+  }
+  const tested = latest.size;
+  const passed = statuses.passed ?? 0;
+  const failedCases = [...latest.values()]
+    .filter((r) => FAILING.has(r.status ?? ''))
+    .map((r) => r.case_id!)
+    .sort((a, b) => a - b);
+  const passRate = tested > 0 ? Math.round((passed / tested) * 1000) / 10 : null;
+
+  // A defect belongs to the release when it is filed against the milestone or
+  // was reported from one of its runs.
+  const runIds = new Set(runs.map((r) => r.id));
+  const defects = (await loadUnresolvedDefects(code)).filter(
+    (d) => d.milestone_id === milestone.id || (d.runs ?? []).some((id) => runIds.has(id)),
+  );
+  const bySeverity: Record<string, number> = {};
+  for (const d of defects) {
+    const severity = (d.severity ?? 'undefined').toLowerCase();
+    bySeverity[severity] = (bySeverity[severity] ?? 0) + 1;
+  }
+  const blockingDefects = defects.filter((d) => blocking.has((d.severity ?? '').toLowerCase()));
+
+  const checks = evaluateReadiness(
+    {
+      pass_rate: passRate,
+      failed: failedCases.length,
+      untested: untested.length,
+      blocking_defects: blockingDefects.length,
+    },
+    thresholds,
+  );
+  const go = checks.every((c) => c.passed);
+  const score = Math.round((checks.filter((c) => c.passed).length / checks.length) * 100);
+
+  const lines = [
+    `## ${go ? '✅ GO' : '❌ NO-GO'} — ${milestone.title ?? `milestone ${milestone.id}`} in ${code}`,
+    '',
+    `- **Milestone:** ${milestone.id}${milestone.status ? ` (${milestone.status})` : ''}${milestone.due_date ? `, due ${milestone.due_date}` : ''}`,
+    `- **Runs:** ${runs.length}${planIds.length ? `, from ${planIds.length} plan(s)` : ''}`,
+    `- **Cases:** ${scope.size} — ${tested} tested, ${untested.length} untested`,
+    `- **Pass rate:** ${passRate === null ? '-' : `${passRate}%`}`,
+    `- **Unresolved defects:** ${defects.length}`,
+    `- **Score:** ${score}% of checks passed`,
+  ];
+  if (tested > 0) {
+    lines.push(
+      '',
+      markdownTable(
+        ['Status', 'Cases'],
+        Object.entries(statuses)
+          .sort((a, b) => b[1] - a[1])
+          .map(([status, count]) => [status, String(count)]),
+      ),
+    );
+  }
+  if (defects.length > 0) {
+    lines.push(
+      '',
+      markdownTable(
+        ['Severity', 'Defects'],
+        Object.entries(bySeverity).map(([severity, count]) => [
+          blocking.has(severity) ? `**${severity}**` : severity,
+          String(count),
+        ]),
+      ),
+    );
+  }
+  lines.push(
+    '',
+    '### Checks',
+    ...checks.map((c) => `- ${c.passed ? '✅' : '❌'} ${CHECK_LABELS[c.name](c)}`),
+  );
+  if (plans.failed.length > 0) {
+    lines.push(
+      '',
+      `⚠️ Plan(s) ${plans.failed.join(', ')} could not be loaded; their cases are not counted.`,
+    );
+  }
+  if (truncatedRuns.length > 0) {
+    lines.push(
+      '',
+      `⚠️ Results of run(s) ${truncatedRuns.join(', ')} were capped while loading — ` +
+        'the counts and verdict use partial data.',
+    );
+  }
+
+  const structured = {
+    code,
+    milestone: {
+      id: milestone.id,
+      title: milestone.title ?? null,
+      status: milestone.status ?? null,
+      due_date: milestone.due_date ?? null,
+    },
+    verdict: go ? 'go' : 'no-go',
+    score,
+    checks,
+    runs: runs.map((r) => ({ id: r.id, title: r.title ?? null, status: r.status_text ?? null })),
+    plan_ids: planIds,
+    truncated: truncatedRuns.length > 0,
+    ...(truncatedRuns.length > 0 && { truncated_run_ids: truncatedRuns }),
+    cases: {
+      total: scope.size,
+      tested,
+      untested: untested.length,
+      by_status: statuses,
+      pass_rate: passRate,
+    },
+    failed_case_ids: failedCases,
+    untested_case_ids: untested,
+    defects: {
+      unresolved: defects.length,
+      by_severity: bySeverity,
+      blocking: blockingDefects.map((d) => ({
+        id: d.id,
+        title: d.title ?? null,
+        severity: d.severity ?? null,
+      })),
+    },
+    ...(plans.failed.length > 0 && { plans_not_loaded: plans.failed }),
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+toolRegistry.register({
+  name: 'qase_release_readiness',
+  description:
+    'Go/no-go report for a milestone, computed from live data. Resolves the milestone by ID ' +
+    'or exact title, loads every run attached to it and their results, and takes the latest ' +
+    'result per case. Counts cases in those runs and their test plans that have no result, ' +
+    'and unresolved defects filed against the milestone or reported from its runs, by ' +
+    'severity. Scores the release against thresholds (defaults: pass rate ≥ 95%, no ' +
+    'untested cases, no open blocker or critical defects) and returns one structured report.',
+  schema: Schema,
+  handler,
+  annotations: ReadAnnotation,
+  visibility: 'discoverable',
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for qase_run_compare — per-case classification, retries, duration
+ * regressions, and the rendered diff.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetRun = jest.fn();
+const mockGetResults = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    runs: { getRun: mockGetRun },
+    results: { getResults: mockGetResults },
+  }),
+}));
+
+import './run-compare.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { caseOutcomes, diffRuns } from './run-compare.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+
+/**
+ * Two runs with their case lists and results, served by run ID. `total`
+ * pretends a run has more results than the ones served.
+ */
+function serve(runs: Record<number, { cases: number[]; results: unknown[]; total?: number }>) {
+  mockGetRun.mockImplementation((_code: string, id: number) =>
+    ok({ id, title: `Nightly ${id}`, status_text: 'complete', cases: runs[id].cases }),
+  );
+  mockGetResults.mockImplementation((...args: unknown[]) => {
+    const { results, total } = runs[Number(args[2])];
+    const entities = args[9] === 0 ? results : [];
+    return ok({ total: total ?? results.length, entities });
+  });
+}
+
+function compare(args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler('qase_run_compare')!({ code: 'DEMO', ...args });
+}
+
+beforeEach(() => {
+  mockGetRun.mockReset();
+  mockGetResults.mockReset();
+});
+
+describe('caseOutcomes', () => {
+  it('takes the latest result per case and marks cases without one untested', () => {
+    const outcomes = caseOutcomes({ id: 1, cases: [1, 2] }, [
+      { case_id: 1, status: 'passed', end_time: '2026-10-02 10:00:00', time_spent_ms: 20 },
+      { case_id: 1, status: 'failed', end_time: '2026-10-01 10:00:00', time_spent_ms: 10 },
+    ]);
+
+    expect(outcomes.get(1)).toEqual({ status: 'passed', time_spent_ms: 20 });
+    expect(outcomes.get(2)).toEqual({ status: 'untested', time_spent_ms: null });
+  });
+});
+
+describe('diffRuns', () => {
+  const outcome = (status: string, time_spent_ms: number | null = null) => ({
+    status,
+    time_spent_ms,
+  });
+
+  it('classifies every case', () => {
+    const { cases } = diffRuns(
+      new Map([
+        [1, outcome('passed')],
+        [2, outcome('failed')],
+        [3, outcome('blocked')],
+        [4, outcome('passed')],
+        [5, outcome('passed')],
+        [6, outcome('passed')],
+        [8, outcome('failed')],
+        [9, outcome('untested')],
+      ]),
+      new Map([
+        [1, outcome('failed')],
+        [2, outcome('passed')],
+        [3, outcome('failed')],
+        [4, outcome('skipped')],
+        [6, outcome('passed')],
+        [7, outcome('passed')],
+        [8, outcome('untested')],
+        [9, outcome('untested')],
+      ]),
+    );
+
+    expect(cases.map((c) => [c.case_id, c.change])).toEqual([
+      [1, 'newly_failing'],
+      [2, 'fixed'],
+      [3, 'still_failing'],
+      [4, 'newly_skipped'],
+      [5, 'removed'],
+      [6, 'unchanged'],
+      [7, 'added'],
+      [8, 'not_run'],
+      [9, 'unchanged'],
+    ]);
+  });
+
+  it('flags passing cases that slowed past both thresholds', () => {
+    const { duration_regressions } = diffRuns(
+      new Map([
+        [1, outcome('passed', 1000)],
+        [2, outcome('passed', 100)],
+        [3, outcome('passed', 1000)],
+        [4, outcome('failed', 1000)],
+      ]),
+      new Map([
+        [1, outcome('passed', 3000)],
+        [2, outcome('passed', 900)],
+        [3, outcome('passed', 1400)],
+        [4, outcome('passed', 5000)],
+      ]),
+    );
+
+    expect(duration_regressions).toEqual([
+      { case_id: 1, before_ms: 1000, after_ms: 3000, increase_percent: 200 },
+    ]);
+  });
+});
+
+describe('qase_run_compare', () => {
+  it('returns counts, the changed cases and a summary table', async () => {
+    serve({
+      10: {
+        cases: [1, 2, 3],
+        results: [
+          { case_id: 1, status: 'passed', time_spent_ms: 1000 },
+          { case_id: 2, status: 'failed' },
+          { case_id: 3, status: 'passed' },
+        ],
+      },
+      11: {
+        cases: [1, 2, 3],
+        results: [
+          { case_id: 1, status: 'passed', time_spent_ms: 4000 },
+          { case_id: 2, status: 'passed' },
+          { case_id: 3, status: 'failed' },
+        ],
+      },
+    });
+
+    const res = await compare({ base_run_id: 10, run_id: 11 });
+
+    expect(mockGetRun).toHaveBeenCalledWith('DEMO', 11, 'cases');
+    expect(res.structuredContent.counts).toEqual({
+      newly_failing: 1,
+      fixed: 1,
+      still_failing: 0,
+      newly_skipped: 0,
+      not_run: 0,
+      added: 0,
+      removed: 0,
+      unchanged: 1,
+    });
+    expect(res.structuredContent.changes.map((c: any) => c.case_id)).toEqual([3, 2]);
+    expect(res.structuredContent.duration_regressions).toHaveLength(1);
+    expect(res.structuredContent.run).toEqual({
+      id: 11,
+      title: 'Nightly 11',
+      status: 'complete',
+      results: 3,
+      truncated: false,
+    });
+
+    const text = res.content[0].text;
+    expect(text).toContain('## Run #11 "Nightly 11" vs #10 "Nightly 10" in DEMO');
+    expect(text).toContain('| DEMO-3 | Newly failing | passed | failed |');
+    expect(text).toContain('### Slower cases');
+  });
+
+  it('says when a run had more results than could be loaded', async () => {
+    serve({
+      10: { cases: [1], results: [{ case_id: 1, status: 'passed' }] },
+      11: { cases: [1], results: [{ case_id: 1, status: 'passed' }], total: 6000 },
+    });
+
+    const res = await compare({ base_run_id: 10, run_id: 11 });
+
+    expect(res.structuredContent.truncated).toBe(true);
+    expect(res.structuredContent.run.truncated).toBe(true);
+    expect(res.structuredContent.base_run.truncated).toBe(false);
+    expect(res.content[0].text).toContain('Results of run(s) #11 were capped while loading');
+  });
+
+  it('rejects comparing a run with itself', async () => {
+    await expect(compare({ base_run_id: 5, run_id: 5 })).rejects.toThrow('same run');
+    expect(mockGetRun).not.toHaveBeenCalled();
+  });
+});
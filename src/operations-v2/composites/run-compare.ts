@@ -0,0 +1,281 @@
+import { z } from 'zod';
+import { toolRegistry, ReadAnnotation } from '../../utils/registry.js';
+import { createToolError } from '../../utils/errors.js';
+import { ProjectCodeSchema } from '../../utils/validation.js';
+import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import {
+  latestByCase,
+  loadRun,
+  loadRunResults,
+  type RunResult,
+  type RunSummary,
+} from './run-results.js';
+
+const CONTEXT = 'Run compare';
+
+/** Most changed cases listed in the summary table; the structured diff has all of them. */
+const TABLE_LIMIT = 50;
+
+const FAILING = new Set(['failed', 'blocked', 'invalid']);
+
+const Schema = z.object({
+  code: ProjectCodeSchema,
+  base_run_id: z
+    .number()
+    .int()
+    .positive()
+    .describe('The earlier run to compare against, e.g. the previous regression'),
+  run_id: z.number().int().positive().describe('The run being checked, e.g. the latest nightly'),
+  duration_threshold_percent: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Flag a case as slower when its duration grew by more than this (default 50)'),
+  min_duration_increase_ms: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Ignore slowdowns smaller than this many milliseconds (default 1000)'),
+});
+
+export type CaseChange =
+  | 'newly_failing'
+  | 'fixed'
+  | 'still_failing'
+  | 'newly_skipped'
+  | 'not_run'
+  | 'added'
+  | 'removed'
+  | 'unchanged';
+
+export interface CaseOutcome {
+  /** Status of the case's latest result, or `untested` when the run has none. */
+  status: string;
+  time_spent_ms: number | null;
+}
+
+export interface CaseDiff {
+  case_id: number;
+  change: CaseChange;
+  before: CaseOutcome | null;
+  after: CaseOutcome | null;
+}
+
+export interface DurationRegression {
+  case_id: number;
+  before_ms: number;
+  after_ms: number;
+  increase_percent: number;
+}
+
+export interface RunDiff {
+  cases: CaseDiff[];
+  duration_regressions: DurationRegression[];
+}
+
+/**
+ * Each case's outcome in a run: its latest result (a retry overrides the
+ * attempt before it), or `untested` for cases in the run without a result.
+ */
+export function caseOutcomes(run: RunSummary, results: RunResult[]): Map<number, CaseOutcome> {
+  const outcomes = new Map<number, CaseOutcome>();
+  for (const id of run.cases ?? []) {
+    outcomes.set(id, { status: 'untested', time_spent_ms: null });
+  }
+  for (const [id, r] of latestByCase(results)) {
+    outcomes.set(id, { status: r.status ?? 'untested', time_spent_ms: r.time_spent_ms ?? null });
+  }
+  return outcomes;
+}
+
+function classify(before: CaseOutcome | null, after: CaseOutcome | null): CaseChange {
+  if (!before) return 'added';
+  if (!after) return 'removed';
+  // Still in the run but without a result this time — a regression may be hiding here
+  if (after.status === 'untested' && before.status !== 'untested') return 'not_run';
+  const wasFailing = FAILING.has(before.status);
+  if (FAILING.has(after.status)) return wasFailing ? 'still_failing' : 'newly_failing';
+  if (wasFailing && after.status === 'passed') return 'fixed';
+  if (after.status === 'skipped' && before.status !== 'skipped') return 'newly_skipped';
+  return 'unchanged';
+}
+
+/**
+ * Diff two runs case by case. A case is slower when it passed in both runs
+ * and its duration grew past both the percentage and the absolute threshold.
+ */
+export function diffRuns(
+  base: Map<number, CaseOutcome>,
+  target: Map<number, CaseOutcome>,
+  thresholdPercent = 50,
+  minIncreaseMs = 1000,
+): RunDiff {
+  const ids = [...new Set([...base.keys(), ...target.keys()])].sort((a, b) => a - b);
+  const cases: CaseDiff[] = [];
+  const duration_regressions: DurationRegression[] = [];
+
+  for (const id of ids) {
+    const before = base.get(id) ?? null;
+    const after = target.get(id) ?? null;
+    cases.push({ case_id: id, change: classify(before, after), before, after });
+
+    const beforeMs = before?.time_spent_ms;
+    const afterMs = after?.time_spent_ms;
+    if (
+      before?.status === 'passed' &&
+      after?.status === 'passed' &&
+      beforeMs &&
+      afterMs &&
+      afterMs - beforeMs >= minIncreaseMs &&
+      afterMs > beforeMs * (1 + thresholdPercent / 100)
+    ) {
+      duration_regressions.push({
+        case_id: id,
+        before_ms: beforeMs,
+        after_ms: afterMs,
+        increase_percent: Math.round(((afterMs - beforeMs) / beforeMs) * 100),
+      });
+    }
+  }
+
+  duration_regressions.sort((a, b) => b.increase_percent - a.increase_percent);
+  return { cases, duration_regressions };
+}
+
+/** Summary order and labels; unchanged cases are only counted. */
+const CHANGE_LABELS: Array<[CaseChange, string]> = [
+  ['newly_failing', 'Newly failing'],
+  ['fixed', 'Fixed'],
+  ['still_failing', 'Still failing'],
+  ['newly_skipped', 'Newly skipped'],
+  ['not_run', 'Not run'],
+  ['added', 'Added'],
+  ['removed', 'Removed'],
+  ['unchanged', 'Unchanged'],
+];
+
+type LoadedResults = Awaited<ReturnType<typeof loadRunResults>>;
+
+const isCapped = (loaded: LoadedResults) => loaded.entities.length < loaded.total;
+
+const runRef = (run: RunSummary) => `#${run.id}${run.title ? ` "${run.title}"` : ''}`;
+
+const outcomeCell = (o: CaseOutcome | null) => (o ? o.status : '-');
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { code, base_run_id, run_id, duration_threshold_percent, min_duration_increase_ms } = args;
+  if (base_run_id === run_id) {
+    throw createToolError('base_run_id and run_id are the same run', CONTEXT);
+  }
+
+  const [baseRun, run] = await Promise.all([loadRun(code, base_run_id), loadRun(code, run_id)]);
+  const [baseResults, results] = await Promise.all([
+    loadRunResults(code, base_run_id),
+    loadRunResults(code, run_id),
+  ]);
+
+  const diff = diffRuns(
+    caseOutcomes(baseRun, baseResults.entities),
+    caseOutcomes(run, results.entities),
+    duration_threshold_percent,
+    min_duration_increase_ms,
+  );
+
+  const counts = Object.fromEntries(CHANGE_LABELS.map(([change]) => [change, 0])) as Record<
+    CaseChange,
+    number
+  >;
+  for (const c of diff.cases) counts[c.change]++;
+
+  const changed = diff.cases.filter((c) => c.change !== 'unchanged');
+  const order = new Map(CHANGE_LABELS.map(([change], i) => [change, i]));
+  changed.sort((a, b) => order.get(a.change)! - order.get(b.change)! || a.case_id - b.case_id);
+  const labels = new Map(CHANGE_LABELS);
+
+  const lines = [
+    `## Run ${runRef(run)} vs ${runRef(baseRun)} in ${code}`,
+    '',
+    ...CHANGE_LABELS.map(([change, label]) => `- **${label}:** ${counts[change]}`),
+    `- **Slower:** ${diff.duration_regressions.length}`,
+  ];
+  const capped = [
+    ...(isCapped(baseResults) ? [baseRun.id] : []),
+    ...(isCapped(results) ? [run.id] : []),
+  ];
+  if (capped.length > 0) {
+    lines.push(
+      `- ⚠️ Results of run(s) ${capped.map((id) => `#${id}`).join(', ')} were capped while ` +
+        'loading — cases past the cap count as untested.',
+    );
+  }
+  if (changed.length > 0) {
+    lines.push(
+      '',
+      markdownTable(
+        ['Case', 'Change', 'Before', 'After'],
+        changed
+          .slice(0, TABLE_LIMIT)
+          .map((c) => [
+            `${code}-${c.case_id}`,
+            labels.get(c.change)!,
+            outcomeCell(c.before),
+            outcomeCell(c.after),
+          ]),
+      ),
+    );
+    if (changed.length > TABLE_LIMIT) {
+      lines.push('', `…and ${changed.length - TABLE_LIMIT} more — see \`changes\`.`);
+    }
+  }
+  if (diff.duration_regressions.length > 0) {
+    lines.push(
+      '',
+      '### Slower cases',
+      '',
+      markdownTable(
+        ['Case', 'Before', 'After', 'Increase'],
+        diff.duration_regressions
+          .slice(0, TABLE_LIMIT)
+          .map((d) => [
+            `${code}-${d.case_id}`,
+            `${d.before_ms} ms`,
+            `${d.after_ms} ms`,
+            `+${d.increase_percent}%`,
+          ]),
+      ),
+    );
+  }
+
+  const summarize = (r: RunSummary, loaded: LoadedResults) => ({
+    id: r.id,
+    title: r.title ?? null,
+    status: r.status_text ?? null,
+    results: loaded.entities.length,
+    truncated: isCapped(loaded),
+  });
+  const structured = {
+    code,
+    base_run: summarize(baseRun, baseResults),
+    run: summarize(run, results),
+    truncated: capped.length > 0,
+    counts,
+    changes: changed,
+    duration_regressions: diff.duration_regressions,
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+toolRegistry.register({
+  name: 'qase_run_compare',
+  description:
+    'Compare two runs case by case, e.g. the latest nightly regression against the previous one. ' +
+    'Loads both runs and all their results, takes the latest result of each case, and classifies ' +
+    'it as newly failing, fixed, still failing, newly skipped, not run (a result before, none ' +
+    'now), added, removed, or unchanged (failed, blocked and invalid count as failing). Cases that passed in both runs but got ' +
+    'markedly slower are listed as duration regressions.',
+  schema: Schema,
+  handler,
+  annotations: ReadAnnotation,
+  visibility: 'discoverable',
+});
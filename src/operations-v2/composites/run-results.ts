@@ -0,0 +1,268 @@
+/**
+ * Run and result loading shared by the reporting composites.
+ *
+ * Each loader pages through the list endpoint with `fetchAll` and throws a
+ * tool error when a page fails, so a report never silently works from a
+ * partial set.
+ */
+
+import { getApiClient } from '../../client/index.js';
+import { toResultAsync, createToolError } from '../../utils/errors.js';
+import {
+  fetchAll,
+  matchedCount,
+  MAX_PAGES,
+  PAGE_SIZE,
+  type ListPage,
+} from '../../utils/pagination.js';
+
+/** The result fields the reports read. */
+export interface RunResult {
+  hash?: string;
+  run_id?: number;
+  case_id?: number;
+  status?: string;
+  time_spent_ms?: number;
+  end_time?: string | null;
+}
+
+export interface RunSummary {
+  id: number;
+  title?: string;
+  status_text?: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  cases?: number[];
+  plan_id?: number | null;
+}
+
+/**
+ * Every entity of a paged list endpoint, or `maxPages` pages of them from
+ * `startOffset` on. `total` is the API's count of the entities the request's
+ * filters matched (`filtered`), so it compares with `entities.length`.
+ */
+export async function loadAll<T>(
+  fetchPage: (limit: number, offset: number) => Promise<{ data: { result?: unknown } }>,
+  context: string,
+  startOffset = 0,
+  maxPages = MAX_PAGES,
+): Promise<{ entities: T[]; total: number }> {
+  const page = await fetchAll(
+    async (limit, offset): Promise<ListPage> => {
+      const res = await toResultAsync(fetchPage(limit, offset));
+      return res.match(
+        (r) => r.data.result as ListPage,
+        (e) => {
+          throw createToolError(e, context);
+        },
+      );
+    },
+    maxPages,
+    startOffset,
+  );
+  const entities = (page?.entities ?? []) as T[];
+  return { entities, total: matchedCount(page) ?? entities.length };
+}
+
+/** A run with the IDs of its cases. */
+export async function loadRun(code: string, runId: number): Promise<RunSummary> {
+  const client = getApiClient();
+  const res = await toResultAsync(client.runs.getRun(code, runId, 'cases'));
+  return res.match(
+    (r) => r.data.result as RunSummary,
+    (e) => {
+      throw createToolError(e, `loading run ${runId} failed`);
+    },
+  );
+}
+
+/**
+ * Every result recorded in a run. `total` is the API's count, so callers can
+ * tell when the page cap cut a very large run short.
+ */
+export async function loadRunResults(
+  code: string,
+  runId: number,
+): Promise<{ entities: RunResult[]; total: number }> {
+  const client = getApiClient();
+  // getResults(code, status, run, caseId, member, api, fromEndTime, toEndTime, limit, offset)
+  return loadAll<RunResult>(
+    (limit, offset) =>
+      client.results.getResults(
+        code,
+        undefined,
+        String(runId),
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        limit,
+        offset,
+      ),
+    `loading results of run ${runId} failed`,
+  );
+}
+
+/**
+ * Results that ended at or after `since`, optionally only those reported
+ * through the API (automated runs) or only one case's. `total` is the API's
+ * count, so callers can tell when the page cap cut the set short.
+ */
+export async function loadResultsSince(
+  code: string,
+  since: Date,
+  filter: { automated?: boolean; caseId?: number } = {},
+): Promise<{ entities: RunResult[]; total: number }> {
+  const client = getApiClient();
+  // The filter takes `YYYY-MM-DD HH:mm:ss`
+  const fromEndTime = since.toISOString().slice(0, 19).replace('T', ' ');
+  return loadAll<RunResult>(
+    (limit, offset) =>
+      client.results.getResults(
+        code,
+        undefined,
+        undefined,
+        filter.caseId !== undefined ? String(filter.caseId) : undefined,
+        undefined,
+        filter.automated,
+        fromEndTime,
+        undefined,
+        limit,
+        offset,
+      ),
+    'loading results failed',
+  );
+}
+
+/** Every run attached to a milestone, with the IDs of its cases. */
+export async function loadMilestoneRuns(code: string, milestoneId: number): Promise<RunSummary[]> {
+  const client = getApiClient();
+  const { entities } = await loadAll<RunSummary>(
+    (limit, offset) =>
+      client.runs.getRuns(
+        code,
+        undefined,
+        undefined,
+        milestoneId,
+        undefined,
+        undefined,
+        undefined,
+        limit,
+        offset,
+        'cases',
+      ),
+    `loading runs of milestone ${milestoneId} failed`,
+  );
+  return entities;
+}
+
+/**
+ * The project's most recent runs, newest first. The runs endpoint lists runs
+ * oldest first and has no sort order, so this reads the total from the first
+ * page and then fetches only the last `count` by offset.
+ */
+export async function loadRecentRuns(code: string, count: number): Promise<RunSummary[]> {
+  const client = getApiClient();
+  const fetchPage = (limit: number, offset: number) =>
+    client.runs.getRuns(
+      code,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      limit,
+      offset,
+    );
+
+  const first = await loadAll<RunSummary>(fetchPage, 'loading runs failed', 0, 1);
+  const { entities } =
+    first.entities.length >= first.total
+      ? first
+      : await loadAll<RunSummary>(
+          fetchPage,
+          'loading runs failed',
+          Math.max(0, first.total - count),
+          Math.ceil(count / PAGE_SIZE),
+        );
+  return entities.sort((a, b) => b.id - a.id).slice(0, count);
+}
+
+const resultTime = (r: RunResult) => {
+  const t = r.end_time ? Date.parse(r.end_time) : NaN;
+  return Number.isNaN(t) ? -Infinity : t;
+};
+
+/**
+ * The latest result of each case, so a retry overrides the attempt before it.
+ * Results without an end time count as oldest; among equals the last loaded wins.
+ */
+export function latestByCase(results: RunResult[]): Map<number, RunResult> {
+  const latest = new Map<number, RunResult>();
+  for (const r of results) {
+    if (r.case_id === undefined) continue;
+    const seen = latest.get(r.case_id);
+    if (!seen || resultTime(r) >= resultTime(seen)) latest.set(r.case_id, r);
+  }
+  return latest;
+}
+
+/** IDs of the cases directly in the given suites. */
+export async function loadSuiteCaseIds(code: string, suiteIds: number[]): Promise<Set<number>> {
+  const { entities } = await loadCases<{ id: number }>(code, suiteIds);
+  return new Set(entities.map((c) => c.id));
+}
+
+/**
+ * The cases of a project, or only those directly in `suiteIds` — fetched
+ * suite by suite with the API's suite filter, so a suite scope never pages
+ * through the rest of the project. At most `max` cases (`MAX_PAGES` pages by
+ * default) are loaded in all; `truncated` says whether that cut the requested
+ * ones short.
+ */
+export async function loadCases<T>(
+  code: string,
+  suiteIds?: Iterable<number>,
+  max = MAX_PAGES * PAGE_SIZE,
+): Promise<{ entities: T[]; truncated: boolean }> {
+  const client = getApiClient();
+  const scopes = suiteIds ? [...suiteIds] : [undefined];
+  const entities: T[] = [];
+  let truncated = false;
+  for (const suiteId of scopes) {
+    const room = max - entities.length;
+    if (room <= 0) {
+      truncated = true;
+      break;
+    }
+    // getCases(code, search, milestoneId, suiteId, ..., limit, offset)
+    const loaded = await loadAll<T>(
+      (limit, offset) =>
+        client.cases.getCases(
+          code,
+          undefined,
+          undefined,
+          suiteId,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          limit,
+          offset,
+        ),
+      suiteId === undefined ? 'loading cases failed' : `loading cases of suite ${suiteId} failed`,
+      0,
+      Math.ceil(room / PAGE_SIZE),
+    );
+    entities.push(...loaded.entities);
+    if (loaded.entities.length < loaded.total) truncated = true;
+  }
+  return { entities, truncated };
+}
@@ -0,0 +1,52 @@
+/**
+ * Tests for qase_api in read-only mode.
+ *
+ * The escape hatch stays available when the server is read-only, so it must
+ * refuse every method that could change data itself.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockRequest = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({ request: mockRequest }),
+}));
+
+import './api.js';
+import { toolRegistry } from '../../utils/registry.js';
+
+function invoke(args: Record<string, unknown>) {
+  return toolRegistry.getHandler('qase_api')!(args) as Promise<any>;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockRequest.mockImplementation(() => Promise.resolve({ status: true }));
+  toolRegistry.setReadOnly(true);
+});
+
+afterEach(() => {
+  toolRegistry.setReadOnly(false);
+});
+
+describe('qase_api — read-only mode', () => {
+  it('stays exposed', () => {
+    expect(toolRegistry.isExposed('qase_api')).toBe(true);
+  });
+
+  it('sends GET requests', async () => {
+    await invoke({ path: '/v1/project' });
+    await invoke({ method: 'GET', path: '/v1/project/DEMO' });
+
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it.each(['POST', 'PUT', 'PATCH', 'DELETE'])('refuses %s', async (method) => {
+    await expect(invoke({ method, path: '/v1/case/DEMO/1' })).rejects.toThrow(/read-only mode/);
+    expect(mockRequest).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { getApiClient } from '../../client/index.js';
 import { toolRegistry } from '../../utils/registry.js';
+import { ToolExecutionError } from '../../utils/errors.js';
 
 const Schema = z.object({
   method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('GET').describe('HTTP method'),
@@ -13,6 +14,13 @@ async function handler(args: z.infer<typeof Schema>) {
   const client = getApiClient();
   const { method, path, body, query } = args;
 
+  if (toolRegistry.isReadOnly() && (method ?? 'GET').toUpperCase() !== 'GET') {
+    throw new ToolExecutionError(
+      `qase_api: ${method} is not allowed — this server runs in read-only mode.`,
+      'Only GET requests can be sent through qase_api in read-only mode.',
+    );
+  }
+
   return client.request(path, {
     method,
     data: body,
@@ -27,9 +35,11 @@ toolRegistry.register({
     'Pass the HTTP method, path (starting with /v1/), and optional body/query. ' +
     'See https://developers.qase.io for API reference. Use this as an escape hatch ' +
     'when the dedicated tools do not cover your use case. Sends JSON only: it cannot ' +
-    'upload files, which need multipart/form-data — use qase_attachment_upload for that.',
+    'upload files, which need multipart/form-data — use qase_attachment_upload for that. ' +
+    'When the server runs in read-only mode, only GET is accepted.',
   schema: Schema,
   handler,
+  guardsReadOnly: true,
   annotations: {
     readOnlyHint: false,
     destructiveHint: false,
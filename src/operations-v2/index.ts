@@ -1,13 +1,19 @@
 // Read tools
 import './read/project-context.js';
 import './read/get.js';
+import './read/list.js';
+import './read/suite-tree.js';
 
 // QQL tools
 import './qql/index.js';
+import './qql/build.js';
 
 // Write tools
 import './write/cases.js';
 import './write/cases-bulk.js';
+import './write/cases-transfer.js';
+import './write/cases-bulk-update.js';
+import './write/bulk-delete.js';
 import './write/runs.js';
 import './write/results.js';
 import './write/defects.js';
@@ -19,11 +25,19 @@ import './write/environments.js';
 import './write/attachments.js';
 import './write/external-issues.js';
 import './write/reviews.js';
+import './write/undo.js';
 
 // Composites
 import './composites/ci-report.js';
 import './composites/triage-defect.js';
 import './composites/regression-run.js';
+import './composites/import-report.js';
+import './composites/flaky-report.js';
+import './composites/run-compare.js';
+import './composites/release-readiness.js';
+import './composites/coverage-matrix.js';
+import './composites/find-duplicates.js';
+import './composites/case-lint.js';
 
 // Meta tools
 import './meta/discover.js';
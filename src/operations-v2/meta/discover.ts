@@ -9,6 +9,7 @@
 import { z } from 'zod';
 import { toolRegistry, ReadAnnotation } from '../../utils/registry.js';
 import { DiscoverToolsOutput } from '../../utils/output-schemas.js';
+import { TOOL_CATEGORIES, matchesCategory } from '../../utils/tool-filter.js';
 
 const Schema = z.object({
   query: z
@@ -19,7 +20,7 @@ const Schema = z.object({
         'Examples: "delete", "milestone", "attachment", "suite"',
     ),
   category: z
-    .enum(['read', 'write', 'delete', 'composite', 'all'])
+    .enum([...TOOL_CATEGORIES, 'all'])
     .optional()
     .describe('Filter by tool category'),
   activate: z
@@ -39,25 +40,7 @@ async function handler(args: z.infer<typeof Schema>) {
 
   // Filter by category based on tool annotations
   if (category && category !== 'all') {
-    matches = matches.filter((t) => {
-      const ann = t.annotations;
-      switch (category) {
-        case 'delete':
-          return ann?.destructiveHint === true;
-        case 'read':
-          return ann?.readOnlyHint === true;
-        case 'write':
-          return !ann?.readOnlyHint && !ann?.destructiveHint;
-        case 'composite':
-          return (
-            t.name.startsWith('qase_ci_') ||
-            t.name.startsWith('qase_triage_') ||
-            t.name.startsWith('qase_regression_')
-          );
-        default:
-          return true;
-      }
-    });
+    matches = matches.filter((t) => matchesCategory(t, category));
   }
 
   // Activate matched tools if requested
@@ -0,0 +1,129 @@
+/**
+ * Tests for aggregate result decoding in qql_search — enum IDs back to labels,
+ * `_title` keys back to the grouped field, and grouped rows as a table.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockSearch = jest.fn();
+const mockGetSystemFields = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    search: { search: mockSearch },
+    systemFields: { getSystemFields: mockGetSystemFields },
+  }),
+}));
+
+import './index.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { resetCacheForTest } from '../../cache/index.js';
+import { normalizeCaseEnums } from '../../utils/case-enums.js';
+import { decodeAggregateRows } from './aggregate.js';
+
+const SYSTEM_FIELDS = [
+  {
+    slug: 'priority',
+    options: [
+      { id: 1, slug: 'high', title: 'High' },
+      { id: 3, slug: 'low', title: 'Low' },
+    ],
+  },
+  {
+    slug: 'result_status',
+    options: [
+      { id: 1, slug: 'passed', title: 'Passed' },
+      { id: 2, slug: 'failed', title: 'Failed' },
+    ],
+  },
+];
+
+function search(query: string, entities: unknown[]): Promise<any> {
+  mockSearch.mockResolvedValue({
+    data: { status: true, result: { total: entities.length, entities } },
+  });
+  return toolRegistry.getHandler('qql_search')!({ query });
+}
+
+let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+beforeEach(async () => {
+  await resetCacheForTest();
+  mockSearch.mockReset();
+  mockGetSystemFields
+    .mockReset()
+    .mockResolvedValue({ data: { status: true, result: SYSTEM_FIELDS } });
+  consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  consoleErrorSpy.mockRestore();
+});
+
+describe('decodeAggregateRows', () => {
+  it("labels enum IDs from the workspace's system fields", async () => {
+    const rows = await decodeAggregateRows('SELECT (COUNT(id)) entity = "case" GROUP BY priority', [
+      { priority: 1, count_id: 4 },
+      { priority: 3, count_id: 2 },
+    ]);
+
+    expect(rows).toEqual([
+      { priority: 'High', count_id: 4 },
+      { priority: 'Low', count_id: 2 },
+    ]);
+  });
+
+  it('renames the _title key of the grouped field, keeping its ID', async () => {
+    const rows = await decodeAggregateRows('SELECT (COUNT(id)) entity = "case" GROUP BY suite', [
+      { suite: 12, suite_title: 'Auth', count_id: 7 },
+    ]);
+
+    expect(rows).toEqual([{ suite: 'Auth', count_id: 7, suite_id: 12 }]);
+  });
+
+  it('falls back to the documented IDs when system fields cannot be loaded', async () => {
+    mockGetSystemFields.mockRejectedValue(new Error('timeout'));
+
+    const rows = await decodeAggregateRows('SELECT (COUNT(id)) entity = "result" GROUP BY status', [
+      { status: 5, count_id: 1 },
+    ]);
+
+    expect(rows).toEqual([{ status: 'Skipped', count_id: 1 }]);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('timeout'));
+  });
+
+  it('shares one system-field fetch with enum normalisation', async () => {
+    await decodeAggregateRows('SELECT (COUNT(id)) entity = "case" GROUP BY priority', [
+      { priority: 1 },
+    ]);
+    expect(await normalizeCaseEnums({ priority: 'low' })).toEqual({ priority: 3 });
+
+    expect(mockGetSystemFields).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('qql_search aggregates', () => {
+  it('returns decoded rows and a table summary', async () => {
+    const res = await search('SELECT (COUNT(id)) entity = "result" GROUP BY status', [
+      { status: 1, count_id: 40 },
+      { status: 2, count_id: 3 },
+    ]);
+
+    expect(res.structuredContent.entities).toEqual([
+      { status: 'Passed', count_id: 40 },
+      { status: 'Failed', count_id: 3 },
+    ]);
+    expect(res.content[0].text).toContain('| status | count_id |');
+    expect(res.content[0].text).toContain('| Failed | 3        |');
+  });
+
+  it('leaves plain searches untouched', async () => {
+    const res = await search('entity = "result" and status = "failed"', [{ id: 9, status: 2 }]);
+
+    expect(res.structuredContent.entities).toEqual([{ id: 9, status: 2 }]);
+    expect(mockGetSystemFields).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * QQL Aggregate Results
+ *
+ * `SELECT (...)` queries return enum fields as numeric IDs and grouped string
+ * fields under a `_title` key (`GROUP BY suite` → `suite_title`). This module
+ * turns those rows back into what the query asked for: labels from the
+ * workspace's system fields, keyed by the grouped field's own name.
+ */
+
+import {
+  DEFAULT_AUTOMATION_LABELS,
+  getSystemFieldLabels,
+  type SystemFieldLabels,
+} from '../../utils/case-enums.js';
+import { markdownTable } from '../../utils/rich-response.js';
+import { QQL_ENTITIES, type QqlEntityName } from './fields.js';
+
+/** Enum fields whose aggregate values are IDs, and the system field that labels them. */
+const ENUM_SYSTEM_FIELDS: Partial<Record<QqlEntityName, Record<string, string>>> = {
+  case: {
+    priority: 'priority',
+    severity: 'severity',
+    status: 'status',
+    automation: 'automation',
+    type: 'type',
+    layer: 'layer',
+    behavior: 'behavior',
+  },
+  defect: { severity: 'severity' },
+  result: { status: 'result_status', priority: 'priority', severity: 'severity' },
+};
+
+/** The IDs qql_help documents, for when the workspace's system fields do not list them. */
+const FALLBACK_LABELS: SystemFieldLabels = {
+  result_status: { '1': 'Passed', '2': 'Failed', '5': 'Skipped', '8': 'Invalid' },
+  automation: DEFAULT_AUTOMATION_LABELS,
+};
+
+export type AggregateRow = Record<string, unknown>;
+
+export function isAggregateQuery(query: string): boolean {
+  return /^\s*select\b/i.test(query);
+}
+
+function queryEntity(query: string): QqlEntityName | undefined {
+  const match = /\bentity\s*=\s*["']([a-z]+)["']/i.exec(query);
+  const entity = match?.[1].toLowerCase();
+  return (QQL_ENTITIES as readonly string[]).includes(entity ?? '')
+    ? (entity as QqlEntityName)
+    : undefined;
+}
+
+function groupByField(query: string): string | undefined {
+  return /\bgroup\s+by\s+([A-Za-z_]\w*)/i.exec(query)?.[1];
+}
+
+/**
+ * Rewrite aggregate rows: numeric enum IDs become labels, and the `_title`
+ * key of the grouped field takes the field's name (an ID already under that
+ * name moves to `<field>_id`). Labels come from the cached system fields;
+ * if those cannot be loaded, the documented IDs are still decoded.
+ */
+export async function decodeAggregateRows(
+  query: string,
+  rows: AggregateRow[],
+): Promise<AggregateRow[]> {
+  const entity = queryEntity(query);
+  const enumFields = (entity && ENUM_SYSTEM_FIELDS[entity]) || {};
+  const group = groupByField(query);
+
+  let labels: SystemFieldLabels = {};
+  if (Object.keys(enumFields).length > 0 && rows.length > 0) {
+    try {
+      labels = await getSystemFieldLabels();
+    } catch (error) {
+      console.error(
+        `[qql] Could not load system fields to decode enum IDs: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return rows.map((row) => {
+    const out: AggregateRow = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (group && key === `${group}_title`) continue;
+      const slug = enumFields[key];
+      const label =
+        slug && typeof value === 'number'
+          ? (labels[slug]?.[String(value)] ?? FALLBACK_LABELS[slug]?.[String(value)])
+          : undefined;
+      out[key] = label ?? value;
+    }
+    if (group && `${group}_title` in row) {
+      if (group in row) out[`${group}_id`] = row[group];
+      out[group] = row[`${group}_title`];
+    }
+    return out;
+  });
+}
+
+/** Render aggregate rows as a table, one column per key in first-seen order. */
+export function aggregateTable(rows: AggregateRow[]): string {
+  const headers = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const cell = (value: unknown) =>
+    value === undefined || value === null
+      ? '-'
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  return markdownTable(
+    headers,
+    rows.map((row) => headers.map((h) => cell(row[h]))),
+  );
+}
@@ -0,0 +1,190 @@
+/**
+ * Tests for qql_build — structured filters compiled to QQL, with every field
+ * and value checked per entity before the query reaches the API.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockSearch = jest.fn();
+const mockGetSystemFields = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    search: { search: mockSearch },
+    systemFields: { getSystemFields: mockGetSystemFields },
+  }),
+}));
+
+import './build.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { resetCacheForTest } from '../../cache/index.js';
+import { buildQql } from './build.js';
+
+function build(args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler('qql_build')!(args);
+}
+
+beforeEach(async () => {
+  await resetCacheForTest();
+  mockSearch.mockReset();
+  mockGetSystemFields.mockReset().mockResolvedValue({
+    data: {
+      status: true,
+      result: [{ slug: 'priority', options: [{ id: 1, slug: 'p1', title: 'P1' }] }],
+    },
+  });
+});
+
+describe('buildQql', () => {
+  it('compiles entity, project, conditions and ordering', () => {
+    expect(
+      buildQql({
+        entity: 'case',
+        project: 'DEMO',
+        conditions: [
+          { field: 'title', operator: '~', value: 'login "flow"' },
+          { field: 'isFlaky', operator: 'is', value: true },
+          { field: 'created', operator: '>=', value: { function: 'now', argument: '-7d' } },
+          { field: 'milestone', operator: 'is empty' },
+        ],
+        order_by: { field: 'updated', direction: 'DESC' },
+      }),
+    ).toBe(
+      'entity = "case" and project = "DEMO" and title ~ "login \\"flow\\"" and isFlaky is true ' +
+        'and created >= now("-7d") and milestone is empty ORDER BY updated DESC',
+    );
+  });
+
+  it('normalises enum values to their labels', () => {
+    expect(
+      buildQql({
+        entity: 'case',
+        conditions: [
+          { field: 'status', operator: '=', value: 'actual' },
+          { field: 'automation', operator: 'in', value: ['to-be-automated', 'MANUAL'] },
+        ],
+      }),
+    ).toBe('entity = "case" and status = "Actual" and automation in ["To be automated", "Manual"]');
+  });
+
+  it('puts SELECT first and wraps "any" conditions in parentheses', () => {
+    expect(
+      buildQql({
+        entity: 'result',
+        project: ['DEMO', 'WEB'],
+        conditions: [
+          { field: 'status', operator: '=', value: 'failed' },
+          { field: 'status', operator: '=', value: 'invalid' },
+        ],
+        match: 'any',
+        select: [{ function: 'COUNT', field: 'id' }],
+        group_by: 'case',
+        having: { aggregate: { function: 'COUNT', field: 'id' }, operator: '>', value: 2 },
+      }),
+    ).toBe(
+      'SELECT (COUNT(id)) entity = "result" and project in ["DEMO", "WEB"] and ' +
+        '(status = "failed" or status = "invalid") GROUP BY case HAVING COUNT(id) > 2',
+    );
+  });
+
+  it('names the field to use instead of one the entity lacks', () => {
+    expect(() =>
+      buildQql({ entity: 'run', conditions: [{ field: 'created', operator: '>', value: 1 }] }),
+    ).toThrow('run has no `created`, use `started`');
+    expect(() =>
+      buildQql({
+        entity: 'case',
+        conditions: [{ field: 'is_flaky', operator: 'is', value: true }],
+      }),
+    ).toThrow('case has no `is_flaky`, use `isFlaky`');
+  });
+
+  it('points a value at the enum it belongs to', () => {
+    expect(() =>
+      buildQql({
+        entity: 'case',
+        conditions: [{ field: 'priority', operator: '=', value: 'critical' }],
+      }),
+    ).toThrow('"critical" is a severity value');
+  });
+
+  it('rejects date offsets QQL does not support', () => {
+    expect(() =>
+      buildQql({
+        entity: 'defect',
+        conditions: [
+          { field: 'created', operator: '>', value: { function: 'now', argument: '-12h' } },
+        ],
+      }),
+    ).toThrow(/now\("-12h"\) is not supported/);
+  });
+
+  it('reports every problem at once', () => {
+    let message = '';
+    try {
+      buildQql({
+        entity: 'result',
+        conditions: [
+          { field: 'title', operator: '~', value: 'x' },
+          { field: 'status', operator: 'in', value: 'failed' },
+        ],
+        having: { aggregate: { function: 'COUNT', field: 'id' }, operator: '>', value: 1 },
+      });
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain('conditions[0] (title): result has no `title`');
+    expect(message).toContain('conditions[1] (status): "in" needs an array of values');
+    expect(message).toContain('having: HAVING needs `group_by`');
+  });
+
+  it('requires SELECT for GROUP BY', () => {
+    expect(() => buildQql({ entity: 'case', group_by: 'suite' })).toThrow(
+      /GROUP BY needs at least one aggregate/,
+    );
+  });
+});
+
+describe('qql_build', () => {
+  it('returns the query without running it by default', async () => {
+    const res = await build({ entity: 'plan', project: 'DEMO' });
+
+    expect(res.structuredContent).toEqual({ query: 'entity = "plan" and project = "DEMO"' });
+    expect(mockSearch).not.toHaveBeenCalled();
+  });
+
+  it('runs the query through qql_search with run: true', async () => {
+    mockSearch.mockResolvedValue({
+      data: { status: true, result: { total: 1, entities: [{ id: 4, title: 'Nightly' }] } },
+    });
+
+    const res = await build({ entity: 'plan', project: 'DEMO', run: true, limit: 5 });
+
+    expect(mockSearch).toHaveBeenCalledWith('entity = "plan" and project = "DEMO"', 5, 0);
+    expect(res.structuredContent).toEqual({
+      query: 'entity = "plan" and project = "DEMO"',
+      total: 1,
+      entities: [{ id: 4, title: 'Nightly' }],
+    });
+  });
+
+  it('rejects malformed arguments readably', async () => {
+    await expect(build({ entity: 'ticket' })).rejects.toThrow(/Invalid arguments — entity/);
+  });
+
+  it("accepts the workspace's own priority labels, loading them only when needed", async () => {
+    const priority = (value: string) =>
+      build({ entity: 'case', conditions: [{ field: 'priority', operator: '=', value }] });
+
+    await priority('high');
+    expect(mockGetSystemFields).not.toHaveBeenCalled();
+
+    const res = await priority('p1');
+    expect(res.structuredContent.query).toBe('entity = "case" and priority = "P1"');
+    await expect(priority('urgent')).rejects.toThrow('Valid: "Not set", "P1"');
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * QQL Query Builder
+ *
+ * Compiles a structured filter into a QQL string, checking every field,
+ * operator, enum value and function against the catalog in fields.ts first.
+ * Mistakes come back as precise errors ("run has no `created`, use
+ * `started`") instead of the API's bare "Query is invalid".
+ */
+
+import { z } from 'zod';
+import { toolRegistry, ReadAnnotation } from '../../utils/registry.js';
+import { createToolError, ToolExecutionError } from '../../utils/errors.js';
+import { ProjectCodeSchema } from '../../utils/validation.js';
+import { richResult, summaryBlock, dataBlock } from '../../utils/rich-response.js';
+import {
+  QQL_ENTITIES,
+  QQL_OPERATORS,
+  QQL_AGGREGATES,
+  QQL_DATE_FUNCTIONS,
+  QQL_USER_FUNCTIONS,
+  QQL_ENUMS,
+  DATE_OFFSET,
+  fieldProblem,
+  enumProblem,
+  matchEnumValue,
+  loadQqlEnums,
+  type QqlEntityName,
+  type QqlEnums,
+  type QqlOperator,
+} from './fields.js';
+import { qqlSearch } from './index.js';
+
+const CONTEXT = 'QQL build';
+
+const FunctionValueSchema = z.object({
+  function: z.enum([...QQL_DATE_FUNCTIONS, ...QQL_USER_FUNCTIONS]),
+  argument: z
+    .string()
+    .optional()
+    .describe(
+      'Date functions only: an offset such as "-7d" (d, w or m — no hours or years) or, for ' +
+        'the startOf*/endOf* functions, a date YYYY-MM-DD',
+    ),
+});
+
+const ScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const ConditionSchema = z.object({
+  field: z
+    .string()
+    .min(1)
+    .describe('Field name (see qql_help "entities"), or cf["Name"] for a custom field'),
+  operator: z.enum(QQL_OPERATORS),
+  value: z
+    .union([ScalarSchema, z.array(z.union([z.string(), z.number()])), FunctionValueSchema])
+    .optional()
+    .describe(
+      'Omit for "is empty" / "is not empty"; an array for "in" / "not in"; ' +
+        '{ function, argument } for now(), currentUser() and the other QQL functions. ' +
+        'Enum values may be given as label or slug in any casing.',
+    ),
+});
+
+const AggregateSchema = z.object({
+  function: z.enum(QQL_AGGREGATES),
+  field: z.string().min(1).describe('Field to aggregate — id for COUNT'),
+});
+
+const Schema = z.object({
+  entity: z.enum(QQL_ENTITIES).describe('Entity to query'),
+  project: z
+    .union([ProjectCodeSchema, z.array(ProjectCodeSchema).min(1)])
+    .optional()
+    .describe('Project code, or several codes to query across projects'),
+  conditions: z.array(ConditionSchema).optional().describe('Filter conditions'),
+  match: z
+    .enum(['all', 'any'])
+    .optional()
+    .describe('Combine conditions with and (all, default) or or (any)'),
+  select: z
+    .array(AggregateSchema)
+    .min(1)
+    .optional()
+    .describe('Aggregates to compute instead of returning rows — e.g. COUNT(id)'),
+  group_by: z.string().optional().describe('Field to group aggregates by (needs `select`)'),
+  having: z
+    .object({
+      aggregate: AggregateSchema,
+      operator: z.enum(['=', '!=', '<', '<=', '>', '>=']),
+      value: z.number(),
+    })
+    .optional()
+    .describe('Filter on an aggregate of each group (needs `group_by`)'),
+  order_by: z
+    .object({
+      field: z.string().min(1),
+      direction: z.enum(['ASC', 'DESC']).optional(),
+    })
+    .optional(),
+  run: z
+    .boolean()
+    .optional()
+    .describe('Also run the query through qql_search and return its results (default: false)'),
+  limit: z.number().int().positive().max(100).optional().describe('With run: rows to return'),
+  offset: z.number().int().nonnegative().optional().describe('With run: rows to skip'),
+});
+
+export type QqlBuildSpec = z.infer<typeof Schema>;
+type Condition = z.infer<typeof ConditionSchema>;
+type FunctionValue = z.infer<typeof FunctionValueSchema>;
+type Aggregate = z.infer<typeof AggregateSchema>;
+
+const NO_VALUE_OPERATORS: ReadonlySet<QqlOperator> = new Set(['is empty', 'is not empty']);
+const LIST_OPERATORS: ReadonlySet<QqlOperator> = new Set(['in', 'not in']);
+const MATCH_OPERATORS: ReadonlySet<QqlOperator> = new Set(['~', '!~']);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isFunctionValue = (value: unknown): value is FunctionValue =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const quote = (value: string) => JSON.stringify(value);
+
+function checkFunction(fn: FunctionValue): string | undefined {
+  const { function: name, argument } = fn;
+  if ((QQL_USER_FUNCTIONS as readonly string[]).includes(name)) {
+    return argument === undefined ? undefined : `${name}() takes no argument`;
+  }
+  if (argument === undefined || DATE_OFFSET.test(argument)) return undefined;
+  if (name !== 'now' && ISO_DATE.test(argument)) return undefined;
+  return (
+    `${name}("${argument}") is not supported — offsets use d, w or m (e.g. "-7d"); ` +
+    'hours and years are not supported' +
+    (name === 'now' ? '' : ', and dates are written YYYY-MM-DD')
+  );
+}
+
+function renderFunction({ function: name, argument }: FunctionValue): string {
+  return `${name}(${argument === undefined ? '' : quote(argument)})`;
+}
+
+/** Check one condition; returns its QQL and any problems found. */
+function compileCondition(
+  entity: QqlEntityName,
+  c: Condition,
+  index: number,
+  enums: QqlEnums,
+): { qql: string; errors: string[] } {
+  const where = `conditions[${index}] (${c.field})`;
+  const errors: string[] = [];
+
+  const bad = fieldProblem(entity, c.field);
+  if (bad) errors.push(`${where}: ${bad}`);
+
+  const { operator, value } = c;
+  if (NO_VALUE_OPERATORS.has(operator)) {
+    if (value !== undefined) errors.push(`${where}: "${operator}" takes no value`);
+    return { qql: `${c.field} ${operator}`, errors };
+  }
+  if (value === undefined) {
+    errors.push(`${where}: "${operator}" needs a value`);
+    return { qql: '', errors };
+  }
+  if (LIST_OPERATORS.has(operator) !== Array.isArray(value)) {
+    errors.push(
+      LIST_OPERATORS.has(operator)
+        ? `${where}: "${operator}" needs an array of values`
+        : `${where}: an array of values needs "in" or "not in", not "${operator}"`,
+    );
+    return { qql: '', errors };
+  }
+  if (MATCH_OPERATORS.has(operator) && typeof value !== 'string') {
+    errors.push(`${where}: "${operator}" matches text, so the value must be a string`);
+  }
+
+  const enumValues = enums[entity]?.[c.field];
+  const renderScalar = (v: string | number | boolean): string => {
+    if (typeof v !== 'string') return String(v);
+    if (c.field.startsWith('is') && /^(true|false)$/i.test(v)) return v.toLowerCase();
+    if (enumValues) {
+      const problem = enumProblem(entity, c.field, v, enums);
+      if (problem) errors.push(`${where}: ${problem}`);
+      return quote(matchEnumValue(enumValues, v) ?? v);
+    }
+    return quote(v);
+  };
+
+  let rendered: string;
+  if (Array.isArray(value)) {
+    if (value.length === 0) errors.push(`${where}: "${operator}" needs at least one value`);
+    rendered = `[${value.map(renderScalar).join(', ')}]`;
+  } else if (isFunctionValue(value)) {
+    const problem = checkFunction(value);
+    if (problem) errors.push(`${where}: ${problem}`);
+    rendered = renderFunction(value);
+  } else {
+    rendered = renderScalar(value);
+  }
+
+  return { qql: `${c.field} ${operator} ${rendered}`, errors };
+}
+
+function renderAggregate(entity: QqlEntityName, a: Aggregate, where: string, errors: string[]) {
+  const bad = fieldProblem(entity, a.field);
+  if (bad) errors.push(`${where}: ${bad}`);
+  return `${a.function}(${a.field})`;
+}
+
+/**
+ * Compile a structured filter into QQL. Throws a ToolExecutionError listing
+ * every problem found, so one round-trip fixes them all.
+ */
+export function buildQql(spec: QqlBuildSpec, enums: QqlEnums = QQL_ENUMS): string {
+  const { entity, project, conditions = [], match = 'all' } = spec;
+  const errors: string[] = [];
+
+  const select = spec.select?.map((a, i) => renderAggregate(entity, a, `select[${i}]`, errors));
+
+  const clauses = [`entity = ${quote(entity)}`];
+  if (typeof project === 'string') clauses.push(`project = ${quote(project)}`);
+  if (Array.isArray(project)) clauses.push(`project in [${project.map(quote).join(', ')}]`);
+
+  const compiled = conditions.map((c, i) => compileCondition(entity, c, i, enums));
+  for (const c of compiled) errors.push(...c.errors);
+  const parts = compiled.map((c) => c.qql).filter(Boolean);
+  if (parts.length > 0) {
+    clauses.push(
+      match === 'any' && parts.length > 1 ? `(${parts.join(' or ')})` : parts.join(' and '),
+    );
+  }
+
+  let query = clauses.join(' and ');
+  if (select) query = `SELECT (${select.join(', ')}) ${query}`;
+
+  if (spec.group_by !== undefined) {
+    if (!select) errors.push('group_by: GROUP BY needs at least one aggregate in `select`');
+    const bad = fieldProblem(entity, spec.group_by);
+    if (bad) errors.push(`group_by: ${bad}`);
+    query += ` GROUP BY ${spec.group_by}`;
+  }
+
+  if (spec.having) {
+    if (spec.group_by === undefined) errors.push('having: HAVING needs `group_by`');
+    const { aggregate, operator, value } = spec.having;
+    query += ` HAVING ${renderAggregate(entity, aggregate, 'having', errors)} ${operator} ${value}`;
+  }
+
+  if (spec.order_by) {
+    const bad = fieldProblem(entity, spec.order_by.field);
+    if (bad) errors.push(`order_by: ${bad}`);
+    query += ` ORDER BY ${spec.order_by.field} ${spec.order_by.direction ?? 'ASC'}`;
+  }
+
+  if (errors.length > 0) {
+    throw new ToolExecutionError(
+      `Cannot build the QQL query:\n${errors.map((e) => `- ${e}`).join('\n')}`,
+      'Fix the listed fields or values; qql_help with topic "entities" or "enumValues" has the full lists.',
+    );
+  }
+  return query;
+}
+
+async function handler(rawArgs: unknown) {
+  // Tool handlers get raw MCP arguments — validate here so a malformed call
+  // returns a readable error instead of a TypeError from deeper in the code.
+  const parsed = Schema.safeParse(rawArgs);
+  if (!parsed.success) {
+    const details = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+      .join('; ');
+    throw createToolError(`Invalid arguments — ${details}`, CONTEXT);
+  }
+  const spec = parsed.data;
+  let query: string;
+  try {
+    query = buildQql(spec);
+  } catch (error) {
+    // The workspace may name its system-field options (priority, status, …) differently
+    if (!(error instanceof ToolExecutionError)) throw error;
+    query = buildQql(spec, await loadQqlEnums());
+  }
+  const summary = `\`\`\`\n${query}\n\`\`\``;
+
+  if (!spec.run) {
+    return richResult([summaryBlock(summary), dataBlock({ query })], { query });
+  }
+
+  const search = await qqlSearch({ query, limit: spec.limit, offset: spec.offset });
+  const structured = { query, ...search.structuredContent };
+  return richResult(
+    [summaryBlock(`${summary}\n\n${search.content[0].text}`), dataBlock(structured)],
+    structured,
+  );
+}
+
+toolRegistry.register({
+  name: 'qql_build',
+  description:
+    'Build a valid QQL query from a structured filter — entity, project, conditions, ' +
+    'SELECT aggregates, GROUP BY, HAVING, ORDER BY — instead of writing QQL by hand. Every ' +
+    'field, operator, enum value and date function is checked per entity first, and ' +
+    'mistakes come back as precise errors (e.g. "run has no `created`, use `started`"). ' +
+    'Enum values are normalised to the labels QQL expects. Returns the query; pass ' +
+    '`run: true` to also execute it through qql_search.',
+  schema: Schema,
+  handler,
+  annotations: ReadAnnotation,
+});
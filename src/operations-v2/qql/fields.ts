@@ -0,0 +1,340 @@
+/**
+ * QQL Field Catalog
+ *
+ * What QQL accepts, per entity, as data rather than prose: the fields each
+ * entity has, the enum values of its enum fields, the operators, and the
+ * functions. `qql_help` renders its field lists from here, and the query
+ * builder checks structured filters against it, so the reference and the
+ * checks cannot drift apart.
+ */
+
+import { formatApiError } from '../../utils/errors.js';
+import { getSystemFieldLabels } from '../../utils/case-enums.js';
+
+export const QQL_ENTITIES = ['case', 'defect', 'run', 'result', 'plan', 'requirement'] as const;
+
+export type QqlEntityName = (typeof QQL_ENTITIES)[number];
+
+/** Fields per entity, in the order `qql_help` lists them. `entity` itself is implicit. */
+export const QQL_FIELDS: Record<QqlEntityName, readonly string[]> = {
+  case: [
+    'id',
+    'title',
+    'description',
+    'preconditions',
+    'postconditions',
+    'status',
+    'type',
+    'behavior',
+    'automation',
+    'isManual',
+    'isToBeAutomated',
+    'priority',
+    'severity',
+    'layer',
+    'isMuted',
+    'isFlaky',
+    'isAiGenerated',
+    'suite',
+    'suiteTree',
+    'milestone',
+    'tags',
+    'project',
+    'author',
+    'createdBy',
+    'updatedBy',
+    'created',
+    'updated',
+    'deleted',
+    'isDeleted',
+  ],
+  defect: [
+    'id',
+    'title',
+    'actual_result',
+    'status',
+    'severity',
+    'resolved',
+    'isResolved',
+    'milestone',
+    'tags',
+    'project',
+    'author',
+    'createdBy',
+    'created',
+    'updated',
+    'deleted',
+    'isDeleted',
+    'assignee',
+  ],
+  run: [
+    'id',
+    'title',
+    'description',
+    'status',
+    'plan',
+    'environment',
+    'milestone',
+    'started',
+    'ended',
+    'isStarted',
+    'isEnded',
+    'isPublic',
+    'isAutotest',
+    'isScheduledRun',
+    'hash',
+    'type',
+    'tags',
+    'project',
+    'author',
+    'createdBy',
+    'deleted',
+    'isDeleted',
+  ],
+  result: [
+    'id',
+    'caseId',
+    'case',
+    'run',
+    'status',
+    'priority',
+    'severity',
+    'type',
+    'layer',
+    'suite',
+    'tags',
+    'comment',
+    'timeSpent',
+    'ended',
+    'isEnded',
+    'deleted',
+    'isDeleted',
+    'milestone',
+    'project',
+    'author',
+    'createdBy',
+    'assignee',
+  ],
+  plan: ['id', 'title', 'description', 'project', 'created', 'updated', 'deleted', 'isDeleted'],
+  requirement: [
+    'id',
+    'title',
+    'description',
+    'parent',
+    'status',
+    'type',
+    'project',
+    'author',
+    'createdBy',
+    'created',
+    'updated',
+    'deleted',
+    'isDeleted',
+  ],
+};
+
+/** Entities whose custom fields can be queried as `cf["Name"]`. */
+export const CUSTOM_FIELD_ENTITIES: ReadonlySet<QqlEntityName> = new Set(['case', 'defect', 'run']);
+
+/**
+ * Fields agents reach for on an entity that does not have them, with what to
+ * use instead. Checked before generic "did you mean" matching.
+ */
+export const FIELD_ALTERNATIVES: Partial<Record<QqlEntityName, Record<string, string>>> = {
+  run: {
+    created: 'run has no `created`, use `started`',
+    updated: 'run has no `updated`, use `started` or `ended`',
+  },
+  result: {
+    created: 'result has no `created`, use `ended`',
+    updated: 'result has no `updated`, use `ended`',
+    title: 'result has no `title`, use `case` (the case title)',
+    environment: 'result has no `environment` field',
+    runId:
+      'result has no run-ID field — `run` matches the run title; to filter by run ID use ' +
+      'qase_list with entity "result" and filters.run_id',
+  },
+};
+
+const PRIORITY = ['Not set', 'High', 'Medium', 'Low'];
+const SEVERITY = ['Not set', 'Blocker', 'Critical', 'Major', 'Normal', 'Minor', 'Trivial'];
+const CASE_STATUS = ['Actual', 'Draft', 'Deprecated'];
+const RESULT_STATUS = ['passed', 'failed', 'skipped', 'invalid'];
+
+/** Enum values per entity and field, as display labels. */
+export type QqlEnums = Partial<Record<QqlEntityName, Record<string, readonly string[]>>>;
+
+/**
+ * Enum values per entity and field, as display labels. QQL matches labels and
+ * their slugs case-insensitively; requirement status/type are case-sensitive
+ * and not listed here. Priority, severity, case status and result status are
+ * the defaults of a new workspace — `loadQqlEnums` has the workspace's own.
+ */
+export const QQL_ENUMS: QqlEnums = {
+  case: {
+    priority: PRIORITY,
+    severity: SEVERITY,
+    status: CASE_STATUS,
+    automation: ['Manual', 'Not automated', 'To be automated', 'Automated'],
+  },
+  defect: {
+    severity: SEVERITY,
+    status: ['Open', 'In progress', 'Resolved', 'Invalid'],
+  },
+  run: {
+    status: ['In Progress', 'Passed', 'Failed', 'Aborted'],
+  },
+  result: {
+    priority: PRIORITY,
+    severity: SEVERITY,
+    status: RESULT_STATUS,
+  },
+};
+
+/**
+ * QQL_ENUMS with the system-field enums — priority, severity, case status and
+ * result status — taken from the workspace's system fields, since an admin can
+ * rename or add their options. Falls back to the defaults when the system
+ * fields cannot be loaded.
+ */
+export async function loadQqlEnums(): Promise<QqlEnums> {
+  let labels: Record<string, Record<string, string>>;
+  try {
+    labels = await getSystemFieldLabels();
+  } catch (error) {
+    console.error(
+      `[QQL] Could not load system fields, checking enum values against the ` +
+        `defaults: ${formatApiError(error)}`,
+    );
+    return QQL_ENUMS;
+  }
+
+  const workspace = (
+    field: string,
+    defaults: readonly string[],
+    notSet = false,
+  ): readonly string[] => {
+    const values = Object.values(labels[field] ?? {});
+    if (values.length === 0) return defaults;
+    // QQL accepts "Not set" for an empty field, whether or not it is an option
+    return !notSet || matchEnumValue(values, 'Not set') ? values : ['Not set', ...values];
+  };
+  const priority = workspace('priority', PRIORITY, true);
+  const severity = workspace('severity', SEVERITY, true);
+  return {
+    ...QQL_ENUMS,
+    case: { ...QQL_ENUMS.case, priority, severity, status: workspace('status', CASE_STATUS) },
+    defect: { ...QQL_ENUMS.defect, severity },
+    result: {
+      ...QQL_ENUMS.result,
+      priority,
+      severity,
+      status: workspace('result_status', RESULT_STATUS),
+    },
+  };
+}
+
+export const QQL_OPERATORS = [
+  '=',
+  '!=',
+  '<',
+  '<=',
+  '>',
+  '>=',
+  '~',
+  '!~',
+  'is',
+  'is not',
+  'in',
+  'not in',
+  'is empty',
+  'is not empty',
+] as const;
+
+export type QqlOperator = (typeof QQL_OPERATORS)[number];
+
+export const QQL_AGGREGATES = ['COUNT', 'MIN', 'MAX', 'AVG', 'SUM', 'FIRST', 'LAST'] as const;
+
+/** Date functions; each takes an optional offset or, except now(), a YYYY-MM-DD date. */
+export const QQL_DATE_FUNCTIONS = [
+  'now',
+  'startOfDay',
+  'endOfDay',
+  'startOfWeek',
+  'endOfWeek',
+  'startOfMonth',
+  'endOfMonth',
+] as const;
+
+export const QQL_USER_FUNCTIONS = ['currentUser', 'activeUsers'] as const;
+
+/** A date offset such as `-7d`: days, weeks or months only — no hours, no years. */
+export const DATE_OFFSET = /^[+-]?\d+[dwm]$/;
+
+const CUSTOM_FIELD = /^cf\["[^"]+"\]$/;
+
+export function isCustomField(field: string): boolean {
+  return CUSTOM_FIELD.test(field);
+}
+
+/** `"In Progress"` → `in-progress`: the slug form QQL accepts besides the label. */
+export function enumSlug(label: string): string {
+  return label.toLowerCase().replace(/\s+/g, '-');
+}
+
+/** The canonical label for an enum value given as a label or slug, in any casing. */
+export function matchEnumValue(values: readonly string[], raw: string): string | undefined {
+  const wanted = raw.trim().toLowerCase();
+  return values.find((v) => v.toLowerCase() === wanted || enumSlug(v) === wanted);
+}
+
+const squash = (name: string) => name.toLowerCase().replace(/[_\s-]/g, '');
+
+/**
+ * Why a field is not valid on an entity, or undefined when it is. Knows the
+ * common substitutions (`created` on run) and catches casing and
+ * snake_case slips (`is_flaky` → `isFlaky`).
+ */
+export function fieldProblem(entity: QqlEntityName, field: string): string | undefined {
+  if (isCustomField(field)) {
+    return CUSTOM_FIELD_ENTITIES.has(entity)
+      ? undefined
+      : `${entity} has no custom fields, so \`${field}\` cannot be queried`;
+  }
+  const fields = QQL_FIELDS[entity];
+  if (fields.includes(field)) return undefined;
+
+  const alternatives = FIELD_ALTERNATIVES[entity] ?? {};
+  const known = Object.entries(alternatives).find(([name]) => squash(name) === squash(field));
+  if (known) return known[1];
+
+  const near = fields.find((f) => squash(f) === squash(field));
+  if (near) return `${entity} has no \`${field}\`, use \`${near}\``;
+
+  return `${entity} has no \`${field}\` field. Fields: ${fields.join(', ')}`;
+}
+
+/**
+ * Why a value is not valid for an enum field, or undefined when it is (or the
+ * field is not an enum). Points at the right field when the value belongs to
+ * a sibling enum, as `critical` does for severity.
+ */
+export function enumProblem(
+  entity: QqlEntityName,
+  field: string,
+  value: string,
+  catalog: QqlEnums = QQL_ENUMS,
+): string | undefined {
+  const enums = catalog[entity] ?? {};
+  const values = enums[field];
+  if (!values || matchEnumValue(values, value)) return undefined;
+
+  const sibling = Object.entries(enums).find(
+    ([name, vals]) => name !== field && matchEnumValue(vals, value),
+  );
+  const hint = sibling ? ` "${value}" is a ${sibling[0]} value.` : '';
+  return (
+    `"${value}" is not a ${entity} ${field}.${hint} ` +
+    `Valid: ${values.map((v) => `"${v}"`).join(', ')}`
+  );
+}
@@ -12,11 +12,26 @@ import { toResultAsync, createToolError, ToolExecutionError } from '../../utils/
 import { QqlExamples } from '../../utils/qql-helpers.js';
 import { QqlSearchOutput } from '../../utils/output-schemas.js';
 import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import { fetchAll, PAGE_SIZE, type ListPage } from '../../utils/pagination.js';
+import { reportProgress } from '../../utils/server-context.js';
+import {
+  QQL_FIELDS,
+  QQL_ENUMS,
+  loadQqlEnums,
+  matchEnumValue,
+  type QqlEntityName,
+} from './fields.js';
+import { lintQqlInWorkspace, formatDiagnostics } from './lint.js';
+import { isAggregateQuery, decodeAggregateRows, aggregateTable } from './aggregate.js';
 
 // ============================================================================
 // SCHEMAS
 // ============================================================================
 
+/** Rows `all: true` collects when `max_rows` is not given, and the most it may ask for. */
+export const QQL_DEFAULT_MAX_ROWS = 1000;
+export const QQL_MAX_ROWS = 5000;
+
 /**
  * Schema for QQL search
  */
@@ -48,6 +63,24 @@ const QqlSearchSchema = z.object({
     .nonnegative()
     .optional()
     .describe('Number of results to skip for pagination'),
+  all: z
+    .boolean()
+    .optional()
+    .describe(
+      `Page through every match, ${PAGE_SIZE} rows per API call, up to max_rows — instead of ` +
+        'one page of `limit`. Sends progress notifications when the client passes a ' +
+        'progressToken. Prefer SELECT (COUNT(id)) when you only need a count.',
+    ),
+  max_rows: z
+    .number()
+    .int()
+    .positive()
+    .max(QQL_MAX_ROWS)
+    .optional()
+    .describe(
+      `With all: stop after this many rows (default ${QQL_DEFAULT_MAX_ROWS}, max ${QQL_MAX_ROWS}). ` +
+        "The result's `coverage` says whether rows were left out.",
+    ),
 });
 
 /**
@@ -91,20 +124,66 @@ const GetQqlHelpSchema = z.object({
 // HANDLERS
 // ============================================================================
 
+const fieldList = (entity: QqlEntityName) => QQL_FIELDS[entity].join(', ');
+
 /**
  * Execute QQL search query
  */
-async function qqlSearch(args: z.infer<typeof QqlSearchSchema>) {
+export async function qqlSearch(args: z.infer<typeof QqlSearchSchema>) {
   const client = getApiClient();
-  const { query, limit, offset } = args;
+  const { query, limit, offset = 0, all = false } = args;
+
+  // The API answers any mistake with "Query is invalid" — check locally first
+  // so the caller learns what is wrong and where.
+  const diagnostics = await lintQqlInWorkspace(query);
+  if (diagnostics.length > 0) {
+    throw new ToolExecutionError(
+      `QQL query has ${diagnostics.length} problem(s) (line:column):\n` +
+        formatDiagnostics(diagnostics),
+      'Fix the query and retry; qql_help has the fields per entity ("entities") and valid ' +
+        'values ("enumValues"), and qql_build compiles a checked query from structured filters.',
+    );
+  }
 
-  const result = await toResultAsync(client.search.search(query, limit || 10, offset || 0));
+  const fetchPage = (pageLimit: number, pageOffset: number): Promise<ListPage> =>
+    client.search.search(query, pageLimit, pageOffset).then((r) => r.data.result ?? null);
+
+  // `max_rows` on its own also means "page through", as there is no other use for it
+  const paging = all || args.max_rows !== undefined;
+  const maxRows = args.max_rows ?? QQL_DEFAULT_MAX_ROWS;
+  const page = paging
+    ? fetchAll(fetchPage, Math.ceil(maxRows / PAGE_SIZE), offset, (loaded, total) => {
+        const wanted = Math.min(Math.max(total - offset, 0), maxRows);
+        const done = Math.min(loaded, wanted);
+        return reportProgress(done, wanted, `Fetched ${done} of ${wanted} rows`);
+      })
+    : fetchPage(limit || 10, offset);
+
+  const result = await toResultAsync(page);
 
   return result.match(
-    (response) => {
-      const r = response.data.result;
+    async (r) => {
       const total = r?.total ?? 0;
-      const entities: any[] = r?.entities ?? [];
+      let entities: any[] = (r?.entities ?? []).slice(0, paging ? maxRows : undefined);
+      // Like qase_project_context: say whether the caller is seeing everything
+      const coverage = paging
+        ? { total, loaded: entities.length, truncated: offset + entities.length < total }
+        : undefined;
+      const more = coverage?.truncated
+        ? `\n\nStopped at ${entities.length} rows — ${total - offset - entities.length} more ` +
+          `match. Continue with offset ${offset + entities.length}, or narrow the query.`
+        : '';
+
+      if (isAggregateQuery(query)) {
+        entities = await decodeAggregateRows(query, entities);
+        const summary = [`Aggregated **${entities.length}** row(s)`];
+        if (entities.length > 0) summary.push('', aggregateTable(entities));
+        const structured = { total, entities, ...(coverage && { coverage }) };
+        return richResult(
+          [summaryBlock(summary.join('\n') + more), dataBlock(structured)],
+          structured,
+        );
+      }
 
       const lines = [`Found **${total}** results (showing ${entities.length})`];
       if (entities.length > 0) {
@@ -128,9 +207,9 @@ async function qqlSearch(args: z.infer<typeof QqlSearchSchema>) {
         }
       }
 
-      const structured = { total, entities };
+      const structured = { total, entities, ...(coverage && { coverage }) };
 
-      return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+      return richResult([summaryBlock(lines.join('\n') + more), dataBlock(structured)], structured);
     },
     (error) => {
       throw createToolError(error, 'search operation');
@@ -144,6 +223,11 @@ async function qqlSearch(args: z.infer<typeof QqlSearchSchema>) {
 async function getQqlHelp(args: z.infer<typeof GetQqlHelpSchema>) {
   const { topic } = args;
 
+  // Only the enum topic is worth a system fields call for the workspace's labels
+  const enums = topic === 'enumValues' ? await loadQqlEnums() : QQL_ENUMS;
+  const { priority = [], severity = [] } = enums.case ?? {};
+  const quoted = (values: readonly string[]) => values.map((v) => `"${v}"`).join(', ');
+
   const help = {
     overview: {
       description: 'QQL (Qase Query Language) allows powerful searches across Qase entities',
@@ -179,37 +263,26 @@ async function getQqlHelp(args: z.infer<typeof GetQqlHelpSchema>) {
     },
     entities: {
       case:
-        'Test cases — entity = "case". Fields: id, title, description, preconditions, ' +
-        'postconditions, status, type, behavior, automation, isManual, isToBeAutomated, ' +
-        'priority, severity, layer, isMuted, isFlaky, isAiGenerated, suite, suiteTree, ' +
-        'milestone, tags, project, author, createdBy, updatedBy, created, updated, deleted, ' +
-        'isDeleted, plus custom fields via cf["Name"]. Note: `suite` matches the suite TITLE ' +
+        `Test cases — entity = "case". Fields: ${fieldList('case')}, ` +
+        'plus custom fields via cf["Name"]. Note: `suite` matches the suite TITLE ' +
         '(a string), and `suiteTree` matches a suite plus all of its descendants.',
-      defect:
-        'Defects/bugs — entity = "defect". Fields: id, title, actual_result, status, severity, ' +
-        'resolved, isResolved, milestone, tags, project, author, createdBy, created, updated, ' +
-        'deleted, isDeleted, assignee, plus custom fields.',
+      defect: `Defects/bugs — entity = "defect". Fields: ${fieldList('defect')}, plus custom fields.`,
       run:
-        'Test runs — entity = "run". Fields: id, title, description, status, plan, environment, ' +
-        'milestone, started, ended, isStarted, isEnded, isPublic, isAutotest, isScheduledRun, ' +
-        'hash, type, tags, project, author, createdBy, deleted, isDeleted, plus custom fields. ' +
+        `Test runs — entity = "run". Fields: ${fieldList('run')}, plus custom fields. ` +
         'Note: no created/updated — use started/ended. status values: "In Progress", "Passed", ' +
         '"Failed", "Aborted" ("active" is not a status).',
       result:
-        'Test results — entity = "result". Fields: id, caseId, case, run, status, priority, ' +
-        'severity, type, layer, suite, tags, comment, timeSpent, ended, isEnded, deleted, ' +
-        'isDeleted, milestone, project, author, createdBy, assignee. Note: no created/updated ' +
-        '(only `ended`), no title/description, no custom fields, and no environment. Unlike ' +
-        'case.suite, result.suite is a numeric suite ID. There is no run-ID field — `run` ' +
-        'matches the run TITLE, so results cannot be tied to a specific run ID in QQL; use ' +
-        'GET /v1/result/{code}?filters[run]=ID via qase_api for that. status has no ' +
-        '"Untested" value.',
-      plan: 'Test plans — entity = "plan". Fields: id, title, description, project, created, updated, deleted, isDeleted.',
+        `Test results — entity = "result". Fields: ${fieldList('result')}. ` +
+        'Note: no created/updated (only `ended`), no title/description, no custom fields, and ' +
+        'no environment. Unlike case.suite, result.suite is a numeric suite ID. There is no ' +
+        'run-ID field — `run` matches the run TITLE, so results cannot be tied to a specific ' +
+        'run ID in QQL; use GET /v1/result/{code}?filters[run]=ID via qase_api for that. ' +
+        'status has no "Untested" value.',
+      plan: `Test plans — entity = "plan". Fields: ${fieldList('plan')}.`,
       requirement:
-        'Requirements — entity = "requirement". Fields: id, title, description, parent, status, ' +
-        'type, project, author, createdBy, created, updated, deleted, isDeleted. Note: no link ' +
-        'to cases, and status/type are the only case-SENSITIVE enum values in QQL ' +
-        '(type = "User story" matches, "user-story" does not).',
+        `Requirements — entity = "requirement". Fields: ${fieldList('requirement')}. ` +
+        'Note: no link to cases, and status/type are the only case-SENSITIVE enum values in ' +
+        'QQL (type = "User story" matches, "user-story" does not).',
     },
     aggregation: {
       description:
@@ -227,12 +300,14 @@ async function getQqlHelp(args: z.infer<typeof GetQqlHelpSchema>) {
         'SELECT (AVG(timeSpent), MAX(timeSpent)) entity = "result" and project = "DEMO"',
       ],
       enumsComeBackAsNumbers:
-        'In aggregate results, enum fields are returned as their numeric IDs, not labels: ' +
+        'The API returns enum fields in aggregate results as numeric IDs, not labels — ' +
         'result.status 1 = Passed, 2 = Failed, 5 = Skipped, 8 = Invalid; ' +
-        'automation 0 = Manual, 1 = To be automated, 2 = Automated. Map them before reporting.',
+        'automation 0 = Manual, 1 = To be automated, 2 = Automated. qql_search maps them back ' +
+        "to labels using the workspace's system fields, so its rows already carry labels.",
       groupByAddsTitleSuffix:
-        'Grouping by a string field returns it with a _title suffix — GROUP BY suite yields ' +
-        'a `suite_title` key in the response, not `suite`.',
+        'Grouping by a string field makes the API return it with a _title suffix — GROUP BY ' +
+        'suite yields `suite_title`. qql_search renames it back to `suite` (moving a numeric ' +
+        'ID to `suite_id`) and shows grouped rows as a table.',
     },
     operators: {
       comparison: ['=', '!=', '<', '<=', '>', '>='],
@@ -243,9 +318,12 @@ async function getQqlHelp(args: z.infer<typeof GetQqlHelpSchema>) {
     },
     enumValues: {
       priority:
-        '"Not set", "High", "Medium", "Low" — there is NO "critical" priority; ' +
-        'priority = "critical" fails. Critical belongs to severity.',
-      severity: '"Not set", "Blocker", "Critical", "Major", "Normal", "Minor", "Trivial"',
+        quoted(priority) +
+        (matchEnumValue(priority, 'critical')
+          ? ''
+          : ' — there is NO "critical" priority; priority = "critical" fails.' +
+            (matchEnumValue(severity, 'critical') ? ' Critical belongs to severity.' : '')),
+      severity: quoted(severity),
       caseStatus: '"Actual", "Draft", "Deprecated"',
       caseAutomation: '"Manual" (a.k.a. "Not automated"), "To be automated", "Automated"',
       defectStatus: '"Open", "In progress", "Resolved", "Invalid"',
@@ -287,7 +365,9 @@ async function getQqlHelp(args: z.infer<typeof GetQqlHelpSchema>) {
 toolRegistry.register({
   name: 'qql_search',
   description:
-    'Search entities using Qase Query Language (QQL) with powerful filtering and cross-project queries',
+    'Search entities using Qase Query Language (QQL) with powerful filtering and cross-project ' +
+    'queries. The query is checked locally first: unknown fields, bad operators or values, and ' +
+    'a misplaced SELECT are reported with line and column instead of being sent.',
   schema: QqlSearchSchema,
   handler: qqlSearch,
   annotations: ReadAnnotation,
@@ -0,0 +1,137 @@
+/**
+ * Tests for the QQL linter and its use in qql_search — every mistake the API
+ * would answer with "Query is invalid" should come back located and explained.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockSearch = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({ search: { search: mockSearch } }),
+}));
+
+import './index.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { QqlExamples } from '../../utils/qql-helpers.js';
+import { lintQql, formatDiagnostics } from './lint.js';
+
+/** The first diagnostic, for tests that expect exactly one. */
+function only(query: string) {
+  const diagnostics = lintQql(query);
+  expect(diagnostics).toHaveLength(1);
+  return diagnostics[0];
+}
+
+describe('lintQql', () => {
+  it('accepts every query the help and examples advertise', async () => {
+    const help = await toolRegistry.getHandler('qql_help')!({ topic: 'aggregation' });
+    const queries = [
+      ...help.content.examples,
+      ...Object.values(QqlExamples).map((example) => example('DEMO', 'Sprint 12')),
+      'entity = "case" and project in ["A", "B"] and (priority = "high" or severity in ("blocker"))',
+      'entity = "case" and cf["Browser"] = "Chrome" and author = currentUser() ORDER BY id DESC',
+      'entity = "defect" and created >= startOfMonth("-1m") and milestone is not empty',
+      'entity = "case" and not isFlaky is true and tags not in ["smoke"]',
+    ];
+
+    for (const query of queries) {
+      expect({ query, diagnostics: lintQql(query) }).toEqual({ query, diagnostics: [] });
+    }
+  });
+
+  it('locates fields the entity does not have and names the replacement', () => {
+    expect(only('entity = "run" and\n  created > now("-7d")')).toEqual({
+      line: 2,
+      column: 3,
+      message: 'run has no `created`, use `started`',
+    });
+  });
+
+  it('checks enum values against the entity, pointing at the right field', () => {
+    const diagnostic = only('entity = "case" and priority = "critical"');
+
+    expect(diagnostic.column).toBe(32);
+    expect(diagnostic.message).toContain('"critical" is a severity value');
+  });
+
+  it('flags SELECT after the conditions', () => {
+    expect(only('entity = "result" and status = "failed" SELECT (COUNT(id))')).toMatchObject({
+      column: 41,
+      message: 'SELECT must come first, before the conditions',
+    });
+  });
+
+  it('flags SELECT without parentheses', () => {
+    expect(only('SELECT COUNT(id) entity = "result"')).toMatchObject({
+      column: 1,
+      message: 'SELECT needs parentheses around its aggregates',
+      suggestion: expect.stringContaining('SELECT (COUNT(id))'),
+    });
+  });
+
+  it('reports an unclosed parenthesis where it opened', () => {
+    expect(only('entity = "case" and (status = "actual" or status = "draft"').message).toBe(
+      'Missing `)` to close the `(` at 1:21',
+    );
+  });
+
+  it('rejects now() units QQL does not support', () => {
+    expect(only('entity = "result" and ended > now("-24h")')).toMatchObject({
+      column: 35,
+      message: expect.stringContaining('now("-24h") is not supported'),
+    });
+  });
+
+  it('rejects unknown operators and unquoted text', () => {
+    expect(only('entity = "case" and title contains "login"').message).toMatch(
+      /Expected an operator after `title`/,
+    );
+    expect(only('entity = "case" and status = actual').suggestion).toBe('Write status = "actual"');
+  });
+
+  it('collects every field and value problem at once', () => {
+    const diagnostics = lintQql(
+      'entity = "result" and title ~ "x" and status = "untested" ORDER BY created',
+    );
+
+    expect(diagnostics.map((d) => d.column)).toEqual([23, 48, 68]);
+  });
+
+  it('requires an entity', () => {
+    expect(only('project = "DEMO"').message).toBe('The query does not say which entity to search');
+    expect(only('entity = "ticket"').message).toBe('"ticket" is not a QQL entity');
+  });
+
+  it('formats diagnostics with their position and fix', () => {
+    expect(formatDiagnostics(lintQql('entity = "case" and status = actual'))).toBe(
+      '- 1:30 — Text values must be quoted: `actual`. Fix: Write status = "actual"',
+    );
+  });
+});
+
+describe('qql_search', () => {
+  beforeEach(() => {
+    mockSearch.mockReset().mockResolvedValue({
+      data: { status: true, result: { total: 0, entities: [] } },
+    });
+  });
+
+  it('returns lint diagnostics instead of calling the API', async () => {
+    const search = toolRegistry.getHandler('qql_search')!;
+
+    await expect(search({ query: 'entity = "run" and created > now("-7d")' })).rejects.toThrow(
+      '1:20 — run has no `created`, use `started`',
+    );
+    expect(mockSearch).not.toHaveBeenCalled();
+  });
+
+  it('sends queries that pass the linter', async () => {
+    await toolRegistry.getHandler('qql_search')!({ query: 'entity = "case" and isFlaky = true' });
+
+    expect(mockSearch).toHaveBeenCalledWith('entity = "case" and isFlaky = true', 10, 0);
+  });
+});
@@ -0,0 +1,535 @@
+/**
+ * QQL Linter
+ *
+ * Tokenizes and parses a QQL query locally and checks it against the field
+ * catalog in fields.ts, so `qql_search` can report what is wrong — and where —
+ * instead of the API's bare "Query is invalid". Syntax errors stop the parse
+ * at the first one; field, enum and function problems are all collected.
+ */
+
+import {
+  QQL_ENTITIES,
+  QQL_AGGREGATES,
+  QQL_DATE_FUNCTIONS,
+  QQL_USER_FUNCTIONS,
+  DATE_OFFSET,
+  fieldProblem,
+  enumProblem,
+  QQL_ENUMS,
+  loadQqlEnums,
+  type QqlEntityName,
+  type QqlEnums,
+} from './fields.js';
+
+export interface QqlDiagnostic {
+  line: number;
+  column: number;
+  message: string;
+  suggestion?: string;
+}
+
+type TokenType =
+  | 'string'
+  | 'number'
+  | 'word'
+  | 'field'
+  | 'op'
+  | '('
+  | ')'
+  | '['
+  | ']'
+  | ','
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  /** String contents without quotes; the text itself otherwise. */
+  value: string;
+  line: number;
+  column: number;
+}
+
+/** Raised to stop the parse at a syntax error, after recording it. */
+class SyntaxStop extends Error {}
+
+const OPERATORS = ['!=', '<=', '>=', '!~', '=', '<', '>', '~'];
+const COMPARISONS = new Set(['=', '!=', '<', '<=', '>', '>=']);
+const ENUM_OPERATORS = new Set(['=', '!=', 'is', 'is not', 'in', 'not in']);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const AGGREGATES: readonly string[] = QQL_AGGREGATES;
+const DATE_FUNCTIONS: readonly string[] = QQL_DATE_FUNCTIONS;
+const FUNCTIONS: readonly string[] = [...QQL_DATE_FUNCTIONS, ...QQL_USER_FUNCTIONS];
+
+function tokenize(query: string, diagnostics: QqlDiagnostic[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (type: TokenType, start: number, text: string, value = text) =>
+    tokens.push({ type, text, value, line, column: start - lineStart + 1 });
+
+  while (i < query.length) {
+    const ch = query[i];
+    if (ch === '\n') {
+      i++;
+      line++;
+      lineStart = i;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < query.length && query[i] !== ch && query[i] !== '\n') {
+        if (query[i] === '\\' && i + 1 < query.length) i++;
+        value += query[i++];
+      }
+      if (query[i] !== ch) {
+        diagnostics.push({
+          line,
+          column: start - lineStart + 1,
+          message: 'Unterminated string',
+          suggestion: `Close it with ${ch}`,
+        });
+        return [];
+      }
+      i++;
+      push('string', start, query.slice(start, i), value);
+      continue;
+    }
+
+    const cf = /^cf\[\s*"([^"]*)"\s*\]/.exec(query.slice(i));
+    if (cf) {
+      i += cf[0].length;
+      push('field', start, cf[0]);
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(query.slice(i));
+    if (number) {
+      i += number[0].length;
+      push('number', start, number[0]);
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(query.slice(i));
+    if (word) {
+      i += word[0].length;
+      push('word', start, word[0]);
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => query.startsWith(o, i));
+    if (op) {
+      i += op.length;
+      push('op', start, op);
+      continue;
+    }
+
+    if ('()[],'.includes(ch)) {
+      i++;
+      push(ch as TokenType, start, ch);
+      continue;
+    }
+
+    diagnostics.push({
+      line,
+      column: start - lineStart + 1,
+      message: `Unexpected character \`${ch}\``,
+      suggestion: ch === '&' || ch === '|' ? 'Use `and` / `or`' : undefined,
+    });
+    return [];
+  }
+
+  tokens.push({ type: 'eof', text: '', value: '', line, column: i - lineStart + 1 });
+  return tokens;
+}
+
+/** A field reference or compared value, checked once the entity is known. */
+interface FieldUse {
+  token: Token;
+}
+interface ValueUse {
+  field: Token;
+  operator: string;
+  token: Token;
+}
+
+class Parser {
+  private pos = 0;
+  readonly fields: FieldUse[] = [];
+  readonly values: ValueUse[] = [];
+  entity?: Token;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly diagnostics: QqlDiagnostic[],
+  ) {}
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private isWord(token: Token, word: string): boolean {
+    return token.type === 'word' && token.value.toLowerCase() === word;
+  }
+
+  private acceptWord(word: string): Token | undefined {
+    return this.isWord(this.peek(), word) ? this.next() : undefined;
+  }
+
+  private report(token: Token, message: string, suggestion?: string) {
+    this.diagnostics.push({ line: token.line, column: token.column, message, suggestion });
+  }
+
+  private fail(token: Token, message: string, suggestion?: string): never {
+    this.report(token, message, suggestion);
+    throw new SyntaxStop();
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'eof' ? 'end of query' : `\`${token.text}\``;
+  }
+
+  private expect(type: TokenType, what: string, suggestion?: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      this.fail(token, `Expected ${what}, found ${this.describe(token)}`, suggestion);
+    }
+    return this.next();
+  }
+
+  parseQuery() {
+    const select = this.acceptWord('select');
+    if (select) this.parseSelect(select);
+
+    this.parseOr();
+
+    const group = this.acceptWord('group');
+    if (group) {
+      this.expectWord('by');
+      if (!select) {
+        this.report(
+          group,
+          'GROUP BY needs an aggregate',
+          'Start the query with SELECT (COUNT(id))',
+        );
+      }
+      this.parseField();
+    }
+    const having = this.acceptWord('having');
+    if (having) {
+      if (!select) this.report(having, 'HAVING needs an aggregate', 'Start with SELECT (...)');
+      this.parseAggregate();
+      const op = this.expect('op', 'a comparison operator');
+      if (!COMPARISONS.has(op.value)) this.report(op, `\`${op.text}\` cannot compare aggregates`);
+      this.expect('number', 'a number');
+    }
+    if (this.acceptWord('order')) {
+      this.expectWord('by');
+      this.parseField();
+      if (!this.acceptWord('asc')) this.acceptWord('desc');
+    }
+
+    const rest = this.peek();
+    if (this.isWord(rest, 'select')) this.misplacedSelect(rest);
+    if (rest.type === ')') this.fail(rest, 'Unexpected `)` — no matching `(`');
+    if (rest.type !== 'eof') {
+      this.fail(
+        rest,
+        `Unexpected ${this.describe(rest)}`,
+        'Join conditions with `and` / `or`; GROUP BY, HAVING and ORDER BY come last, in that order',
+      );
+    }
+  }
+
+  private expectWord(word: string): Token {
+    const token = this.peek();
+    if (!this.isWord(token, word)) {
+      this.fail(token, `Expected \`${word}\`, found ${this.describe(token)}`);
+    }
+    return this.next();
+  }
+
+  private misplacedSelect(token: Token): never {
+    this.fail(
+      token,
+      'SELECT must come first, before the conditions',
+      'Move it to the start: SELECT (COUNT(id)) entity = "..." and ...',
+    );
+  }
+
+  private parseSelect(select: Token) {
+    if (this.peek().type !== '(') {
+      this.fail(
+        select,
+        'SELECT needs parentheses around its aggregates',
+        'Write SELECT (COUNT(id)), not SELECT COUNT(id)',
+      );
+    }
+    const open = this.next();
+    do {
+      this.parseAggregate();
+    } while (this.peek().type === ',' && this.next());
+    if (this.peek().type !== ')') {
+      this.fail(this.peek(), `Missing \`)\` to close the \`(\` at ${open.line}:${open.column}`);
+    }
+    this.next();
+  }
+
+  private parseAggregate() {
+    const name = this.expect('word', 'an aggregate function');
+    if (!AGGREGATES.includes(name.value.toUpperCase())) {
+      this.report(
+        name,
+        `\`${name.text}\` is not an aggregate function`,
+        `Use one of ${AGGREGATES.join(', ')}`,
+      );
+    }
+    this.expect('(', `\`(\` after ${name.text}`);
+    this.parseField();
+    this.expect(')', `\`)\` after the ${name.text} field`);
+  }
+
+  private parseField(): Token {
+    const token = this.peek();
+    if (this.isWord(token, 'select')) this.misplacedSelect(token);
+    if (token.type !== 'word' && token.type !== 'field') {
+      this.fail(token, `Expected a field name, found ${this.describe(token)}`);
+    }
+    this.next();
+    if (token.value !== 'entity') this.fields.push({ token });
+    return token;
+  }
+
+  private parseOr() {
+    this.parseAnd();
+    while (this.acceptWord('or')) this.parseAnd();
+  }
+
+  private parseAnd() {
+    this.parseUnary();
+    while (this.acceptWord('and')) this.parseUnary();
+  }
+
+  private parseUnary(): void {
+    if (this.acceptWord('not')) return this.parseUnary();
+    const token = this.peek();
+    if (token.type === '(') {
+      this.next();
+      this.parseOr();
+      if (this.peek().type !== ')') {
+        this.fail(this.peek(), `Missing \`)\` to close the \`(\` at ${token.line}:${token.column}`);
+      }
+      this.next();
+      return;
+    }
+    this.parseCondition();
+  }
+
+  private parseCondition() {
+    const field = this.parseField();
+    const opToken = this.peek();
+    let operator: string;
+
+    if (opToken.type === 'op') {
+      operator = this.next().value;
+    } else if (this.acceptWord('is')) {
+      operator = this.acceptWord('not') ? 'is not' : 'is';
+      if (this.acceptWord('empty')) return this.noteCondition(field);
+    } else if (this.isWord(opToken, 'not') && this.isWord(this.peek(1), 'in')) {
+      this.pos += 2;
+      operator = 'not in';
+    } else if (this.acceptWord('in')) {
+      operator = 'in';
+    } else {
+      this.fail(
+        opToken,
+        `Expected an operator after \`${field.text}\`, found ${this.describe(opToken)}`,
+        'Operators: =, !=, <, <=, >, >=, ~, !~, is, is not, in, not in, is empty, is not empty',
+      );
+    }
+
+    if (operator === 'in' || operator === 'not in') {
+      this.parseList(field, operator);
+      return this.noteCondition(field, operator);
+    }
+    const value = this.parseValue(field, operator);
+    this.noteCondition(field, operator, value);
+  }
+
+  /** Record the first `entity = "..."`; any other use of `entity` is an error. */
+  private noteCondition(field: Token, operator?: string, value?: Token) {
+    if (field.value !== 'entity') return;
+    if (operator !== '=' || value?.type !== 'string') {
+      this.report(field, 'The entity is chosen with `entity = "..."`');
+      return;
+    }
+    this.entity ??= value;
+  }
+
+  private parseList(field: Token, operator: string) {
+    const open = this.peek();
+    if (open.type !== '[' && open.type !== '(') {
+      this.fail(open, `\`${operator}\` needs a list`, `Write ${field.text} ${operator} ["a", "b"]`);
+    }
+    this.next();
+    const close = open.type === '[' ? ']' : ')';
+    if (this.peek().type !== close) {
+      do {
+        this.parseValue(field, operator);
+      } while (this.peek().type === ',' && this.next());
+    }
+    if (this.peek().type !== close) {
+      this.fail(
+        this.peek(),
+        `Missing \`${close}\` to close the \`${open.text}\` at ${open.line}:${open.column}`,
+      );
+    }
+    this.next();
+  }
+
+  private parseValue(field: Token, operator: string): Token {
+    const token = this.peek();
+    if (token.type === 'string' || token.type === 'number') {
+      this.values.push({ field, operator, token });
+      return this.next();
+    }
+    if (token.type === 'word' && this.peek(1).type === '(') {
+      this.parseFunction();
+      return token;
+    }
+    if (this.isWord(token, 'true') || this.isWord(token, 'false')) {
+      return this.next();
+    }
+    if (token.type === 'word' && !['and', 'or'].includes(token.value.toLowerCase())) {
+      this.fail(
+        token,
+        `Text values must be quoted: \`${token.text}\``,
+        `Write ${field.text} ${operator} "${token.text}"`,
+      );
+    }
+    this.fail(token, `Expected a value after \`${operator}\`, found ${this.describe(token)}`);
+  }
+
+  private parseFunction() {
+    const name = this.next();
+    const open = this.next();
+    if (!FUNCTIONS.includes(name.value)) {
+      const near = FUNCTIONS.find((f) => f.toLowerCase() === name.value.toLowerCase());
+      this.report(
+        name,
+        `Unknown function \`${name.text}()\``,
+        near ? `Use ${near}()` : `Functions: ${FUNCTIONS.map((f) => `${f}()`).join(', ')}`,
+      );
+    }
+    const arg = this.peek().type === 'string' ? this.next() : undefined;
+    if (arg && DATE_FUNCTIONS.includes(name.value)) {
+      const ok = DATE_OFFSET.test(arg.value) || (name.value !== 'now' && ISO_DATE.test(arg.value));
+      if (!ok) {
+        this.report(
+          arg,
+          `${name.value}("${arg.value}") is not supported — offsets use d, w or m`,
+          'Hours and years are not supported: write now("-7d"), now("-2w") or now("-12m")',
+        );
+      }
+    } else if (arg) {
+      this.report(arg, `${name.text}() takes no argument`);
+    }
+    if (this.peek().type !== ')') {
+      this.fail(this.peek(), `Missing \`)\` to close the \`(\` at ${open.line}:${open.column}`);
+    }
+    this.next();
+  }
+}
+
+/**
+ * Check a QQL query without sending it. Returns the problems found, each with
+ * a 1-based line and column; an empty list means the query looks valid. Enum
+ * values are checked against `enums`.
+ */
+export function lintQql(query: string, enums: QqlEnums = QQL_ENUMS): QqlDiagnostic[] {
+  const diagnostics: QqlDiagnostic[] = [];
+  const tokens = tokenize(query, diagnostics);
+  if (diagnostics.length > 0) return diagnostics;
+
+  const parser = new Parser(tokens, diagnostics);
+  try {
+    parser.parseQuery();
+  } catch (error) {
+    if (!(error instanceof SyntaxStop)) throw error;
+  }
+
+  const entityToken = parser.entity;
+  if (!entityToken) {
+    if (diagnostics.length === 0) {
+      diagnostics.push({
+        line: 1,
+        column: 1,
+        message: 'The query does not say which entity to search',
+        suggestion: `Add entity = "..." — one of ${QQL_ENTITIES.join(', ')}`,
+      });
+    }
+    return sortDiagnostics(diagnostics);
+  }
+  if (!(QQL_ENTITIES as readonly string[]).includes(entityToken.value)) {
+    diagnostics.push({
+      line: entityToken.line,
+      column: entityToken.column,
+      message: `"${entityToken.value}" is not a QQL entity`,
+      suggestion: `Use one of ${QQL_ENTITIES.join(', ')}`,
+    });
+    return sortDiagnostics(diagnostics);
+  }
+  const entity = entityToken.value as QqlEntityName;
+
+  for (const { token } of parser.fields) {
+    const problem = fieldProblem(entity, token.value);
+    if (problem) diagnostics.push({ line: token.line, column: token.column, message: problem });
+  }
+  for (const { field, operator, token } of parser.values) {
+    if (token.type !== 'string' || !ENUM_OPERATORS.has(operator)) continue;
+    const problem = enumProblem(entity, field.value, token.value, enums);
+    if (problem) diagnostics.push({ line: token.line, column: token.column, message: problem });
+  }
+
+  return sortDiagnostics(diagnostics);
+}
+
+/**
+ * `lintQql` that accepts the workspace's own priority, severity and status
+ * labels. They are only loaded once the defaults flag something, so a query
+ * that passes costs no system fields call.
+ */
+export async function lintQqlInWorkspace(query: string): Promise<QqlDiagnostic[]> {
+  const diagnostics = lintQql(query);
+  return diagnostics.length > 0 ? lintQql(query, await loadQqlEnums()) : diagnostics;
+}
+
+function sortDiagnostics(diagnostics: QqlDiagnostic[]): QqlDiagnostic[] {
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/** Render diagnostics one per line: `1:34 — message. Fix: suggestion`. */
+export function formatDiagnostics(diagnostics: QqlDiagnostic[]): string {
+  return diagnostics
+    .map(
+      (d) =>
+        `- ${d.line}:${d.column} — ${d.message}` + (d.suggestion ? `. Fix: ${d.suggestion}` : ''),
+    )
+    .join('\n');
+}
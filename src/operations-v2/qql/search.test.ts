@@ -0,0 +1,136 @@
+/**
+ * Tests for qql_search paging — `all: true` / `max_rows` walk the result set
+ * page by page, report progress, and say when rows were left out — and the
+ * local check that runs before any query is sent.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockSearch = jest.fn();
+const mockGetSystemFields = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    search: { search: mockSearch },
+    systemFields: { getSystemFields: mockGetSystemFields },
+  }),
+}));
+
+import './index.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { progressStorage } from '../../utils/server-context.js';
+import { QQL_DEFAULT_MAX_ROWS } from './index.js';
+import { resetCaseEnumCacheForTest } from '../../utils/case-enums.js';
+
+const QUERY = 'entity = "case" and project = "DEMO"';
+
+/** A result set of `total` cases, served like the search endpoint does. */
+function servePages(total: number) {
+  return (_query: string, limit: number, offset: number) => {
+    const entities = Array.from(
+      { length: Math.max(0, Math.min(limit, total - offset)) },
+      (_, i) => ({ id: offset + i + 1, title: `Case ${offset + i + 1}` }),
+    );
+    return Promise.resolve({ data: { status: true, result: { total, entities } } });
+  };
+}
+
+function search(args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler('qql_search')!({ query: QUERY, ...args });
+}
+
+beforeEach(() => {
+  mockSearch.mockReset().mockImplementation(servePages(250));
+});
+
+describe('qql_search paging', () => {
+  it('returns one page without all', async () => {
+    const res = await search({ limit: 20 });
+
+    expect(res.structuredContent.entities).toHaveLength(20);
+    expect(res.structuredContent.coverage).toBeUndefined();
+    expect(mockSearch).toHaveBeenCalledTimes(1);
+  });
+
+  it('pages through every row with all: true', async () => {
+    const res = await search({ all: true });
+
+    expect(mockSearch.mock.calls.map((c) => c.slice(1))).toEqual([
+      [100, 0],
+      [100, 100],
+      [100, 200],
+    ]);
+    expect(res.structuredContent.entities).toHaveLength(250);
+    expect(res.structuredContent.coverage).toEqual({ total: 250, loaded: 250, truncated: false });
+  });
+
+  it('stops at max_rows and says how to continue', async () => {
+    const res = await search({ all: true, max_rows: 150, offset: 50 });
+
+    expect(res.structuredContent.entities).toHaveLength(150);
+    expect(res.structuredContent.entities[0].id).toBe(51);
+    expect(res.structuredContent.coverage).toEqual({ total: 250, loaded: 150, truncated: true });
+    expect(res.content[0].text).toContain('50 more match. Continue with offset 200');
+  });
+
+  it('caps all: true at the default row limit', async () => {
+    mockSearch.mockImplementation(servePages(QQL_DEFAULT_MAX_ROWS + 1));
+
+    const res = await search({ all: true });
+
+    expect(res.structuredContent.coverage.loaded).toBe(QQL_DEFAULT_MAX_ROWS);
+    expect(res.structuredContent.coverage.truncated).toBe(true);
+  });
+
+  it('sends a progress notification per page when the client asked for progress', async () => {
+    const send = jest.fn().mockResolvedValue(undefined);
+
+    await progressStorage.run({ token: 'p1', send }, () => search({ all: true }));
+
+    expect(send.mock.calls.map((c: any[]) => c[0].params)).toEqual([
+      { progressToken: 'p1', progress: 100, total: 250, message: 'Fetched 100 of 250 rows' },
+      { progressToken: 'p1', progress: 200, total: 250, message: 'Fetched 200 of 250 rows' },
+      { progressToken: 'p1', progress: 250, total: 250, message: 'Fetched 250 of 250 rows' },
+    ]);
+  });
+});
+
+describe('qql_search checks', () => {
+  beforeEach(() => resetCaseEnumCacheForTest());
+
+  it('sends a severity the workspace defines but the defaults lack', async () => {
+    mockGetSystemFields.mockResolvedValue({
+      data: {
+        status: true,
+        result: [{ slug: 'severity', options: [{ id: 7, slug: 's0', title: 'S0' }] }],
+      },
+    });
+    const query = `${QUERY} and severity = "S0"`;
+
+    await search({ query });
+
+    expect(mockSearch).toHaveBeenCalledWith(query, 10, 0);
+  });
+
+  it('sends custom case and result statuses the workspace defines', async () => {
+    mockGetSystemFields.mockResolvedValue({
+      data: {
+        status: true,
+        result: [
+          { slug: 'status', options: [{ id: 5, slug: 'in-review', title: 'In review' }] },
+          { slug: 'result_status', options: [{ id: 9, slug: 'retest', title: 'Retest' }] },
+        ],
+      },
+    });
+    const cases = `${QUERY} and status = "In review"`;
+    const results = 'entity = "result" and project = "DEMO" and status = "Retest"';
+
+    await search({ query: cases });
+    await search({ query: results });
+
+    expect(mockSearch.mock.calls.map((c) => c[0])).toEqual([cases, results]);
+  });
+});
@@ -5,7 +5,7 @@ import { toResultAsync, createToolError } from '../../utils/errors.js';
 import { ProjectCodeSchema, IdSchema, HashSchema } from '../../utils/validation.js';
 import { projectFields } from '../../utils/response-shape.js';
 
-const ENTITIES_REQUIRING_CODE = new Set([
+export const ENTITIES_REQUIRING_CODE = new Set([
   'case',
   'suite',
   'run',
@@ -19,27 +19,30 @@ const ENTITIES_REQUIRING_CODE = new Set([
   'configuration',
 ]);
 
+/** Entity types `qase_get` fetches and `qase_list` lists. */
+export const ENTITY_TYPES = [
+  'case',
+  'suite',
+  'run',
+  'result',
+  'plan',
+  'defect',
+  'milestone',
+  'environment',
+  'shared_step',
+  'shared_parameter',
+  'configuration',
+  'attachment',
+  'author',
+  'user',
+  'review',
+  'custom_field',
+] as const;
+
+export type EntityType = (typeof ENTITY_TYPES)[number];
+
 const Schema = z.object({
-  entity: z
-    .enum([
-      'case',
-      'suite',
-      'run',
-      'result',
-      'plan',
-      'defect',
-      'milestone',
-      'environment',
-      'shared_step',
-      'shared_parameter',
-      'configuration',
-      'attachment',
-      'author',
-      'user',
-      'review',
-      'custom_field',
-    ])
-    .describe('Entity type to fetch'),
+  entity: z.enum(ENTITY_TYPES).describe('Entity type to fetch'),
   code: ProjectCodeSchema.optional().describe('Project code (required for most entities)'),
   id: z.union([IdSchema, HashSchema]).describe('Entity ID (number) or hash (string)'),
   fields: z
@@ -90,9 +93,20 @@ const FETCHERS: Record<
   review: (c, code, id) => c.reviews.getReview(code, id),
 };
 
-async function handler(args: z.infer<typeof Schema>) {
-  const { entity, code, id, fields: fieldList, include } = args;
-
+/**
+ * Fetch a single entity through the same path `qase_get` uses, including the
+ * default-`include` fallback. Shared with the MCP resource handlers so a
+ * resource read and a tool call return identical data.
+ *
+ * Throws a ToolExecutionError when the entity is unknown, the project code is
+ * missing, or the API call fails.
+ */
+export async function fetchEntity(
+  entity: string,
+  code: string | undefined,
+  id: number | string,
+  include?: string,
+): Promise<unknown> {
   if (ENTITIES_REQUIRING_CODE.has(entity) && !code) {
     throw createToolError(`Project code is required for entity type "${entity}"`, 'get operation');
   }
@@ -115,16 +129,19 @@ async function handler(args: z.infer<typeof Schema>) {
   }
 
   return result.match(
-    (response) => {
-      const data = response.data.result;
-      return fieldList ? projectFields(data, fieldList) : data;
-    },
+    (response) => response.data.result,
     (error) => {
       throw createToolError(error, 'get operation');
     },
   );
 }
 
+async function handler(args: z.infer<typeof Schema>) {
+  const { entity, code, id, fields: fieldList, include } = args;
+  const data = await fetchEntity(entity, code, id, include);
+  return fieldList ? projectFields(data, fieldList) : data;
+}
+
 toolRegistry.register({
   name: 'qase_get',
   description:
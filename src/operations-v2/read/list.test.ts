@@ -0,0 +1,175 @@
+/**
+ * Tests for qase_list — per-entity filters, projection, and cursor paging.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetCases = jest.fn();
+const mockGetResults = jest.fn();
+const mockGetConfigurations = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    cases: { getCases: mockGetCases },
+    results: { getResults: mockGetResults },
+    configurations: { getConfigurations: mockGetConfigurations },
+  }),
+}));
+
+import './list.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { LIST_MAX_PAGES } from './list.js';
+
+/** A collection of `total` cases, served page by page like the API does. */
+function servePages(total: number) {
+  return (...args: unknown[]) => {
+    const [limit, offset] = args.slice(-2) as [number, number];
+    const entities = Array.from(
+      { length: Math.max(0, Math.min(limit, total - offset)) },
+      (_, i) => ({
+        id: offset + i + 1,
+        title: `Case ${offset + i + 1}`,
+        suite_id: 3,
+      }),
+    );
+    return Promise.resolve({ data: { status: true, result: { total, entities } } });
+  };
+}
+
+function list(args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler('qase_list')!(args);
+}
+
+beforeEach(() => {
+  mockGetCases.mockReset().mockImplementation(servePages(250));
+  mockGetResults.mockReset().mockImplementation(servePages(0));
+  mockGetConfigurations.mockReset();
+});
+
+describe('qase_list', () => {
+  it('passes case filters to the matching API parameters', async () => {
+    await list({
+      entity: 'case',
+      code: 'DEMO',
+      filters: { suite_id: 3, milestone_id: 9, status: 'actual', automation: 'automated' },
+      limit: 10,
+    });
+
+    expect(mockGetCases).toHaveBeenCalledWith(
+      'DEMO',
+      undefined,
+      9,
+      3,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      'automated',
+      'actual',
+      undefined,
+      undefined,
+      undefined,
+      10,
+      0,
+    );
+  });
+
+  it('sends result run and case filters as the strings the API takes', async () => {
+    await list({ entity: 'result', code: 'DEMO', filters: { run_id: 5, case_id: 7 } });
+
+    expect(mockGetResults.mock.calls[0].slice(2, 4)).toEqual(['5', '7']);
+  });
+
+  it('projects fields on every entity', async () => {
+    const res = await list({ entity: 'case', code: 'DEMO', limit: 2, fields: ['id'] });
+
+    expect(res.entities).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('returns a cursor that continues where the page ended', async () => {
+    const first = await list({ entity: 'case', code: 'DEMO', limit: 100 });
+    expect(first).toMatchObject({ total: 250, offset: 0, count: 100 });
+
+    const second = await list({ entity: 'case', code: 'DEMO', cursor: first.next_cursor });
+    expect(second).toMatchObject({ offset: 100, count: 100 });
+    expect(second.entities[0].id).toBe(101);
+
+    const last = await list({ entity: 'case', code: 'DEMO', cursor: second.next_cursor });
+    expect(last).toMatchObject({ offset: 200, count: 50 });
+    expect(last.next_cursor).toBeUndefined();
+  });
+
+  it('rejects a cursor from a different listing', async () => {
+    const first = await list({ entity: 'case', code: 'DEMO', filters: { suite_id: 3 } });
+
+    await expect(
+      list({ entity: 'case', code: 'DEMO', filters: { suite_id: 4 }, cursor: first.next_cursor }),
+    ).rejects.toThrow(/different listing/);
+    await expect(list({ entity: 'case', code: 'DEMO', cursor: 'garbage' })).rejects.toThrow(
+      /not a valid/,
+    );
+  });
+
+  it('counts and pages a filtered listing by its matches, not the whole collection', async () => {
+    mockGetCases.mockImplementation(() =>
+      Promise.resolve({
+        data: {
+          status: true,
+          result: { total: 250, filtered: 2, entities: [{ id: 1 }, { id: 2 }] },
+        },
+      }),
+    );
+
+    const res = await list({ entity: 'case', code: 'DEMO', filters: { suite_id: 3 }, all: true });
+
+    expect(res).toMatchObject({ total: 2, count: 2 });
+    expect(res.next_cursor).toBeUndefined();
+    expect(mockGetCases).toHaveBeenCalledTimes(1);
+  });
+
+  it('pages through everything with all: true', async () => {
+    const res = await list({ entity: 'case', code: 'DEMO', all: true });
+
+    expect(res).toMatchObject({ total: 250, count: 250 });
+    expect(res.next_cursor).toBeUndefined();
+    expect(mockGetCases).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops all: true at the page cap and hands back a cursor', async () => {
+    const cap = LIST_MAX_PAGES * 100;
+    mockGetCases.mockImplementation(servePages(cap + 30));
+
+    const res = await list({ entity: 'case', code: 'DEMO', all: true });
+    expect(res.count).toBe(cap);
+    expect(mockGetCases).toHaveBeenCalledTimes(LIST_MAX_PAGES);
+
+    const rest = await list({ entity: 'case', code: 'DEMO', all: true, cursor: res.next_cursor });
+    expect(rest).toMatchObject({ offset: cap, count: 30 });
+  });
+
+  it('rejects filters the entity does not support', async () => {
+    await expect(
+      list({ entity: 'result', code: 'DEMO', filters: { suite_id: 3, search: 'x' } }),
+    ).rejects.toThrow(/Filters suite_id, search not supported for result/);
+    expect(mockGetResults).not.toHaveBeenCalled();
+  });
+
+  it('requires a project code for project-scoped entities', async () => {
+    await expect(list({ entity: 'case' })).rejects.toThrow(/Project code is required/);
+  });
+
+  it('returns unpaged collections whole', async () => {
+    mockGetConfigurations.mockResolvedValue({
+      data: { status: true, result: { total: 1, entities: [{ id: 1, title: 'Browsers' }] } },
+    });
+
+    const res = await list({ entity: 'configuration', code: 'DEMO', limit: 5 });
+
+    expect(mockGetConfigurations).toHaveBeenCalledWith('DEMO');
+    expect(res).toMatchObject({ total: 1, count: 1, offset: 0 });
+    expect(res.next_cursor).toBeUndefined();
+  });
+});
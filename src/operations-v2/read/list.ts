@@ -0,0 +1,414 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { getApiClient, type QaseApiClient } from '../../client/index.js';
+import { toolRegistry, ReadAnnotation } from '../../utils/registry.js';
+import { toResultAsync, createToolError, ToolExecutionError } from '../../utils/errors.js';
+import { ProjectCodeSchema, IdSchema } from '../../utils/validation.js';
+import { projectFields } from '../../utils/response-shape.js';
+import { PAGE_SIZE, fetchAll, matchedCount, type ListPage } from '../../utils/pagination.js';
+import { ENTITY_TYPES, type EntityType } from './get.js';
+
+/**
+ * Page cap for `all: true`. Lower than the project-context cap: every entity
+ * here is returned in full to the model, so 1,000 is already a lot of context.
+ */
+export const LIST_MAX_PAGES = 10;
+
+const FiltersSchema = z
+  .object({
+    search: z
+      .string()
+      .optional()
+      .describe(
+        'Text search — case, suite, run, milestone, environment, shared_step, shared_parameter, ' +
+          'author, review',
+      ),
+    suite_id: IdSchema.optional().describe('case: only cases directly in this suite'),
+    milestone_id: IdSchema.optional().describe('case, run: only those in this milestone'),
+    environment_id: IdSchema.optional().describe('run: only runs in this environment'),
+    status: z
+      .string()
+      .optional()
+      .describe(
+        'case: actual, draft, deprecated; run: active, complete, abort; ' +
+          'result: passed, failed, blocked, skipped, invalid; ' +
+          'defect: open, resolved, in_progress, invalid; review: open, merged, declined. ' +
+          'Case, run and result accept a comma-separated list.',
+      ),
+    severity: z.string().optional().describe('case: comma-separated severity slugs'),
+    priority: z.string().optional().describe('case: comma-separated priority slugs'),
+    type: z.string().optional().describe('case: comma-separated type slugs'),
+    behavior: z.string().optional().describe('case: comma-separated behavior slugs'),
+    automation: z
+      .string()
+      .optional()
+      .describe('case: comma-separated — is-not-automated, automated, to-be-automated'),
+    run_id: IdSchema.optional().describe('result: only results of this run'),
+    case_id: IdSchema.optional().describe('result, review: only those for this case'),
+    from_start_time: z
+      .number()
+      .int()
+      .optional()
+      .describe('run: started at or after this Unix timestamp'),
+    to_start_time: z.number().int().optional().describe('run: started before this Unix timestamp'),
+    from_end_time: z
+      .string()
+      .optional()
+      .describe('result: finished at or after this time (YYYY-MM-DD HH:mm:ss)'),
+    to_end_time: z
+      .string()
+      .optional()
+      .describe('result: finished before this time (YYYY-MM-DD HH:mm:ss)'),
+    field_entity: z
+      .enum(['case', 'run', 'defect'])
+      .optional()
+      .describe('custom_field: only fields for this entity type'),
+  })
+  .strict();
+
+type Filters = z.infer<typeof FiltersSchema>;
+type FilterName = keyof Filters;
+
+const Schema = z.object({
+  entity: z.enum(ENTITY_TYPES).describe('Entity type to list'),
+  code: ProjectCodeSchema.optional().describe(
+    'Project code — required for project-scoped entities; for shared_parameter it narrows the ' +
+      'list to parameters available in that project',
+  ),
+  filters: FiltersSchema.optional().describe(
+    'Entity-specific filters. Each applies to the entities named in its description; passing one ' +
+      'the entity does not support is an error.',
+  ),
+  fields: z
+    .array(z.string())
+    .optional()
+    .describe('Only return these top-level fields of each entity. Pass ["*"] for all fields.'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(PAGE_SIZE)
+    .optional()
+    .describe(`Entities per page (default and max: ${PAGE_SIZE}). Ignored with all: true.`),
+  cursor: z
+    .string()
+    .optional()
+    .describe('`next_cursor` from a previous call with the same entity, code, and filters'),
+  all: z
+    .boolean()
+    .optional()
+    .describe(
+      `Page through the whole collection, up to ${LIST_MAX_PAGES * PAGE_SIZE} entities ` +
+        '(default: false). If more remain, `next_cursor` continues from there.',
+    ),
+});
+
+type PageFetcher = (
+  client: QaseApiClient,
+  code: string,
+  f: Filters,
+  limit: number,
+  offset: number,
+) => Promise<{ data: { result?: unknown } }>;
+
+// `status` is one filter for every entity; the API rejects values an entity does not know
+type DefectStatus = Parameters<QaseApiClient['defects']['getDefects']>[1];
+type ReviewStatus = Parameters<QaseApiClient['reviews']['getReviews']>[1];
+
+interface Lister {
+  /** Whether the list endpoint is scoped to a project. */
+  needsCode: boolean;
+  filters: FilterName[];
+  fetch: PageFetcher;
+  /** Endpoints without limit/offset return everything in one response. */
+  unpaged?: true;
+}
+
+const str = (n: number | undefined) => (n === undefined ? undefined : String(n));
+
+const LISTERS: Record<EntityType, Lister> = {
+  case: {
+    needsCode: true,
+    filters: [
+      'search',
+      'suite_id',
+      'milestone_id',
+      'status',
+      'severity',
+      'priority',
+      'type',
+      'behavior',
+      'automation',
+    ],
+    fetch: (c, code, f, limit, offset) =>
+      // getCases(code, search, milestoneId, suiteId, severity, priority, type,
+      //          behavior, automation, status, externalIssuesType, externalIssuesIds,
+      //          include, limit, offset)
+      c.cases.getCases(
+        code,
+        f.search,
+        f.milestone_id,
+        f.suite_id,
+        f.severity,
+        f.priority,
+        f.type,
+        f.behavior,
+        f.automation,
+        f.status,
+        undefined,
+        undefined,
+        undefined,
+        limit,
+        offset,
+      ),
+  },
+  suite: {
+    needsCode: true,
+    filters: ['search'],
+    fetch: (c, code, f, limit, offset) => c.suites.getSuites(code, f.search, limit, offset),
+  },
+  run: {
+    needsCode: true,
+    filters: [
+      'search',
+      'status',
+      'milestone_id',
+      'environment_id',
+      'from_start_time',
+      'to_start_time',
+    ],
+    fetch: (c, code, f, limit, offset) =>
+      c.runs.getRuns(
+        code,
+        f.search,
+        f.status,
+        f.milestone_id,
+        f.environment_id,
+        f.from_start_time,
+        f.to_start_time,
+        limit,
+        offset,
+      ),
+  },
+  result: {
+    needsCode: true,
+    filters: ['status', 'run_id', 'case_id', 'from_end_time', 'to_end_time'],
+    fetch: (c, code, f, limit, offset) =>
+      // getResults(code, status, run, caseId, member, api, fromEndTime, toEndTime, limit, offset)
+      c.results.getResults(
+        code,
+        f.status,
+        str(f.run_id),
+        str(f.case_id),
+        undefined,
+        undefined,
+        f.from_end_time,
+        f.to_end_time,
+        limit,
+        offset,
+      ),
+  },
+  plan: {
+    needsCode: true,
+    filters: [],
+    fetch: (c, code, _f, limit, offset) => c.plans.getPlans(code, limit, offset),
+  },
+  defect: {
+    needsCode: true,
+    filters: ['status'],
+    fetch: (c, code, f, limit, offset) =>
+      c.defects.getDefects(code, f.status as DefectStatus, limit, offset),
+  },
+  milestone: {
+    needsCode: true,
+    filters: ['search'],
+    fetch: (c, code, f, limit, offset) => c.milestones.getMilestones(code, f.search, limit, offset),
+  },
+  environment: {
+    needsCode: true,
+    filters: ['search'],
+    fetch: (c, code, f, limit, offset) =>
+      c.environment.getEnvironments(code, f.search, undefined, limit, offset),
+  },
+  shared_step: {
+    needsCode: true,
+    filters: ['search'],
+    fetch: (c, code, f, limit, offset) =>
+      c.sharedSteps.getSharedSteps(code, f.search, limit, offset),
+  },
+  shared_parameter: {
+    needsCode: false,
+    filters: ['search'],
+    fetch: (c, code, f, limit, offset) =>
+      c.sharedParameters.getSharedParameters(
+        limit,
+        offset,
+        f.search,
+        undefined,
+        code ? [code] : undefined,
+      ),
+  },
+  configuration: {
+    needsCode: true,
+    filters: [],
+    fetch: (c, code) => c.configurations.getConfigurations(code),
+    unpaged: true,
+  },
+  attachment: {
+    needsCode: false,
+    filters: [],
+    fetch: (c, _code, _f, limit, offset) => c.attachments.getAttachments(limit, offset),
+  },
+  author: {
+    needsCode: false,
+    filters: ['search'],
+    fetch: (c, _code, f, limit, offset) => c.authors.getAuthors(f.search, undefined, limit, offset),
+  },
+  user: {
+    needsCode: false,
+    filters: [],
+    fetch: (c, _code, _f, limit, offset) => c.users.getUsers(limit, offset),
+  },
+  review: {
+    needsCode: true,
+    filters: ['search', 'status', 'case_id'],
+    fetch: (c, code, f, limit, offset) =>
+      // getReviews(code, status, type, caseId, authorUuid, reviewerUuid, search, limit, offset)
+      c.reviews.getReviews(
+        code,
+        f.status as ReviewStatus,
+        undefined,
+        f.case_id,
+        undefined,
+        undefined,
+        f.search,
+        limit,
+        offset,
+      ),
+  },
+  custom_field: {
+    needsCode: false,
+    filters: ['field_entity'],
+    fetch: (c, _code, f, limit, offset) =>
+      c.customFields.getCustomFields(f.field_entity, undefined, limit, offset),
+  },
+};
+
+interface CursorState {
+  entity: string;
+  code: string;
+  /** Digest of the filters, so a cursor cannot continue a different listing. */
+  filters: string;
+  offset: number;
+}
+
+function filtersDigest(filters: Filters): string {
+  const sorted = Object.fromEntries(
+    Object.entries(filters)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b)),
+  );
+  return createHash('sha256').update(JSON.stringify(sorted)).digest('hex').slice(0, 16);
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/** The offset a cursor continues from, after checking it belongs to this listing. */
+export function readCursor(cursor: string, entity: string, code: string, filters: Filters): number {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ToolExecutionError('cursor is not a valid qase_list cursor.');
+  }
+  if (typeof state?.offset !== 'number' || state.offset < 0) {
+    throw new ToolExecutionError('cursor is not a valid qase_list cursor.');
+  }
+  if (state.entity !== entity || state.code !== code || state.filters !== filtersDigest(filters)) {
+    throw new ToolExecutionError(
+      'cursor was issued for a different listing.',
+      'Pass the same entity, code, and filters as the call that returned the cursor, or drop the cursor to start over.',
+    );
+  }
+  return state.offset;
+}
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { entity, code = '', filters = {}, fields, limit = PAGE_SIZE, cursor, all = false } = args;
+  const lister = LISTERS[entity];
+  if (!lister) throw createToolError(`Unknown entity type: ${entity}`, 'list operation');
+
+  if (lister.needsCode && !code) {
+    throw createToolError(`Project code is required to list "${entity}"`, 'list operation');
+  }
+
+  const unsupported = (Object.keys(filters) as FilterName[]).filter(
+    (name) => filters[name] !== undefined && !lister.filters.includes(name),
+  );
+  if (unsupported.length > 0) {
+    throw new ToolExecutionError(
+      `Filter${unsupported.length > 1 ? 's' : ''} ${unsupported.join(', ')} not supported for ${entity}`,
+      lister.filters.length > 0
+        ? `Filters for ${entity}: ${lister.filters.join(', ')}.`
+        : `${entity} cannot be filtered — omit filters.`,
+    );
+  }
+
+  const offset = cursor ? readCursor(cursor, entity, code, filters) : 0;
+  const client = getApiClient();
+
+  const fetchPage = async (pageLimit: number, pageOffset: number): Promise<ListPage> => {
+    const result = await toResultAsync(lister.fetch(client, code, filters, pageLimit, pageOffset));
+    return result.match(
+      (r) => (r.data.result as ListPage) ?? null,
+      (e) => {
+        throw createToolError(e, 'list operation');
+      },
+    );
+  };
+
+  const page = lister.unpaged
+    ? await fetchPage(0, 0)
+    : all
+      ? await fetchAll(fetchPage, LIST_MAX_PAGES, offset)
+      : await fetchPage(limit, offset);
+
+  const entities = page?.entities ?? [];
+  const start = lister.unpaged ? 0 : offset;
+  const total = matchedCount(page) ?? start + entities.length;
+  const reached = start + entities.length;
+
+  return {
+    entity,
+    total,
+    offset: start,
+    count: entities.length,
+    entities: fields ? projectFields(entities, fields) : entities,
+    ...(reached < total &&
+      entities.length > 0 && {
+        next_cursor: encodeCursor({
+          entity,
+          code,
+          filters: filtersDigest(filters),
+          offset: reached,
+        }),
+      }),
+  };
+}
+
+toolRegistry.register({
+  name: 'qase_list',
+  description:
+    'List Qase entities of one type — cases, suites, runs, results, defects, plans, shared ' +
+    'steps, and every other type qase_get supports — with typed filters (suite_id, ' +
+    'milestone_id, status, run_id, …), optional field projection, and cursor paging. Works ' +
+    'on every subscription, unlike qql_search. Returns up to `limit` entities and a ' +
+    '`next_cursor` while more remain; pass `all: true` to page through up to ' +
+    `${LIST_MAX_PAGES * PAGE_SIZE} entities in one call. Use \`fields\` to keep large ` +
+    'listings small.',
+  schema: Schema,
+  handler,
+  annotations: ReadAnnotation,
+});
@@ -7,16 +7,7 @@ import { richResult, summaryBlock, dataBlock } from '../../utils/rich-response.j
 import { ProjectContextOutput } from '../../utils/output-schemas.js';
 import { getCache, buildCacheKey, hashToken } from '../../cache/index.js';
 import { getEffectiveToken } from '../../utils/auth-context.js';
-
-/** Entities requested per API call. 100 is the largest page the Qase API serves. */
-const PAGE_SIZE = 100;
-
-/**
- * Hard cap on pages fetched per collection when `full` is set. A project with
- * more entities than this still reports the true `total`, so the truncation
- * stays visible instead of silently capping.
- */
-const MAX_PAGES = 50;
+import { PAGE_SIZE, fetchAll, type ListPage } from '../../utils/pagination.js';
 
 const Schema = z.object({
   code: ProjectCodeSchema,
@@ -32,9 +23,6 @@ const Schema = z.object({
     ),
 });
 
-/** A Qase list endpoint response: `{ total, filtered, count, entities }`. */
-type ListPage = { total?: number; entities?: unknown[] } | null;
-
 /** Per-collection completeness metadata attached to the result. */
 interface Coverage {
   /** Entities the project actually has, as reported by the API. */
@@ -53,32 +41,6 @@ function coverageOf(page: ListPage): Coverage {
   return { total, loaded, truncated: loaded < total };
 }
 
-/**
- * Fetch the first page of a collection, then keep paging while the API reports
- * more entities than collected. Returns the shape of a single list response with
- * `entities` holding everything fetched.
- */
-async function fetchAll(
-  fetchPage: (limit: number, offset: number) => Promise<ListPage>,
-): Promise<ListPage> {
-  const first = await fetchPage(PAGE_SIZE, 0);
-  if (!first) return null;
-
-  const entities = [...(first.entities ?? [])];
-  const total = first.total ?? entities.length;
-
-  for (let page = 1; entities.length < total && page < MAX_PAGES; page++) {
-    const next = await fetchPage(PAGE_SIZE, page * PAGE_SIZE);
-    const batch = next?.entities ?? [];
-    // No progress (empty page or an endpoint ignoring offset) — stop rather than
-    // spin until MAX_PAGES.
-    if (batch.length === 0) break;
-    entities.push(...batch);
-  }
-
-  return { ...first, entities };
-}
-
 async function handler(args: z.infer<typeof Schema>) {
   const { code, full = false } = args;
   const cache = await getCache();
@@ -226,6 +188,7 @@ async function handler(args: z.infer<typeof Schema>) {
       lines.push(`- ${s.title}`);
     }
     if (topLevel.length > 10) lines.push(`- _...and ${topLevel.length - 10} more_`);
+    lines.push('', '_qase_suite_tree shows the full hierarchy with case counts._');
   }
 
   const summary = lines.join('\n');
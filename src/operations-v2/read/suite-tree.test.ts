@@ -0,0 +1,77 @@
+/**
+ * Tests for qase_suite_tree — recursive counts, subtree start, depth limit,
+ * and the rendered markdown tree.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetSuites = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({ suites: { getSuites: mockGetSuites } }),
+}));
+
+import './suite-tree.js';
+import { toolRegistry } from '../../utils/registry.js';
+
+const SUITES = [
+  { id: 1, title: 'Auth', parent_id: null, position: 1, cases_count: 2 },
+  { id: 2, title: 'Login', parent_id: 1, position: 1, cases_count: 5 },
+  { id: 3, title: 'SSO', parent_id: 2, position: 1, cases_count: 4 },
+  { id: 4, title: 'Billing', parent_id: null, position: 2, cases_count: 1 },
+];
+
+function tree(args: Record<string, unknown> = {}): Promise<any> {
+  return toolRegistry.getHandler('qase_suite_tree')!({ code: 'DEMO', ...args });
+}
+
+beforeEach(() => {
+  mockGetSuites.mockReset().mockImplementation((_code: string, _search: unknown, limit: number) =>
+    Promise.resolve({
+      data: { status: true, result: { total: SUITES.length, entities: SUITES.slice(0, limit) } },
+    }),
+  );
+});
+
+describe('qase_suite_tree', () => {
+  it('renders the whole hierarchy with recursive case counts', async () => {
+    const res = await tree();
+
+    expect(res.structuredContent).toMatchObject({ suites: 4, cases: 12 });
+    expect(res.structuredContent.tree[0]).toMatchObject({
+      id: 1,
+      cases_count: 2,
+      total_cases: 11,
+      descendants: 2,
+      children: [{ id: 2, total_cases: 9, children: [{ id: 3, total_cases: 4, children: [] }] }],
+    });
+    expect(res.content[0].text).toContain(
+      [
+        '- **Auth** (#1) — 11 case(s) (2 directly)',
+        '  - **Login** (#2) — 9 case(s) (5 directly)',
+        '    - **SSO** (#3) — 4 case(s)',
+        '- **Billing** (#4) — 1 case(s)',
+      ].join('\n'),
+    );
+  });
+
+  it('starts from a subtree and stops at the depth limit', async () => {
+    const res = await tree({ suite_id: 2, depth: 1 });
+
+    expect(res.structuredContent).toMatchObject({ root_suite_id: 2, suites: 2, cases: 9 });
+    expect(res.structuredContent.tree).toEqual([
+      expect.objectContaining({ id: 2, total_cases: 9, descendants: 1, children: [] }),
+    ]);
+    expect(res.content[0].text).toContain('## Suite tree of "Login" in DEMO');
+    expect(res.content[0].text).toContain(
+      '- **Login** (#2) — 9 case(s) (5 directly), 1 sub-suite(s) not shown',
+    );
+  });
+
+  it('rejects a suite that is not in the project', async () => {
+    await expect(tree({ suite_id: 99 })).rejects.toThrow('Suite 99 is not in project DEMO.');
+  });
+});
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { toolRegistry, ReadAnnotation } from '../../utils/registry.js';
+import { ToolExecutionError } from '../../utils/errors.js';
+import { ProjectCodeSchema } from '../../utils/validation.js';
+import { richResult, summaryBlock, dataBlock } from '../../utils/rich-response.js';
+import {
+  fetchAllSuites,
+  buildSuiteTree,
+  countSuiteTree,
+  type CountedSuiteNode,
+} from '../../utils/suite-tree.js';
+
+/** Lines of tree rendered in the summary; the structured tree is never cut. */
+const MAX_RENDERED = 500;
+
+const Schema = z.object({
+  code: ProjectCodeSchema,
+  suite_id: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Start from this suite instead of the top level; it becomes the root'),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe(
+      'Levels to include, counting the root(s) as 1 (default: all). Case counts still ' +
+        'cover the levels left out.',
+    ),
+});
+
+function findSuite(nodes: CountedSuiteNode[], id: number): CountedSuiteNode | undefined {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findSuite(node.children, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** Drop the levels below `depth`; each node keeps its counts. */
+function prune(nodes: CountedSuiteNode[], depth: number): CountedSuiteNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    children: depth > 1 ? prune(node.children, depth - 1) : [],
+  }));
+}
+
+function renderTree(nodes: CountedSuiteNode[], level = 0, out: string[] = []): string[] {
+  for (const node of nodes) {
+    const direct = node.cases_count !== node.total_cases ? ` (${node.cases_count} directly)` : '';
+    const hidden =
+      node.children.length === 0 && node.descendants > 0
+        ? `, ${node.descendants} sub-suite(s) not shown`
+        : '';
+    out.push(
+      `${'  '.repeat(level)}- **${node.title}** (#${node.id}) — ${node.total_cases} case(s)${direct}${hidden}`,
+    );
+    renderTree(node.children, level + 1, out);
+  }
+  return out;
+}
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { code, suite_id, depth } = args;
+
+  const { suites, total } = await fetchAllSuites(code);
+  const truncated = suites.length < total;
+  const tree = countSuiteTree(buildSuiteTree(suites));
+
+  let roots = tree;
+  if (suite_id !== undefined) {
+    const start = findSuite(tree, suite_id);
+    if (!start) {
+      throw new ToolExecutionError(
+        `Suite ${suite_id} is not in project ${code}${truncated ? ` (loaded ${suites.length} of ${total} suites)` : ''}.`,
+        'Call qase_suite_tree without suite_id to see every suite and its ID.',
+      );
+    }
+    roots = [start];
+  }
+  const shown = depth !== undefined ? prune(roots, depth) : roots;
+
+  const suiteCount = roots.reduce((n, r) => n + 1 + r.descendants, 0);
+  const caseCount = roots.reduce((n, r) => n + r.total_cases, 0);
+  const rendered = renderTree(shown);
+
+  const lines = [
+    suite_id !== undefined
+      ? `## Suite tree of "${roots[0].title}" in ${code}`
+      : `## Suite tree of ${code}`,
+    '',
+    `- **Suites:** ${suiteCount}`,
+    `- **Cases:** ${caseCount}`,
+  ];
+  if (truncated) {
+    lines.push(
+      `- ⚠️ Loaded ${suites.length} of ${total} suites — suites under a missing parent appear at the top level.`,
+    );
+  }
+  if (rendered.length > 0) {
+    lines.push('', ...rendered.slice(0, MAX_RENDERED));
+    if (rendered.length > MAX_RENDERED) {
+      lines.push(
+        '',
+        `_…${rendered.length - MAX_RENDERED} more suite(s) in \`tree\`; pass \`depth\` or \`suite_id\` to narrow._`,
+      );
+    }
+  }
+
+  const structured = {
+    code,
+    root_suite_id: suite_id ?? null,
+    depth: depth ?? null,
+    suites: suiteCount,
+    cases: caseCount,
+    coverage: { total, loaded: suites.length, truncated },
+    tree: shown,
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+toolRegistry.register({
+  name: 'qase_suite_tree',
+  description:
+    'Show the full suite hierarchy of a project: pages through every suite, rebuilds the ' +
+    'parent/child tree, and counts cases per suite both directly and including all ' +
+    'sub-suites. Returns an indented markdown tree plus the nested JSON. Pass suite_id to ' +
+    'start from a subtree and depth to limit the levels shown. Use it to find where new ' +
+    'cases belong before creating them.',
+  schema: Schema,
+  handler,
+  annotations: ReadAnnotation,
+});
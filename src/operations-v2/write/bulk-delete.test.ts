@@ -0,0 +1,185 @@
+/**
+ * Tests for the bulk delete tools — resolving the selection for the
+ * confirmation prompt, the maximum and its override token, and per-item
+ * failures.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockDeleteCase = jest.fn();
+const mockDeleteRun = jest.fn();
+const mockDeleteDefect = jest.fn();
+const mockDeleteResult = jest.fn();
+const mockGetResults = jest.fn();
+const mockSearch = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    cases: { deleteCase: mockDeleteCase },
+    runs: { deleteRun: mockDeleteRun },
+    defects: { deleteDefect: mockDeleteDefect },
+    results: { getResults: mockGetResults, deleteResult: mockDeleteResult },
+    search: { search: mockSearch },
+  }),
+}));
+
+import './bulk-delete.js';
+import { toolRegistry } from '../../utils/registry.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+
+function call(name: string, args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler(name)!({ code: 'DEMO', ...args });
+}
+
+function prepare(name: string, args: Record<string, unknown>) {
+  return toolRegistry.getConfirmationPreparer(name)!({ code: 'DEMO', ...args });
+}
+
+/** The token the refusal hands out, taken from its suggestion. */
+async function refusalToken(name: string, args: Record<string, unknown>): Promise<string> {
+  const error = await prepare(name, args).then(
+    () => undefined,
+    (e: { suggestion?: string }) => e,
+  );
+  return /override_token: "(\w+)"/.exec(error?.suggestion ?? '')![1];
+}
+
+let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+beforeEach(() => {
+  consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  for (const mock of [mockDeleteCase, mockDeleteRun, mockDeleteDefect, mockDeleteResult]) {
+    mock.mockReset().mockImplementation(() => ok({ id: 1 }));
+  }
+  mockSearch
+    .mockReset()
+    .mockImplementation(() => ok({ total: 3, entities: [{ id: 4 }, { id: 5 }, { id: 6 }] }));
+  mockGetResults.mockReset().mockImplementation(() =>
+    ok({
+      total: 2,
+      entities: [
+        { hash: 'aaa', status: 'failed' },
+        { hash: 'bbb', status: 'failed' },
+      ],
+    }),
+  );
+});
+
+afterEach(() => {
+  consoleErrorSpy.mockRestore();
+  delete process.env.QASE_MCP_BULK_DELETE_MAX;
+});
+
+describe('qase_case_bulk_delete', () => {
+  it('resolves a filter once for the prompt and deletes exactly those cases', async () => {
+    const prepared = await prepare('qase_case_bulk_delete', { query: 'status = "deprecated"' });
+
+    expect(mockSearch).toHaveBeenCalledWith(
+      'entity = "case" and project = "DEMO" and (status = "deprecated")',
+      100,
+      0,
+    );
+    expect(prepared.message).toBe('Delete 3 case(s) from DEMO:\n  DEMO-4\n  DEMO-5\n  DEMO-6');
+    expect(prepared.args).toEqual({ code: 'DEMO', ids: [4, 5, 6] });
+
+    mockSearch.mockClear();
+    const res = await call('qase_case_bulk_delete', prepared.args);
+
+    expect(mockSearch).not.toHaveBeenCalled();
+    expect(mockDeleteCase.mock.calls).toEqual([
+      ['DEMO', 4],
+      ['DEMO', 5],
+      ['DEMO', 6],
+    ]);
+    expect(res.structuredContent).toMatchObject({ selected: 3, deleted: 3, failed: 0 });
+  });
+
+  it('names a sample of a large selection in the prompt', async () => {
+    const ids = Array.from({ length: 25 }, (_, i) => i + 1);
+    const { message } = await prepare('qase_case_bulk_delete', { ids });
+
+    expect(message.split('\n')).toHaveLength(12);
+    expect(message).toContain('  DEMO-10\n  … and 15 more');
+  });
+});
+
+describe('the bulk delete maximum', () => {
+  it('refuses above the maximum and hands out a token for that selection', async () => {
+    process.env.QASE_MCP_BULK_DELETE_MAX = '2';
+
+    await expect(prepare('qase_run_bulk_delete', { query: 'isEnded = true' })).rejects.toThrow(
+      'The selection matches 3 runs, more than the 2 one bulk delete may remove',
+    );
+    const token = await refusalToken('qase_run_bulk_delete', { query: 'isEnded = true' });
+
+    // The token carries over to the resolved IDs, in any order
+    const prepared = await prepare('qase_run_bulk_delete', {
+      query: 'isEnded = true',
+      override_token: token,
+    });
+    expect(prepared.args).toEqual({ code: 'DEMO', ids: [4, 5, 6], override_token: token });
+    await call('qase_run_bulk_delete', { ids: [6, 5, 4], override_token: token });
+    expect(mockDeleteRun).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects a token issued for a different selection', async () => {
+    process.env.QASE_MCP_BULK_DELETE_MAX = '2';
+    const token = await refusalToken('qase_defect_bulk_delete', { ids: [1, 2, 3] });
+
+    await expect(
+      call('qase_defect_bulk_delete', { ids: [1, 2, 3, 4], override_token: token }),
+    ).rejects.toThrow('The override token does not match the selection, which now matches 4');
+    await expect(
+      call('qase_run_bulk_delete', { ids: [1, 2, 3], override_token: token }),
+    ).rejects.toThrow('does not match');
+    expect(mockDeleteDefect).not.toHaveBeenCalled();
+    expect(mockDeleteRun).not.toHaveBeenCalled();
+  });
+});
+
+describe('qase_result_bulk_delete', () => {
+  it('deletes the results of a run by status and reports failures per result', async () => {
+    mockDeleteResult
+      .mockImplementationOnce(() => ok({ hash: 'aaa' }))
+      .mockImplementationOnce(() => Promise.reject(new Error('Run is completed')));
+
+    const prepared = await prepare('qase_result_bulk_delete', { run_id: 12, status: 'failed' });
+    expect(mockGetResults.mock.calls[0].slice(0, 3)).toEqual(['DEMO', 'failed', '12']);
+    expect(prepared.args).toEqual({ code: 'DEMO', run_id: 12, hashes: ['aaa', 'bbb'] });
+
+    const res = await call('qase_result_bulk_delete', prepared.args);
+
+    expect(mockDeleteResult.mock.calls).toEqual([
+      ['DEMO', 12, 'aaa'],
+      ['DEMO', 12, 'bbb'],
+    ]);
+    expect(res.structuredContent).toMatchObject({ run_id: 12, deleted: 1, failed: 1 });
+    expect(res.structuredContent.items[1]).toEqual({
+      hash: 'bbb',
+      status: 'failed',
+      error: 'Run is completed',
+    });
+    expect(res.content[0].text).toContain('- bbb: Run is completed');
+  });
+
+  it('counts the results with that status, not every result in the project', async () => {
+    mockGetResults.mockImplementation(() =>
+      ok({ total: 4000, filtered: 1, entities: [{ hash: 'aaa', status: 'failed' }] }),
+    );
+
+    const prepared = await prepare('qase_result_bulk_delete', { run_id: 12, status: 'failed' });
+
+    expect(mockGetResults).toHaveBeenCalledTimes(1);
+    expect(prepared.args).toEqual({ code: 'DEMO', run_id: 12, hashes: ['aaa'] });
+  });
+
+  it('requires exactly one of hashes and status', async () => {
+    await expect(call('qase_result_bulk_delete', { run_id: 12 })).rejects.toThrow(
+      'Select the results with exactly one of `hashes` or `status`.',
+    );
+  });
+});
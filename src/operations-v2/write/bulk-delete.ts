@@ -0,0 +1,376 @@
+/**
+ * Bulk Delete Tools
+ *
+ * Delete many cases, runs, defects or results in one call. The selection is
+ * resolved before the confirmation prompt, so the user confirms once, seeing
+ * how many items matched and a sample of them, and the deletes act on exactly
+ * those items. Selections above `QASE_MCP_BULK_DELETE_MAX` are refused with an
+ * override token that unlocks that one selection.
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, DeleteAnnotation } from '../../utils/registry.js';
+import { ToolExecutionError, formatApiError } from '../../utils/errors.js';
+import { ProjectCodeSchema, IdSchema } from '../../utils/validation.js';
+import { fetchAll, matchedCount, PAGE_SIZE, type ListPage } from '../../utils/pagination.js';
+import { richResult, summaryBlock, dataBlock } from '../../utils/rich-response.js';
+import { reportProgress } from '../../utils/server-context.js';
+import { mapBounded } from '../../utils/concurrency.js';
+import {
+  CaseSelectionSchema,
+  MAX_SELECTED_CASES,
+  queryIds,
+  sampleLines,
+  selectCaseIds,
+  type CaseSelection,
+} from './case-selection.js';
+
+const DEFAULT_MAX = 100;
+
+/** Deletes in flight at once. */
+const CONCURRENCY = 5;
+
+/**
+ * Items one call may delete without an override token, from
+ * `QASE_MCP_BULK_DELETE_MAX` (default 100). Zero makes every bulk delete need
+ * a token; a value that is not a whole number falls back to the default.
+ */
+export function bulkDeleteMax(): number {
+  const raw = process.env.QASE_MCP_BULK_DELETE_MAX;
+  const max = raw === undefined || raw.trim() === '' ? DEFAULT_MAX : Number(raw);
+  return Number.isInteger(max) && max >= 0 ? max : DEFAULT_MAX;
+}
+
+const OverrideTokenSchema = z
+  .string()
+  .optional()
+  .describe(
+    'Only when a call was refused for selecting too many items: the token from that ' +
+      'refusal. It allows deleting exactly the selection it was issued for.',
+  );
+
+const IdsSchema = (noun: string) =>
+  z
+    .array(IdSchema)
+    .min(1)
+    .max(MAX_SELECTED_CASES)
+    .optional()
+    .describe(`${noun} IDs to delete, up to ${MAX_SELECTED_CASES}`);
+
+const CaseSchema = z.object({
+  code: ProjectCodeSchema,
+  ...CaseSelectionSchema.shape,
+  override_token: OverrideTokenSchema,
+});
+
+const RunSchema = z.object({
+  code: ProjectCodeSchema,
+  ids: IdsSchema('Run'),
+  query: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'QQL conditions selecting the runs instead, e.g. `milestone ~ "Sprint 12" and ' +
+        'isEnded = true`. Scoped to the project automatically — leave out `entity` and `project`.',
+    ),
+  override_token: OverrideTokenSchema,
+});
+
+const DefectSchema = z.object({
+  code: ProjectCodeSchema,
+  ids: IdsSchema('Defect'),
+  query: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'QQL conditions selecting the defects instead, e.g. `status = "resolved"`. Scoped to ' +
+        'the project automatically — leave out `entity` and `project`.',
+    ),
+  override_token: OverrideTokenSchema,
+});
+
+const ResultSchema = z.object({
+  code: ProjectCodeSchema,
+  run_id: IdSchema.describe('Run the results belong to'),
+  hashes: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(MAX_SELECTED_CASES)
+    .optional()
+    .describe(`Result hashes to delete, up to ${MAX_SELECTED_CASES}`),
+  status: z
+    .enum(['passed', 'failed', 'blocked', 'skipped', 'invalid'])
+    .optional()
+    .describe('Delete every result in the run with this status instead'),
+  override_token: OverrideTokenSchema,
+});
+
+type Key = number | string;
+
+interface BulkArgs {
+  code: string;
+  override_token?: string;
+  [key: string]: unknown;
+}
+
+/** What differs between the four tools; the flow around it is shared. */
+interface BulkDelete {
+  tool: string;
+  noun: string;
+  /** The argument the resolved selection is passed back in. */
+  keyField: 'ids' | 'hashes';
+  select(args: BulkArgs): Promise<Key[]>;
+  /** Arguments, beyond the project and selection, that scope the keys. */
+  scope(args: BulkArgs): Record<string, unknown>;
+  label(args: BulkArgs, key: Key): string;
+  remove(args: BulkArgs, key: Key): Promise<unknown>;
+}
+
+interface ItemOutcome {
+  id?: number;
+  hash?: string;
+  status: 'deleted' | 'failed';
+  error?: string;
+}
+
+/** Exactly one of the selectors may be set; `ids` given as-is skip the lookup. */
+function requireOne(args: BulkArgs, selectors: string[], noun: string): void {
+  if (selectors.filter((s) => args[s] !== undefined).length !== 1) {
+    throw new ToolExecutionError(
+      `Select the ${noun}s with exactly one of ${selectors.map((s) => `\`${s}\``).join(' or ')}.`,
+      `Pass the ${noun}s to delete, or a filter that selects them.`,
+    );
+  }
+}
+
+async function resultHashes(code: string, runId: number, status: string): Promise<string[]> {
+  const client = getApiClient();
+  // getResults(code, status, run, caseId, member, api, fromEndTime, toEndTime, limit, offset)
+  const page = await fetchAll(
+    (limit, offset): Promise<ListPage> =>
+      client.results
+        .getResults(
+          code,
+          status,
+          String(runId),
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          limit,
+          offset,
+        )
+        .then((r) => (r.data.result as ListPage) ?? null),
+    Math.ceil(MAX_SELECTED_CASES / PAGE_SIZE),
+  );
+
+  const total = matchedCount(page) ?? 0;
+  if (total > MAX_SELECTED_CASES) {
+    throw new ToolExecutionError(
+      `Run ${runId} has ${total} ${status} results; one call acts on at most ${MAX_SELECTED_CASES}.`,
+      'Delete them by hash in several calls.',
+    );
+  }
+  return ((page?.entities ?? []) as Array<{ hash?: string }>)
+    .map((r) => r.hash)
+    .filter((hash): hash is string => typeof hash === 'string');
+}
+
+const CASES: BulkDelete = {
+  tool: 'qase_case_bulk_delete',
+  noun: 'case',
+  keyField: 'ids',
+  select: (args) => selectCaseIds(args.code, args as CaseSelection),
+  scope: () => ({}),
+  label: (args, id) => `${args.code}-${id}`,
+  remove: (args, id) => getApiClient().cases.deleteCase(args.code, id as number),
+};
+
+const RUNS: BulkDelete = {
+  tool: 'qase_run_bulk_delete',
+  noun: 'run',
+  keyField: 'ids',
+  async select(args) {
+    requireOne(args, ['ids', 'query'], 'run');
+    return (args.ids as number[]) ?? queryIds('run', args.code, args.query as string);
+  },
+  scope: () => ({}),
+  label: (_args, id) => `run ${id}`,
+  remove: (args, id) => getApiClient().runs.deleteRun(args.code, id as number),
+};
+
+const DEFECTS: BulkDelete = {
+  tool: 'qase_defect_bulk_delete',
+  noun: 'defect',
+  keyField: 'ids',
+  async select(args) {
+    requireOne(args, ['ids', 'query'], 'defect');
+    return (args.ids as number[]) ?? queryIds('defect', args.code, args.query as string);
+  },
+  scope: () => ({}),
+  label: (_args, id) => `defect ${id}`,
+  remove: (args, id) => getApiClient().defects.deleteDefect(args.code, id as number),
+};
+
+const RESULTS: BulkDelete = {
+  tool: 'qase_result_bulk_delete',
+  noun: 'result',
+  keyField: 'hashes',
+  async select(args) {
+    requireOne(args, ['hashes', 'status'], 'result');
+    return (
+      (args.hashes as string[]) ??
+      resultHashes(args.code, args.run_id as number, args.status as string)
+    );
+  },
+  scope: (args) => ({ run_id: args.run_id }),
+  label: (_args, hash) => String(hash),
+  remove: (args, hash) =>
+    getApiClient().results.deleteResult(args.code, args.run_id as number, hash as string),
+};
+
+/**
+ * Ties an override to one exact selection: the same items in the same project
+ * give the same token however they were selected, and any other set does not.
+ */
+function overrideToken(spec: BulkDelete, args: BulkArgs, keys: Key[]): string {
+  const sorted = [...keys].map(String).sort();
+  return createHash('sha256')
+    .update(JSON.stringify([spec.tool, args.code, spec.scope(args), sorted]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/** The selected items, or an error when there are none or too many. */
+async function resolve(spec: BulkDelete, args: BulkArgs): Promise<Key[]> {
+  const keys = [...new Set(await spec.select(args))];
+  if (keys.length === 0) {
+    throw new ToolExecutionError(
+      `Nothing to delete: the selection matches no ${spec.noun}s in ${args.code}.`,
+      'Check the IDs or the filter.',
+    );
+  }
+  if (keys.length > MAX_SELECTED_CASES) {
+    throw new ToolExecutionError(
+      `${keys.length} ${spec.noun}s given; one call acts on at most ${MAX_SELECTED_CASES}.`,
+      'Split them into several calls.',
+    );
+  }
+
+  const max = bulkDeleteMax();
+  if (keys.length <= max) return keys;
+  const token = overrideToken(spec, args, keys);
+  if (args.override_token === token) return keys;
+
+  const count = `${keys.length} ${spec.noun}s`;
+  throw new ToolExecutionError(
+    args.override_token === undefined
+      ? `The selection matches ${count}, more than the ${max} one bulk delete may remove ` +
+        '(QASE_MCP_BULK_DELETE_MAX).'
+      : `The override token does not match the selection, which now matches ${count}.`,
+    `Make sure all ${count} should go, then repeat the same call with ` +
+      `override_token: "${token}". The token only covers exactly these ${count}.`,
+  );
+}
+
+/** Arguments the handler receives once the selection is resolved. */
+function resolvedArgs(spec: BulkDelete, args: BulkArgs, keys: Key[]): Record<string, unknown> {
+  return {
+    code: args.code,
+    ...spec.scope(args),
+    [spec.keyField]: keys,
+    ...(args.override_token !== undefined && { override_token: args.override_token }),
+  };
+}
+
+async function prepare(spec: BulkDelete, args: BulkArgs) {
+  const keys = await resolve(spec, args);
+  return {
+    message:
+      `Delete ${keys.length} ${spec.noun}(s) from ${args.code}:\n` +
+      sampleLines(keys.map((k) => spec.label(args, k))),
+    args: resolvedArgs(spec, args, keys),
+  };
+}
+
+async function run(spec: BulkDelete, args: BulkArgs) {
+  const keys = await resolve(spec, args);
+  const field = spec.keyField === 'ids' ? 'id' : 'hash';
+
+  const items = await mapBounded(
+    keys,
+    CONCURRENCY,
+    async (key): Promise<ItemOutcome> => {
+      try {
+        await spec.remove(args, key);
+        return { [field]: key, status: 'deleted' };
+      } catch (error) {
+        return { [field]: key, status: 'failed', error: formatApiError(error) };
+      }
+    },
+    (done) => reportProgress(done, keys.length, `Deleted ${done} of ${keys.length} ${spec.noun}s`),
+  );
+
+  const failed = items.filter((i) => i.status === 'failed');
+  const lines = [
+    `## Deleted ${items.length - failed.length} of ${items.length} ${spec.noun}(s) in ${args.code}`,
+  ];
+  if (failed.length > 0) {
+    lines.push('', `**${failed.length} ${spec.noun}(s) failed:**`);
+    for (const f of failed) lines.push(`- ${spec.label(args, (f.id ?? f.hash)!)}: ${f.error}`);
+  }
+
+  const structured = {
+    code: args.code,
+    ...spec.scope(args),
+    selected: items.length,
+    deleted: items.length - failed.length,
+    failed: failed.length,
+    items,
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+const LIMIT_NOTE =
+  'The confirmation shows the count and a sample. Selections over the configured maximum ' +
+  '(default 100) are refused with an `override_token` that allows exactly that selection.';
+
+function register(spec: BulkDelete, schema: z.ZodType, description: string): void {
+  toolRegistry.register({
+    name: spec.tool,
+    description: `${description} ${LIMIT_NOTE}`,
+    schema,
+    handler: (args: BulkArgs) => run(spec, args),
+    prepareConfirmation: (args) => prepare(spec, args as BulkArgs),
+    annotations: DeleteAnnotation,
+    visibility: 'discoverable',
+  });
+}
+
+register(
+  CASES,
+  CaseSchema,
+  'Delete many test cases at once, selected by `ids`, `suite_id` or a QQL `query` ' +
+    '(up to 500). Unlike qase_case_delete, no undo snapshots are taken.',
+);
+register(
+  RUNS,
+  RunSchema,
+  'Delete many test runs at once, selected by `ids` or a QQL `query` (up to 500), ' +
+    'together with their results.',
+);
+register(
+  DEFECTS,
+  DefectSchema,
+  'Delete many defects at once, selected by `ids` or a QQL `query` (up to 500).',
+);
+register(
+  RESULTS,
+  ResultSchema,
+  'Delete many results of one run at once, selected by `hashes` or by `status` (up to 500).',
+);
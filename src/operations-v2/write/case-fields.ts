@@ -7,6 +7,7 @@
  */
 
 import { z } from 'zod';
+import type { TestCaseCreate, TestCaseUpdate } from 'qase-api-client';
 
 const stepFields = {
   action: z
@@ -139,3 +140,13 @@ export function applyAutomationMapping(caseData: Record<string, unknown>): Recor
 
   return mapped;
 }
+
+/**
+ * A case body as the create, bulk or update endpoint takes it, with the
+ * deprecated `automation` mapped by `applyAutomationMapping`.
+ */
+export function toCaseWrite<T extends TestCaseCreate | TestCaseUpdate>(
+  payload: Record<string, unknown>,
+): T {
+  return applyAutomationMapping(payload) as T;
+}
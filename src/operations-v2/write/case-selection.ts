@@ -0,0 +1,130 @@
+/**
+ * Case selection shared by the tools that act on many cases at once.
+ *
+ * A caller names the cases by ID, by suite, or with a QQL filter; suites and
+ * filters are resolved to IDs here, so every bulk tool accepts the same inputs
+ * and applies the same limit.
+ */
+
+import { z } from 'zod';
+import { getApiClient } from '../../client/index.js';
+import { ToolExecutionError } from '../../utils/errors.js';
+import { IdSchema } from '../../utils/validation.js';
+import { fetchAll, PAGE_SIZE, type ListPage } from '../../utils/pagination.js';
+import { lintQqlInWorkspace, formatDiagnostics } from '../qql/lint.js';
+import { loadCases } from '../composites/run-results.js';
+
+/** Cases one call may act on; larger selections have to be split. */
+export const MAX_SELECTED_CASES = 500;
+
+export const CaseSelectionSchema = z.object({
+  ids: z
+    .array(IdSchema)
+    .min(1)
+    .max(MAX_SELECTED_CASES)
+    .optional()
+    .describe(`Case IDs to act on, up to ${MAX_SELECTED_CASES}`),
+  suite_id: IdSchema.optional().describe(
+    'Act on the cases directly in this suite instead (sub-suites are not included)',
+  ),
+  query: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'QQL conditions selecting the cases instead, e.g. `suite = "Login" and ' +
+        'isFlaky is true`. Scoped to the project automatically — leave out `entity` and `project`.',
+    ),
+});
+
+export type CaseSelection = z.infer<typeof CaseSelectionSchema>;
+
+/** Items a confirmation prompt names before summing up the rest. */
+const SAMPLE_SIZE = 10;
+
+/**
+ * A selection for a confirmation prompt: the first few labels, one indented
+ * line each, then how many more there are.
+ */
+export function sampleLines(labels: string[]): string {
+  const lines = labels.slice(0, SAMPLE_SIZE);
+  if (labels.length > SAMPLE_SIZE) lines.push(`… and ${labels.length - SAMPLE_SIZE} more`);
+  return lines.map((line) => `  ${line}`).join('\n');
+}
+
+interface IdRow {
+  id?: number;
+}
+
+const tooMany = (found: string, max = MAX_SELECTED_CASES) =>
+  new ToolExecutionError(
+    `${found}; one call acts on at most ${max}.`,
+    'Narrow the selection (for example with a QQL filter) and repeat the call for each part.',
+  );
+
+async function suiteCaseIds(code: string, suiteId: number): Promise<number[]> {
+  const { entities, truncated } = await loadCases<IdRow>(code, [suiteId], MAX_SELECTED_CASES);
+  if (truncated) throw tooMany(`Suite ${suiteId} has more than ${MAX_SELECTED_CASES} cases`);
+  return entities.map((row) => row.id).filter((id): id is number => typeof id === 'number');
+}
+
+/**
+ * IDs of the cases, runs or defects in a project that match QQL conditions.
+ * More than `max` matches is an error rather than a truncated list.
+ */
+export async function queryIds(
+  entity: 'case' | 'run' | 'defect',
+  code: string,
+  filter: string,
+  max = MAX_SELECTED_CASES,
+): Promise<number[]> {
+  // Positions in the diagnostics refer to the scoped query, which is shown.
+  const query = `entity = "${entity}" and project = "${code}" and (${filter})`;
+  const diagnostics = await lintQqlInWorkspace(query);
+  if (diagnostics.length > 0) {
+    throw new ToolExecutionError(
+      `QQL filter has ${diagnostics.length} problem(s) in \`${query}\` (line:column):\n` +
+        formatDiagnostics(diagnostics),
+      `Fix the filter and retry; qql_help with topic "entities" lists the ${entity} fields.`,
+    );
+  }
+
+  const client = getApiClient();
+  const page = await fetchAll(
+    (limit, offset): Promise<ListPage> =>
+      client.search.search(query, limit, offset).then((r) => r.data.result ?? null),
+    Math.ceil(max / PAGE_SIZE),
+  );
+
+  const total = page?.total ?? 0;
+  if (total > max) throw tooMany(`The filter matches ${total} ${entity}s`, max);
+  return ((page?.entities ?? []) as IdRow[])
+    .map((row) => row.id)
+    .filter((id): id is number => typeof id === 'number');
+}
+
+/**
+ * Resolve a selection to case IDs, without duplicates and in the order given
+ * or found. Exactly one of `ids`, `suite_id` and `query` must be set.
+ */
+export async function selectCaseIds(code: string, selection: CaseSelection): Promise<number[]> {
+  const { ids, suite_id, query } = selection;
+  if ([ids, suite_id, query].filter((s) => s !== undefined).length !== 1) {
+    throw new ToolExecutionError(
+      'Select the cases with exactly one of `ids`, `suite_id` or `query`.',
+      'Pass a list of case IDs, a suite ID, or a QQL filter such as `suite = "Login"`.',
+    );
+  }
+  if (ids && ids.length > MAX_SELECTED_CASES) {
+    throw new ToolExecutionError(
+      `${ids.length} case IDs given; one call acts on at most ${MAX_SELECTED_CASES}.`,
+      'Split the IDs into several calls.',
+    );
+  }
+  const selected =
+    ids ??
+    (suite_id !== undefined
+      ? await suiteCaseIds(code, suite_id)
+      : await queryIds('case', code, query!));
+  return [...new Set(selected)];
+}
@@ -0,0 +1,178 @@
+/**
+ * Tests for qase_case_bulk_update — selection, enum normalisation, tag
+ * merging, bounded concurrency, per-case failures, and preview.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetCase = jest.fn();
+const mockGetCases = jest.fn();
+const mockUpdateCase = jest.fn();
+const mockGetSystemFields = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    cases: { getCase: mockGetCase, getCases: mockGetCases, updateCase: mockUpdateCase },
+    systemFields: { getSystemFields: mockGetSystemFields },
+  }),
+}));
+
+import './cases-bulk-update.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { resetCacheForTest } from '../../cache/index.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+
+function update(args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler('qase_case_bulk_update')!({ code: 'DEMO', ...args });
+}
+
+let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+beforeEach(async () => {
+  await resetCacheForTest();
+  consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockGetCase.mockReset().mockImplementation((_code: string, id: number) =>
+    ok({
+      id,
+      title: `Case ${id}`,
+      severity: 3,
+      status: 0,
+      tags: [{ title: 'smoke' }, { title: 'Legacy' }],
+      custom_fields: [{ id: 4, value: 'web' }],
+    }),
+  );
+  mockGetCases
+    .mockReset()
+    .mockImplementation(() => ok({ total: 2, entities: [{ id: 1 }, { id: 2 }] }));
+  mockUpdateCase.mockReset().mockImplementation(() => ok({ id: 1 }));
+  mockGetSystemFields.mockReset().mockImplementation(() =>
+    ok([
+      {
+        slug: 'severity',
+        options: [
+          { id: 2, slug: 'critical', title: 'Critical' },
+          { id: 3, slug: 'major', title: 'Major' },
+        ],
+      },
+      {
+        slug: 'status',
+        options: [
+          { id: 0, slug: 'actual', title: 'Actual' },
+          { id: 2, slug: 'deprecated', title: 'Deprecated' },
+        ],
+      },
+    ]),
+  );
+});
+
+afterEach(() => {
+  consoleErrorSpy.mockRestore();
+});
+
+describe('qase_case_bulk_update', () => {
+  it('normalises labels and updates every case without reading it', async () => {
+    const res = await update({
+      ids: [1, 2],
+      patch: { severity: 'critical', status: 'Deprecated', automation: '2' },
+    });
+
+    expect(mockGetCase).not.toHaveBeenCalled();
+    expect(mockUpdateCase.mock.calls).toEqual([
+      ['DEMO', 1, { severity: 2, status: 2, isManual: 0 }],
+      ['DEMO', 2, { severity: 2, status: 2, isManual: 0 }],
+    ]);
+    expect(res.structuredContent).toMatchObject({ selected: 2, updated: 2, failed: 0 });
+  });
+
+  it('merges tag changes into each case and reports failures per case', async () => {
+    mockUpdateCase
+      .mockImplementationOnce(() => ok({ id: 1 }))
+      .mockImplementationOnce(() => Promise.reject(new Error('Case is locked')));
+
+    const res = await update({
+      suite_id: 5,
+      patch: { add_tags: ['regression', 'SMOKE'], remove_tags: ['legacy'] },
+    });
+
+    expect(mockGetCases.mock.calls[0][3]).toBe(5);
+    expect(mockUpdateCase.mock.calls[0]).toEqual(['DEMO', 1, { tags: ['smoke', 'regression'] }]);
+    expect(res.structuredContent).toMatchObject({ updated: 1, failed: 1 });
+    expect(res.structuredContent.cases[1]).toEqual({
+      id: 2,
+      status: 'failed',
+      error: 'Case is locked',
+    });
+    expect(res.content[0].text).toContain('- DEMO-2: Case is locked');
+  });
+
+  it('counts a suite by the cases it holds, not the size of the project', async () => {
+    mockGetCases.mockImplementation(() =>
+      ok({ total: 1200, filtered: 2, entities: [{ id: 1 }, { id: 2 }] }),
+    );
+
+    const res = await update({ suite_id: 5, patch: { is_flaky: true } });
+
+    expect(mockGetCases).toHaveBeenCalledTimes(1);
+    expect(res.structuredContent).toMatchObject({ selected: 2, updated: 2 });
+  });
+
+  it('refuses a suite with more cases than one call may update', async () => {
+    mockGetCases.mockImplementation(() =>
+      ok({ total: 1200, filtered: 501, entities: [{ id: 1 }, { id: 2 }] }),
+    );
+
+    await expect(update({ suite_id: 5, patch: { is_flaky: true } })).rejects.toThrow(
+      'Suite 5 has more than 500 cases; one call acts on at most 500.',
+    );
+    expect(mockUpdateCase).not.toHaveBeenCalled();
+  });
+
+  it('keeps at most five cases in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    mockUpdateCase.mockImplementation(async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return { data: { status: true, result: {} } };
+    });
+
+    const res = await update({
+      ids: Array.from({ length: 12 }, (_, i) => i + 1),
+      patch: { is_flaky: true },
+    });
+
+    expect(mockUpdateCase).toHaveBeenCalledTimes(12);
+    expect(peak).toBe(5);
+    expect(res.structuredContent.cases.map((c: { id: number }) => c.id)).toEqual(
+      Array.from({ length: 12 }, (_, i) => i + 1),
+    );
+  });
+
+  it('previews the changes per case without updating', async () => {
+    const res = await update({
+      ids: [1],
+      preview: true,
+      patch: { severity: 'major', status: 'deprecated', custom_field: { '4': 'mobile' } },
+    });
+
+    expect(mockUpdateCase).not.toHaveBeenCalled();
+    expect(res.structuredContent).toMatchObject({ preview: true, changed: 1, unchanged: 0 });
+    expect(res.structuredContent.cases[0].changes).toEqual([
+      'status: Actual → Deprecated',
+      'custom field 4: "web" → "mobile"',
+    ]);
+    expect(res.content[0].text).toContain('## Preview: 1 of 1 case(s) in DEMO would change');
+  });
+
+  it('rejects an unknown label before touching any case', async () => {
+    await expect(update({ ids: [1], patch: { severity: 'catastrophic' } })).rejects.toThrow(
+      'Unknown value for severity ("catastrophic")',
+    );
+    expect(mockUpdateCase).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,293 @@
+import { z } from 'zod';
+import type { TestCaseUpdate } from 'qase-api-client';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, UpdateAnnotation } from '../../utils/registry.js';
+import { ToolExecutionError, formatApiError } from '../../utils/errors.js';
+import { ProjectCodeSchema } from '../../utils/validation.js';
+import {
+  normalizeCaseEnums,
+  getSystemFieldLabels,
+  type SystemFieldLabels,
+} from '../../utils/case-enums.js';
+import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import { reportProgress } from '../../utils/server-context.js';
+import { mapBounded } from '../../utils/concurrency.js';
+import { CaseFieldsSchema, toCaseWrite } from './case-fields.js';
+import { CaseSelectionSchema, selectCaseIds } from './case-selection.js';
+
+/** Cases read or updated at once. */
+const CONCURRENCY = 5;
+
+const ENUM_FIELDS = [
+  'severity',
+  'priority',
+  'type',
+  'layer',
+  'behavior',
+  'automation',
+  'status',
+] as const;
+
+const PatchSchema = CaseFieldsSchema.pick({
+  severity: true,
+  priority: true,
+  type: true,
+  layer: true,
+  behavior: true,
+  automation: true,
+  status: true,
+  is_flaky: true,
+  milestone_id: true,
+})
+  .extend({
+    add_tags: z.array(z.string().min(1)).optional().describe('Tags to add to every case'),
+    remove_tags: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('Tags to remove from every case (matched case-insensitively)'),
+    custom_field: z
+      .record(z.string())
+      .optional()
+      .describe('Custom field values keyed by field ID, e.g. {"4": "web"}'),
+  })
+  .describe(
+    'Changes applied to every selected case. Enum fields take labels or numeric IDs, e.g. ' +
+      '{"severity": "critical"} or {"status": "deprecated"}.',
+  );
+
+const Schema = z.object({
+  code: ProjectCodeSchema,
+  ...CaseSelectionSchema.shape,
+  patch: PatchSchema,
+  preview: z
+    .boolean()
+    .optional()
+    .describe(
+      'List the selected cases with what would change for each, without updating anything ' +
+        '(default false)',
+    ),
+});
+
+type Patch = z.infer<typeof PatchSchema>;
+type Row = Record<string, unknown>;
+
+interface CaseUpdate {
+  id: number;
+  title?: string;
+  /** `changed` and `unchanged` come from previews, the rest from updates. */
+  status: 'changed' | 'unchanged' | 'updated' | 'failed';
+  changes?: string[];
+  error?: string;
+}
+
+/**
+ * Resolve enum labels to IDs once for the whole batch; a label the workspace
+ * does not know fails the call before any case is touched.
+ */
+async function normalizePatch(patch: Patch): Promise<Row> {
+  const { add_tags: _add, remove_tags: _remove, ...fields } = patch;
+  const normalized = await normalizeCaseEnums(fields as Row);
+  const unknown = ENUM_FIELDS.filter((f) => typeof normalized[f] === 'string');
+  if (unknown.length > 0) {
+    throw new ToolExecutionError(
+      `Unknown value for ${unknown.map((f) => `${f} ("${normalized[f]}")`).join(', ')}.`,
+      'Use a label the workspace defines or its numeric ID — qql_help with topic ' +
+        '"enumValues" lists them.',
+    );
+  }
+  return normalized;
+}
+
+const tagTitles = (c: Row): string[] =>
+  Array.isArray(c.tags) ? c.tags.map((t: Row) => String(t.title)) : [];
+
+/** The new tag list, or undefined when the patch leaves the tags as they are. */
+function patchTags(current: string[], patch: Patch): string[] | undefined {
+  const remove = new Set((patch.remove_tags ?? []).map((t) => t.toLowerCase()));
+  const kept = current.filter((t) => !remove.has(t.toLowerCase()));
+  const lower = new Set(kept.map((t) => t.toLowerCase()));
+  const added = (patch.add_tags ?? []).filter((t) => {
+    if (lower.has(t.toLowerCase())) return false;
+    lower.add(t.toLowerCase());
+    return true;
+  });
+  return kept.length === current.length && added.length === 0 ? undefined : [...kept, ...added];
+}
+
+/** Human-readable differences between a case and the patch, as `field: old → new`. */
+function describeChanges(
+  current: Row,
+  fields: Row,
+  tags: string[] | undefined,
+  labels: SystemFieldLabels,
+): string[] {
+  const label = (field: string, value: unknown) =>
+    value === undefined || value === null ? '-' : (labels[field]?.[String(value)] ?? String(value));
+  const changes: string[] = [];
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (field === 'custom_field') continue;
+    // The API reports is_flaky as 0/1 and some IDs as strings
+    const same =
+      typeof value === 'boolean'
+        ? Boolean(current[field]) === value
+        : String(current[field] ?? '') === String(value);
+    if (!same) {
+      changes.push(`${field}: ${label(field, current[field])} → ${label(field, value)}`);
+    }
+  }
+
+  const currentFields = new Map(
+    (Array.isArray(current.custom_fields) ? (current.custom_fields as Row[]) : []).map((f) => [
+      String(f.id),
+      f.value ?? '',
+    ]),
+  );
+  for (const [id, value] of Object.entries((fields.custom_field ?? {}) as Row)) {
+    if (currentFields.get(id) !== value) {
+      changes.push(`custom field ${id}: "${currentFields.get(id) ?? ''}" → "${value}"`);
+    }
+  }
+
+  if (tags) {
+    const before = tagTitles(current);
+    const added = tags.filter((t) => !before.includes(t));
+    const removed = before.filter((t) => !tags.includes(t));
+    changes.push(
+      `tags: ${[...added.map((t) => `+${t}`), ...removed.map((t) => `-${t}`)].join(', ')}`,
+    );
+  }
+  return changes;
+}
+
+/** Run `task` on each case, a few at a time; a thrown error becomes that case's failure. */
+function forEachCase(
+  ids: number[],
+  task: (id: number) => Promise<CaseUpdate>,
+  progressLabel: string,
+): Promise<CaseUpdate[]> {
+  return mapBounded(
+    ids,
+    CONCURRENCY,
+    (id) =>
+      task(id).catch(
+        (error): CaseUpdate => ({ id, status: 'failed', error: formatApiError(error) }),
+      ),
+    (done) => reportProgress(done, ids.length, `${progressLabel} ${done} of ${ids.length} cases`),
+  );
+}
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { code, patch = {}, preview = false } = args;
+  const fields = await normalizePatch(patch);
+  const touchesTags = Boolean(patch.add_tags?.length || patch.remove_tags?.length);
+  if (Object.keys(fields).length === 0 && !touchesTags) {
+    throw new ToolExecutionError(
+      'The patch is empty.',
+      'Set at least one field, e.g. {"severity": "critical"} or {"add_tags": ["smoke"]}.',
+    );
+  }
+
+  const ids = await selectCaseIds(code, args);
+  const client = getApiClient();
+  const payload = toCaseWrite<TestCaseUpdate>({ ...fields });
+
+  let labels: SystemFieldLabels = {};
+  if (preview) {
+    try {
+      labels = await getSystemFieldLabels();
+    } catch (error) {
+      console.error(
+        `[bulk update] Could not load system fields, showing enum IDs: ${formatApiError(error)}`,
+      );
+    }
+  }
+
+  const cases = await forEachCase(
+    ids,
+    async (id): Promise<CaseUpdate> => {
+      // The current case is only needed to show changes or to merge tags.
+      const current =
+        preview || touchesTags
+          ? (((await client.cases.getCase(code, id)).data.result ?? {}) as Row)
+          : undefined;
+      const tags = current && touchesTags ? patchTags(tagTitles(current), patch) : undefined;
+      const title = current?.title as string | undefined;
+
+      if (preview) {
+        const changes = describeChanges(current!, fields, tags, labels);
+        return { id, title, status: changes.length > 0 ? 'changed' : 'unchanged', changes };
+      }
+
+      const body = tags ? { ...payload, tags } : payload;
+      if (Object.keys(body).length === 0) return { id, title, status: 'unchanged' };
+      await client.cases.updateCase(code, id, body);
+      return { id, title, status: 'updated' };
+    },
+    preview ? 'Checked' : 'Updated',
+  );
+
+  const count = (status: CaseUpdate['status']) => cases.filter((c) => c.status === status).length;
+  const failed = cases.filter((c) => c.status === 'failed');
+  const lines: string[] = [];
+  if (preview) {
+    lines.push(
+      `## Preview: ${count('changed')} of ${cases.length} case(s) in ${code} would change`,
+      '',
+      'Nothing was updated. Call again without `preview` to apply the patch.',
+    );
+    if (cases.length > 0) {
+      lines.push(
+        '',
+        markdownTable(
+          ['Case', 'Title', 'Changes'],
+          cases.map((c) => [
+            `${code}-${c.id}`,
+            c.title ?? '-',
+            c.error ? `❌ ${c.error}` : (c.changes ?? []).join('; ') || 'no change',
+          ]),
+        ),
+      );
+    }
+  } else {
+    lines.push(`## Updated ${count('updated')} of ${cases.length} case(s) in ${code}`);
+    if (count('unchanged') > 0) {
+      lines.push('', `${count('unchanged')} case(s) already matched the patch.`);
+    }
+    if (failed.length > 0) {
+      lines.push('', `**${failed.length} case(s) failed:**`);
+      for (const f of failed) lines.push(`- ${code}-${f.id}: ${f.error}`);
+    }
+  }
+
+  const structured = {
+    code,
+    preview,
+    selected: ids.length,
+    ...(preview
+      ? { changed: count('changed'), unchanged: count('unchanged') }
+      : { updated: count('updated'), unchanged: count('unchanged') }),
+    failed: failed.length,
+    patch: {
+      ...fields,
+      ...(patch.add_tags && { add_tags: patch.add_tags }),
+      ...(patch.remove_tags && { remove_tags: patch.remove_tags }),
+    },
+    cases,
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+toolRegistry.register({
+  name: 'qase_case_bulk_update',
+  description:
+    'Apply the same change to many test cases: set severity, priority, status (e.g. ' +
+    '"deprecated"), automation, flaky flag, milestone or custom fields, and add or remove ' +
+    'tags. Select the cases by `ids`, `suite_id` or a QQL `query` filter (up to 500). Enum ' +
+    'fields accept labels or numeric IDs. Run with `preview: true` first to list the cases ' +
+    'and what would change on each; the update itself reports success or the error per case.',
+  schema: Schema,
+  handler,
+  annotations: UpdateAnnotation,
+  visibility: 'discoverable',
+});
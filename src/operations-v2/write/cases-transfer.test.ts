@@ -0,0 +1,279 @@
+/**
+ * Tests for qase_case_move and qase_case_clone — selection by IDs or QQL,
+ * same-project moves, and what a cross-project copy re-uploads, remaps or
+ * reports as left out.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetCase = jest.fn();
+const mockCreateCase = jest.fn();
+const mockUpdateCase = jest.fn();
+const mockDeleteCase = jest.fn();
+const mockGetSuite = jest.fn();
+const mockSearch = jest.fn();
+const mockGetCustomFields = jest.fn();
+const mockGetSystemFields = jest.fn();
+const mockGetSharedStep = jest.fn();
+const mockUpload = jest.fn();
+const mockDownload = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    cases: {
+      getCase: mockGetCase,
+      createCase: mockCreateCase,
+      updateCase: mockUpdateCase,
+      deleteCase: mockDeleteCase,
+    },
+    suites: { getSuite: mockGetSuite },
+    search: { search: mockSearch },
+    customFields: { getCustomFields: mockGetCustomFields },
+    systemFields: { getSystemFields: mockGetSystemFields },
+    sharedSteps: { getSharedStep: mockGetSharedStep },
+    attachments: { uploadAttachment: mockUpload },
+    downloadFile: mockDownload,
+  }),
+}));
+
+import './cases-transfer.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { resetCacheForTest } from '../../cache/index.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+
+const CASE = {
+  id: 7,
+  title: 'Login works',
+  preconditions: 'Signed out',
+  severity: 2,
+  priority: 1,
+  automation: 2,
+  suite_id: 3,
+  milestone_id: 9,
+  steps: [
+    {
+      position: 1,
+      action: 'Open page',
+      attachments: [{ hash: 'step-att', filename: 'page.png', url: 'https://files/page.png' }],
+    },
+    { position: 2, shared_step_hash: 'shared-1', steps: [] },
+  ],
+  tags: [{ title: 'smoke' }],
+  attachments: [{ hash: 'att-1', filename: 'log.txt', url: 'https://files/log.txt' }],
+  custom_fields: [
+    { id: 4, value: '2' },
+    { id: 5, value: 'web' },
+    { id: 6, value: 'x' },
+  ],
+};
+
+const FIELDS = [
+  {
+    id: 4,
+    title: 'Platform',
+    type: 'selectbox',
+    value: JSON.stringify([
+      { id: 1, title: 'iOS' },
+      { id: 2, title: 'Android' },
+    ]),
+    is_enabled_for_all_projects: false,
+    projects_codes: ['DEMO'],
+  },
+  {
+    id: 40,
+    title: 'platform',
+    type: 'selectbox',
+    value: JSON.stringify([
+      { id: 7, title: 'Android' },
+      { id: 8, title: 'iOS' },
+    ]),
+    is_enabled_for_all_projects: false,
+    projects_codes: ['MOB'],
+  },
+  { id: 5, title: 'Area', type: 'string', is_enabled_for_all_projects: true },
+  { id: 6, title: 'Owner', type: 'string', projects_codes: ['DEMO'] },
+];
+
+function call(name: string, args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler(name)!({ code: 'DEMO', target_suite_id: 30, ...args });
+}
+
+let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+beforeEach(async () => {
+  await resetCacheForTest();
+  consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockGetCase.mockReset().mockImplementation((_code: string, id: number) => ok({ ...CASE, id }));
+  let next = 100;
+  mockCreateCase.mockReset().mockImplementation(() => ok({ id: next++ }));
+  mockUpdateCase.mockReset().mockImplementation(() => ok({ id: 7 }));
+  mockDeleteCase.mockReset().mockImplementation(() => ok({ id: 7 }));
+  mockGetSuite.mockReset().mockImplementation(() => ok({ id: 30 }));
+  mockSearch
+    .mockReset()
+    .mockImplementation(() => ok({ total: 2, entities: [{ id: 7 }, { id: 8 }] }));
+  mockGetCustomFields.mockReset().mockImplementation(() => ok({ total: 4, entities: FIELDS }));
+  mockGetSystemFields.mockReset().mockImplementation(() =>
+    ok([
+      { slug: 'severity', options: [{ id: 2, slug: 'critical' }] },
+      { slug: 'priority', options: [{ id: 2, slug: 'medium' }] },
+    ]),
+  );
+  mockGetSharedStep.mockReset().mockImplementation(() =>
+    ok({
+      hash: 'shared-1',
+      title: 'Sign in',
+      steps: [{ action: 'Enter password', expected_result: 'Signed in', data: '' }],
+    }),
+  );
+  mockDownload.mockReset().mockImplementation((url: string) => Promise.resolve(Buffer.from(url)));
+  mockUpload
+    .mockReset()
+    .mockImplementation((_code: string, files: Array<{ name: string }>) =>
+      ok([{ hash: `new-${files[0].name}` }]),
+    );
+});
+
+afterEach(() => {
+  consoleErrorSpy.mockRestore();
+});
+
+describe('qase_case_move', () => {
+  it('moves cases within a project by updating their suite', async () => {
+    const res = await call('qase_case_move', { ids: [7, 8, 7] });
+
+    expect(mockUpdateCase.mock.calls).toEqual([
+      ['DEMO', 7, { suite_id: 30 }],
+      ['DEMO', 8, { suite_id: 30 }],
+    ]);
+    expect(mockGetCase).not.toHaveBeenCalled();
+    expect(res.structuredContent).toMatchObject({ selected: 2, succeeded: 2, failed: 0 });
+  });
+
+  it('copies then deletes across projects and reports a failed delete', async () => {
+    mockDeleteCase.mockImplementationOnce(() =>
+      Promise.reject(Object.assign(new Error('locked'), { isAxiosError: true })),
+    );
+
+    const res = await call('qase_case_move', { ids: [7, 8], target_code: 'MOB' });
+
+    expect(mockCreateCase).toHaveBeenCalledTimes(2);
+    expect(mockDeleteCase.mock.calls).toEqual([
+      ['DEMO', 7],
+      ['DEMO', 8],
+    ]);
+    expect(res.structuredContent.cases[0]).toMatchObject({
+      id: 7,
+      new_id: 100,
+      error: 'copied to MOB-100, but the original was not deleted: locked',
+    });
+    expect(res.structuredContent.cases[1]).toMatchObject({ id: 8, new_id: 101 });
+    expect(res.structuredContent.cases[1].error).toBeUndefined();
+  });
+
+  it('asks before a cross-project move, naming the cases it resolved', async () => {
+    expect(toolRegistry.getTool('qase_case_move')!.annotations).toMatchObject({
+      destructiveHint: true,
+      idempotentHint: false,
+    });
+
+    const prepared = await toolRegistry.getConfirmationPreparer('qase_case_move')!({
+      code: 'DEMO',
+      query: 'suite = "Login"',
+      target_suite_id: 30,
+      target_code: 'MOB',
+    });
+
+    expect(prepared.message).toBe(
+      'Move 2 case(s) from DEMO to MOB suite 30. Each case is copied there and the original ' +
+        'is deleted (an undo snapshot is kept), so the cases get new IDs:\n  DEMO-7\n  DEMO-8',
+    );
+    expect(prepared.args).toEqual({
+      code: 'DEMO',
+      ids: [7, 8],
+      target_suite_id: 30,
+      target_code: 'MOB',
+    });
+    expect(mockDeleteCase).not.toHaveBeenCalled();
+  });
+
+  it('stops before changing anything when the target suite is missing', async () => {
+    mockGetSuite.mockImplementation(() => Promise.reject(new Error('Suite not found')));
+
+    await expect(call('qase_case_move', { ids: [7] })).rejects.toThrow(
+      'Suite 30 could not be loaded from project DEMO',
+    );
+    expect(mockUpdateCase).not.toHaveBeenCalled();
+  });
+});
+
+describe('qase_case_clone', () => {
+  it('selects cases with a QQL filter scoped to the project', async () => {
+    await call('qase_case_clone', { query: 'suite = "Login"' });
+
+    expect(mockSearch).toHaveBeenCalledWith(
+      'entity = "case" and project = "DEMO" and (suite = "Login")',
+      100,
+      0,
+    );
+    expect(mockCreateCase).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps hashes, shared steps and custom fields within a project', async () => {
+    const res = await call('qase_case_clone', { ids: [7] });
+
+    const [code, payload] = mockCreateCase.mock.calls[0] as [string, any];
+    expect(code).toBe('DEMO');
+    expect(payload).toMatchObject({
+      title: 'Login works',
+      suite_id: 30,
+      milestone_id: 9,
+      isManual: 0,
+      attachments: ['att-1'],
+      tags: ['smoke'],
+      custom_field: { '4': '2', '5': 'web', '6': 'x' },
+    });
+    expect(payload.steps[1]).toEqual({ shared: 'shared-1', position: 2 });
+    expect(mockUpload).not.toHaveBeenCalled();
+    expect(res.structuredContent.cases).toEqual([{ id: 7, new_id: 100 }]);
+  });
+
+  it('re-uploads, remaps and reports what a cross-project copy leaves out', async () => {
+    const res = await call('qase_case_clone', { ids: [7], target_code: 'MOB' });
+
+    const [code, payload] = mockCreateCase.mock.calls[0] as [string, any];
+    expect(code).toBe('MOB');
+    expect(payload.milestone_id).toBeUndefined();
+    expect(payload.attachments).toEqual(['new-log.txt']);
+    expect(payload.custom_field).toEqual({ '40': '7', '5': 'web' });
+    expect(payload.steps).toEqual([
+      { position: 1, action: 'Open page', attachments: ['new-page.png'] },
+      {
+        action: 'Sign in',
+        position: 2,
+        steps: [{ action: 'Enter password', expected_result: 'Signed in' }],
+      },
+    ]);
+    expect(mockDownload).toHaveBeenCalledWith('https://files/log.txt');
+    expect(mockUpload).toHaveBeenCalledWith('MOB', [
+      { name: 'log.txt', value: Buffer.from('https://files/log.txt') },
+    ]);
+    expect(mockGetSharedStep).toHaveBeenCalledWith('DEMO', 'shared-1');
+    expect(res.structuredContent.cases[0].notes).toEqual([
+      'milestone left out — milestones belong to one project',
+      'priority 1 left out — no such option',
+      'custom field "Owner" left out — not enabled in MOB',
+      'shared step "Sign in" copied in as a regular step',
+    ]);
+  });
+
+  it('rejects a selection by both ids and query', async () => {
+    await expect(call('qase_case_clone', { ids: [7], query: 'title ~ "login"' })).rejects.toThrow(
+      'Select the cases with exactly one of `ids`, `suite_id` or `query`.',
+    );
+  });
+});
@@ -0,0 +1,457 @@
+import { z } from 'zod';
+import type { TestCaseCreate } from 'qase-api-client';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, CreateAnnotation, DeleteAnnotation } from '../../utils/registry.js';
+import { ToolExecutionError, formatApiError } from '../../utils/errors.js';
+import { ProjectCodeSchema, IdSchema } from '../../utils/validation.js';
+import { getSystemFieldLabels, type SystemFieldLabels } from '../../utils/case-enums.js';
+import { fetchAll, type ListPage } from '../../utils/pagination.js';
+import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import { reportProgress } from '../../utils/server-context.js';
+import { CaseSelectionSchema, sampleLines, selectCaseIds } from './case-selection.js';
+import { captureSnapshot, discardSnapshot } from './snapshots.js';
+import { toCaseWrite } from './case-fields.js';
+import { toCasePayload } from './undo.js';
+
+const Schema = z.object({
+  code: ProjectCodeSchema.describe('Project the cases are in'),
+  ...CaseSelectionSchema.shape,
+  target_suite_id: IdSchema.describe('Suite to put the cases in — a suite of the target project'),
+  target_code: ProjectCodeSchema.optional().describe(
+    'Project to put the cases in (default: the same project)',
+  ),
+});
+
+type Args = z.infer<typeof Schema>;
+type Row = Record<string, unknown>;
+
+const ENUM_FIELDS = ['severity', 'priority', 'behavior', 'type', 'layer', 'automation', 'status'];
+
+/** Outcome for one source case. */
+interface Transfer {
+  id: number;
+  new_id?: number;
+  error?: string;
+  /** What could not be carried over as-is, for cross-project transfers. */
+  notes?: string[];
+}
+
+interface CustomFieldDef {
+  id: number;
+  title?: string;
+  type?: string;
+  value?: string | null;
+  is_enabled_for_all_projects?: boolean;
+  projects_codes?: string[];
+}
+
+interface FieldOption {
+  id: number;
+  title: string;
+}
+
+const enabledIn = (field: CustomFieldDef, code: string) =>
+  field.is_enabled_for_all_projects === true || (field.projects_codes ?? []).includes(code);
+
+/** Options of a select, radio or multiselect field, which keeps them as JSON in `value`. */
+function fieldOptions(field: CustomFieldDef): FieldOption[] | undefined {
+  if (!field.value) return undefined;
+  try {
+    const parsed = JSON.parse(field.value);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Everything a cross-project copy needs that is looked up once per call and
+ * shared by every case: the target project's custom fields, the workspace's
+ * system field options, and the attachments and shared steps already handled.
+ */
+class Translation {
+  private readonly uploads = new Map<string, Promise<string>>();
+  private readonly sharedSteps = new Map<string, Promise<Row>>();
+
+  private constructor(
+    private readonly code: string,
+    private readonly targetCode: string,
+    private readonly fields: CustomFieldDef[],
+    private readonly labels: SystemFieldLabels | undefined,
+  ) {}
+
+  static async load(code: string, targetCode: string): Promise<Translation> {
+    const client = getApiClient();
+    const page = await fetchAll(
+      (limit, offset): Promise<ListPage> =>
+        client.customFields
+          .getCustomFields('case', undefined, limit, offset)
+          .then((r) => (r.data.result as ListPage) ?? null),
+    );
+    let labels: SystemFieldLabels | undefined;
+    try {
+      labels = await getSystemFieldLabels();
+    } catch (error) {
+      console.error(
+        `[case transfer] Could not load system fields, copying enum IDs unchecked: ${formatApiError(error)}`,
+      );
+    }
+    return new Translation(code, targetCode, (page?.entities ?? []) as CustomFieldDef[], labels);
+  }
+
+  /** Rewrite a case payload for the target project; returns what was dropped or changed. */
+  async apply(payload: Row, source: Row): Promise<string[]> {
+    const notes: string[] = [];
+
+    if (payload.milestone_id !== undefined) {
+      delete payload.milestone_id;
+      notes.push('milestone left out — milestones belong to one project');
+    }
+
+    // System fields are workspace-wide, so an enum ID means the same in both
+    // projects; only an option removed since the case was written is dropped.
+    for (const field of ENUM_FIELDS) {
+      const options = this.labels?.[field];
+      if (payload[field] === undefined || !options) continue;
+      if (options[String(payload[field])] === undefined) {
+        notes.push(`${field} ${payload[field]} left out — no such option`);
+        delete payload[field];
+      }
+    }
+
+    if (payload.custom_field) {
+      const mapped: Record<string, string> = {};
+      for (const [id, value] of Object.entries(payload.custom_field as Record<string, string>)) {
+        const result = this.mapCustomField(Number(id), value);
+        if (typeof result === 'string') notes.push(result);
+        else mapped[String(result.id)] = result.value;
+      }
+      payload.custom_field = mapped;
+    }
+
+    const attachments = new Map<string, Row>();
+    const collect = (list: unknown) => {
+      for (const a of Array.isArray(list) ? (list as Row[]) : []) {
+        if (typeof a.hash === 'string') attachments.set(a.hash, a);
+      }
+    };
+    collect(source.attachments);
+    const walkSource = (steps: unknown) => {
+      for (const step of Array.isArray(steps) ? (steps as Row[]) : []) {
+        collect(step.attachments);
+        walkSource(step.steps);
+      }
+    };
+    walkSource(source.steps);
+
+    const reupload = async (hashes: unknown) => {
+      const out: string[] = [];
+      for (const hash of Array.isArray(hashes) ? (hashes as string[]) : []) {
+        const attachment = attachments.get(hash);
+        try {
+          if (!attachment || typeof attachment.url !== 'string') {
+            throw new Error('no download link');
+          }
+          out.push(await this.upload(hash, attachment));
+        } catch (error) {
+          const name = (attachment?.filename as string | undefined) ?? hash;
+          notes.push(`attachment "${name}" left out — ${formatApiError(error)}`);
+        }
+      }
+      return out;
+    };
+
+    if (payload.attachments !== undefined) {
+      payload.attachments = await reupload(payload.attachments);
+    }
+    if (Array.isArray(payload.steps)) {
+      payload.steps = await this.mapSteps(payload.steps as Row[], reupload, notes);
+    }
+    return notes;
+  }
+
+  /** The field and value to use in the target project, or why the value is dropped. */
+  private mapCustomField(id: number, value: string): { id: number; value: string } | string {
+    const source = this.fields.find((f) => f.id === id);
+    if (!source) return `custom field ${id} left out — not found`;
+    if (enabledIn(source, this.targetCode)) return { id, value };
+
+    const title = (source.title ?? '').toLowerCase();
+    const target = this.fields.find(
+      (f) =>
+        f.id !== id &&
+        enabledIn(f, this.targetCode) &&
+        (f.title ?? '').toLowerCase() === title &&
+        f.type === source.type,
+    );
+    if (!target) {
+      return `custom field "${source.title}" left out — not enabled in ${this.targetCode}`;
+    }
+
+    // Option fields store option IDs, which differ between two fields even
+    // when their options read the same — match them by title.
+    const sourceOptions = fieldOptions(source);
+    if (!sourceOptions || value === '') return { id: target.id, value };
+    const targetOptions = fieldOptions(target) ?? [];
+    const ids = value.split(',').map((optionId) => {
+      const option = sourceOptions.find((o) => String(o.id) === optionId.trim());
+      return targetOptions.find(
+        (o) => option && o.title.toLowerCase() === option.title.toLowerCase(),
+      )?.id;
+    });
+    if (ids.some((optionId) => optionId === undefined)) {
+      return `custom field "${source.title}" left out — its value has no matching option in ${this.targetCode}`;
+    }
+    return { id: target.id, value: ids.join(',') };
+  }
+
+  /** Re-upload step attachments and write shared steps out in full, recursively. */
+  private async mapSteps(
+    steps: Row[],
+    reupload: (hashes: unknown) => Promise<string[]>,
+    notes: string[],
+  ): Promise<Row[]> {
+    const out: Row[] = [];
+    for (const step of steps) {
+      if (typeof step.shared === 'string') {
+        out.push(await this.inlineSharedStep(step, notes));
+        continue;
+      }
+      const mapped: Row = { ...step };
+      if (step.attachments !== undefined) mapped.attachments = await reupload(step.attachments);
+      if (Array.isArray(step.steps)) {
+        mapped.steps = await this.mapSteps(step.steps as Row[], reupload, notes);
+      }
+      out.push(mapped);
+    }
+    return out;
+  }
+
+  /** Shared steps belong to one project, so the copy gets their content instead. */
+  private async inlineSharedStep(step: Row, notes: string[]): Promise<Row> {
+    const hash = step.shared as string;
+    let pending = this.sharedSteps.get(hash);
+    if (!pending) {
+      pending = getApiClient()
+        .sharedSteps.getSharedStep(this.code, hash)
+        .then((r) => (r.data.result ?? {}) as Row);
+      this.sharedSteps.set(hash, pending);
+    }
+
+    try {
+      const shared = await pending;
+      const inner = Array.isArray(shared.steps) ? (shared.steps as Row[]) : [];
+      notes.push(`shared step "${shared.title ?? hash}" copied in as a regular step`);
+      const text = (row: Row) =>
+        Object.fromEntries(
+          ['action', 'expected_result', 'data']
+            .filter((field) => typeof row[field] === 'string' && row[field] !== '')
+            .map((field) => [field, row[field]]),
+        );
+      return inner.length > 0
+        ? {
+            action: shared.title ?? shared.action,
+            position: step.position,
+            steps: inner.map(text),
+          }
+        : { ...text(shared), position: step.position };
+    } catch (error) {
+      notes.push(`shared step ${hash} could not be read — ${formatApiError(error)}`);
+      return { action: `Shared step ${hash}`, position: step.position };
+    }
+  }
+
+  private upload(hash: string, attachment: Row): Promise<string> {
+    let pending = this.uploads.get(hash);
+    if (!pending) {
+      const client = getApiClient();
+      pending = client
+        .downloadFile(attachment.url as string)
+        .then((file) => {
+          const name = (attachment.filename as string | undefined) ?? hash;
+          // The client posts form-data parts of a name and a buffer, not the
+          // File objects its signature declares
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const parts = [{ name, value: file }] as any[];
+          return client.attachments.uploadAttachment(this.targetCode, parts);
+        })
+        .then((r) => {
+          const uploaded = (r.data.result as Row[] | undefined)?.[0]?.hash;
+          if (typeof uploaded !== 'string') throw new Error('upload returned no hash');
+          return uploaded;
+        });
+      this.uploads.set(hash, pending);
+    }
+    return pending;
+  }
+}
+
+/** Copy one case; the copy's ID and the cross-project notes. */
+async function cloneCase(
+  code: string,
+  id: number,
+  targetCode: string,
+  suiteId: number,
+  translation: Translation | undefined,
+): Promise<{ newId: number; notes: string[] }> {
+  const client = getApiClient();
+  const source = ((await client.cases.getCase(code, id)).data.result ?? {}) as Row;
+  const payload: Row = { ...toCasePayload(source), suite_id: suiteId };
+  const notes = translation ? await translation.apply(payload, source) : [];
+
+  const created = await client.cases.createCase(targetCode, toCaseWrite<TestCaseCreate>(payload));
+  return { newId: created.data.result?.id as number, notes };
+}
+
+async function transfer(args: Args, mode: 'move' | 'clone') {
+  const { code, target_suite_id: suiteId } = args;
+  const targetCode = args.target_code ?? code;
+  const crossProject = targetCode !== code;
+  const client = getApiClient();
+
+  const ids = await selectCaseIds(code, args);
+  try {
+    await client.suites.getSuite(targetCode, suiteId);
+  } catch (error) {
+    throw new ToolExecutionError(
+      `Suite ${suiteId} could not be loaded from project ${targetCode}: ${formatApiError(error)}`,
+      'Pick a suite of the target project — qase_suite_tree lists them with their IDs.',
+    );
+  }
+  const translation = crossProject ? await Translation.load(code, targetCode) : undefined;
+
+  const cases: Transfer[] = [];
+  for (const [index, id] of ids.entries()) {
+    const entry: Transfer = { id };
+    try {
+      if (mode === 'move' && !crossProject) {
+        await client.cases.updateCase(code, id, { suite_id: suiteId });
+      } else {
+        const { newId, notes } = await cloneCase(code, id, targetCode, suiteId, translation);
+        entry.new_id = newId;
+        if (notes.length > 0) entry.notes = notes;
+        if (mode === 'move') {
+          const snapshotId = await captureSnapshot({
+            tool: 'qase_case_move',
+            action: 'delete',
+            entity: 'case',
+            code,
+            entity_id: id,
+          });
+          try {
+            await client.cases.deleteCase(code, id);
+          } catch (error) {
+            if (snapshotId) await discardSnapshot(snapshotId);
+            throw new Error(
+              `copied to ${targetCode}-${newId}, but the original was not deleted: ${formatApiError(error)}`,
+            );
+          }
+        }
+      }
+    } catch (error) {
+      entry.error = formatApiError(error);
+    }
+    cases.push(entry);
+    await reportProgress(
+      index + 1,
+      ids.length,
+      `${mode === 'move' ? 'Moved' : 'Cloned'} ${index + 1} of ${ids.length} cases`,
+    );
+  }
+
+  const failed = cases.filter((c) => c.error !== undefined);
+  const done = cases.length - failed.length;
+  const verb = mode === 'move' ? 'Moved' : 'Cloned';
+  const lines = [`## ${verb} ${done} of ${cases.length} case(s) to ${targetCode} suite ${suiteId}`];
+  if (mode === 'move' && crossProject && done > 0) {
+    lines.push(
+      '',
+      'The cases were copied and the originals deleted, so they have new IDs. ' +
+        'Each original was snapshotted first — qase_undo can bring it back.',
+    );
+  }
+  const reported = cases.filter((c) => c.error || c.notes || c.new_id !== undefined);
+  if (reported.length > 0) {
+    lines.push(
+      '',
+      markdownTable(
+        ['Case', 'New case', 'Notes'],
+        reported.map((c) => [
+          `${code}-${c.id}`,
+          c.new_id !== undefined ? `${targetCode}-${c.new_id}` : '-',
+          c.error ? `❌ ${c.error}` : (c.notes ?? []).join('; ') || '-',
+        ]),
+      ),
+    );
+  }
+
+  const structured = {
+    mode,
+    code,
+    target_code: targetCode,
+    target_suite_id: suiteId,
+    selected: ids.length,
+    succeeded: done,
+    failed: failed.length,
+    cases,
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+/**
+ * Resolve the selection once for the confirmation prompt, so the move acts on
+ * exactly the cases the user was shown.
+ */
+async function prepareMove(args: Args) {
+  const { code, target_suite_id: suiteId } = args;
+  const targetCode = args.target_code ?? code;
+  const ids = await selectCaseIds(code, args);
+  const where =
+    targetCode === code
+      ? `to suite ${suiteId}`
+      : `to ${targetCode} suite ${suiteId}. Each case is copied there and the original ` +
+        'is deleted (an undo snapshot is kept), so the cases get new IDs';
+  return {
+    message:
+      `Move ${ids.length} case(s) from ${code} ${where}:\n` +
+      sampleLines(ids.map((id) => `${code}-${id}`)),
+    args: {
+      code,
+      ids,
+      target_suite_id: suiteId,
+      ...(args.target_code !== undefined && { target_code: args.target_code }),
+    },
+  };
+}
+
+toolRegistry.register({
+  name: 'qase_case_move',
+  description:
+    'Move test cases to another suite, in the same project or another one. Select the cases ' +
+    'by `ids`, `suite_id` or a QQL `query` filter (up to 500). Within a project the cases ' +
+    'keep their IDs. Across projects each case is copied — steps, attachments, tags and custom fields, ' +
+    'adapted the way qase_case_clone does — and the original is deleted after an undo ' +
+    'snapshot; the result lists the new IDs and anything that could not be carried over. ' +
+    'The confirmation shows the count and a sample of the selected cases.',
+  schema: Schema,
+  handler: (args: Args) => transfer(args, 'move'),
+  prepareConfirmation: (args) => prepareMove(args as Args),
+  // A cross-project move deletes the originals, and repeating it copies them again
+  annotations: { ...DeleteAnnotation, idempotentHint: false },
+  visibility: 'discoverable',
+});
+
+toolRegistry.register({
+  name: 'qase_case_clone',
+  description:
+    'Copy test cases into a suite, in the same project or another one. Select the cases by ' +
+    '`ids`, `suite_id` or a QQL `query` filter (up to 500). Copies steps, preconditions, tags, ' +
+    'attachments, custom fields and shared-step references. Into another project, attachments ' +
+    'are uploaded again, custom fields not enabled there are matched by title, shared steps ' +
+    '(which belong to one project) are copied in as regular steps, and the milestone is left ' +
+    'out; the result lists per case what could not be carried over.',
+  schema: Schema,
+  handler: (args: Args) => transfer(args, 'clone'),
+  annotations: CreateAnnotation,
+  visibility: 'discoverable',
+});
@@ -5,6 +5,7 @@ import { toResultAsync, createToolError } from '../../utils/errors.js';
 import { ProjectCodeSchema, IdSchema } from '../../utils/validation.js';
 import { normalizeCaseEnums } from '../../utils/case-enums.js';
 import { CaseFieldsSchema, applyAutomationMapping, resolveSharedStepRefs } from './case-fields.js';
+import { captureSnapshot, discardSnapshot } from './snapshots.js';
 
 const UpsertSchema = z.object({
   code: ProjectCodeSchema,
@@ -28,14 +29,26 @@ async function upsert(args: z.infer<typeof UpsertSchema>) {
     normalized.steps = resolveSharedStepRefs(normalized.steps);
   }
 
+  const snapshotId = id
+    ? await captureSnapshot({
+        tool: 'qase_case_upsert',
+        action: 'update',
+        entity: 'case',
+        code,
+        entity_id: id,
+      })
+    : undefined;
+
   const result = await toResultAsync(
     id
       ? client.cases.updateCase(code, id, normalized as any)
       : client.cases.createCase(code, normalized as any),
   );
+  // A failed write changed nothing, so its snapshot must not be offered to qase_undo
+  if (result.isErr() && snapshotId) await discardSnapshot(snapshotId);
 
   return result.match(
-    (r) => r.data.result,
+    (r) => (snapshotId ? { ...r.data.result, snapshot_id: snapshotId } : r.data.result),
     (e) => {
       throw createToolError(e, 'case operation');
     },
@@ -44,9 +57,17 @@ async function upsert(args: z.infer<typeof UpsertSchema>) {
 
 async function del(args: z.infer<typeof DeleteSchema>) {
   const client = getApiClient();
+  const snapshotId = await captureSnapshot({
+    tool: 'qase_case_delete',
+    action: 'delete',
+    entity: 'case',
+    code: args.code,
+    entity_id: args.id,
+  });
   const result = await toResultAsync(client.cases.deleteCase(args.code, args.id));
+  if (result.isErr() && snapshotId) await discardSnapshot(snapshotId);
   return result.match(
-    () => ({ success: true, id: args.id }),
+    () => ({ success: true, id: args.id, ...(snapshotId && { snapshot_id: snapshotId }) }),
     (e) => {
       throw createToolError(e, 'case operation');
     },
@@ -68,7 +89,9 @@ toolRegistry.register({
 
 toolRegistry.register({
   name: 'qase_case_delete',
-  description: 'Delete a test case by project code and case ID.',
+  description:
+    'Delete a test case by project code and case ID. The case is snapshotted first, so ' +
+    'qase_undo can recreate it.',
   schema: DeleteSchema,
   handler: del,
   annotations: DeleteAnnotation,
@@ -0,0 +1,225 @@
+/**
+ * Tests for chunked result recording.
+ *
+ * Chunks go out a few at a time; only failures the API certainly did not
+ * record are retried, and a resume token sends exactly the chunks that are
+ * still missing — never one that was already recorded.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockCreateResultBulk = jest.fn();
+const mockCreateRun = jest.fn();
+const mockCompleteRun = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    runs: { createRun: mockCreateRun, completeRun: mockCompleteRun },
+    results: { createResultBulk: mockCreateResultBulk },
+  }),
+}));
+
+import {
+  RESULT_CHUNK_SIZE,
+  RESULT_CHUNK_CONCURRENCY,
+  recordResultsChunked,
+  readResumeToken,
+} from './result-chunks.js';
+import './results.js';
+import '../composites/ci-report.js';
+import { toolRegistry } from '../../utils/registry.js';
+
+const ok = () => Promise.resolve({ data: { status: true, result: {} } });
+
+function apiError(status: number) {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    isAxiosError: true,
+    response: { status, data: { errorMessage: `HTTP ${status}` } },
+  });
+}
+
+function makeResults(count: number) {
+  return Array.from({ length: count }, (_, i) => ({ case_id: i + 1, status: 'passed' }));
+}
+
+/** Offsets of the chunks sent, in call order. */
+function sentOffsets(): number[] {
+  return mockCreateResultBulk.mock.calls.map((call: any[]) => call[2].results[0].case_id - 1);
+}
+
+/** Fail the chunk starting at `offset` with `status`, `times` times. */
+function failChunk(offset: number, status: number, times = Infinity) {
+  let failures = 0;
+  mockCreateResultBulk.mockImplementation((_code: any, _run: any, body: any) => {
+    if (body.results[0].case_id - 1 === offset && failures < times) {
+      failures++;
+      return Promise.reject(apiError(status));
+    }
+    return ok();
+  });
+}
+
+function invoke(tool: string, args: Record<string, unknown>) {
+  return toolRegistry.getHandler(tool)!(args) as Promise<any>;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockCreateResultBulk.mockImplementation(ok);
+  mockCreateRun.mockImplementation(() => Promise.resolve({ data: { result: { id: 7 } } }));
+  mockCompleteRun.mockImplementation(ok);
+});
+
+describe('recordResultsChunked', () => {
+  it('splits results into fixed-size chunks', async () => {
+    const report = await recordResultsChunked('DEMO', 7, makeResults(250));
+
+    expect(sentOffsets().sort((a, b) => a - b)).toEqual([0, 100, 200]);
+    expect(report).toMatchObject({ total: 250, recorded: 250, failed: 0 });
+    expect(report.chunks.map((c) => c.count)).toEqual([RESULT_CHUNK_SIZE, RESULT_CHUNK_SIZE, 50]);
+    expect(report.resume_token).toBeUndefined();
+  });
+
+  it('keeps at most a few chunks in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    mockCreateResultBulk.mockImplementation(async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return { data: { status: true } };
+    });
+
+    await recordResultsChunked('DEMO', 7, makeResults(1000));
+
+    expect(mockCreateResultBulk).toHaveBeenCalledTimes(10);
+    expect(peak).toBe(RESULT_CHUNK_CONCURRENCY);
+  });
+
+  it('retries a rate-limited chunk', async () => {
+    failChunk(100, 429, 2);
+
+    const report = await recordResultsChunked('DEMO', 7, makeResults(200), { retryDelayMs: 0 });
+
+    expect(report.failed).toBe(0);
+    expect(report.chunks[1]).toMatchObject({ status: 'recorded', attempts: 3 });
+    expect(report.chunks[1].error).toBeUndefined();
+  });
+
+  it('does not retry a chunk that may have been recorded', async () => {
+    failChunk(100, 500);
+
+    const report = await recordResultsChunked('DEMO', 7, makeResults(300), { retryDelayMs: 0 });
+
+    expect(report).toMatchObject({ recorded: 200, failed: 100 });
+    expect(report.chunks[1]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(report.chunks[1].error).toMatch(/server error/);
+    expect(report.resume_token).toEqual(expect.any(String));
+  });
+
+  it('resumes with only the failed chunks', async () => {
+    const results = makeResults(300);
+    failChunk(100, 503);
+    const first = await recordResultsChunked('DEMO', 7, results, { retryDelayMs: 0 });
+    expect(first.chunks[1]).toMatchObject({ status: 'failed', attempts: 3 });
+
+    mockCreateResultBulk.mockClear();
+    mockCreateResultBulk.mockImplementation(ok);
+    const { runId, pending } = readResumeToken(first.resume_token!, 'DEMO', results);
+    const second = await recordResultsChunked('DEMO', runId, results, { pending });
+
+    expect(runId).toBe(7);
+    expect(sentOffsets()).toEqual([100]);
+    expect(second.chunks.map((c) => c.status)).toEqual(['skipped', 'recorded', 'skipped']);
+    expect(second).toMatchObject({ recorded: 100, failed: 0 });
+  });
+});
+
+describe('readResumeToken', () => {
+  async function tokenFor(results: unknown[]) {
+    failChunk(0, 500);
+    const report = await recordResultsChunked('DEMO', 7, results);
+    return report.resume_token!;
+  }
+
+  it('rejects a token for other results or another project', async () => {
+    const results = makeResults(150);
+    const token = await tokenFor(results);
+
+    expect(() => readResumeToken(token, 'DEMO', makeResults(151))).toThrow(/different list/);
+    expect(() => readResumeToken(token, 'DEMO', [...results].reverse())).toThrow(/different list/);
+    expect(() => readResumeToken(token, 'OTHER', results)).toThrow(/project DEMO/);
+  });
+
+  it('rejects a malformed token', () => {
+    expect(() => readResumeToken('not a token', 'DEMO', [])).toThrow(/not a valid resume token/);
+  });
+});
+
+describe('qase_result_record', () => {
+  it('chunks large batches and reports partial failure with a token', async () => {
+    failChunk(0, 500);
+
+    const result = await invoke('qase_result_record', {
+      code: 'DEMO',
+      run_id: 7,
+      results: makeResults(150),
+    });
+
+    expect(result).toMatchObject({ success: false, count: 50, recorded: 50, failed: 100 });
+    expect(result.resume_token).toEqual(expect.any(String));
+  });
+
+  it('refuses a token issued for another run', async () => {
+    const results = makeResults(150);
+    failChunk(0, 500);
+    const { resume_token } = await invoke('qase_result_record', {
+      code: 'DEMO',
+      run_id: 7,
+      results,
+    });
+
+    await expect(
+      invoke('qase_result_record', { code: 'DEMO', run_id: 8, results, resume_token }),
+    ).rejects.toThrow(/run 7, not 8/);
+  });
+});
+
+describe('qase_ci_report', () => {
+  const args = { code: 'DEMO', title: 'Nightly', results: makeResults(250), complete: true };
+
+  it('leaves the run active when chunks fail, then finishes it on resume', async () => {
+    failChunk(200, 500);
+
+    const first = await invoke('qase_ci_report', args);
+
+    expect(first.structuredContent).toMatchObject({
+      run_id: 7,
+      run_status: 'active',
+      results_recorded: 200,
+    });
+    expect(first.content[0].text).toContain('50 of 250 results were not recorded');
+    expect(mockCompleteRun).not.toHaveBeenCalled();
+
+    mockCreateResultBulk.mockClear();
+    mockCreateResultBulk.mockImplementation(ok);
+    const resume_token = first.structuredContent.resume_token;
+    const second = await invoke('qase_ci_report', { ...args, resume_token });
+
+    expect(mockCreateRun).toHaveBeenCalledTimes(1);
+    expect(sentOffsets()).toEqual([200]);
+    expect(mockCompleteRun).toHaveBeenCalledWith('DEMO', 7);
+    expect(second.structuredContent.resume_token).toBeUndefined();
+  });
+
+  it('fails outright when a single-chunk upload fails', async () => {
+    failChunk(0, 500);
+
+    await expect(invoke('qase_ci_report', { ...args, results: makeResults(10) })).rejects.toThrow(
+      /server error/,
+    );
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Chunked Result Recording
+ *
+ * Large runs (thousands of results) do not fit in one `createResultBulk` call:
+ * the request times out or exceeds the payload limit. Results are sent in
+ * fixed-size chunks, a few at a time, and each chunk's outcome is reported.
+ *
+ * A chunk is retried only when the API certainly did not record it (rate
+ * limiting, an unavailable gateway, a refused connection). A timeout or a 500
+ * may have been recorded server-side, so retrying it could duplicate results —
+ * those chunks are reported as failed instead.
+ *
+ * When any chunk fails, the report carries a resume token: an opaque,
+ * stateless record of the run, the chunking, a digest of the results, and the
+ * chunks still to send. Passing it back with the same results sends only
+ * those chunks, so finishing an upload never records a result twice.
+ */
+
+import { createHash } from 'crypto';
+import { AxiosError } from 'axios';
+import type { ResultCreate } from 'qase-api-client';
+import { getApiClient } from '../../client/index.js';
+import { ToolExecutionError, formatApiError } from '../../utils/errors.js';
+
+/** Results per createResultBulk call. */
+export const RESULT_CHUNK_SIZE = 100;
+
+/** Chunks in flight at once. */
+export const RESULT_CHUNK_CONCURRENCY = 3;
+
+/** Attempts per chunk, including the first. */
+const MAX_CHUNK_ATTEMPTS = 3;
+
+const RETRY_BASE_DELAY_MS = 500;
+
+const TOKEN_VERSION = 1;
+
+/** Statuses and network codes that guarantee the chunk was not recorded. */
+const RETRYABLE_STATUSES = new Set([429, 502, 503]);
+const RETRYABLE_CODES = new Set(['ECONNREFUSED']);
+
+export interface ChunkOutcome {
+  index: number;
+  /** Position of the chunk's first result in the submitted array. */
+  offset: number;
+  count: number;
+  /** `skipped` — already recorded, according to the resume token. */
+  status: 'recorded' | 'failed' | 'skipped';
+  attempts: number;
+  error?: string;
+}
+
+export interface UploadReport {
+  total: number;
+  recorded: number;
+  failed: number;
+  chunks: ChunkOutcome[];
+  /** Present when a chunk failed; pass it back with the same results to finish. */
+  resume_token?: string;
+}
+
+interface ResumeState {
+  v: number;
+  code: string;
+  run_id: number;
+  size: number;
+  total: number;
+  digest: string;
+  pending: number[];
+}
+
+export interface ResumePoint {
+  runId: number;
+  /** Chunk indices still to record. */
+  pending: Set<number>;
+}
+
+function digest(results: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(results)).digest('hex').slice(0, 32);
+}
+
+function encodeResumeToken(state: ResumeState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Decode a resume token and check it belongs to these results.
+ *
+ * @throws ToolExecutionError when the token is malformed, from another
+ *   project, or was issued for a different result list
+ */
+export function readResumeToken(token: string, code: string, results: unknown[]): ResumePoint {
+  let state: ResumeState;
+  try {
+    state = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new ToolExecutionError('resume_token is not a valid resume token.');
+  }
+
+  if (
+    state?.v !== TOKEN_VERSION ||
+    typeof state.run_id !== 'number' ||
+    !Array.isArray(state.pending) ||
+    state.size !== RESULT_CHUNK_SIZE
+  ) {
+    throw new ToolExecutionError(
+      'resume_token is not a valid resume token, or was issued by a different server version.',
+    );
+  }
+  if (state.code !== code) {
+    throw new ToolExecutionError(`resume_token belongs to project ${state.code}, not ${code}.`);
+  }
+  if (state.total !== results.length || state.digest !== digest(results)) {
+    throw new ToolExecutionError(
+      'resume_token was issued for a different list of results.',
+      'Resend exactly the results from the original call, in the same order, with the token.',
+    );
+  }
+
+  return { runId: state.run_id, pending: new Set(state.pending) };
+}
+
+function isRetryable(error: unknown): boolean {
+  const axiosError = error as AxiosError;
+  if (!(axiosError?.isAxiosError || error instanceof AxiosError)) return false;
+  if (axiosError.response) return RETRYABLE_STATUSES.has(axiosError.response.status);
+  return RETRYABLE_CODES.has(axiosError.code ?? '');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface ChunkOptions {
+  /** Chunks to send; all others are reported as skipped. Default: every chunk. */
+  pending?: Set<number>;
+  /** Base retry backoff. Exposed for tests. */
+  retryDelayMs?: number;
+}
+
+/**
+ * Record results into a run in chunks, with bounded concurrency and
+ * per-chunk retry. Never throws for a failed chunk — the report says which
+ * chunks failed and carries a resume token for them.
+ */
+export async function recordResultsChunked(
+  code: string,
+  runId: number,
+  results: unknown[],
+  options: ChunkOptions = {},
+): Promise<UploadReport> {
+  const client = getApiClient();
+  const retryDelayMs = options.retryDelayMs ?? RETRY_BASE_DELAY_MS;
+
+  const chunkCount = Math.ceil(results.length / RESULT_CHUNK_SIZE);
+  const chunks: ChunkOutcome[] = Array.from({ length: chunkCount }, (_, index) => {
+    const offset = index * RESULT_CHUNK_SIZE;
+    return {
+      index,
+      offset,
+      count: Math.min(RESULT_CHUNK_SIZE, results.length - offset),
+      status: options.pending && !options.pending.has(index) ? 'skipped' : 'failed',
+      attempts: 0,
+    };
+  });
+
+  const sendChunk = async (chunk: ChunkOutcome) => {
+    const batch = results.slice(chunk.offset, chunk.offset + chunk.count);
+    while (chunk.attempts < MAX_CHUNK_ATTEMPTS) {
+      chunk.attempts++;
+      try {
+        // Callers pass results already shaped for the API by their tool schemas
+        await client.results.createResultBulk(code, runId, { results: batch as ResultCreate[] });
+        chunk.status = 'recorded';
+        delete chunk.error;
+        return;
+      } catch (error) {
+        chunk.error = formatApiError(error);
+        if (!isRetryable(error) || chunk.attempts >= MAX_CHUNK_ATTEMPTS) return;
+        await sleep(retryDelayMs * 2 ** (chunk.attempts - 1));
+      }
+    }
+  };
+
+  const queue = chunks.filter((c) => c.status !== 'skipped');
+  const worker = async () => {
+    for (let chunk = queue.shift(); chunk; chunk = queue.shift()) {
+      await sendChunk(chunk);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(RESULT_CHUNK_CONCURRENCY, queue.length) }, worker),
+  );
+
+  const failedChunks = chunks.filter((c) => c.status === 'failed');
+  const report: UploadReport = {
+    total: results.length,
+    recorded: chunks.filter((c) => c.status === 'recorded').reduce((n, c) => n + c.count, 0),
+    failed: failedChunks.reduce((n, c) => n + c.count, 0),
+    chunks,
+  };
+
+  if (failedChunks.length > 0) {
+    report.resume_token = encodeResumeToken({
+      v: TOKEN_VERSION,
+      code,
+      run_id: runId,
+      size: RESULT_CHUNK_SIZE,
+      total: results.length,
+      digest: digest(results),
+      pending: failedChunks.map((c) => c.index),
+    });
+  }
+
+  return report;
+}
+
+/** Markdown lines describing failed chunks and how to resume. Empty when all succeeded. */
+export function uploadFailureLines(report: UploadReport, resumeWith: string): string[] {
+  const failed = report.chunks.filter((c) => c.status === 'failed');
+  if (failed.length === 0) return [];
+
+  const lines = [
+    '',
+    `**⚠️ ${report.failed} of ${report.total} results were not recorded** ` +
+      `(${failed.length} of ${report.chunks.length} chunks failed):`,
+  ];
+  for (const c of failed) {
+    lines.push(`- Results ${c.offset + 1}–${c.offset + c.count}: ${c.error ?? 'unknown error'}`);
+  }
+  lines.push(
+    '',
+    `To finish, call ${resumeWith} again with the same results and \`resume_token\` — ` +
+      'only the failed chunks are sent.',
+  );
+  return lines;
+}
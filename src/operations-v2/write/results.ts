@@ -1,10 +1,11 @@
 import { z } from 'zod';
 import { getApiClient } from '../../client/index.js';
 import { toolRegistry, CreateAnnotation, DeleteAnnotation } from '../../utils/registry.js';
-import { toResultAsync, createToolError } from '../../utils/errors.js';
+import { toResultAsync, createToolError, ToolExecutionError } from '../../utils/errors.js';
 import { ProjectCodeSchema, IdSchema } from '../../utils/validation.js';
+import { RESULT_CHUNK_SIZE, readResumeToken, recordResultsChunked } from './result-chunks.js';
 
-const ResultStepSchema = z.object({
+export const ResultStepSchema = z.object({
   position: z.number().int().min(0),
   status: z.enum(['passed', 'failed', 'blocked', 'skipped']),
   comment: z.string().optional(),
@@ -32,7 +33,20 @@ const SingleResultSchema = z.object({
 const RecordSchema = z.object({
   code: ProjectCodeSchema,
   run_id: IdSchema.describe('Run ID to record results into'),
-  results: z.array(SingleResultSchema).min(1).describe('One or more results to record'),
+  results: z
+    .array(SingleResultSchema)
+    .min(1)
+    .describe(
+      `One or more results to record. More than ${RESULT_CHUNK_SIZE} are sent in chunks of ` +
+        `${RESULT_CHUNK_SIZE}, and the response reports each chunk.`,
+    ),
+  resume_token: z
+    .string()
+    .optional()
+    .describe(
+      'Token from a previous chunked call that partly failed. Send it with the same results ' +
+        'to record only the chunks that failed.',
+    ),
 });
 
 const DeleteSchema = z.object({
@@ -43,7 +57,11 @@ const DeleteSchema = z.object({
 
 async function record(args: z.infer<typeof RecordSchema>) {
   const client = getApiClient();
-  const { code, run_id, results } = args;
+  const { code, run_id, results, resume_token } = args;
+
+  if (results.length > RESULT_CHUNK_SIZE || resume_token) {
+    return recordChunked(code, run_id, results, resume_token);
+  }
 
   if (results.length === 1) {
     const single = results[0];
@@ -67,6 +85,29 @@ async function record(args: z.infer<typeof RecordSchema>) {
   );
 }
 
+/**
+ * Record a large batch chunk by chunk. Partial failure is a result, not an
+ * error: the report lists the failed chunks and carries the resume token.
+ */
+async function recordChunked(
+  code: string,
+  runId: number,
+  results: unknown[],
+  resumeToken: string | undefined,
+) {
+  let pending: Set<number> | undefined;
+  if (resumeToken) {
+    const resume = readResumeToken(resumeToken, code, results);
+    if (resume.runId !== runId) {
+      throw new ToolExecutionError(`resume_token belongs to run ${resume.runId}, not ${runId}.`);
+    }
+    pending = resume.pending;
+  }
+
+  const upload = await recordResultsChunked(code, runId, results, { pending });
+  return { success: upload.failed === 0, count: upload.recorded, ...upload };
+}
+
 async function del(args: z.infer<typeof DeleteSchema>) {
   const client = getApiClient();
   const result = await toResultAsync(
@@ -85,7 +126,9 @@ toolRegistry.register({
   description:
     'Record one or more test results into a run. Accepts an array of results — ' +
     'a single entry uses the single-result API, multiple entries use bulk. ' +
-    'Each result must include a status; case_id is recommended.',
+    `Batches over ${RESULT_CHUNK_SIZE} are sent in chunks, a few at a time, with retry; if a ` +
+    'chunk still fails, the response lists it and returns a resume_token to finish the upload ' +
+    'without duplicates. Each result must include a status; case_id is recommended.',
   schema: RecordSchema,
   handler: record,
   annotations: CreateAnnotation,
@@ -0,0 +1,167 @@
+/**
+ * Undo Snapshots
+ *
+ * Before `qase_case_delete`, `qase_suite_delete`, or an update through
+ * `qase_case_upsert`, the tool captures the entity as `qase_get` returns it
+ * and keeps it in the cache backend for `qase_undo` to restore.
+ *
+ * Each tenant's snapshots live in one cache entry, newest first, so a listing
+ * is a single read and never sees a snapshot whose entry was evicted. The list
+ * is capped at MAX_SNAPSHOTS and entries older than the retention window are
+ * dropped on every read. Two concurrent captures for the same tenant can race
+ * on that entry and lose one snapshot; undo is best-effort, not a backup.
+ */
+
+import { randomUUID } from 'crypto';
+import { getApiClient } from '../../client/index.js';
+import { getCache, buildCacheKey, hashToken } from '../../cache/index.js';
+import { getEffectiveToken } from '../../utils/auth-context.js';
+import { getDryRun } from '../../utils/dry-run.js';
+import { toResultAsync } from '../../utils/errors.js';
+import { fetchAll, type ListPage } from '../../utils/pagination.js';
+import { fetchEntity } from '../read/get.js';
+
+/** Snapshots kept per tenant; the oldest is dropped first. */
+export const MAX_SNAPSHOTS = 20;
+
+const DEFAULT_RETENTION_HOURS = 24;
+
+export interface Snapshot {
+  /** Short identifier passed to `qase_undo`. */
+  id: string;
+  /** Tool whose call was snapshotted. */
+  tool: string;
+  action: 'delete' | 'update';
+  entity: 'case' | 'suite';
+  code: string;
+  entity_id: number;
+  taken_at: string;
+  /** The entity as `qase_get` returned it. */
+  data: Record<string, unknown>;
+  /** Suite deletes: the cases directly in the suite. */
+  cases?: Record<string, unknown>[];
+  /** Suite deletes: whether those cases were deleted or moved to the parent suite. */
+  cases_deleted?: boolean;
+}
+
+export type SnapshotTarget = Pick<Snapshot, 'tool' | 'action' | 'entity' | 'code' | 'entity_id'> & {
+  cases_deleted?: boolean;
+};
+
+/**
+ * Retention window from `QASE_MCP_UNDO_RETENTION_HOURS` (default 24). Zero
+ * turns snapshots off.
+ */
+export function retentionMs(): number {
+  const raw = process.env.QASE_MCP_UNDO_RETENTION_HOURS;
+  const hours = raw === undefined || raw.trim() === '' ? DEFAULT_RETENTION_HOURS : Number(raw);
+  return Number.isFinite(hours) && hours > 0 ? hours * 3_600_000 : 0;
+}
+
+function snapshotsKey(): string {
+  const host = process.env.QASE_API_DOMAIN || 'api.qase.io';
+  return buildCacheKey({
+    host,
+    tenantId: hashToken(getEffectiveToken()),
+    resource: 'undo_snapshots',
+  });
+}
+
+/** The calling tenant's snapshots within the retention window, newest first. */
+export async function listSnapshots(): Promise<Snapshot[]> {
+  const cache = await getCache();
+  const stored = (await cache.get<Snapshot[]>(snapshotsKey())) ?? [];
+  const cutoff = Date.now() - retentionMs();
+  return stored.filter((s) => Date.parse(s.taken_at) > cutoff);
+}
+
+async function saveSnapshots(snapshots: Snapshot[]): Promise<void> {
+  const cache = await getCache();
+  const key = snapshotsKey();
+  if (snapshots.length === 0) {
+    await cache.delete(key);
+    return;
+  }
+  await cache.set(key, snapshots.slice(0, MAX_SNAPSHOTS), retentionMs());
+}
+
+/** Remove a snapshot once it has been restored, so it cannot be applied twice. */
+export async function discardSnapshot(id: string): Promise<void> {
+  const snapshots = await listSnapshots();
+  await saveSnapshots(snapshots.filter((s) => s.id !== id));
+}
+
+/** Cases directly in a suite, paged through like project context does. */
+async function fetchSuiteCases(code: string, suiteId: number): Promise<Record<string, unknown>[]> {
+  const client = getApiClient();
+  const page = await fetchAll(async (limit, offset): Promise<ListPage> => {
+    // getCases(code, search, milestoneId, suiteId, ..., include, limit, offset)
+    const result = await toResultAsync(
+      client.cases.getCases(
+        code,
+        undefined,
+        undefined,
+        suiteId,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        limit,
+        offset,
+      ),
+    );
+    return result.match(
+      (r) => (r.data.result as ListPage) ?? null,
+      (e) => {
+        throw e;
+      },
+    );
+  });
+  const cases = (page?.entities ?? []) as Record<string, unknown>[];
+  return cases.filter((c) => c.suite_id === undefined || c.suite_id === suiteId);
+}
+
+/**
+ * Capture an entity before it is changed and return the snapshot ID.
+ *
+ * Best-effort: returns undefined instead of throwing when undo is turned off,
+ * inside a dry run (nothing will change), or when the entity cannot be
+ * fetched — the change itself goes ahead either way.
+ */
+export async function captureSnapshot(target: SnapshotTarget): Promise<string | undefined> {
+  if (retentionMs() === 0 || getDryRun()) return undefined;
+
+  try {
+    const data = (await fetchEntity(target.entity, target.code, target.entity_id)) as Record<
+      string,
+      unknown
+    >;
+    if (!data) return undefined;
+
+    const snapshot: Snapshot = {
+      ...target,
+      id: randomUUID().slice(0, 8),
+      taken_at: new Date().toISOString(),
+      data,
+    };
+    if (target.entity === 'suite') {
+      snapshot.cases = await fetchSuiteCases(target.code, target.entity_id);
+      snapshot.cases_deleted = target.cases_deleted === true;
+    }
+
+    await saveSnapshots([snapshot, ...(await listSnapshots())]);
+    return snapshot.id;
+  } catch (err) {
+    console.error(
+      `[undo] Could not snapshot ${target.entity} ${target.code}-${target.entity_id}; ` +
+        'continuing without undo:',
+      err instanceof Error ? err.message : err,
+    );
+    return undefined;
+  }
+}
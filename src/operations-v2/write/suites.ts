@@ -3,6 +3,7 @@ import { getApiClient } from '../../client/index.js';
 import { toolRegistry, CreateAnnotation, DeleteAnnotation } from '../../utils/registry.js';
 import { toResultAsync, createToolError } from '../../utils/errors.js';
 import { ProjectCodeSchema, IdSchema } from '../../utils/validation.js';
+import { captureSnapshot, discardSnapshot } from './snapshots.js';
 
 const UpsertSchema = z.object({
   code: ProjectCodeSchema,
@@ -49,9 +50,19 @@ async function del(args: z.infer<typeof DeleteSchema>) {
   const client = getApiClient();
   const { code, id, delete_cases } = args;
   const suiteDelete = delete_cases !== undefined ? { after_delete_case: delete_cases } : undefined;
+  const snapshotId = await captureSnapshot({
+    tool: 'qase_suite_delete',
+    action: 'delete',
+    entity: 'suite',
+    code,
+    entity_id: id,
+    cases_deleted: delete_cases,
+  });
   const result = await toResultAsync(client.suites.deleteSuite(code, id, suiteDelete as any));
+  // Nothing was deleted, so there is nothing to undo
+  if (result.isErr() && snapshotId) await discardSnapshot(snapshotId);
   return result.match(
-    () => ({ success: true, id }),
+    () => ({ success: true, id, ...(snapshotId && { snapshot_id: snapshotId }) }),
     (e) => {
       throw createToolError(e, 'suite operation');
     },
@@ -0,0 +1,291 @@
+/**
+ * Tests for undo snapshots and qase_undo.
+ *
+ * Deletes and case updates snapshot the entity through the qase_get fetchers
+ * first; qase_undo lists the calling tenant's snapshots and restores one,
+ * reporting the new IDs of anything it had to recreate.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetCase = jest.fn();
+const mockGetCases = jest.fn();
+const mockCreateCase = jest.fn();
+const mockUpdateCase = jest.fn();
+const mockDeleteCase = jest.fn();
+const mockGetSuite = jest.fn();
+const mockCreateSuite = jest.fn();
+const mockDeleteSuite = jest.fn();
+
+jest.mock('../../client/index.js', () => ({
+  getApiClient: () => ({
+    cases: {
+      getCase: mockGetCase,
+      getCases: mockGetCases,
+      createCase: mockCreateCase,
+      updateCase: mockUpdateCase,
+      deleteCase: mockDeleteCase,
+    },
+    suites: { getSuite: mockGetSuite, createSuite: mockCreateSuite, deleteSuite: mockDeleteSuite },
+  }),
+}));
+
+import './cases.js';
+import './suites.js';
+import './undo.js';
+import { toolRegistry } from '../../utils/registry.js';
+import { resetCacheForTest } from '../../cache/index.js';
+import { requestTokenStorage } from '../../utils/auth-context.js';
+import { dryRunStorage } from '../../utils/dry-run.js';
+import { __setCaseEnumCacheForTest } from '../../utils/case-enums.js';
+import { toCasePayload } from './undo.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+
+const CASE = {
+  id: 7,
+  title: 'Login works',
+  description: 'Old description',
+  preconditions: null,
+  postconditions: null,
+  severity: 2,
+  priority: 1,
+  suite_id: 3,
+  milestone_id: null,
+  steps_type: 'classic',
+  steps: [
+    { hash: 'a', position: 1, action: 'Open page', expected_result: null, attachments: [] },
+    { hash: 'b', position: 2, shared_step_hash: 'shared-1', steps: [] },
+  ],
+  tags: [{ title: 'smoke', internal_id: 1 }],
+  attachments: [{ hash: 'att-1', filename: 'x.png' }],
+  custom_fields: [{ id: 4, value: 'web' }],
+  params: [],
+  created_at: '2026-01-01T00:00:00+00:00',
+};
+
+function call(name: string, args: Record<string, unknown>): Promise<any> {
+  return toolRegistry.getHandler(name)!(args);
+}
+
+async function snapshotIds(): Promise<string[]> {
+  const listing = await call('qase_undo', {});
+  return listing.structuredContent.snapshots.map((s: { id: string }) => s.id);
+}
+
+let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+beforeEach(async () => {
+  await resetCacheForTest();
+  await __setCaseEnumCacheForTest({ priority: { high: 1 } });
+  consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  for (const mock of [mockGetCases, mockCreateCase, mockUpdateCase, mockDeleteCase]) {
+    mock.mockReset().mockImplementation(() => ok({ id: 100 }));
+  }
+  mockGetCase.mockReset().mockImplementation(() => ok(CASE));
+  mockGetSuite
+    .mockReset()
+    .mockImplementation(() => ok({ id: 3, title: 'Auth', description: null, parent_id: 1 }));
+  mockCreateSuite.mockReset().mockImplementation(() => ok({ id: 30 }));
+  mockDeleteSuite.mockReset().mockImplementation(() => ok({ id: 3 }));
+});
+
+afterEach(() => {
+  delete process.env.QASE_MCP_UNDO_RETENTION_HOURS;
+  consoleErrorSpy.mockRestore();
+});
+
+describe('toCasePayload', () => {
+  it('converts a case as read into the create/update shape', () => {
+    expect(toCasePayload(CASE)).toEqual({
+      title: 'Login works',
+      description: 'Old description',
+      preconditions: '',
+      postconditions: '',
+      severity: 2,
+      priority: 1,
+      suite_id: 3,
+      steps_type: 'classic',
+      steps: [
+        { position: 1, action: 'Open page' },
+        { position: 2, shared: 'shared-1' },
+      ],
+      tags: ['smoke'],
+      attachments: ['att-1'],
+      custom_field: { '4': 'web' },
+    });
+  });
+});
+
+describe('case snapshots', () => {
+  it('snapshots a case before deleting it and recreates it on undo', async () => {
+    const deleted = await call('qase_case_delete', { code: 'DEMO', id: 7 });
+    expect(deleted).toMatchObject({ success: true, id: 7, snapshot_id: expect.any(String) });
+    expect(mockGetCase.mock.invocationCallOrder[0]).toBeLessThan(
+      mockDeleteCase.mock.invocationCallOrder[0],
+    );
+
+    const restored = await call('qase_undo', { snapshot_id: deleted.snapshot_id });
+
+    expect(mockCreateCase).toHaveBeenCalledWith('DEMO', toCasePayload(CASE));
+    expect(restored.structuredContent.id_changes).toEqual([
+      { entity: 'case', old_id: 7, new_id: 100 },
+    ]);
+    expect(restored.content[0].text).toContain('| case   | 7      | 100    |');
+    expect(await snapshotIds()).toEqual([]);
+  });
+
+  it('reverts an update in place', async () => {
+    const updated = await call('qase_case_upsert', { code: 'DEMO', id: 7, title: 'New title' });
+    expect(updated.snapshot_id).toEqual(expect.any(String));
+
+    const restored = await call('qase_undo', { snapshot_id: updated.snapshot_id });
+
+    expect(mockUpdateCase).toHaveBeenLastCalledWith('DEMO', 7, toCasePayload(CASE));
+    expect(restored.structuredContent.id_changes).toEqual([]);
+  });
+
+  it('restores automation through isManual rather than the deprecated field', async () => {
+    mockGetCase.mockImplementation(() => ok({ ...CASE, automation: 2 }));
+    const updated = await call('qase_case_upsert', { code: 'DEMO', id: 7, title: 'New title' });
+
+    await call('qase_undo', { snapshot_id: updated.snapshot_id });
+
+    const payload = mockUpdateCase.mock.calls[1][2];
+    expect(payload).toMatchObject({ title: 'Login works', isManual: 0 });
+    expect(payload).not.toHaveProperty('automation');
+  });
+
+  it('does not snapshot case creation', async () => {
+    const created = await call('qase_case_upsert', { code: 'DEMO', title: 'New' });
+
+    expect(created).toEqual({ id: 100 });
+    expect(mockGetCase).not.toHaveBeenCalled();
+  });
+
+  it('still deletes when the snapshot cannot be taken', async () => {
+    mockGetCase.mockImplementation(() => Promise.reject(new Error('timeout')));
+
+    const deleted = await call('qase_case_delete', { code: 'DEMO', id: 7 });
+
+    expect(deleted).toEqual({ success: true, id: 7 });
+    expect(mockDeleteCase).toHaveBeenCalled();
+  });
+
+  it('drops the snapshot when the write fails', async () => {
+    mockDeleteCase.mockImplementation(() => Promise.reject(new Error('Forbidden')));
+    mockUpdateCase.mockImplementation(() => Promise.reject(new Error('Forbidden')));
+    mockDeleteSuite.mockImplementation(() => Promise.reject(new Error('Forbidden')));
+
+    await expect(call('qase_case_delete', { code: 'DEMO', id: 7 })).rejects.toThrow();
+    await expect(
+      call('qase_case_upsert', { code: 'DEMO', id: 7, title: 'Renamed' }),
+    ).rejects.toThrow();
+    await expect(call('qase_suite_delete', { code: 'DEMO', id: 3 })).rejects.toThrow();
+
+    expect(mockGetCase).toHaveBeenCalled();
+    expect(await snapshotIds()).toEqual([]);
+  });
+
+  it('skips snapshots in a dry run', async () => {
+    await dryRunStorage.run([], () => call('qase_case_delete', { code: 'DEMO', id: 7 }));
+
+    expect(mockGetCase).not.toHaveBeenCalled();
+  });
+});
+
+describe('suite snapshots', () => {
+  const suiteCases = [
+    { ...CASE, id: 11, suite_id: 3 },
+    { ...CASE, id: 12, suite_id: 3 },
+    { ...CASE, id: 13, suite_id: 4 }, // in a child suite — not this suite's own case
+  ];
+
+  beforeEach(() => {
+    mockGetCases.mockImplementation(() => ok({ total: 3, entities: suiteCases }));
+  });
+
+  it('recreates cases deleted with the suite inside the new suite', async () => {
+    mockCreateCase
+      .mockImplementationOnce(() => ok({ id: 111 }))
+      .mockImplementationOnce(() => ok({ id: 112 }));
+    const deleted = await call('qase_suite_delete', { code: 'DEMO', id: 3, delete_cases: true });
+
+    const restored = await call('qase_undo', { snapshot_id: deleted.snapshot_id });
+
+    expect(mockCreateSuite).toHaveBeenCalledWith('DEMO', {
+      title: 'Auth',
+      description: undefined,
+      preconditions: undefined,
+      parent_id: 1,
+    });
+    expect(mockCreateCase.mock.calls.map((c) => c[1].suite_id)).toEqual([30, 30]);
+    expect(restored.structuredContent.id_changes).toEqual([
+      { entity: 'suite', old_id: 3, new_id: 30 },
+      { entity: 'case', old_id: 11, new_id: 111 },
+      { entity: 'case', old_id: 12, new_id: 112 },
+    ]);
+  });
+
+  it('moves cases back when they were moved to the parent, reporting failures', async () => {
+    mockUpdateCase
+      .mockImplementationOnce(() => ok({ id: 11 }))
+      .mockImplementationOnce(() => Promise.reject(new Error('Case not found')));
+    const deleted = await call('qase_suite_delete', { code: 'DEMO', id: 3 });
+
+    const restored = await call('qase_undo', { snapshot_id: deleted.snapshot_id });
+
+    expect(mockUpdateCase).toHaveBeenCalledWith('DEMO', 11, { suite_id: 30 });
+    expect(mockCreateCase).not.toHaveBeenCalled();
+    expect(restored.structuredContent.failed_cases).toEqual([
+      { id: 12, error: expect.stringContaining('Case not found') },
+    ]);
+    expect(restored.content[0].text).toContain('1 case(s) could not be restored');
+  });
+});
+
+describe('qase_undo', () => {
+  it('lists snapshots newest first, per tenant and project', async () => {
+    const first = await call('qase_case_delete', { code: 'DEMO', id: 7 });
+    const second = await call('qase_case_upsert', { code: 'OTHER', id: 7, title: 'x' });
+
+    expect(await snapshotIds()).toEqual([second.snapshot_id, first.snapshot_id]);
+
+    const demo = await call('qase_undo', { code: 'DEMO' });
+    expect(demo.structuredContent.snapshots).toEqual([
+      expect.objectContaining({
+        id: first.snapshot_id,
+        tool: 'qase_case_delete',
+        action: 'delete',
+        entity_id: 7,
+        title: 'Login works',
+      }),
+    ]);
+    expect(demo.content[0].text).toContain('Deleted case DEMO-7');
+
+    const otherTenant = await requestTokenStorage.run('another-token', () => snapshotIds());
+    expect(otherTenant).toEqual([]);
+  });
+
+  it('rejects an unknown or already restored snapshot', async () => {
+    const deleted = await call('qase_case_delete', { code: 'DEMO', id: 7 });
+    await call('qase_undo', { snapshot_id: deleted.snapshot_id });
+
+    await expect(call('qase_undo', { snapshot_id: deleted.snapshot_id })).rejects.toThrow(
+      /No snapshot/,
+    );
+  });
+
+  it('is off when the retention window is zero', async () => {
+    process.env.QASE_MCP_UNDO_RETENTION_HOURS = '0';
+
+    const deleted = await call('qase_case_delete', { code: 'DEMO', id: 7 });
+
+    expect(deleted.snapshot_id).toBeUndefined();
+    expect(mockGetCase).not.toHaveBeenCalled();
+    await expect(call('qase_undo', {})).rejects.toThrow(/turned off/);
+  });
+});
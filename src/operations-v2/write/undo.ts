@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import type { TestCaseCreate, TestCaseUpdate } from 'qase-api-client';
+import { getApiClient } from '../../client/index.js';
+import { toolRegistry, CreateAnnotation } from '../../utils/registry.js';
+import { toResultAsync, createToolError, ToolExecutionError } from '../../utils/errors.js';
+import { ProjectCodeSchema } from '../../utils/validation.js';
+import { getDryRun } from '../../utils/dry-run.js';
+import { richResult, summaryBlock, dataBlock, markdownTable } from '../../utils/rich-response.js';
+import { toCaseWrite } from './case-fields.js';
+import { listSnapshots, discardSnapshot, retentionMs, type Snapshot } from './snapshots.js';
+
+const CONTEXT = 'undo';
+
+const Schema = z.object({
+  snapshot_id: z
+    .string()
+    .optional()
+    .describe('Snapshot to restore. Omit to list the snapshots available for undo.'),
+  code: ProjectCodeSchema.optional().describe('When listing, only show snapshots of this project'),
+});
+
+interface IdChange {
+  entity: 'case' | 'suite';
+  old_id: number;
+  new_id: number;
+}
+
+type Row = Record<string, unknown>;
+
+/** Text fields an update must clear explicitly when the snapshot had none. */
+const CASE_TEXT_FIELDS = ['description', 'preconditions', 'postconditions'];
+
+const CASE_SCALAR_FIELDS = [
+  'title',
+  'severity',
+  'priority',
+  'behavior',
+  'type',
+  'layer',
+  'is_flaky',
+  'suite_id',
+  'milestone_id',
+  'automation',
+  'status',
+  'steps_type',
+];
+
+const hashes = (attachments: unknown): string[] | undefined =>
+  Array.isArray(attachments)
+    ? attachments.map((a: Row) => a.hash).filter((h): h is string => typeof h === 'string')
+    : undefined;
+
+/** A step as read back from the API, in the shape createCase/updateCase accept. */
+function toStepPayload(step: Row): Row {
+  if (step.shared_step_hash) {
+    return { shared: step.shared_step_hash, position: step.position };
+  }
+  const out: Row = {};
+  for (const field of ['action', 'expected_result', 'data', 'position']) {
+    if (step[field] !== undefined && step[field] !== null) out[field] = step[field];
+  }
+  const attachments = hashes(step.attachments);
+  if (attachments?.length) out.attachments = attachments;
+  if (Array.isArray(step.steps) && step.steps.length > 0) {
+    out.steps = step.steps.map((s) => toStepPayload(s as Row));
+  }
+  return out;
+}
+
+/**
+ * A case as `qase_get` returns it, in the shape createCase/updateCase accept:
+ * tags and attachments by title and hash, custom fields keyed by ID, and
+ * shared steps linked through `shared`.
+ */
+export function toCasePayload(data: Row): Row {
+  const out: Row = {};
+  for (const field of CASE_TEXT_FIELDS) out[field] = data[field] ?? '';
+  for (const field of CASE_SCALAR_FIELDS) {
+    if (data[field] !== undefined && data[field] !== null) out[field] = data[field];
+  }
+
+  if (Array.isArray(data.steps)) out.steps = data.steps.map((s) => toStepPayload(s as Row));
+  if (Array.isArray(data.tags)) out.tags = data.tags.map((t: Row) => t.title);
+  const attachments = hashes(data.attachments);
+  if (attachments) out.attachments = attachments;
+  if (Array.isArray(data.custom_fields) && data.custom_fields.length > 0) {
+    out.custom_field = Object.fromEntries(
+      data.custom_fields.map((f: Row) => [String(f.id), String(f.value ?? '')]),
+    );
+  }
+  if (data.params && typeof data.params === 'object' && Object.keys(data.params).length > 0) {
+    out.params = data.params;
+  }
+  return out;
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+async function call<T>(request: Promise<T>): Promise<T> {
+  const result = await toResultAsync(request);
+  return result.match(
+    (r) => r,
+    (e) => {
+      throw createToolError(e, CONTEXT);
+    },
+  );
+}
+
+async function createCase(code: string, payload: Row): Promise<number> {
+  const client = getApiClient();
+  const res = await call(client.cases.createCase(code, toCaseWrite<TestCaseCreate>(payload)));
+  return res.data.result?.id as number;
+}
+
+interface Restored {
+  id_changes: IdChange[];
+  /** Suite restores: cases that could not be recreated or moved back. */
+  failed_cases: { id: number; error: string }[];
+}
+
+/**
+ * Restore a snapshot. Once a suite is recreated, a failing case is recorded
+ * rather than thrown — the snapshot is spent at that point, and retrying it
+ * would create the suite a second time.
+ */
+async function restore(snapshot: Snapshot): Promise<Restored> {
+  const client = getApiClient();
+  const { code, entity_id: oldId, data } = snapshot;
+  const restored: Restored = { id_changes: [], failed_cases: [] };
+
+  if (snapshot.entity === 'case') {
+    if (snapshot.action === 'update') {
+      await call(
+        client.cases.updateCase(code, oldId, toCaseWrite<TestCaseUpdate>(toCasePayload(data))),
+      );
+    } else {
+      const newId = await createCase(code, toCasePayload(data));
+      restored.id_changes.push({ entity: 'case', old_id: oldId, new_id: newId });
+    }
+    return restored;
+  }
+
+  const suite = await call(
+    client.suites.createSuite(code, {
+      title: String(data.title),
+      description: text(data.description),
+      preconditions: text(data.preconditions),
+      parent_id: typeof data.parent_id === 'number' ? data.parent_id : undefined,
+    }),
+  );
+  const suiteId = suite.data.result?.id as number;
+  restored.id_changes.push({ entity: 'suite', old_id: oldId, new_id: suiteId });
+
+  // Cases were either deleted with the suite (recreate them) or moved to its
+  // parent (move them back).
+  for (const c of snapshot.cases ?? []) {
+    const caseId = c.id as number;
+    try {
+      if (snapshot.cases_deleted) {
+        const newId = await createCase(code, { ...toCasePayload(c), suite_id: suiteId });
+        restored.id_changes.push({ entity: 'case', old_id: caseId, new_id: newId });
+      } else {
+        await call(client.cases.updateCase(code, caseId, { suite_id: suiteId }));
+      }
+    } catch (err) {
+      const error = err instanceof ToolExecutionError ? err.message : String(err);
+      restored.failed_cases.push({ id: caseId, error });
+    }
+  }
+  return restored;
+}
+
+const describeSnapshot = (s: Snapshot) =>
+  `${s.action === 'delete' ? 'Deleted' : 'Updated'} ${s.entity} ${s.code}-${s.entity_id}`;
+
+function list(snapshots: Snapshot[]) {
+  const hours = retentionMs() / 3_600_000;
+  const lines = [`## Undo snapshots (${snapshots.length})`];
+
+  if (snapshots.length === 0) {
+    lines.push('', `Nothing to undo from the last ${hours} hours.`);
+  } else {
+    const rows = snapshots.map((s) => [
+      s.id,
+      describeSnapshot(s),
+      String(s.data.title ?? ''),
+      s.taken_at,
+    ]);
+    lines.push('', markdownTable(['Snapshot', 'Change', 'Title', 'Taken'], rows));
+    lines.push('', `_Restore one with \`qase_undo\` and its \`snapshot_id\`._`);
+  }
+
+  const structured = {
+    snapshots: snapshots.map(({ data, cases, ...meta }) => ({
+      ...meta,
+      title: data.title,
+      ...(cases && { case_count: cases.length }),
+    })),
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+async function handler(args: z.infer<typeof Schema>) {
+  const { snapshot_id, code } = args;
+
+  if (retentionMs() === 0) {
+    throw new ToolExecutionError(
+      'Undo is turned off on this server',
+      'QASE_MCP_UNDO_RETENTION_HOURS is set to 0, so no snapshots are kept.',
+    );
+  }
+
+  const snapshots = await listSnapshots();
+  if (!snapshot_id) {
+    return list(code ? snapshots.filter((s) => s.code === code) : snapshots);
+  }
+
+  const snapshot = snapshots.find((s) => s.id === snapshot_id);
+  if (!snapshot) {
+    throw new ToolExecutionError(
+      `No snapshot "${snapshot_id}"`,
+      'It may have expired or already been restored. Call qase_undo without snapshot_id to list the available snapshots.',
+    );
+  }
+
+  const { id_changes: idChanges, failed_cases } = await restore(snapshot);
+  if (!getDryRun()) await discardSnapshot(snapshot.id);
+
+  const lines = [`## Restored: ${describeSnapshot(snapshot)}`];
+  if (idChanges.length > 0) {
+    lines.push(
+      '',
+      'Recreated entities have new IDs — update any references to the old ones:',
+      '',
+      markdownTable(
+        ['Entity', 'Old ID', 'New ID'],
+        idChanges.map((c) => [c.entity, String(c.old_id), String(c.new_id)]),
+      ),
+    );
+  }
+
+  if (failed_cases.length > 0) {
+    lines.push('', `**${failed_cases.length} case(s) could not be restored:**`);
+    for (const f of failed_cases) lines.push(`- ${snapshot.code}-${f.id}: ${f.error}`);
+  }
+
+  const structured = {
+    restored: true,
+    snapshot_id: snapshot.id,
+    entity: snapshot.entity,
+    code: snapshot.code,
+    id_changes: idChanges,
+    ...(failed_cases.length > 0 && { failed_cases }),
+  };
+  return richResult([summaryBlock(lines.join('\n')), dataBlock(structured)], structured);
+}
+
+toolRegistry.register({
+  name: 'qase_undo',
+  description:
+    'Undo a recent case or suite change. The server snapshots an entity before ' +
+    'qase_case_delete, qase_suite_delete, and updates through qase_case_upsert. ' +
+    'Call without `snapshot_id` to list recent snapshots, then pass one to restore it: ' +
+    'an update is reverted in place; a deleted entity is recreated and gets a new ID, ' +
+    'which the result reports. Restoring a suite also restores its cases.',
+  schema: Schema,
+  handler,
+  annotations: CreateAnnotation,
+  visibility: 'discoverable',
+});
@@ -66,21 +66,17 @@ const prompts: PromptDef[] = [
             `Check release readiness for milestone "${args.milestone}" in project ${args.project}.`,
             '',
             'Steps:',
-            `1. Use qase_project_context to get project overview: { code: "${args.project}" }`,
-            `2. Search for test runs linked to this milestone:`,
-            `   qql_search: entity = "run" and project = "${args.project}" and milestone ~ "${args.milestone}"`,
-            `3. Search for open defects:`,
-            `   qql_search: entity = "defect" and project = "${args.project}" and status != "resolved"`,
-            `4. For the latest run, get detailed results via qase_api`,
-            '5. Produce a release readiness report:',
+            `1. Use qase_release_readiness to collect the milestone's runs, latest results, untested cases, and open defects:`,
+            `   { code: "${args.project}", milestone: "${args.milestone}" }`,
+            '   Pass thresholds only if the team has asked for different ones (defaults: pass rate ≥ 95%,',
+            '   no untested cases, no open blocker/critical defects).',
+            '2. If the report names failing cases, look at the most severe ones with qase_get.',
+            '3. Present the readiness report:',
             '   - Milestone status and due date',
             '   - Test execution summary (total/passed/failed/untested)',
             '   - Pass rate percentage',
             '   - Open defects count by severity (blocker/critical/major)',
-            '   - GO / NO-GO recommendation based on:',
-            '     * No blocker/critical defects open',
-            '     * Pass rate > 95%',
-            '     * No untested high-priority cases',
+            '   - The GO / NO-GO verdict and each failed check',
           ].join('\n'),
         },
       },
@@ -0,0 +1,138 @@
+/**
+ * Allure results
+ *
+ * An `allure-results` directory holds one `<uuid>-result.json` per test
+ * execution, plus container and attachment files that carry no outcome. A
+ * retried test leaves one result file per attempt, sharing a `historyId`; only
+ * the last attempt is kept, as the Allure report itself does. Inline content
+ * may be a single result object or an array of them.
+ */
+
+import { findQaseId, stripQaseId, qaseIdFromPair } from './markers.js';
+import type { ParsedTest, ReportDocument, ReportParser } from './types.js';
+
+type StepStatus = NonNullable<ParsedTest['steps']>[number]['status'];
+
+interface AllureStatusDetails {
+  message?: string;
+  trace?: string;
+}
+
+interface AllureStep {
+  name?: string;
+  status?: string;
+  statusDetails?: AllureStatusDetails;
+}
+
+interface AllureResult {
+  uuid?: string;
+  historyId?: string;
+  name?: string;
+  fullName?: string;
+  status?: string;
+  statusDetails?: AllureStatusDetails;
+  start?: number;
+  stop?: number;
+  labels?: Array<{ name?: string; value?: string }>;
+  steps?: AllureStep[];
+}
+
+const STATUSES: Record<string, ParsedTest['status']> = {
+  passed: 'passed',
+  failed: 'failed',
+  broken: 'invalid',
+  skipped: 'skipped',
+};
+
+function stepStatus(status: string | undefined): StepStatus {
+  switch (status) {
+    case 'passed':
+      return 'passed';
+    case 'failed':
+    case 'broken':
+      return 'failed';
+    default:
+      return 'skipped';
+  }
+}
+
+function isAllureResult(value: unknown): value is AllureResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.uuid === 'string' &&
+    typeof candidate.status === 'string' &&
+    typeof candidate.name === 'string'
+  );
+}
+
+function resultsOf(doc: ReportDocument): AllureResult[] {
+  const values = Array.isArray(doc.json) ? doc.json : [doc.json];
+  return values.filter(isAllureResult);
+}
+
+function label(result: AllureResult, name: string): string | undefined {
+  return result.labels?.find((l) => l.name === name)?.value;
+}
+
+function toParsedTest(result: AllureResult): ParsedTest {
+  const name = result.name ?? '';
+
+  const test: ParsedTest = {
+    title: stripQaseId(name) || name,
+    status: STATUSES[result.status ?? ''] ?? 'skipped',
+  };
+  const classname = label(result, 'testClass') ?? result.fullName;
+  if (classname) test.classname = classname;
+  const suite = label(result, 'suite') ?? label(result, 'feature');
+  if (suite) test.suite = suite;
+
+  if (typeof result.start === 'number' && typeof result.stop === 'number') {
+    test.time_ms = Math.max(0, result.stop - result.start);
+  }
+
+  const message = result.statusDetails?.message?.trim();
+  const trace = result.statusDetails?.trace?.trim();
+  if (message) test.comment = message.split('\n')[0];
+  if (test.status !== 'passed' && test.status !== 'skipped' && (message || trace)) {
+    test.stacktrace = [message, trace].filter(Boolean).join('\n');
+  }
+
+  // Top-level steps only — Qase result steps are matched to case steps by position.
+  if (result.steps && result.steps.length > 0) {
+    test.steps = result.steps.map((step, index) => {
+      const error = step.statusDetails?.message?.trim().split('\n')[0];
+      const comment = [step.name, error].filter(Boolean).join(' — ');
+      return {
+        position: index + 1,
+        status: stepStatus(step.status),
+        ...(comment ? { comment } : {}),
+      };
+    });
+  }
+
+  const caseId =
+    findQaseId(name) ??
+    result.labels?.map((l) => qaseIdFromPair(l.name, l.value)).find((id) => id !== undefined);
+  if (caseId !== undefined) test.case_id = caseId;
+
+  return test;
+}
+
+export const allureParser: ReportParser = {
+  format: 'allure',
+  label: 'Allure results',
+  detect(doc: ReportDocument) {
+    return resultsOf(doc).length > 0;
+  },
+  parse(docs: ReportDocument[]) {
+    // Keep the last attempt of each retried test.
+    const latest = new Map<string, AllureResult>();
+    for (const result of docs.flatMap(resultsOf)) {
+      const key = result.historyId ?? result.uuid!;
+      const previous = latest.get(key);
+      if (!previous || (result.stop ?? 0) >= (previous.stop ?? 0)) latest.set(key, result);
+    }
+    return [...latest.values()].map(toParsedTest);
+  },
+};
@@ -0,0 +1,143 @@
+/**
+ * Cucumber JSON
+ *
+ * The `--format json` output of cucumber-js, Cucumber-JVM, and cucumber-ruby:
+ * an array of features, each holding scenarios with their steps. Every
+ * scenario becomes one result, with its steps — background steps first — as
+ * result steps. A Qase ID comes from a tag such as `@QaseID=12`.
+ */
+
+import { findQaseId, stripQaseId } from './markers.js';
+import type { ParsedTest, ReportDocument, ReportParser } from './types.js';
+
+type StepStatus = NonNullable<ParsedTest['steps']>[number]['status'];
+
+interface CucumberStep {
+  keyword?: string;
+  name?: string;
+  hidden?: boolean;
+  result?: { status?: string; duration?: number; error_message?: string };
+}
+
+interface CucumberElement {
+  name?: string;
+  type?: string;
+  keyword?: string;
+  tags?: Array<{ name?: string }>;
+  steps?: CucumberStep[];
+}
+
+interface CucumberFeature {
+  uri?: string;
+  name?: string;
+  elements?: CucumberElement[];
+  tags?: Array<{ name?: string }>;
+}
+
+function stepStatus(status: string | undefined): StepStatus {
+  switch (status) {
+    case 'passed':
+      return 'passed';
+    case 'failed':
+      return 'failed';
+    case 'undefined':
+    case 'ambiguous':
+      return 'blocked';
+    default:
+      // skipped, pending
+      return 'skipped';
+  }
+}
+
+/**
+ * Scenario outcome from its steps: any failure fails it, an undefined or
+ * ambiguous step makes it invalid, and a scenario that did not run every step
+ * is skipped.
+ */
+function scenarioStatus(steps: CucumberStep[]): ParsedTest['status'] {
+  const statuses = steps.map((s) => s.result?.status);
+  if (statuses.includes('failed')) return 'failed';
+  if (statuses.includes('undefined') || statuses.includes('ambiguous')) return 'invalid';
+  if (statuses.length > 0 && statuses.every((s) => s === 'passed')) return 'passed';
+  return 'skipped';
+}
+
+function toParsedTest(
+  feature: CucumberFeature,
+  scenario: CucumberElement,
+  background: CucumberStep[],
+): ParsedTest {
+  const name = scenario.name ?? '';
+  // Hooks are reported as hidden steps; they are not part of the scenario text.
+  const steps = [...background, ...(scenario.steps ?? [])].filter((s) => !s.hidden);
+
+  const test: ParsedTest = {
+    title: stripQaseId(name) || name,
+    status: scenarioStatus(steps),
+  };
+  if (feature.uri) test.classname = feature.uri;
+  if (feature.name) test.suite = feature.name;
+
+  // Durations are nanoseconds.
+  const totalNs = steps.reduce((sum, s) => sum + (s.result?.duration ?? 0), 0);
+  if (totalNs > 0) test.time_ms = Math.round(totalNs / 1e6);
+
+  const failed = steps.find((s) => s.result?.status === 'failed');
+  const error = failed?.result?.error_message?.trim();
+  if (error) {
+    test.comment = error.split('\n')[0];
+    test.stacktrace = error;
+  }
+
+  test.steps = steps.map((step, index) => {
+    const text = `${(step.keyword ?? '').trim()} ${step.name ?? ''}`.trim();
+    const stepError = step.result?.error_message?.trim().split('\n')[0];
+    return {
+      position: index + 1,
+      status: stepStatus(step.result?.status),
+      ...(text || stepError ? { comment: [text, stepError].filter(Boolean).join(' — ') } : {}),
+    };
+  });
+
+  const tags = [...(scenario.tags ?? []), ...(feature.tags ?? [])];
+  const caseId =
+    findQaseId(name) ?? tags.map((t) => findQaseId(t.name)).find((id) => id !== undefined);
+  if (caseId !== undefined) test.case_id = caseId;
+
+  return test;
+}
+
+function parseDocument(doc: ReportDocument): ParsedTest[] {
+  const tests: ParsedTest[] = [];
+  for (const feature of doc.json as CucumberFeature[]) {
+    let background: CucumberStep[] = [];
+    for (const element of feature.elements ?? []) {
+      if (element.type === 'background') {
+        // Applies to the scenario that follows it in the report.
+        background = element.steps ?? [];
+        continue;
+      }
+      tests.push(toParsedTest(feature, element, background));
+      background = [];
+    }
+  }
+  return tests;
+}
+
+export const cucumberParser: ReportParser = {
+  format: 'cucumber',
+  label: 'Cucumber JSON',
+  detect(doc: ReportDocument) {
+    if (!Array.isArray(doc.json) || doc.json.length === 0) return false;
+    const first = doc.json[0] as Record<string, unknown> | null;
+    return (
+      typeof first === 'object' &&
+      first !== null &&
+      Array.isArray(first.elements) &&
+      ('keyword' in first || 'uri' in first)
+    );
+  },
+  parse(docs: ReportDocument[]) {
+    return docs.flatMap(parseDocument);
+  },
+};
@@ -0,0 +1,312 @@
+/**
+ * Tests for report format detection and the non-JUnit parsers.
+ *
+ * Every parser must produce CaseResult-shaped tests — Qase statuses, times in
+ * milliseconds, and steps for the formats that report them — so the import
+ * tool can hand them to the CI report flow unchanged.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { loadReportDocument, detectReportFormat, parseReport } from './index.js';
+
+const TRX = `<?xml version="1.0" encoding="utf-8"?>
+<TestRun id="1" xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">
+  <Results>
+    <UnitTestResult testId="a" testName="Logs_in" outcome="Passed" duration="00:00:01.2500000"/>
+    <UnitTestResult testId="b" testName="Rejects_bad_password" outcome="Failed" duration="00:00:00.0100000">
+      <Output>
+        <ErrorInfo><Message>Expected 401
+but was 200</Message><StackTrace>at LoginTests.cs:line 42</StackTrace></ErrorInfo>
+      </Output>
+    </UnitTestResult>
+    <UnitTestResult testId="c" testName="Sso" outcome="NotExecuted"/>
+  </Results>
+  <TestDefinitions>
+    <UnitTest id="a" name="Logs_in">
+      <TestMethod className="App.Tests.LoginTests, App.Tests, Version=1.0.0.0" name="Logs_in"/>
+      <Properties><Property><Key>QaseId</Key><Value>12</Value></Property></Properties>
+    </UnitTest>
+    <UnitTest id="b" name="Rejects_bad_password">
+      <TestMethod className="App.Tests.LoginTests" name="Rejects_bad_password"/>
+    </UnitTest>
+  </TestDefinitions>
+</TestRun>`;
+
+const NUNIT = `<test-run id="2" testcasecount="3" result="Failed">
+  <test-suite type="Assembly" name="App.Tests.dll">
+    <test-suite type="TestFixture" name="LoginTests" classname="App.Tests.LoginTests">
+      <test-case name="Logs in" classname="App.Tests.LoginTests" result="Passed" duration="0.5">
+        <properties><property name="QaseID" value="12"/></properties>
+      </test-case>
+      <test-case name="Locks account" classname="App.Tests.LoginTests" result="Failed" label="Error" duration="0.1">
+        <failure><message>NullReferenceException</message><stack-trace>at Lock()</stack-trace></failure>
+      </test-case>
+      <test-case name="Sso" classname="App.Tests.LoginTests" result="Skipped" label="Ignored">
+        <reason><message>Not configured</message></reason>
+      </test-case>
+    </test-suite>
+  </test-suite>
+</test-run>`;
+
+const XUNIT = `<assemblies>
+  <assembly name="App.Tests.dll">
+    <collection name="Login">
+      <test name="App.Tests.LoginTests.Logs_in" type="App.Tests.LoginTests" method="Logs_in" time="0.25" result="Pass">
+        <traits><trait name="qase_id" value="12"/></traits>
+      </test>
+      <test name="App.Tests.LoginTests.Rejects_bad_password" type="App.Tests.LoginTests" method="Rejects_bad_password" time="0.01" result="Fail">
+        <failure exception-type="Xunit.Sdk.EqualException"><message><![CDATA[Assert.Equal() Failure]]></message><stack-trace><![CDATA[at LoginTests.cs:42]]></stack-trace></failure>
+      </test>
+      <test name="App.Tests.LoginTests.Sso" type="App.Tests.LoginTests" method="Sso" time="0" result="Skip">
+        <reason><![CDATA[Not configured]]></reason>
+      </test>
+    </collection>
+  </assembly>
+</assemblies>`;
+
+const CUCUMBER = JSON.stringify([
+  {
+    uri: 'features/login.feature',
+    keyword: 'Feature',
+    name: 'Login',
+    elements: [
+      {
+        type: 'background',
+        keyword: 'Background',
+        steps: [
+          {
+            keyword: 'Given ',
+            name: 'the app is open',
+            result: { status: 'passed', duration: 1e6 },
+          },
+        ],
+      },
+      {
+        type: 'scenario',
+        keyword: 'Scenario',
+        name: 'Logs in',
+        tags: [{ name: '@QaseID=12' }],
+        steps: [
+          { keyword: 'Before', hidden: true, result: { status: 'passed' } },
+          { keyword: 'When ', name: 'I log in', result: { status: 'passed', duration: 2e6 } },
+          {
+            keyword: 'Then ',
+            name: 'I see the dashboard',
+            result: { status: 'failed', duration: 3e6, error_message: 'Element not found\n  at x' },
+          },
+        ],
+      },
+      {
+        type: 'scenario',
+        keyword: 'Scenario',
+        name: 'Logs out',
+        steps: [{ keyword: 'When ', name: 'I log out', result: { status: 'undefined' } }],
+      },
+    ],
+  },
+]);
+
+const allureResult = (overrides: Record<string, unknown>) => ({
+  uuid: 'u1',
+  historyId: 'h1',
+  name: 'Logs in',
+  fullName: 'tests.login.Logs in',
+  status: 'passed',
+  start: 1000,
+  stop: 1800,
+  labels: [
+    { name: 'suite', value: 'Login' },
+    { name: 'QaseID', value: '12' },
+  ],
+  steps: [
+    { name: 'Open page', status: 'passed' },
+    { name: 'Submit', status: 'broken', statusDetails: { message: 'Timeout' } },
+  ],
+  ...overrides,
+});
+
+function parse(text: string, format: Parameters<typeof parseReport>[1] = 'auto') {
+  return parseReport([loadReportDocument('report', text)], format);
+}
+
+describe('detectReportFormat', () => {
+  it.each([
+    ['<testsuites/>', 'junit'],
+    ['<testsuite name="s"/>', 'junit'],
+    [TRX, 'trx'],
+    [NUNIT, 'nunit'],
+    [XUNIT, 'xunit'],
+    [CUCUMBER, 'cucumber'],
+    [JSON.stringify(allureResult({})), 'allure'],
+    [JSON.stringify([allureResult({})]), 'allure'],
+  ])('detects %#', (text, format) => {
+    expect(detectReportFormat(loadReportDocument('report', text))).toBe(format);
+  });
+
+  it('recognises nothing in unrelated documents', () => {
+    expect(detectReportFormat(loadReportDocument('a', '<html/>'))).toBeUndefined();
+    expect(
+      detectReportFormat(loadReportDocument('b', '{"uuid":"x","children":[]}')),
+    ).toBeUndefined();
+  });
+
+  it('names the file when content is neither XML nor JSON', () => {
+    expect(() => loadReportDocument('out.txt', 'PASS 3 tests')).toThrow(
+      /out.txt: not an XML or JSON/,
+    );
+    expect(() => loadReportDocument('r.json', '{broken')).toThrow(/^r.json: /);
+  });
+});
+
+describe('parseReport', () => {
+  it('ignores documents no parser takes, and reports them', () => {
+    const docs = [
+      loadReportDocument('a-result.json', JSON.stringify(allureResult({}))),
+      loadReportDocument('b-container.json', '{"uuid":"c","children":["a"]}'),
+    ];
+
+    const report = parseReport(docs);
+
+    expect(report.formats).toEqual(['allure']);
+    expect(report.ignored).toEqual(['b-container.json']);
+    expect(report.tests).toHaveLength(1);
+  });
+
+  it('fails when nothing matches the requested format', () => {
+    expect(() => parse(NUNIT, 'trx')).toThrow(/expected Visual Studio TRX/);
+  });
+});
+
+describe('TRX', () => {
+  const { tests } = parse(TRX);
+
+  it('maps outcomes, durations, and class names', () => {
+    expect(tests.map((t) => [t.title, t.status, t.time_ms])).toEqual([
+      ['Logs_in', 'passed', 1250],
+      ['Rejects_bad_password', 'failed', 10],
+      ['Sso', 'skipped', undefined],
+    ]);
+    expect(tests[0]).toMatchObject({ classname: 'App.Tests.LoginTests', suite: 'LoginTests' });
+  });
+
+  it('reads error info and the QaseId property', () => {
+    expect(tests[1]).toMatchObject({
+      comment: 'Expected 401',
+      stacktrace: 'Expected 401\nbut was 200\nat LoginTests.cs:line 42',
+    });
+    expect(tests.map((t) => t.case_id)).toEqual([12, undefined, undefined]);
+  });
+});
+
+describe('NUnit 3', () => {
+  const { tests } = parse(NUNIT);
+
+  it('maps results, treating error labels as invalid', () => {
+    expect(tests.map((t) => [t.title, t.status])).toEqual([
+      ['Logs in', 'passed'],
+      ['Locks account', 'invalid'],
+      ['Sso', 'skipped'],
+    ]);
+  });
+
+  it('reads the innermost suite, failure, skip reason, and property marker', () => {
+    expect(tests[0]).toMatchObject({ suite: 'LoginTests', time_ms: 500, case_id: 12 });
+    expect(tests[1]).toMatchObject({
+      comment: 'NullReferenceException',
+      stacktrace: 'NullReferenceException\nat Lock()',
+    });
+    expect(tests[2].comment).toBe('Not configured');
+  });
+});
+
+describe('xUnit v2', () => {
+  const { tests } = parse(XUNIT);
+
+  it('drops the class prefix from titles and maps results', () => {
+    expect(tests.map((t) => [t.title, t.status])).toEqual([
+      ['Logs_in', 'passed'],
+      ['Rejects_bad_password', 'failed'],
+      ['Sso', 'skipped'],
+    ]);
+    expect(tests[0]).toMatchObject({ classname: 'App.Tests.LoginTests', time_ms: 250 });
+  });
+
+  it('reads traits, failures, and skip reasons', () => {
+    expect(tests[0].case_id).toBe(12);
+    expect(tests[1].stacktrace).toBe('Assert.Equal() Failure\nat LoginTests.cs:42');
+    expect(tests[2].comment).toBe('Not configured');
+  });
+});
+
+describe('Cucumber JSON', () => {
+  const { tests } = parse(CUCUMBER);
+
+  it('produces one test per scenario, with background steps first', () => {
+    expect(tests[0]).toMatchObject({
+      title: 'Logs in',
+      suite: 'Login',
+      classname: 'features/login.feature',
+      status: 'failed',
+      case_id: 12,
+      time_ms: 6,
+      comment: 'Element not found',
+    });
+    expect(tests[0].steps).toEqual([
+      { position: 1, status: 'passed', comment: 'Given the app is open' },
+      { position: 2, status: 'passed', comment: 'When I log in' },
+      { position: 3, status: 'failed', comment: 'Then I see the dashboard — Element not found' },
+    ]);
+  });
+
+  it('treats undefined steps as an invalid scenario', () => {
+    expect(tests[1]).toMatchObject({ title: 'Logs out', status: 'invalid' });
+    expect(tests[1].steps).toEqual([{ position: 1, status: 'blocked', comment: 'When I log out' }]);
+  });
+});
+
+describe('Allure', () => {
+  it('maps a result with its label marker and top-level steps', () => {
+    const { tests } = parse(JSON.stringify(allureResult({})));
+
+    expect(tests).toEqual([
+      {
+        title: 'Logs in',
+        classname: 'tests.login.Logs in',
+        suite: 'Login',
+        status: 'passed',
+        time_ms: 800,
+        case_id: 12,
+        steps: [
+          { position: 1, status: 'passed', comment: 'Open page' },
+          { position: 2, status: 'failed', comment: 'Submit — Timeout' },
+        ],
+      },
+    ]);
+  });
+
+  it('maps broken to invalid, with the trace', () => {
+    const { tests } = parse(
+      JSON.stringify(
+        allureResult({ status: 'broken', statusDetails: { message: 'Boom', trace: 'at x' } }),
+      ),
+    );
+
+    expect(tests[0]).toMatchObject({
+      status: 'invalid',
+      comment: 'Boom',
+      stacktrace: 'Boom\nat x',
+    });
+  });
+
+  it('keeps only the last attempt of a retried test', () => {
+    const docs = [
+      allureResult({ uuid: 'first', status: 'failed', stop: 1800 }),
+      allureResult({ uuid: 'retry', status: 'passed', start: 2000, stop: 2500 }),
+    ].map((r, i) => loadReportDocument(`${i}-result.json`, JSON.stringify(r)));
+
+    const { tests } = parseReport(docs);
+
+    expect(tests).toHaveLength(1);
+    expect(tests[0]).toMatchObject({ status: 'passed', time_ms: 500 });
+  });
+});
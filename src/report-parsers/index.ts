@@ -0,0 +1,124 @@
+/**
+ * Test Report Parsers
+ *
+ * Turns CI test reports into results ready for `qase_ci_report`'s run flow.
+ * Each format is one ReportParser; `parseReport` reads the files, picks the
+ * parser for each (or uses the one asked for), and concatenates the results.
+ *
+ * Built-in formats: JUnit XML, Visual Studio TRX, NUnit 3 XML, xUnit.net v2
+ * XML, Cucumber JSON, and Allure results.
+ */
+
+import { parseXml } from '../utils/xml.js';
+import { junitParser } from './junit.js';
+import { trxParser } from './trx.js';
+import { nunitParser } from './nunit.js';
+import { xunitParser } from './xunit.js';
+import { cucumberParser } from './cucumber.js';
+import { allureParser } from './allure.js';
+import { REPORT_FORMATS } from './types.js';
+import type { ParsedTest, ReportDocument, ReportFormat, ReportParser } from './types.js';
+
+export { REPORT_FORMATS } from './types.js';
+export type { ParsedTest, ReportDocument, ReportFormat, ReportParser } from './types.js';
+export { findQaseId, stripQaseId } from './markers.js';
+
+const parsers = new Map<ReportFormat, ReportParser>();
+
+/** Add or replace the parser for a format. */
+export function registerReportParser(parser: ReportParser): void {
+  parsers.set(parser.format, parser);
+}
+
+for (const parser of [
+  junitParser,
+  trxParser,
+  nunitParser,
+  xunitParser,
+  cucumberParser,
+  allureParser,
+]) {
+  registerReportParser(parser);
+}
+
+/** The parser for a format. */
+export function getReportParser(format: ReportFormat): ReportParser {
+  const parser = parsers.get(format);
+  if (!parser) throw new Error(`No parser registered for report format "${format}"`);
+  return parser;
+}
+
+/**
+ * Read one report file. XML and JSON are parsed up front, so detection and
+ * parsing never read the text twice.
+ *
+ * @throws Error naming the file when the content is neither XML nor JSON
+ */
+export function loadReportDocument(name: string, text: string): ReportDocument {
+  const content = text.replace(/^\uFEFF/, '');
+  const start = content.trimStart()[0];
+
+  try {
+    if (start === '<') return { name, text: content, xml: parseXml(content) };
+    if (start === '{' || start === '[') return { name, text: content, json: JSON.parse(content) };
+  } catch (error) {
+    throw new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  throw new Error(`${name}: not an XML or JSON document`);
+}
+
+/** The format of a document, or undefined when no parser recognises it. */
+export function detectReportFormat(doc: ReportDocument): ReportFormat | undefined {
+  return REPORT_FORMATS.find((format) => parsers.get(format)?.detect(doc));
+}
+
+export interface ParsedReport {
+  tests: ParsedTest[];
+  /** Formats found, in detection order. */
+  formats: ReportFormat[];
+  /** Documents no parser took — Allure containers, unrelated files. */
+  ignored: string[];
+}
+
+/**
+ * Parse report documents. With `auto`, each document is detected on its own,
+ * so a directory may mix formats; with an explicit format, documents that do
+ * not match it are ignored.
+ *
+ * @throws Error when no document matches
+ */
+export function parseReport(
+  docs: ReportDocument[],
+  format: ReportFormat | 'auto' = 'auto',
+): ParsedReport {
+  const byFormat = new Map<ReportFormat, ReportDocument[]>();
+  const ignored: string[] = [];
+
+  for (const doc of docs) {
+    const detected =
+      format === 'auto'
+        ? detectReportFormat(doc)
+        : getReportParser(format).detect(doc)
+          ? format
+          : undefined;
+    if (detected) {
+      byFormat.set(detected, [...(byFormat.get(detected) ?? []), doc]);
+    } else {
+      ignored.push(doc.name);
+    }
+  }
+
+  if (byFormat.size === 0) {
+    const expected =
+      format === 'auto'
+        ? `one of: ${REPORT_FORMATS.map((f) => getReportParser(f).label).join(', ')}`
+        : getReportParser(format).label;
+    throw new Error(
+      `No recognisable test report in ${docs.map((d) => d.name).join(', ')} (expected ${expected})`,
+    );
+  }
+
+  const formats = REPORT_FORMATS.filter((f) => byFormat.has(f));
+  const tests = formats.flatMap((f) => getReportParser(f).parse(byFormat.get(f)!));
+  return { tests, formats, ignored };
+}
@@ -0,0 +1,108 @@
+/**
+ * Tests for JUnit XML parsing and Qase ID marker extraction.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { loadReportDocument, parseReport, findQaseId, stripQaseId } from './index.js';
+
+function parseJunit(xml: string) {
+  return parseReport([loadReportDocument('report.xml', xml)], 'junit').tests;
+}
+
+const REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="auth" tests="4">
+    <testcase classname="auth.LoginTest" name="logs in (Qase ID: 12)" time="0.25"/>
+    <testcase classname="auth.LoginTest" name="rejects a bad password" time="1.5">
+      <failure message="expected 401, got 200" type="AssertionError">at LoginTest.java:42</failure>
+    </testcase>
+    <testcase classname="auth.LoginTest" name="locks the account">
+      <error message="NullPointerException">at Lock.java:7</error>
+    </testcase>
+    <testcase classname="auth.LoginTest" name="sso">
+      <skipped message="SSO not configured"/>
+    </testcase>
+  </testsuite>
+  <testsuite name="billing">
+    <testsuite name="billing.invoices">
+      <testcase name="creates an invoice">
+        <properties><property name="qase_id" value="31"/></properties>
+      </testcase>
+      <testcase name="voids an invoice">
+        <system-out><![CDATA[QaseID: 32]]></system-out>
+      </testcase>
+    </testsuite>
+  </testsuite>
+</testsuites>`;
+
+describe('findQaseId / stripQaseId', () => {
+  it.each([
+    ['@QaseID(12) login', 12],
+    ['@QaseId=12 login', 12],
+    ['login QaseID: 12', 12],
+    ['login (Qase ID: 12)', 12],
+    ['login [qase_id 12]', 12],
+  ])('finds the ID in %s', (text, id) => {
+    expect(findQaseId(text)).toBe(id);
+  });
+
+  it('ignores text without a marker', () => {
+    expect(findQaseId('retries 3 times')).toBeUndefined();
+    expect(findQaseId(undefined)).toBeUndefined();
+  });
+
+  it('strips the marker from the title', () => {
+    expect(stripQaseId('logs in (Qase ID: 12)')).toBe('logs in');
+    expect(stripQaseId('@QaseID(12) logs in')).toBe('logs in');
+  });
+});
+
+describe('parseJunit', () => {
+  const tests = parseJunit(REPORT);
+
+  it('flattens every testcase, including nested suites', () => {
+    expect(tests.map((t) => t.title)).toEqual([
+      'logs in',
+      'rejects a bad password',
+      'locks the account',
+      'sso',
+      'creates an invoice',
+      'voids an invoice',
+    ]);
+    expect(tests[4].suite).toBe('billing.invoices');
+  });
+
+  it('maps outcomes to Qase statuses', () => {
+    expect(tests.map((t) => t.status)).toEqual([
+      'passed',
+      'failed',
+      'invalid',
+      'skipped',
+      'passed',
+      'passed',
+    ]);
+  });
+
+  it('carries the failure message, body, and duration', () => {
+    expect(tests[1]).toMatchObject({
+      classname: 'auth.LoginTest',
+      comment: 'expected 401, got 200',
+      stacktrace: 'at LoginTest.java:42',
+      time_ms: 1500,
+    });
+  });
+
+  it('reads markers from the name, a qase_id property, and system-out', () => {
+    expect(tests.map((t) => t.case_id)).toEqual([12, undefined, undefined, undefined, 31, 32]);
+  });
+
+  it('accepts a bare <testsuite> root', () => {
+    const single = parseJunit('<testsuite name="s"><testcase name="a"/></testsuite>');
+
+    expect(single).toEqual([{ title: 'a', suite: 's', status: 'passed' }]);
+  });
+
+  it('rejects XML that is not a JUnit report', () => {
+    expect(() => parseJunit('<TestRun/>')).toThrow(/No recognisable test report .*JUnit XML/);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * JUnit XML
+ *
+ * The dialect most CI tools emit (Surefire, pytest, Jest, go-junit-report, …).
+ * Both a `<testsuites>` root and a bare `<testsuite>` root are accepted, and
+ * nested suites are flattened.
+ */
+
+import { localName, childElement, childElements, type XmlElement } from '../utils/xml.js';
+import { findQaseId, stripQaseId, qaseIdFromPair } from './markers.js';
+import type { ParsedTest, ReportDocument, ReportParser } from './types.js';
+
+function parseSeconds(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const seconds = Number(value.replace(/,/g, ''));
+  return Number.isFinite(seconds) && seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+}
+
+/** The case ID from a `<property name="qase_id" value="12"/>`, if present. */
+function propertyQaseId(testcase: XmlElement): number | undefined {
+  const properties = childElement(testcase, 'properties');
+  if (!properties) return undefined;
+  for (const property of childElements(properties, 'property')) {
+    const id = qaseIdFromPair(property.attributes.name, property.attributes.value ?? property.text);
+    if (id !== undefined) return id;
+  }
+  return undefined;
+}
+
+function toParsedTest(testcase: XmlElement, suite: string | undefined): ParsedTest {
+  const name = testcase.attributes.name ?? '';
+  const failure = childElement(testcase, 'failure');
+  const error = childElement(testcase, 'error');
+  const skipped = childElement(testcase, 'skipped');
+
+  let status: ParsedTest['status'] = 'passed';
+  let problem: XmlElement | undefined;
+  if (failure) {
+    status = 'failed';
+    problem = failure;
+  } else if (error) {
+    // An error is the test breaking rather than an assertion failing.
+    status = 'invalid';
+    problem = error;
+  } else if (skipped) {
+    status = 'skipped';
+    problem = skipped;
+  }
+
+  const test: ParsedTest = {
+    title: stripQaseId(name) || name,
+    status,
+  };
+  if (testcase.attributes.classname) test.classname = testcase.attributes.classname;
+  if (suite) test.suite = suite;
+
+  const timeMs = parseSeconds(testcase.attributes.time);
+  if (timeMs !== undefined) test.time_ms = timeMs;
+
+  if (problem) {
+    const message = problem.attributes.message?.trim();
+    const body = problem.text.trim();
+    const comment = message || body.split('\n')[0];
+    if (comment) test.comment = comment;
+    if (body && status !== 'skipped') test.stacktrace = body;
+  }
+
+  const caseId =
+    findQaseId(name) ??
+    propertyQaseId(testcase) ??
+    findQaseId(childElement(testcase, 'system-out')?.text);
+  if (caseId !== undefined) test.case_id = caseId;
+
+  return test;
+}
+
+function parseDocument(root: XmlElement): ParsedTest[] {
+  const tests: ParsedTest[] = [];
+  const walk = (element: XmlElement, suite: string | undefined) => {
+    for (const child of element.children) {
+      const name = localName(child);
+      if (name === 'testcase') {
+        tests.push(toParsedTest(child, suite));
+      } else if (name === 'testsuite') {
+        walk(child, child.attributes.name ?? suite);
+      }
+    }
+  };
+
+  if (localName(root) === 'testsuite') {
+    walk(root, root.attributes.name);
+  } else {
+    walk(root, undefined);
+  }
+  return tests;
+}
+
+export const junitParser: ReportParser = {
+  format: 'junit',
+  label: 'JUnit XML',
+  detect(doc: ReportDocument) {
+    const root = doc.xml ? localName(doc.xml) : undefined;
+    return root === 'testsuites' || root === 'testsuite';
+  },
+  parse(docs: ReportDocument[]) {
+    return docs.flatMap((doc) => parseDocument(doc.xml!));
+  },
+};
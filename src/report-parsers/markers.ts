@@ -0,0 +1,34 @@
+/**
+ * Qase ID markers — the ways a test names the Qase case it covers, shared by
+ * every report format.
+ */
+
+/**
+ * Matches `@QaseID(12)`, `@QaseId=12`, `QaseID: 12`, `Qase ID: 12`, and
+ * `(Qase ID: 12)` — the forms the Qase reporters and annotations produce.
+ */
+const MARKER_PATTERN = /\(?\s*@?\bqase[\s_-]?id\s*[:=(]?\s*(\d+)\s*\)?\)?/i;
+
+/** Property, trait, label, or tag names that carry a case ID as their value. */
+const MARKER_KEY_PATTERN = /^@?qase[\s_-]?id$/i;
+
+/** Extract a Qase case ID marker from free text. */
+export function findQaseId(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const match = MARKER_PATTERN.exec(text);
+  return match ? Number(match[1]) : undefined;
+}
+
+/** Remove a Qase ID marker from a test name, leaving the readable title. */
+export function stripQaseId(text: string): string {
+  return text.replace(MARKER_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/** The case ID from a `qase_id` / `QaseId` key-value pair, if this is one. */
+export function qaseIdFromPair(
+  key: string | undefined,
+  value: string | undefined,
+): number | undefined {
+  if (!key || !MARKER_KEY_PATTERN.test(key.trim())) return undefined;
+  return value && /^\s*\d+\s*$/.test(value) ? Number(value) : undefined;
+}
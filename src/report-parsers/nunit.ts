@@ -0,0 +1,103 @@
+/**
+ * NUnit 3 XML
+ *
+ * The `<test-run>` document NUnit 3 writes (TestResult.xml). Test cases nest
+ * inside any depth of `<test-suite>` elements — assembly, namespace, fixture,
+ * parameterized method — and the innermost suite names the test.
+ */
+
+import { localName, childElement, childElements, type XmlElement } from '../utils/xml.js';
+import { findQaseId, stripQaseId, qaseIdFromPair } from './markers.js';
+import type { ParsedTest, ReportDocument, ReportParser } from './types.js';
+
+/** Failure labels that mean the test itself broke, not an assertion. */
+const BROKEN_LABELS = new Set(['error', 'invalid', 'cancelled']);
+
+function propertyQaseId(testCase: XmlElement): number | undefined {
+  const properties = childElement(testCase, 'properties');
+  for (const property of properties ? childElements(properties, 'property') : []) {
+    const id = qaseIdFromPair(property.attributes.name, property.attributes.value);
+    if (id !== undefined) return id;
+  }
+  return undefined;
+}
+
+function toStatus(testCase: XmlElement): ParsedTest['status'] {
+  const result = (testCase.attributes.result ?? '').toLowerCase();
+  const label = (testCase.attributes.label ?? '').toLowerCase();
+  switch (result) {
+    case 'passed':
+    case 'warning':
+      return 'passed';
+    case 'failed':
+      return BROKEN_LABELS.has(label) ? 'invalid' : 'failed';
+    case 'inconclusive':
+      return 'blocked';
+    default:
+      return 'skipped';
+  }
+}
+
+function toParsedTest(testCase: XmlElement, suite: string | undefined): ParsedTest {
+  const name = testCase.attributes.name ?? '';
+  const status = toStatus(testCase);
+
+  const test: ParsedTest = {
+    title: stripQaseId(name) || name,
+    status,
+  };
+  if (testCase.attributes.classname) test.classname = testCase.attributes.classname;
+  if (suite) test.suite = suite;
+
+  const seconds = Number(testCase.attributes.duration);
+  if (testCase.attributes.duration !== undefined && Number.isFinite(seconds) && seconds >= 0) {
+    test.time_ms = Math.round(seconds * 1000);
+  }
+
+  const failure = childElement(testCase, 'failure');
+  const reason = childElement(testCase, 'reason');
+  if (failure) {
+    const message = childElement(failure, 'message')?.text.trim();
+    const stack = childElement(failure, 'stack-trace')?.text.trim();
+    if (message) test.comment = message.split('\n')[0];
+    if (message || stack) test.stacktrace = [message, stack].filter(Boolean).join('\n');
+  } else if (reason) {
+    const message = childElement(reason, 'message')?.text.trim();
+    if (message) test.comment = message.split('\n')[0];
+  }
+
+  const caseId =
+    findQaseId(name) ??
+    propertyQaseId(testCase) ??
+    findQaseId(childElement(testCase, 'output')?.text);
+  if (caseId !== undefined) test.case_id = caseId;
+
+  return test;
+}
+
+function parseDocument(root: XmlElement): ParsedTest[] {
+  const tests: ParsedTest[] = [];
+  const walk = (element: XmlElement, suite: string | undefined) => {
+    for (const child of element.children) {
+      const name = localName(child);
+      if (name === 'test-case') {
+        tests.push(toParsedTest(child, suite));
+      } else if (name === 'test-suite') {
+        walk(child, child.attributes.name ?? suite);
+      }
+    }
+  };
+  walk(root, undefined);
+  return tests;
+}
+
+export const nunitParser: ReportParser = {
+  format: 'nunit',
+  label: 'NUnit 3 XML',
+  detect(doc: ReportDocument) {
+    return doc.xml !== undefined && localName(doc.xml) === 'test-run';
+  },
+  parse(docs: ReportDocument[]) {
+    return docs.flatMap((doc) => parseDocument(doc.xml!));
+  },
+};
@@ -0,0 +1,121 @@
+/**
+ * Visual Studio TRX
+ *
+ * Written by `dotnet test --logger trx` and VSTest. Outcomes live under
+ * `<Results>`; the class name and any `QaseId` property live on the matching
+ * `<TestDefinitions>` entry, joined by `testId`.
+ */
+
+import {
+  localName,
+  childElement,
+  childElements,
+  descendants,
+  type XmlElement,
+} from '../utils/xml.js';
+import { findQaseId, stripQaseId, qaseIdFromPair } from './markers.js';
+import type { ParsedTest, ReportDocument, ReportParser } from './types.js';
+
+const OUTCOMES: Record<string, ParsedTest['status']> = {
+  passed: 'passed',
+  passedbutrunaborted: 'passed',
+  warning: 'passed',
+  failed: 'failed',
+  error: 'invalid',
+  timeout: 'invalid',
+  aborted: 'invalid',
+  inconclusive: 'blocked',
+};
+
+/** `hh:mm:ss.fffffff` to milliseconds. */
+function parseDuration(value: string | undefined): number | undefined {
+  const match = value ? /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(value.trim()) : null;
+  if (!match) return undefined;
+  const [, h, m, s] = match;
+  return Math.round((Number(h) * 3600 + Number(m) * 60 + Number(s)) * 1000);
+}
+
+interface Definition {
+  className?: string;
+  caseId?: number;
+}
+
+function readDefinitions(root: XmlElement): Map<string, Definition> {
+  const definitions = new Map<string, Definition>();
+  for (const unitTest of descendants(root, 'UnitTest')) {
+    const id = unitTest.attributes.id;
+    if (!id) continue;
+
+    const definition: Definition = {};
+    const className = childElement(unitTest, 'TestMethod')?.attributes.className;
+    // className is assembly-qualified ("Ns.LoginTests, Tests, Version=…").
+    if (className) definition.className = className.split(',')[0].trim();
+
+    const properties = childElement(unitTest, 'Properties');
+    for (const property of properties ? childElements(properties, 'Property') : []) {
+      const caseId = qaseIdFromPair(
+        childElement(property, 'Key')?.text,
+        childElement(property, 'Value')?.text,
+      );
+      if (caseId !== undefined) definition.caseId = caseId;
+    }
+    definitions.set(id, definition);
+  }
+  return definitions;
+}
+
+function toParsedTest(result: XmlElement, definition: Definition | undefined): ParsedTest {
+  const name = result.attributes.testName ?? '';
+  const outcome = (result.attributes.outcome ?? '').toLowerCase();
+
+  const test: ParsedTest = {
+    title: stripQaseId(name) || name,
+    // NotExecuted, NotRunnable, Pending, Disconnected, …
+    status: OUTCOMES[outcome] ?? 'skipped',
+  };
+  if (definition?.className) {
+    test.classname = definition.className;
+    test.suite = definition.className.split('.').pop();
+  }
+
+  const timeMs = parseDuration(result.attributes.duration);
+  if (timeMs !== undefined) test.time_ms = timeMs;
+
+  const output = childElement(result, 'Output');
+  const errorInfo = output ? childElement(output, 'ErrorInfo') : undefined;
+  if (errorInfo) {
+    const message = childElement(errorInfo, 'Message')?.text.trim();
+    const stack = childElement(errorInfo, 'StackTrace')?.text.trim();
+    if (message) test.comment = message.split('\n')[0];
+    if (message || stack) test.stacktrace = [message, stack].filter(Boolean).join('\n');
+  }
+
+  const caseId =
+    findQaseId(name) ??
+    definition?.caseId ??
+    findQaseId(output ? childElement(output, 'StdOut')?.text : undefined);
+  if (caseId !== undefined) test.case_id = caseId;
+
+  return test;
+}
+
+function parseDocument(root: XmlElement): ParsedTest[] {
+  const definitions = readDefinitions(root);
+  const results = childElement(root, 'Results');
+  if (!results) return [];
+
+  return childElements(results, 'UnitTestResult').map((result) =>
+    toParsedTest(result, definitions.get(result.attributes.testId ?? '')),
+  );
+}
+
+export const trxParser: ReportParser = {
+  format: 'trx',
+  label: 'Visual Studio TRX',
+  detect(doc: ReportDocument) {
+    return doc.xml !== undefined && localName(doc.xml) === 'TestRun';
+  },
+  parse(docs: ReportDocument[]) {
+    return docs.flatMap((doc) => parseDocument(doc.xml!));
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * Report parser abstraction. One parser per test report format, each turning
+ * report files into results shaped like `qase_ci_report`'s CaseResultSchema.
+ */
+
+import type { XmlElement } from '../utils/xml.js';
+import type { CaseResult } from '../operations-v2/composites/ci-report.js';
+
+/** Formats with a built-in parser, in detection order. */
+export const REPORT_FORMATS = ['junit', 'trx', 'nunit', 'xunit', 'cucumber', 'allure'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/**
+ * One test from a report: a CaseResult whose case ID is known only when the
+ * test carried a Qase ID marker, plus what is needed to match it by title.
+ */
+export type ParsedTest = Omit<CaseResult, 'case_id'> & {
+  /** Test name with any Qase ID marker removed. */
+  title: string;
+  classname?: string;
+  /** Enclosing suite, feature, or fixture name. */
+  suite?: string;
+  /** Case ID from a Qase ID marker, when the test carries one. */
+  case_id?: number;
+};
+
+/** A report file, read once and pre-parsed by content type. */
+export interface ReportDocument {
+  /** File name, or a placeholder for inline content. */
+  name: string;
+  text: string;
+  /** Root element, when the content is XML. */
+  xml?: XmlElement;
+  /** Parsed value, when the content is JSON. */
+  json?: unknown;
+}
+
+export interface ReportParser {
+  format: ReportFormat;
+  /** Human-readable name for summaries and errors. */
+  label: string;
+  /**
+   * Does this document belong to the format? Checked against content only —
+   * file names are unreliable once a report has been through a CI artifact store.
+   */
+  detect(doc: ReportDocument): boolean;
+  /**
+   * Parse every document of this format. Parsers see all their documents at
+   * once, so a format split across files (Allure) can reconcile them.
+   */
+  parse(docs: ReportDocument[]): ParsedTest[];
+}
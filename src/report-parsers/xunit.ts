@@ -0,0 +1,82 @@
+/**
+ * xUnit.net v2 XML
+ *
+ * The `<assemblies>` document written by `dotnet test --logger xunit` and the
+ * xUnit console runner. Test names default to the fully qualified method name,
+ * so the class prefix is dropped from the title.
+ */
+
+import {
+  localName,
+  childElement,
+  childElements,
+  descendants,
+  type XmlElement,
+} from '../utils/xml.js';
+import { findQaseId, stripQaseId, qaseIdFromPair } from './markers.js';
+import type { ParsedTest, ReportDocument, ReportParser } from './types.js';
+
+const RESULTS: Record<string, ParsedTest['status']> = {
+  pass: 'passed',
+  fail: 'failed',
+  skip: 'skipped',
+  notrun: 'skipped',
+};
+
+function traitQaseId(test: XmlElement): number | undefined {
+  const traits = childElement(test, 'traits');
+  for (const trait of traits ? childElements(traits, 'trait') : []) {
+    const id = qaseIdFromPair(trait.attributes.name, trait.attributes.value);
+    if (id !== undefined) return id;
+  }
+  return undefined;
+}
+
+function toParsedTest(element: XmlElement): ParsedTest {
+  const name = element.attributes.name ?? '';
+  const type = element.attributes.type;
+  const readable = type && name.startsWith(`${type}.`) ? name.slice(type.length + 1) : name;
+
+  const test: ParsedTest = {
+    title: stripQaseId(readable) || readable,
+    status: RESULTS[(element.attributes.result ?? '').toLowerCase()] ?? 'skipped',
+  };
+  if (type) {
+    test.classname = type;
+    test.suite = type.split('.').pop();
+  }
+
+  const seconds = Number(element.attributes.time);
+  if (element.attributes.time !== undefined && Number.isFinite(seconds) && seconds >= 0) {
+    test.time_ms = Math.round(seconds * 1000);
+  }
+
+  const failure = childElement(element, 'failure');
+  const reason = childElement(element, 'reason');
+  if (failure) {
+    const message = childElement(failure, 'message')?.text.trim();
+    const stack = childElement(failure, 'stack-trace')?.text.trim();
+    if (message) test.comment = message.split('\n')[0];
+    if (message || stack) test.stacktrace = [message, stack].filter(Boolean).join('\n');
+  } else if (reason?.text.trim()) {
+    test.comment = reason.text.trim().split('\n')[0];
+  }
+
+  const caseId =
+    findQaseId(name) ?? traitQaseId(element) ?? findQaseId(childElement(element, 'output')?.text);
+  if (caseId !== undefined) test.case_id = caseId;
+
+  return test;
+}
+
+export const xunitParser: ReportParser = {
+  format: 'xunit',
+  label: 'xUnit.net v2 XML',
+  detect(doc: ReportDocument) {
+    const root = doc.xml ? localName(doc.xml) : undefined;
+    return root === 'assemblies' || root === 'assembly';
+  },
+  parse(docs: ReportDocument[]) {
+    return docs.flatMap((doc) => descendants(doc.xml!, 'test').map(toParsedTest));
+  },
+};
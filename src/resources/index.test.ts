@@ -0,0 +1,169 @@
+/**
+ * Tests for MCP resources — qase:// URI parsing and reads.
+ *
+ * Entity resources must return exactly what qase_get returns, so they share
+ * its fetchers; the suite tree is rebuilt from the paginated flat suite list.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { setTestEnv } from '../utils/test-helpers.js';
+
+setTestEnv();
+
+const mockGetCase = jest.fn();
+const mockGetRun = jest.fn();
+const mockGetResult = jest.fn();
+const mockGetSuites = jest.fn();
+
+jest.mock('../client/index.js', () => ({
+  getApiClient: () => ({
+    cases: { getCase: mockGetCase },
+    runs: { getRun: mockGetRun },
+    results: { getResult: mockGetResult },
+    suites: { getSuites: mockGetSuites },
+  }),
+}));
+
+import {
+  parseResourceUri,
+  listResources,
+  listResourceTemplates,
+  readResource,
+} from './index.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+
+function parsed(result: any) {
+  return JSON.parse(result.contents[0].text);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetCase.mockImplementation(() => ok({ id: 123, title: 'Login', description: null }));
+  mockGetRun.mockImplementation(() => ok({ id: 45, title: 'Nightly' }));
+  mockGetResult.mockImplementation(() => ok({ hash: 'abc123', status: 'passed' }));
+});
+
+describe('parseResourceUri', () => {
+  it('parses an entity URI with a numeric ID', () => {
+    expect(parseResourceUri('qase://DEMO/case/123')).toEqual({
+      kind: 'entity',
+      code: 'DEMO',
+      entity: 'case',
+      id: 123,
+    });
+  });
+
+  it('keeps hash IDs as strings', () => {
+    expect(parseResourceUri('qase://DEMO/result/abc123')).toMatchObject({ id: 'abc123' });
+  });
+
+  it('parses the suite tree URI', () => {
+    expect(parseResourceUri('qase://DEMO/suite-tree')).toEqual({
+      kind: 'suite-tree',
+      code: 'DEMO',
+    });
+  });
+
+  it('rejects a foreign scheme', () => {
+    expect(() => parseResourceUri('file:///etc/passwd')).toThrow(/Invalid resource URI/);
+  });
+
+  it('rejects an entity the fetchers do not know', () => {
+    expect(() => parseResourceUri('qase://DEMO/project/1')).toThrow(/Unknown resource entity/);
+  });
+
+  it('rejects an entity URI without an ID', () => {
+    expect(() => parseResourceUri('qase://DEMO/case')).toThrow(/ID is required/);
+  });
+});
+
+describe('listResourceTemplates', () => {
+  it('advertises case, run, and suite-tree templates', () => {
+    const templates = listResourceTemplates().map((t) => t.uriTemplate);
+    expect(templates).toContain('qase://{code}/case/{id}');
+    expect(templates).toContain('qase://{code}/run/{id}');
+    expect(templates).toContain('qase://{code}/suite-tree');
+  });
+
+  it('does not advertise configuration, which has no ID', () => {
+    const templates = listResourceTemplates().map((t) => t.uriTemplate);
+    expect(templates).not.toContain('qase://{code}/configuration/{id}');
+  });
+
+  it('has no static resources', () => {
+    expect(listResources()).toEqual([]);
+  });
+});
+
+describe('readResource — entities', () => {
+  it('reads a case through the qase_get fetcher, including its default include', async () => {
+    const result = await readResource('qase://DEMO/case/123');
+
+    expect(mockGetCase).toHaveBeenCalledWith('DEMO', 123, 'external_issues');
+    expect(result.contents[0]).toMatchObject({
+      uri: 'qase://DEMO/case/123',
+      mimeType: 'application/json',
+    });
+    // Compacted like tool output — nulls are dropped.
+    expect(parsed(result)).toEqual({ id: 123, title: 'Login' });
+  });
+
+  it('reads a run', async () => {
+    const result = await readResource('qase://DEMO/run/45');
+
+    expect(mockGetRun).toHaveBeenCalledWith('DEMO', 45, 'external_issue');
+    expect(parsed(result).title).toBe('Nightly');
+  });
+
+  it('surfaces API failures', async () => {
+    mockGetRun.mockImplementation(() => {
+      const error: any = new Error('Run not found');
+      error.isAxiosError = true;
+      error.response = { status: 404, data: { errorMessage: 'Run not found' } };
+      return Promise.reject(error);
+    });
+
+    await expect(readResource('qase://DEMO/run/999')).rejects.toThrow(/Run not found/);
+  });
+});
+
+describe('readResource — suite tree', () => {
+  it('nests suites under their parents', async () => {
+    mockGetSuites.mockImplementation(() =>
+      ok({
+        total: 3,
+        entities: [
+          { id: 1, title: 'Auth', parent_id: null, cases_count: 2 },
+          { id: 2, title: 'Login', parent_id: 1, cases_count: 5 },
+          { id: 3, title: 'Billing', parent_id: null, cases_count: 0 },
+        ],
+      }),
+    );
+
+    const data = parsed(await readResource('qase://DEMO/suite-tree'));
+
+    expect(data.total).toBe(3);
+    expect(data.tree.map((n: any) => n.title)).toEqual(['Auth', 'Billing']);
+    expect(data.tree[0].children[0]).toMatchObject({ id: 2, title: 'Login', cases_count: 5 });
+  });
+
+  it('pages through every suite', async () => {
+    mockGetSuites.mockImplementation((_code: string, _s: unknown, limit: number, offset: number) =>
+      ok({
+        total: 150,
+        entities: Array.from({ length: Math.min(limit, 150 - offset) }, (_, i) => ({
+          id: offset + i + 1,
+          title: `Suite ${offset + i + 1}`,
+          parent_id: null,
+        })),
+      }),
+    );
+
+    const data = parsed(await readResource('qase://DEMO/suite-tree'));
+
+    expect(mockGetSuites).toHaveBeenCalledTimes(2);
+    expect(data.loaded).toBe(150);
+    expect(data.tree).toHaveLength(150);
+  });
+});
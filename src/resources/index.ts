@@ -0,0 +1,118 @@
+/**
+ * MCP Resources
+ *
+ * Exposes Qase entities as readable resources so clients can attach a case,
+ * a run, or a project's suite tree as context without spending a tool call.
+ *
+ * URIs:
+ * - qase://{code}/{entity}/{id} — any project-scoped entity `qase_get` supports
+ * - qase://{code}/suite-tree    — the project's full suite hierarchy
+ *
+ * Entity reads go through the same fetchers as `qase_get`, so a resource and a
+ * tool call return identical data.
+ */
+
+import { fetchEntity, ENTITIES_REQUIRING_CODE } from '../operations-v2/read/get.js';
+import { compactResponse } from '../utils/response-shape.js';
+import { fetchAllSuites, buildSuiteTree } from '../utils/suite-tree.js';
+
+export const RESOURCE_SCHEME = 'qase';
+
+const MIME_TYPE = 'application/json';
+
+/** Entities that are advertised as templates. `configuration` has no ID, so it is left out. */
+const TEMPLATE_ENTITIES = [...ENTITIES_REQUIRING_CODE].filter((e) => e !== 'configuration');
+
+/** A parsed `qase://` URI. */
+export type ResourceTarget =
+  | { kind: 'entity'; code: string; entity: string; id: number | string }
+  | { kind: 'suite-tree'; code: string };
+
+const URI_PATTERN = /^qase:\/\/([A-Z0-9_]{2,10})\/([a-z_-]+)(?:\/([^/?#]+))?$/;
+
+/**
+ * Parse a `qase://` URI. Numeric IDs become numbers; anything else (result
+ * and shared step hashes) stays a string, matching what the fetchers expect.
+ */
+export function parseResourceUri(uri: string): ResourceTarget {
+  const match = URI_PATTERN.exec(uri);
+  if (!match) {
+    throw new Error(
+      `Invalid resource URI: "${uri}". Expected qase://{code}/{entity}/{id} or ` +
+        'qase://{code}/suite-tree, with an upper-case project code.',
+    );
+  }
+
+  const [, code, entity, rawId] = match;
+
+  if (entity === 'suite-tree') {
+    if (rawId !== undefined) {
+      throw new Error(`Invalid resource URI: "${uri}". suite-tree takes no ID.`);
+    }
+    return { kind: 'suite-tree', code };
+  }
+
+  if (!TEMPLATE_ENTITIES.includes(entity)) {
+    throw new Error(
+      `Unknown resource entity "${entity}". Available: ${TEMPLATE_ENTITIES.join(', ')}, suite-tree`,
+    );
+  }
+  if (rawId === undefined) {
+    throw new Error(`Invalid resource URI: "${uri}". An ID is required for ${entity}.`);
+  }
+
+  const decoded = decodeURIComponent(rawId);
+  const id = /^\d+$/.test(decoded) ? Number(decoded) : decoded;
+  return { kind: 'entity', code, entity, id };
+}
+
+/** Static resources for ListResources. Every Qase resource is parameterised, so none. */
+export function listResources() {
+  return [];
+}
+
+/** URI templates for ListResourceTemplates, in deterministic order. */
+export function listResourceTemplates() {
+  const entityTemplates = TEMPLATE_ENTITIES.map((entity) => ({
+    uriTemplate: `${RESOURCE_SCHEME}://{code}/${entity}/{id}`,
+    name: `qase-${entity.replace(/_/g, '-')}`,
+    title: `Qase ${entity.replace(/_/g, ' ')}`,
+    description: `A Qase ${entity.replace(/_/g, ' ')} by project code and ID, as returned by qase_get.`,
+    mimeType: MIME_TYPE,
+  }));
+
+  return [
+    ...entityTemplates,
+    {
+      uriTemplate: `${RESOURCE_SCHEME}://{code}/suite-tree`,
+      name: 'qase-suite-tree',
+      title: 'Qase suite tree',
+      description:
+        "The project's complete suite hierarchy, nested by parent, with each suite's case count.",
+      mimeType: MIME_TYPE,
+    },
+  ].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+/** Build the ReadResource result for a `qase://` URI. */
+export async function readResource(uri: string) {
+  const target = parseResourceUri(uri);
+
+  let data: unknown;
+  if (target.kind === 'suite-tree') {
+    const { suites, total } = await fetchAllSuites(target.code);
+    data = { total, loaded: suites.length, tree: buildSuiteTree(suites) };
+  } else {
+    data = await fetchEntity(target.entity, target.code, target.id);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: MIME_TYPE,
+        text: JSON.stringify(compactResponse(data) ?? null),
+      },
+    ],
+  };
+}
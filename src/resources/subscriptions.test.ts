@@ -0,0 +1,203 @@
+/**
+ * Tests for run resource subscriptions.
+ *
+ * A watched run is polled in the background and the client is notified only
+ * when the pass/fail counts move; completed runs and closed servers must not
+ * leave a poller behind.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { setTestEnv } from '../utils/test-helpers.js';
+import { requestTokenStorage } from '../utils/auth-context.js';
+
+setTestEnv();
+
+const mockGetRun = jest.fn();
+const mockGetResults = jest.fn();
+const seenTokens: Array<string | undefined> = [];
+
+jest.mock('../client/index.js', () => ({
+  getApiClient: () => {
+    seenTokens.push(requestTokenStorage.getStore());
+    return {
+      runs: { getRun: mockGetRun },
+      results: { getResults: mockGetResults },
+    };
+  },
+}));
+
+import { RunSubscriptions } from './subscriptions.js';
+
+const ok = (result: unknown) => Promise.resolve({ data: { status: true, result } });
+
+let runState: Record<string, unknown>;
+let sendResourceUpdated: jest.Mock;
+let subs: RunSubscriptions;
+
+function makeRun(passed: number, failed: number, extra: Record<string, unknown> = {}) {
+  return {
+    id: 45,
+    status: 0,
+    stats: { total: 10, passed, failed, untested: 10 - passed - failed },
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  seenTokens.length = 0;
+  runState = makeRun(0, 0);
+  mockGetRun.mockImplementation(() => ok(runState));
+  mockGetResults.mockImplementation(() => ok({ total: 0, entities: [] }));
+  sendResourceUpdated = jest.fn().mockResolvedValue(undefined);
+  subs = new RunSubscriptions({ sendResourceUpdated } as any, 60_000);
+});
+
+afterEach(() => {
+  subs.close();
+});
+
+describe('RunSubscriptions — subscribe', () => {
+  it('takes a baseline snapshot of the run and its results', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+
+    expect(mockGetRun).toHaveBeenCalledWith('DEMO', 45);
+    expect(mockGetResults.mock.calls[0][2]).toBe('45');
+    expect(subs.list()).toEqual(['qase://DEMO/run/45']);
+  });
+
+  it('refuses non-run resources', async () => {
+    await expect(subs.subscribe('qase://DEMO/case/1')).rejects.toThrow(
+      /Only run resources support subscriptions/,
+    );
+    expect(subs.list()).toEqual([]);
+  });
+
+  it('fails the subscribe when the run does not exist', async () => {
+    mockGetRun.mockImplementation(() => Promise.reject(new Error('Run not found')));
+
+    await expect(subs.subscribe('qase://DEMO/run/999')).rejects.toThrow(/Run not found/);
+    expect(subs.list()).toEqual([]);
+  });
+
+  it('treats a repeated subscribe as a no-op', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+    await subs.subscribe('qase://DEMO/run/45');
+
+    expect(mockGetRun).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts one poller for concurrent subscribes to the same run', async () => {
+    await Promise.all([subs.subscribe('qase://DEMO/run/45'), subs.subscribe('qase://DEMO/run/45')]);
+
+    expect(mockGetRun).toHaveBeenCalledTimes(1);
+    expect(subs.list()).toEqual(['qase://DEMO/run/45']);
+  });
+});
+
+describe('RunSubscriptions — polling', () => {
+  it('does not notify when nothing changed', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+    await subs.poll('qase://DEMO/run/45');
+
+    expect(sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  it('notifies when pass/fail counts change', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+    runState = makeRun(3, 1);
+    await subs.poll('qase://DEMO/run/45');
+
+    expect(sendResourceUpdated).toHaveBeenCalledWith({ uri: 'qase://DEMO/run/45' });
+  });
+
+  it('notifies when new results arrive', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+    mockGetResults.mockImplementation(() => ok({ total: 7, entities: [] }));
+    await subs.poll('qase://DEMO/run/45');
+
+    expect(sendResourceUpdated).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores results added to other runs of the project', async () => {
+    mockGetResults.mockImplementation(() => ok({ total: 40, filtered: 2, entities: [] }));
+    await subs.subscribe('qase://DEMO/run/45');
+    mockGetResults.mockImplementation(() => ok({ total: 41, filtered: 2, entities: [] }));
+    await subs.poll('qase://DEMO/run/45');
+
+    expect(sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  it('notifies once per change, not on every poll', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+    runState = makeRun(3, 1);
+    await subs.poll('qase://DEMO/run/45');
+    await subs.poll('qase://DEMO/run/45');
+
+    expect(sendResourceUpdated).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends a final update and stops watching once the run completes', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+    runState = makeRun(9, 1, { end_time: '2026-10-19 03:00:00', status: 1 });
+    await subs.poll('qase://DEMO/run/45');
+
+    expect(sendResourceUpdated).toHaveBeenCalledTimes(1);
+    expect(subs.list()).toEqual([]);
+  });
+
+  it('keeps watching after a failed poll', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+    mockGetRun.mockImplementation(() => Promise.reject(new Error('503')));
+    await subs.poll('qase://DEMO/run/45');
+
+    expect(subs.list()).toEqual(['qase://DEMO/run/45']);
+  });
+
+  it("polls with the subscriber's token, not the ambient one", async () => {
+    await requestTokenStorage.run('user-token', () => subs.subscribe('qase://DEMO/run/45'));
+    seenTokens.length = 0;
+
+    await subs.poll('qase://DEMO/run/45');
+
+    expect(seenTokens).toEqual(['user-token']);
+  });
+});
+
+describe('RunSubscriptions — teardown', () => {
+  it('unsubscribe stops the poller', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+    subs.unsubscribe('qase://DEMO/run/45');
+
+    expect(subs.list()).toEqual([]);
+  });
+
+  it('starts nothing for a subscribe that finishes after close', async () => {
+    const setIntervalSpy = jest.spyOn(global, 'setInterval');
+    const subscribing = subs.subscribe('qase://DEMO/run/45');
+    subs.close();
+    await subscribing;
+
+    expect(setIntervalSpy).not.toHaveBeenCalled();
+    expect(subs.list()).toEqual([]);
+    await subs.subscribe('qase://DEMO/run/46');
+    expect(subs.list()).toEqual([]);
+    setIntervalSpy.mockRestore();
+  });
+
+  it('starts nothing for a subscribe withdrawn before its baseline loaded', async () => {
+    const subscribing = subs.subscribe('qase://DEMO/run/45');
+    subs.unsubscribe('qase://DEMO/run/45');
+    await subscribing;
+
+    expect(subs.list()).toEqual([]);
+  });
+
+  it('close drops every subscription', async () => {
+    await subs.subscribe('qase://DEMO/run/45');
+    await subs.subscribe('qase://DEMO/run/46');
+    subs.close();
+
+    expect(subs.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Run Resource Subscriptions
+ *
+ * Implements `resources/subscribe` for run URIs (qase://{code}/run/{id}). While
+ * a run is subscribed, the server polls the run and its results in the
+ * background and sends `notifications/resources/updated` whenever the pass/fail
+ * counts change, so an agent can watch a long run without polling manually.
+ *
+ * Subscriptions belong to one Server instance — one per Streamable HTTP
+ * session — and are dropped when that server closes, so an evicted session
+ * never leaves a poller running.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { getApiClient } from '../client/index.js';
+import { toResultAsync, createToolError, formatApiError } from '../utils/errors.js';
+import { requestTokenStorage } from '../utils/auth-context.js';
+import { integrationStorage } from '../utils/integration-context.js';
+import { serverStorage } from '../utils/server-context.js';
+import { matchedCount, type ListPage } from '../utils/pagination.js';
+import { parseResourceUri } from './index.js';
+
+/** Default poll interval; override with QASE_MCP_SUBSCRIPTION_POLL_SECONDS. */
+const DEFAULT_POLL_SECONDS = 30;
+
+/** Runs one session may watch at once — each one costs two API calls per interval. */
+const MAX_SUBSCRIPTIONS = 20;
+
+/** Run stats counters that make up the progress signature. */
+const STAT_KEYS = [
+  'total',
+  'untested',
+  'passed',
+  'failed',
+  'blocked',
+  'skipped',
+  'retest',
+  'in_progress',
+  'invalid',
+] as const;
+
+/** What a poll observed: a comparable signature and whether the run has ended. */
+export interface RunProgress {
+  signature: string;
+  complete: boolean;
+}
+
+interface Subscription {
+  code: string;
+  id: number;
+  /** Token and integration marker of the subscribing request, replayed on every poll. */
+  token: string;
+  integration: string;
+  timer: ReturnType<typeof setInterval>;
+  lastSignature: string;
+  /** Guards against overlapping polls when the API is slower than the interval. */
+  polling: boolean;
+}
+
+function pollIntervalMs(): number {
+  const raw = process.env.QASE_MCP_SUBSCRIPTION_POLL_SECONDS;
+  const seconds = raw && /^\d+$/.test(raw) && Number(raw) > 0 ? Number(raw) : DEFAULT_POLL_SECONDS;
+  return seconds * 1000;
+}
+
+/**
+ * Fetch a run and its result count and reduce them to a progress signature.
+ * A failed results call only drops the count from the signature; a failed run
+ * call throws, since there is nothing to compare.
+ */
+export async function fetchRunProgress(code: string, id: number): Promise<RunProgress> {
+  const client = getApiClient();
+
+  const [runRes, resultsRes] = await Promise.all([
+    toResultAsync(client.runs.getRun(code, id)),
+    // getResults(code, status, run, caseId, member, api, fromEndTime, toEndTime, limit, offset)
+    toResultAsync(
+      client.results.getResults(
+        code,
+        undefined,
+        String(id),
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        1,
+        0,
+      ),
+    ),
+  ]);
+
+  const run = runRes.match(
+    (r) => r.data.result,
+    (e) => {
+      throw createToolError(e, 'run subscription');
+    },
+  );
+  const resultsTotal = resultsRes.match(
+    // `total` counts every result in the project; `filtered` only this run's
+    (r) => matchedCount(r.data.result as ListPage) ?? null,
+    () => null,
+  );
+
+  const stats: Record<string, unknown> = {};
+  for (const key of STAT_KEYS) stats[key] = run?.stats?.[key] ?? null;
+
+  const statusText = String(run?.status_text ?? '').toLowerCase();
+  const complete = Boolean(run?.end_time) || statusText === 'complete' || statusText === 'abort';
+
+  return {
+    signature: JSON.stringify({ status: run?.status ?? null, stats, results: resultsTotal }),
+    complete,
+  };
+}
+
+/**
+ * Per-server registry of watched runs.
+ */
+export class RunSubscriptions {
+  private subscriptions = new Map<string, Subscription>();
+  /** URIs whose subscribe is still loading its baseline, each with its own marker. */
+  private pending = new Map<string, symbol>();
+  private closed = false;
+
+  constructor(
+    private readonly server: Server,
+    private readonly intervalMs: number = pollIntervalMs(),
+  ) {}
+
+  /**
+   * Start watching a run URI. Takes a baseline snapshot first, so a bad URI
+   * or a missing run fails the subscribe request instead of a silent poller.
+   * Subscribing to an already-watched URI, or after the server closed, is a
+   * no-op.
+   */
+  async subscribe(uri: string): Promise<void> {
+    if (this.closed || this.subscriptions.has(uri) || this.pending.has(uri)) return;
+
+    const target = parseResourceUri(uri);
+    if (target.kind !== 'entity' || target.entity !== 'run' || typeof target.id !== 'number') {
+      throw new Error(
+        `Only run resources support subscriptions (qase://{code}/run/{id}), got "${uri}".`,
+      );
+    }
+    if (this.subscriptions.size + this.pending.size >= MAX_SUBSCRIPTIONS) {
+      throw new Error(
+        `At most ${MAX_SUBSCRIPTIONS} runs can be watched per session. Unsubscribe from one first.`,
+      );
+    }
+
+    const { code, id } = target;
+    const reservation = Symbol(uri);
+    this.pending.set(uri, reservation);
+    const baseline = await fetchRunProgress(code, id).catch((error) => {
+      if (this.pending.get(uri) === reservation) this.pending.delete(uri);
+      throw error;
+    });
+    // Unsubscribed, or the server closed, while the baseline loaded
+    if (this.pending.get(uri) !== reservation) return;
+    this.pending.delete(uri);
+
+    const subscription: Subscription = {
+      code,
+      id,
+      token: requestTokenStorage.getStore() ?? '',
+      integration: integrationStorage.getStore() ?? '',
+      timer: setInterval(() => {
+        this.poll(uri).catch(() => {});
+      }, this.intervalMs),
+      lastSignature: baseline.signature,
+      polling: false,
+    };
+    subscription.timer.unref(); // a watched run must not keep the process alive
+    this.subscriptions.set(uri, subscription);
+
+    console.error(`[Subscriptions] Watching ${uri} every ${this.intervalMs / 1000}s`);
+  }
+
+  /** Stop watching a URI. Unknown URIs are ignored. */
+  unsubscribe(uri: string): void {
+    this.pending.delete(uri);
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription) return;
+    clearInterval(subscription.timer);
+    this.subscriptions.delete(uri);
+    console.error(`[Subscriptions] Stopped watching ${uri}`);
+  }
+
+  /** URIs currently watched. */
+  list(): string[] {
+    return [...this.subscriptions.keys()];
+  }
+
+  /** Drop every subscription. Called when the owning server closes. */
+  close(): void {
+    this.closed = true;
+    this.pending.clear();
+    for (const uri of this.list()) this.unsubscribe(uri);
+  }
+
+  /**
+   * Poll one subscription and notify on change. Runs in the subscriber's token,
+   * integration, and server context, since no request is in flight. A completed
+   * run gets its final notification and is then dropped. Poll failures are
+   * logged and retried on the next tick.
+   *
+   * @internal exposed for tests
+   */
+  async poll(uri: string): Promise<void> {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription || subscription.polling) return;
+    subscription.polling = true;
+
+    try {
+      const progress = await requestTokenStorage.run(subscription.token, () =>
+        integrationStorage.run(subscription.integration, () =>
+          serverStorage.run(this.server, () =>
+            fetchRunProgress(subscription.code, subscription.id),
+          ),
+        ),
+      );
+
+      if (progress.signature !== subscription.lastSignature) {
+        subscription.lastSignature = progress.signature;
+        await this.server.sendResourceUpdated({ uri });
+      }
+
+      if (progress.complete) this.unsubscribe(uri);
+    } catch (error) {
+      console.error(`[Subscriptions] Poll failed for ${uri}:`, formatApiError(error));
+    } finally {
+      subscription.polling = false;
+    }
+  }
+}
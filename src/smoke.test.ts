@@ -315,9 +315,9 @@ describe('Tool Smoke Tests', () => {
     allToolNames = allTools.map((t) => t.name);
   });
 
-  it('should have ~35 tools registered (v2 tool set + reviews + discover)', () => {
+  it('should have ~50 tools registered (v2 tool set + reviews + composites + discover)', () => {
     expect(allTools.length).toBeGreaterThanOrEqual(25);
-    expect(allTools.length).toBeLessThanOrEqual(40);
+    expect(allTools.length).toBeLessThanOrEqual(60);
     console.error(`[Smoke] Found ${allTools.length} registered tools (${toolRegistry.getTools().length} core)`);
   });
 
@@ -325,18 +325,28 @@ describe('Tool Smoke Tests', () => {
     const expectedTools = [
       'qase_project_context',
       'qase_get',
+      'qase_list',
+      'qase_suite_tree',
       'qql_search',
       'qql_help',
+      'qql_build',
       'qase_case_upsert',
       'qase_case_bulk_create',
+      'qase_case_bulk_update',
+      'qase_case_move',
+      'qase_case_clone',
       'qase_case_delete',
+      'qase_case_bulk_delete',
       'qase_run_upsert',
       'qase_run_complete',
       'qase_run_delete',
+      'qase_run_bulk_delete',
       'qase_result_record',
       'qase_result_delete',
+      'qase_result_bulk_delete',
       'qase_defect_upsert',
       'qase_defect_delete',
+      'qase_defect_bulk_delete',
       'qase_suite_upsert',
       'qase_suite_delete',
       'qase_milestone_upsert',
@@ -354,6 +364,15 @@ describe('Tool Smoke Tests', () => {
       'qase_ci_report',
       'qase_triage_defect',
       'qase_regression_run',
+      'qase_import_junit',
+      'qase_import_report',
+      'qase_flaky_report',
+      'qase_run_compare',
+      'qase_release_readiness',
+      'qase_coverage_matrix',
+      'qase_find_duplicates',
+      'qase_case_lint',
+      'qase_undo',
       'qase_discover_tools',
     ];
     for (const name of expectedTools) {
@@ -366,8 +385,11 @@ describe('Tool Smoke Tests', () => {
     const expectedCore = [
       'qase_project_context',
       'qase_get',
+      'qase_list',
+      'qase_suite_tree',
       'qql_search',
       'qql_help',
+      'qql_build',
       'qase_case_upsert',
       'qase_run_upsert',
       'qase_result_record',
@@ -390,7 +412,11 @@ describe('Tool Smoke Tests', () => {
     const coreTools = toolRegistry.getTools().map((t) => t.name);
     const discoverableTools = [
       'qase_case_bulk_create',
+      'qase_case_bulk_update',
+      'qase_case_move',
+      'qase_case_clone',
       'qase_case_delete',
+      'qase_case_bulk_delete',
       'qase_suite_upsert',
       'qase_suite_delete',
       'qase_milestone_upsert',
@@ -403,10 +429,22 @@ describe('Tool Smoke Tests', () => {
       'qase_environment_delete',
       'qase_run_complete',
       'qase_run_delete',
+      'qase_run_bulk_delete',
       'qase_result_delete',
+      'qase_result_bulk_delete',
       'qase_defect_delete',
+      'qase_defect_bulk_delete',
       'qase_attachment_delete',
       'qase_external_issue_link',
+      'qase_import_junit',
+      'qase_import_report',
+      'qase_flaky_report',
+      'qase_run_compare',
+      'qase_release_readiness',
+      'qase_coverage_matrix',
+      'qase_find_duplicates',
+      'qase_case_lint',
+      'qase_undo',
     ];
     for (const name of discoverableTools) {
       expect(coreTools).not.toContain(name);
@@ -34,6 +34,16 @@ interface SystemFieldResponse {
 
 type SystemFieldMap = Record<string, Record<string, number>>;
 
+/** Option labels per system field slug, keyed by option ID. */
+export type SystemFieldLabels = Record<string, Record<string, string>>;
+
+/** The automation options every workspace has, for when system fields cannot be loaded. */
+export const DEFAULT_AUTOMATION_LABELS: Record<string, string> = {
+  '0': 'Manual',
+  '1': 'To be automated',
+  '2': 'Automated',
+};
+
 // System fields are workspace-level config (priority, severity, status options,
 // etc.) that change on the order of hours to days when an admin reconfigures
 // the workspace. 5 minutes balances freshness against API call frequency; do
@@ -66,27 +76,50 @@ function buildFieldLookup(entry: SystemFieldResponse): Record<string, number> |
   return out;
 }
 
-function systemFieldsKey(): string {
+function buildFieldLabels(entry: SystemFieldResponse): Record<string, string> | undefined {
+  if (!entry.options || entry.options.length === 0) return undefined;
+  const out: Record<string, string> = {};
+  for (const opt of entry.options) {
+    out[opt.id.toString()] = opt.title || opt.slug;
+  }
+  return out;
+}
+
+function systemFieldsKey(resource = 'system_fields'): string {
   const token = getEffectiveToken();
   const host = process.env.QASE_API_DOMAIN || 'api.qase.io';
   return buildCacheKey({
     host,
     tenantId: hashToken(token),
-    resource: 'system_fields',
+    resource,
   });
 }
 
-async function fetchSystemFieldMaps(): Promise<SystemFieldMap> {
+const systemFieldLabelsKey = () => systemFieldsKey('system_field_labels');
+
+/**
+ * Fetch system fields once and cache both views of them: the label → ID
+ * lookups used to normalise input, and the ID → label maps used to decode
+ * output.
+ */
+async function fetchSystemFields(): Promise<{ map: SystemFieldMap; labels: SystemFieldLabels }> {
   const client = getApiClient();
   const response = await client.systemFields.getSystemFields();
   const map: SystemFieldMap = {};
+  const labels: SystemFieldLabels = {};
 
   for (const entry of response.data.result as SystemFieldResponse[]) {
     const slug = entry.slug.toLowerCase();
     const lookup = buildFieldLookup(entry);
     if (lookup) map[slug] = lookup;
+    const fieldLabels = buildFieldLabels(entry);
+    if (fieldLabels) labels[slug] = fieldLabels;
   }
-  return map;
+
+  const cache = await getCache();
+  await cache.set(systemFieldsKey(), map, SYSTEM_FIELDS_TTL_MS);
+  await cache.set(systemFieldLabelsKey(), labels, SYSTEM_FIELDS_TTL_MS);
+  return { map, labels };
 }
 
 /**
@@ -106,9 +139,20 @@ async function getSystemFieldMaps(): Promise<SystemFieldMap> {
   const cached = await cache.get<SystemFieldMap>(key);
   if (cached) return cached;
 
-  const fresh = await fetchSystemFieldMaps();
-  await cache.set(key, fresh, SYSTEM_FIELDS_TTL_MS);
-  return fresh;
+  return (await fetchSystemFields()).map;
+}
+
+/**
+ * Option labels for each system field, keyed by slug and then option ID —
+ * for turning the numeric enum IDs the API returns back into labels.
+ * Cached alongside the lookups `normalizeCaseEnums` uses.
+ */
+export async function getSystemFieldLabels(): Promise<SystemFieldLabels> {
+  const cache = await getCache();
+  const cached = await cache.get<SystemFieldLabels>(systemFieldLabelsKey());
+  if (cached) return cached;
+
+  return (await fetchSystemFields()).labels;
 }
 
 export async function normalizeCaseEnums<T extends Record<string, unknown>>(
@@ -138,4 +182,5 @@ export async function __setCaseEnumCacheForTest(snapshot: SystemFieldMap): Promi
 export async function resetCaseEnumCacheForTest(): Promise<void> {
   const cache = await getCache();
   await cache.delete(systemFieldsKey());
+  await cache.delete(systemFieldLabelsKey());
 }
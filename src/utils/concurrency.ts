@@ -0,0 +1,33 @@
+/**
+ * Concurrency Utilities
+ *
+ * The bulk tools act on hundreds of entities one API call each; running them
+ * a few at a time keeps a batch fast without tripping the API's rate limit.
+ */
+
+/**
+ * Run `task` over `items` with at most `limit` calls in flight and return the
+ * results in input order. A task that throws rejects the whole batch, so tasks
+ * that should not stop the others catch their own errors. `onSettled` is
+ * called after each item with the number finished so far, for progress.
+ */
+export async function mapBounded<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  onSettled?: (done: number) => Promise<void> | void,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+      await onSettled?.(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
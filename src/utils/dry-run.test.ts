@@ -0,0 +1,78 @@
+/**
+ * Dry Run Tests
+ *
+ * runDryRun reports the requests a handler would send. Capturing itself is
+ * the HTTP layer's job (see http/dry-run.test.ts); here the handler pushes
+ * into the dry-run log directly, as the adapter would.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { getDryRun, runDryRun } from './dry-run.js';
+import { ToolExecutionError } from './errors.js';
+import { richResult, summaryBlock } from './rich-response.js';
+
+function send(method: string, path: string, body?: unknown) {
+  getDryRun()!.push({ method, path, ...(body !== undefined ? { body } : {}) });
+}
+
+describe('runDryRun', () => {
+  it('lists every captured request with its body', async () => {
+    const result = await runDryRun('qase_ci_report', async () => {
+      send('POST', '/v1/run/DEMO', { title: 'Nightly', cases: [1] });
+      send('POST', '/v1/result/DEMO/0/bulk', { results: [] });
+      return { run_id: 0 };
+    });
+
+    const summary = result.content[0].text;
+    expect(summary).toContain('would send 2 requests');
+    expect(summary).toContain('1. `POST /v1/run/DEMO`');
+    expect(summary).toContain('"title": "Nightly"');
+    expect(result.structuredContent).toMatchObject({
+      run_id: 0,
+      dry_run: true,
+      requests: [
+        { method: 'POST', path: '/v1/run/DEMO' },
+        { method: 'POST', path: '/v1/result/DEMO/0/bulk' },
+      ],
+    });
+  });
+
+  it("keeps a rich handler's structured content", async () => {
+    const result = await runDryRun('qase_import_report', async () => {
+      send('POST', '/v1/run/DEMO');
+      return richResult([summaryBlock('done')], { run_id: 0, unmatched: [] });
+    });
+
+    expect(result.structuredContent).toMatchObject({ run_id: 0, unmatched: [], dry_run: true });
+  });
+
+  it('says so when nothing would be sent', async () => {
+    const result = await runDryRun('qase_case_upsert', async () => ({}));
+
+    expect(result.content[0].text).toContain('would not change anything');
+    expect(result.structuredContent).toEqual({ dry_run: true, requests: [] });
+  });
+
+  it('rethrows failures that happen before any request', async () => {
+    await expect(
+      runDryRun('qase_case_upsert', async () => {
+        throw new ToolExecutionError('title is required');
+      }),
+    ).rejects.toThrow('title is required');
+  });
+
+  it('reports a later failure next to the requests captured so far', async () => {
+    const result = await runDryRun('qase_import_report', async () => {
+      send('POST', '/v1/case/DEMO/bulk', { cases: [] });
+      throw new ToolExecutionError('Created 0 cases, expected 2');
+    });
+
+    expect(result.content[0].text).toContain('1. `POST /v1/case/DEMO/bulk`');
+    expect(result.content[0].text).toContain('stopped before finishing:** Created 0 cases');
+  });
+
+  it('is only active inside the run', async () => {
+    await runDryRun('qase_api', async () => expect(getDryRun()).toEqual([]));
+    expect(getDryRun()).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ToolExecutionError, formatApiError } from './errors.js';
+import { compactResponse } from './response-shape.js';
+import { isRichResult, richResult, summaryBlock, dataBlock } from './rich-response.js';
+
+/**
+ * A mutating API request a tool would have sent, captured instead of sent.
+ * `path` is relative to the API host (`/v1/case/DEMO`).
+ */
+export interface PlannedRequest {
+  method: string;
+  path: string;
+  query?: Record<string, unknown>;
+  body?: unknown;
+}
+
+/**
+ * Per-call dry-run storage.
+ *
+ * While a tool call runs inside `dryRunStorage.run(requests, …)`, the HTTP
+ * layer (see http/dry-run.ts) records every POST/PUT/PATCH/DELETE into
+ * `requests` and answers it with a placeholder instead of sending it. GETs
+ * still go out, so lookups the tool needs to build its payload — enum
+ * resolution, shared step refs, existing entities — behave exactly as in a
+ * real call.
+ *
+ * Same shape and lifecycle as requestTokenStorage in auth-context.ts.
+ */
+export const dryRunStorage = new AsyncLocalStorage<PlannedRequest[]>();
+
+/** The request log of the current dry run, or undefined outside one. */
+export function getDryRun(): PlannedRequest[] | undefined {
+  return dryRunStorage.getStore();
+}
+
+/**
+ * Run a tool handler as a dry run and describe what it would have sent.
+ *
+ * The handler runs to completion against placeholder write responses, so a
+ * multi-step tool reports every request, not just the first. Its own output
+ * is kept only as structured content (tools with an outputSchema must still
+ * match it) — the IDs in it are placeholders.
+ *
+ * A failure before anything was captured (validation, a failed lookup) is
+ * rethrown as-is; a failure afterwards is reported alongside the requests.
+ */
+export async function runDryRun(toolName: string, run: () => Promise<unknown>) {
+  const requests: PlannedRequest[] = [];
+  let output: unknown;
+  let failure: string | undefined;
+  try {
+    output = await dryRunStorage.run(requests, run);
+  } catch (error) {
+    if (requests.length === 0) throw error;
+    failure = error instanceof ToolExecutionError ? error.toUserMessage() : formatApiError(error);
+  }
+
+  const lines = [`## Dry run: ${toolName}`, ''];
+  if (requests.length === 0) {
+    lines.push('Nothing was sent to Qase. This call would not change anything.');
+  } else {
+    lines.push(
+      `Nothing was sent to Qase. This call would send ${requests.length} ` +
+        `request${requests.length === 1 ? '' : 's'}:`,
+    );
+    requests.forEach((r, i) => {
+      const query = r.query ? `?${new URLSearchParams(r.query as Record<string, string>)}` : '';
+      lines.push('', `${i + 1}. \`${r.method} ${r.path}${query}\``);
+      if (r.body !== undefined) {
+        lines.push('', '```json', JSON.stringify(r.body, null, 2), '```');
+      }
+    });
+    lines.push(
+      '',
+      'Later requests may use placeholder IDs (0) where the real call would use IDs ' +
+        'returned by earlier ones.',
+    );
+  }
+  if (failure) {
+    lines.push('', `**The tool stopped before finishing:** ${failure}`);
+  }
+
+  const handlerData = isRichResult(output) ? output.structuredContent : compactResponse(output);
+  const structured = {
+    ...(handlerData && typeof handlerData === 'object' && !Array.isArray(handlerData)
+      ? (handlerData as Record<string, unknown>)
+      : {}),
+    dry_run: true,
+    requests,
+  };
+
+  return richResult(
+    [summaryBlock(lines.join('\n')), dataBlock({ dry_run: true, requests })],
+    structured,
+  );
+}
@@ -8,16 +8,86 @@
 
 import type { OutputSchema } from './registry.js';
 
+/** Chunk-by-chunk outcome of a result upload; shared by the run-reporting composites. */
+const UploadReportProperties = {
+  upload: {
+    type: 'object',
+    description: 'Per-chunk outcome of recording the results',
+    properties: {
+      total: { type: 'integer' },
+      recorded: { type: 'integer' },
+      failed: { type: 'integer' },
+      chunks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer' },
+            offset: { type: 'integer', description: 'Position of the first result in the chunk' },
+            count: { type: 'integer' },
+            status: { type: 'string', enum: ['recorded', 'failed', 'skipped'] },
+            attempts: { type: 'integer' },
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  resume_token: {
+    type: 'string',
+    description: 'Present when results were not recorded; pass it back to finish the upload',
+  },
+};
+
 export const CiReportOutput: OutputSchema = {
   type: 'object',
   properties: {
     run_id: { type: 'integer', description: 'Created run ID' },
     run_status: { type: 'string', enum: ['active', 'complete', 'complete_failed'] },
     results_recorded: { type: 'integer', description: 'Number of results recorded' },
+    ...UploadReportProperties,
   },
   required: ['run_id', 'run_status', 'results_recorded'],
 };
 
+export const ImportReportOutput: OutputSchema = {
+  type: 'object',
+  properties: {
+    run_id: { type: 'integer', description: 'Created run ID' },
+    run_status: { type: 'string', enum: ['active', 'complete', 'complete_failed'] },
+    results_recorded: { type: 'integer', description: 'Number of results recorded' },
+    formats: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Report formats found (junit, trx, nunit, xunit, cucumber, allure)',
+    },
+    matched_by_marker: { type: 'integer', description: 'Tests mapped by a Qase ID marker' },
+    matched_by_title: {
+      type: 'integer',
+      description: 'Tests mapped to a case with the same title',
+    },
+    created_case_ids: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: 'Cases created for unmatched tests',
+    },
+    unmatched: {
+      type: 'array',
+      description: 'Tests left out of the run because no case matched',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          classname: { type: 'string' },
+          reason: { type: 'string', enum: ['no_match', 'ambiguous_title'] },
+        },
+      },
+    },
+    ...UploadReportProperties,
+  },
+  required: ['run_id', 'run_status', 'results_recorded', 'unmatched'],
+};
+
 export const RegressionRunOutput: OutputSchema = {
   type: 'object',
   properties: {
@@ -42,6 +112,15 @@ export const QqlSearchOutput: OutputSchema = {
   properties: {
     total: { type: 'integer', description: 'Total matching entities' },
     entities: { type: 'array', description: 'Matching entities', items: { type: 'object' } },
+    coverage: {
+      type: 'object',
+      description: 'With all: true — rows loaded against the total, and whether any were left out',
+      properties: {
+        total: { type: 'integer' },
+        loaded: { type: 'integer' },
+        truncated: { type: 'boolean' },
+      },
+    },
   },
   required: ['total', 'entities'],
 };
@@ -0,0 +1,64 @@
+/**
+ * Pagination Utilities
+ *
+ * Shared paging loop for Qase list endpoints, which all answer with
+ * `{ total, filtered, count, entities }` and take `limit` / `offset`.
+ */
+
+/** Entities requested per API call. 100 is the largest page the Qase API serves. */
+export const PAGE_SIZE = 100;
+
+/**
+ * Hard cap on pages fetched per collection. A collection with more entities
+ * than this still reports the true `total`, so the truncation stays visible
+ * instead of silently capping.
+ */
+export const MAX_PAGES = 50;
+
+/**
+ * A Qase list endpoint response: `{ total, filtered, count, entities }`.
+ * `total` is the size of the whole collection; `filtered` counts what the
+ * request's filters matched.
+ */
+export type ListPage = { total?: number; filtered?: number; entities?: unknown[] } | null;
+
+/** Entities a list request matched: `filtered`, falling back to `total`. */
+export function matchedCount(page: ListPage): number | undefined {
+  return page?.filtered ?? page?.total;
+}
+
+/**
+ * Fetch the first page of a collection, then keep paging while the API reports
+ * more entities than collected. Returns the shape of a single list response with
+ * `entities` holding everything fetched.
+ *
+ * Paging stops at the number of matching entities (`filtered`, else `total`).
+ * `startOffset` resumes a listing part-way through; `total` stays the size of
+ * the whole collection. `onPage` is called after each page with the number of
+ * entities collected so far, for progress reporting.
+ */
+export async function fetchAll(
+  fetchPage: (limit: number, offset: number) => Promise<ListPage>,
+  maxPages: number = MAX_PAGES,
+  startOffset: number = 0,
+  onPage?: (loaded: number, total: number) => Promise<void> | void,
+): Promise<ListPage> {
+  const first = await fetchPage(PAGE_SIZE, startOffset);
+  if (!first) return null;
+
+  const entities = [...(first.entities ?? [])];
+  const total = matchedCount(first) ?? startOffset + entities.length;
+  await onPage?.(entities.length, total);
+
+  for (let page = 1; startOffset + entities.length < total && page < maxPages; page++) {
+    const next = await fetchPage(PAGE_SIZE, startOffset + page * PAGE_SIZE);
+    const batch = next?.entities ?? [];
+    // No progress (empty page or an endpoint ignoring offset) — stop rather than
+    // spin until the page cap.
+    if (batch.length === 0) break;
+    entities.push(...batch);
+    await onPage?.(entities.length, total);
+  }
+
+  return { ...first, entities };
+}
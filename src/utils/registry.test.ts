@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
-import { ToolRegistry } from './registry.js';
+import { ToolRegistry, ReadAnnotation, CreateAnnotation, DeleteAnnotation } from './registry.js';
 import { z } from 'zod';
 
 describe('ToolRegistry', () => {
@@ -333,10 +333,32 @@ describe('ToolRegistry', () => {
     const handler = jest.fn();
 
     beforeEach(() => {
-      registry.register({ name: 'qase_case_delete', description: 'Delete a test case', schema, handler, visibility: 'discoverable' });
-      registry.register({ name: 'qase_case_upsert', description: 'Create or update a test case', schema, handler });
-      registry.register({ name: 'qase_run_delete', description: 'Delete a test run', schema, handler, visibility: 'discoverable' });
-      registry.register({ name: 'qql_search', description: 'Search entities using QQL', schema, handler });
+      registry.register({
+        name: 'qase_case_delete',
+        description: 'Delete a test case',
+        schema,
+        handler,
+        visibility: 'discoverable',
+      });
+      registry.register({
+        name: 'qase_case_upsert',
+        description: 'Create or update a test case',
+        schema,
+        handler,
+      });
+      registry.register({
+        name: 'qase_run_delete',
+        description: 'Delete a test run',
+        schema,
+        handler,
+        visibility: 'discoverable',
+      });
+      registry.register({
+        name: 'qql_search',
+        description: 'Search entities using QQL',
+        schema,
+        handler,
+      });
     });
 
     it('searches by tool name (case-insensitive)', () => {
@@ -393,7 +415,13 @@ describe('ToolRegistry', () => {
       const schema = z.object({});
       const handler = jest.fn();
       registry.register({ name: 'a', description: 'a', schema, handler });
-      registry.register({ name: 'b', description: 'b', schema, handler, visibility: 'discoverable' });
+      registry.register({
+        name: 'b',
+        description: 'b',
+        schema,
+        handler,
+        visibility: 'discoverable',
+      });
       registry.activateTools(['b']);
 
       registry.clear();
@@ -403,4 +431,132 @@ describe('ToolRegistry', () => {
       expect(registry.getToolCount()).toBe(0);
     });
   });
+
+  describe('confirmation preparers', () => {
+    const schema = z.object({});
+    const prepareConfirmation = jest.fn();
+
+    it('are dropped with the tool by unregister and clear', () => {
+      registry.register({
+        name: 'a',
+        description: 'a',
+        schema,
+        handler: jest.fn(),
+        prepareConfirmation,
+      });
+      registry.register({
+        name: 'b',
+        description: 'b',
+        schema,
+        handler: jest.fn(),
+        prepareConfirmation,
+      });
+      expect(registry.getConfirmationPreparer('a')).toBe(prepareConfirmation);
+
+      registry.unregister('a');
+      expect(registry.getConfirmationPreparer('a')).toBeUndefined();
+      expect(registry.getConfirmationPreparer('b')).toBe(prepareConfirmation);
+
+      registry.clear();
+      expect(registry.getConfirmationPreparer('b')).toBeUndefined();
+    });
+  });
+
+  describe('read-only mode', () => {
+    const schema = z.object({});
+    const handler = jest.fn();
+
+    beforeEach(() => {
+      registry.register({
+        name: 'reader',
+        description: 'r',
+        schema,
+        handler,
+        annotations: ReadAnnotation,
+      });
+      registry.register({
+        name: 'writer',
+        description: 'w',
+        schema,
+        handler,
+        annotations: CreateAnnotation,
+      });
+      registry.register({
+        name: 'deleter',
+        description: 'd',
+        schema,
+        handler,
+        annotations: DeleteAnnotation,
+        visibility: 'discoverable',
+      });
+      registry.register({ name: 'unannotated', description: 'u', schema, handler });
+      registry.register({
+        name: 'guarded',
+        description: 'g',
+        schema,
+        handler,
+        annotations: CreateAnnotation,
+        guardsReadOnly: true,
+      });
+      registry.setReadOnly(true);
+    });
+
+    it('lists only read-only tools and tools that guard the mode themselves', () => {
+      expect(registry.isReadOnly()).toBe(true);
+      expect(registry.getTools().map((t) => t.name)).toEqual(['guarded', 'reader']);
+      expect(registry.getAllTools().map((t) => t.name)).toEqual(['guarded', 'reader']);
+      expect(registry.isExposed('writer')).toBe(false);
+      expect(registry.isExposed('unannotated')).toBe(false);
+    });
+
+    it('keeps hidden tools out of search and activation', () => {
+      expect(registry.searchTools('er').map((t) => t.name)).toEqual(['reader']);
+      expect(registry.activateTools(['deleter', 'writer'])).toEqual([]);
+    });
+
+    it('restores the full surface when switched off', () => {
+      registry.setReadOnly(false);
+
+      expect(registry.getTools()).toHaveLength(4);
+      expect(registry.isExposed('writer')).toBe(true);
+    });
+  });
+
+  describe('dry_run argument', () => {
+    const schema = z.object({ code: z.string() });
+    const handler = jest.fn();
+
+    it('is added to every tool that may write, and only those', () => {
+      registry.register({
+        name: 'reader',
+        description: 'r',
+        schema,
+        handler,
+        annotations: ReadAnnotation,
+      });
+      registry.register({
+        name: 'writer',
+        description: 'w',
+        schema,
+        handler,
+        annotations: CreateAnnotation,
+      });
+      registry.register({
+        name: 'deleter',
+        description: 'd',
+        schema,
+        handler,
+        annotations: DeleteAnnotation,
+      });
+
+      const props = (name: string) =>
+        Object.keys(registry.getTool(name)!.inputSchema.properties ?? {});
+      expect(props('reader')).toEqual(['code']);
+      expect(props('writer')).toEqual(['code', 'dry_run']);
+      expect(props('deleter')).toEqual(['code', 'dry_run']);
+      expect(registry.supportsDryRun('writer')).toBe(true);
+      expect(registry.supportsDryRun('reader')).toBe(false);
+      expect(registry.supportsDryRun('missing')).toBe(false);
+    });
+  });
 });
@@ -12,6 +12,7 @@
 import { Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import { isToolAllowed, type ToolFilter } from './tool-filter.js';
 
 /**
  * Tool handler function type
@@ -42,8 +43,35 @@ export interface ToolDefinition<T extends z.ZodType = z.ZodType> {
   outputSchema?: OutputSchema;
   /** Tool visibility: 'core' tools are always listed, 'discoverable' tools require activation via qase_discover_tools */
   visibility?: 'core' | 'discoverable';
+  /**
+   * The tool is not read-only by annotation but enforces read-only mode itself
+   * (qase_api refuses anything but GET), so it stays exposed in that mode.
+   */
+  guardsReadOnly?: boolean;
+  /**
+   * Destructive tools only: runs before the confirmation prompt and returns the
+   * prompt's message, replacing the argument listing, along with the arguments
+   * the handler then receives. Lets a tool resolve a filter once, show the user
+   * what it matched, and act on exactly that.
+   */
+  prepareConfirmation?: ConfirmationPreparer;
 }
 
+export type ConfirmationPreparer = (args: Record<string, unknown>) => Promise<PreparedConfirmation>;
+
+export interface PreparedConfirmation {
+  message: string;
+  args: Record<string, unknown>;
+}
+
+/** JSON Schema of the `dry_run` argument added to every write tool. */
+const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  description:
+    'Preview only: return the API requests (method, path, body) this call would send, ' +
+    'after all normalisation, without changing anything in Qase. Default: false',
+};
+
 /**
  * Tool Registry Class
  * Manages the lifecycle of MCP tools with support for dynamic discovery
@@ -53,6 +81,10 @@ export class ToolRegistry {
   private handlers: Map<string, ToolHandler> = new Map();
   private activeTools: Set<string> = new Set();
   private toolVisibility: Map<string, 'core' | 'discoverable'> = new Map();
+  private readOnlyGuarded: Set<string> = new Set();
+  private confirmationPreparers: Map<string, ConfirmationPreparer> = new Map();
+  private readOnly = false;
+  private filter: ToolFilter = { allow: [], deny: [] };
 
   /** Callback invoked when the active tool set changes (wired to server.sendToolListChanged) */
   onToolsChanged?: () => void;
@@ -109,6 +141,15 @@ export class ToolRegistry {
       };
     }
 
+    // Every tool that may write accepts dry_run; the server strips it before the
+    // handler runs and captures the requests instead of sending them
+    if (annotations?.readOnlyHint !== true) {
+      inputSchema = {
+        ...inputSchema,
+        properties: { ...(inputSchema.properties as object), dry_run: DRY_RUN_PROPERTY },
+      };
+    }
+
     // Store tool definition
     this.tools.set(name, {
       name,
@@ -123,6 +164,12 @@ export class ToolRegistry {
 
     // Track visibility and activation
     this.toolVisibility.set(name, visibility);
+    if (definition.guardsReadOnly) {
+      this.readOnlyGuarded.add(name);
+    }
+    if (definition.prepareConfirmation) {
+      this.confirmationPreparers.set(name, definition.prepareConfirmation);
+    }
     if (visibility === 'core') {
       this.activeTools.add(name);
     }
@@ -131,24 +178,65 @@ export class ToolRegistry {
     console.error(`[Registry] Registered tool: ${name} (${visibility})`);
   }
 
+  /**
+   * Whether a tool accepts the `dry_run` argument (every tool not annotated
+   * `readOnlyHint: true`).
+   */
+  supportsDryRun(name: string): boolean {
+    const tool = this.tools.get(name);
+    return tool !== undefined && tool.annotations?.readOnlyHint !== true;
+  }
+
+  /**
+   * Switch read-only mode on or off.
+   * In read-only mode only tools annotated `readOnlyHint: true` (and tools that
+   * guard read-only mode themselves) are listed, discoverable, or callable.
+   */
+  setReadOnly(enabled: boolean): void {
+    this.readOnly = enabled;
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  /**
+   * Set the allow/deny filter (QASE_MCP_TOOLS_ALLOW / QASE_MCP_TOOLS_DENY).
+   * Filtered tools are never listed, found, activated, or callable, so
+   * discovery cannot re-enable them.
+   */
+  setToolFilter(filter: ToolFilter): void {
+    this.filter = filter;
+  }
+
+  /**
+   * Whether a registered tool may be listed and called under the current mode
+   * and filter. Used by the CallToolRequestSchema handler to refuse calls to
+   * hidden tools.
+   */
+  isExposed(name: string): boolean {
+    const tool = this.tools.get(name);
+    if (!tool || !isToolAllowed(tool, this.filter)) return false;
+    if (!this.readOnly) return true;
+    return tool.annotations?.readOnlyHint === true || this.readOnlyGuarded.has(name);
+  }
+
   /**
    * Get active tools only (core + activated discoverable)
    * Used by the ListToolsRequestSchema handler
    */
   getTools(): Tool[] {
-    return Array.from(this.tools.values())
-      .filter((t) => this.activeTools.has(t.name))
-      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    return this.getAllTools().filter((t) => this.activeTools.has(t.name));
   }
 
   /**
-   * Get ALL registered tools regardless of activation status.
+   * Get ALL exposed tools regardless of activation status.
    * Used for discovery search and testing.
    */
   getAllTools(): Tool[] {
-    return Array.from(this.tools.values()).sort((a, b) =>
-      a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
-    );
+    return Array.from(this.tools.values())
+      .filter((t) => this.isExposed(t.name))
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
   }
 
   /**
@@ -172,7 +260,7 @@ export class ToolRegistry {
   activateTools(names: string[]): string[] {
     const newlyActivated: string[] = [];
     for (const name of names) {
-      if (this.tools.has(name) && !this.activeTools.has(name)) {
+      if (this.isExposed(name) && !this.activeTools.has(name)) {
         this.activeTools.add(name);
         newlyActivated.push(name);
       }
@@ -193,6 +281,13 @@ export class ToolRegistry {
     return this.handlers.get(name);
   }
 
+  /**
+   * Get the hook that prepares a tool's confirmation prompt, if it has one
+   */
+  getConfirmationPreparer(name: string): ConfirmationPreparer | undefined {
+    return this.confirmationPreparers.get(name);
+  }
+
   /**
    * Get a specific tool definition by name
    */
@@ -229,6 +324,8 @@ export class ToolRegistry {
     this.handlers.delete(name);
     this.activeTools.delete(name);
     this.toolVisibility.delete(name);
+    this.readOnlyGuarded.delete(name);
+    this.confirmationPreparers.delete(name);
     return hadTool;
   }
 
@@ -242,6 +339,8 @@ export class ToolRegistry {
     this.handlers.clear();
     this.activeTools.clear();
     this.toolVisibility.clear();
+    this.readOnlyGuarded.clear();
+    this.confirmationPreparers.clear();
   }
 }
 
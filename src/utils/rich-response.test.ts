@@ -8,6 +8,7 @@ import {
   richResult,
   summaryBlock,
   dataBlock,
+  csvTable,
 } from './rich-response.js';
 
 describe('Rich Response Utilities', () => {
@@ -107,6 +108,21 @@ describe('Rich Response Utilities', () => {
     });
   });
 
+  describe('csvTable', () => {
+    it('joins rows with CRLF and quotes only the fields that need it', () => {
+      const csv = csvTable(
+        ['Suite', 'Cases'],
+        [
+          ['Auth, login', '3'],
+          ['Say "hi"', '1'],
+          ['Plain', ''],
+        ],
+      );
+
+      expect(csv).toBe('Suite,Cases\r\n"Auth, login",3\r\n"Say ""hi""",1\r\nPlain,');
+    });
+  });
+
   describe('integration: richResult with mixed blocks', () => {
     it('combines summary and data blocks correctly', () => {
       const result = richResult([
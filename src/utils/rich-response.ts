@@ -121,3 +121,13 @@ export function markdownTable(headers: string[], rows: string[][], align?: strin
 
   return [headerRow, sepRow, ...dataRows].join('\n');
 }
+
+/**
+ * Build RFC 4180 CSV: fields with a comma, quote, or line break are quoted,
+ * and quotes inside them doubled. Lines end with CRLF.
+ */
+export function csvTable(headers: string[], rows: string[][]): string {
+  const field = (value: string) =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [headers, ...rows].map((r) => r.map((c) => field(c ?? '')).join(',')).join('\r\n');
+}
@@ -5,7 +5,14 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
-import { serverStorage, getServer, confirmDestructiveAction } from './server-context.js';
+import {
+  serverStorage,
+  getServer,
+  confirmDestructiveAction,
+  requestDestructiveConfirmation,
+  progressStorage,
+  reportProgress,
+} from './server-context.js';
 
 // Minimal mock of the Server interface — only the methods we use
 function createMockServer(overrides: {
@@ -67,85 +74,88 @@ describe('Server Context', () => {
     });
   });
 
-  describe('confirmDestructiveAction', () => {
-    it('returns true when no server in context', async () => {
-      const result = await confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 });
-      expect(result).toBe(true);
+  describe('requestDestructiveConfirmation', () => {
+    it('returns unavailable when no server in context', async () => {
+      const result = await requestDestructiveConfirmation('qase_case_delete', {
+        code: 'TEST',
+        id: 1,
+      });
+      expect(result).toBe('unavailable');
     });
 
-    it('returns true when client does not support elicitation', async () => {
+    it('returns unavailable when client does not support elicitation', async () => {
       const server = createMockServer({ elicitation: false });
 
       const result = await serverStorage.run(server, () =>
-        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 }),
+        requestDestructiveConfirmation('qase_case_delete', { code: 'TEST', id: 1 }),
       );
 
-      expect(result).toBe(true);
+      expect(result).toBe('unavailable');
       expect(server.elicitInput).not.toHaveBeenCalled();
     });
 
-    it('returns true when user confirms (accept + confirm=true)', async () => {
+    it('returns accepted when user confirms (accept + confirm=true)', async () => {
       const server = createMockServer({
         elicitResult: { action: 'accept', content: { confirm: true } },
       });
 
       const result = await serverStorage.run(server, () =>
-        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 42 }),
+        requestDestructiveConfirmation('qase_case_delete', { code: 'TEST', id: 42 }),
       );
 
-      expect(result).toBe(true);
+      expect(result).toBe('accepted');
       expect(server.elicitInput).toHaveBeenCalledTimes(1);
       // Verify the elicitation message contains the tool name
       const call = server.elicitInput.mock.calls[0][0];
       expect(call.message).toContain('qase_case_delete');
     });
 
-    it('returns false when user declines (action=decline)', async () => {
+    it('returns declined when user declines (action=decline)', async () => {
       const server = createMockServer({
         elicitResult: { action: 'decline' },
       });
 
       const result = await serverStorage.run(server, () =>
-        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 }),
+        requestDestructiveConfirmation('qase_case_delete', { code: 'TEST', id: 1 }),
       );
 
-      expect(result).toBe(false);
+      expect(result).toBe('declined');
     });
 
-    it('returns false when user cancels (action=cancel)', async () => {
+    it('returns declined when user cancels (action=cancel)', async () => {
       const server = createMockServer({
         elicitResult: { action: 'cancel' },
       });
 
       const result = await serverStorage.run(server, () =>
-        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 }),
+        requestDestructiveConfirmation('qase_case_delete', { code: 'TEST', id: 1 }),
       );
 
-      expect(result).toBe(false);
+      expect(result).toBe('declined');
     });
 
-    it('returns false when user accepts but confirm=false', async () => {
+    it('returns declined when user accepts but confirm=false', async () => {
       const server = createMockServer({
         elicitResult: { action: 'accept', content: { confirm: false } },
       });
 
       const result = await serverStorage.run(server, () =>
-        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 }),
+        requestDestructiveConfirmation('qase_case_delete', { code: 'TEST', id: 1 }),
       );
 
-      expect(result).toBe(false);
+      expect(result).toBe('declined');
     });
 
-    it('returns true on elicitation error (graceful degradation)', async () => {
+    it('returns failed on elicitation error and logs it', async () => {
       const server = createMockServer({
         elicitError: new Error('client disconnected'),
       });
 
       const result = await serverStorage.run(server, () =>
-        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 }),
+        requestDestructiveConfirmation('qase_case_delete', { code: 'TEST', id: 1 }),
       );
 
-      expect(result).toBe(true);
+      expect(result).toBe('failed');
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         expect.stringContaining('Elicitation failed'),
         expect.any(Error),
@@ -156,20 +166,20 @@ describe('Server Context', () => {
       const server = createMockServer();
 
       await serverStorage.run(server, () =>
-        confirmDestructiveAction('qase_suite_delete', { code: 'PROJ', id: 99 }),
+        requestDestructiveConfirmation('qase_suite_delete', { code: 'PROJ', id: 99 }),
       );
 
       const call = server.elicitInput.mock.calls[0][0];
-      expect(call.message).toContain('qase_suite_delete');
-      expect(call.message).toContain('PROJ');
-      expect(call.message).toContain('99');
+      expect(call.message).toBe(
+        'Confirm destructive action: qase_suite_delete\n\n  code: "PROJ"\n  id: 99',
+      );
     });
 
     it('sends correct schema with boolean confirm field', async () => {
       const server = createMockServer();
 
       await serverStorage.run(server, () =>
-        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 }),
+        requestDestructiveConfirmation('qase_case_delete', { code: 'TEST', id: 1 }),
       );
 
       const call = server.elicitInput.mock.calls[0][0];
@@ -177,5 +187,77 @@ describe('Server Context', () => {
       expect(call.requestedSchema.properties.confirm.type).toBe('boolean');
       expect(call.requestedSchema.required).toContain('confirm');
     });
+
+    it('shows the details in place of the arguments when given', async () => {
+      const server = createMockServer();
+
+      await serverStorage.run(server, () =>
+        requestDestructiveConfirmation(
+          'qase_case_bulk_delete',
+          { code: 'TEST', query: 'status = "deprecated"' },
+          'Delete 3 case(s) from TEST:\n  TEST-1\n  TEST-2\n  TEST-3',
+        ),
+      );
+
+      const call = server.elicitInput.mock.calls[0][0];
+      expect(call.message).toBe(
+        'Confirm destructive action: qase_case_bulk_delete\n\n' +
+          'Delete 3 case(s) from TEST:\n  TEST-1\n  TEST-2\n  TEST-3',
+      );
+    });
+  });
+
+  describe('confirmDestructiveAction', () => {
+    it('returns true when the user confirms', async () => {
+      const result = await serverStorage.run(createMockServer(), () =>
+        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 }),
+      );
+
+      expect(result).toBe(true);
+    });
+
+    it('returns true when elicitation fails (graceful degradation)', async () => {
+      const server = createMockServer({ elicitError: new Error('client disconnected') });
+
+      const result = await serverStorage.run(server, () =>
+        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 }),
+      );
+
+      expect(result).toBe(true);
+    });
+
+    it('returns false when the user declines', async () => {
+      const server = createMockServer({ elicitResult: { action: 'decline' } });
+
+      const result = await serverStorage.run(server, () =>
+        confirmDestructiveAction('qase_case_delete', { code: 'TEST', id: 1 }),
+      );
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('reportProgress', () => {
+    it('sends progress with the request token, and nothing without one', async () => {
+      const send = jest.fn().mockResolvedValue(undefined);
+
+      await reportProgress(1, 2);
+      await progressStorage.run({ token: 'tok-1', send }, () => reportProgress(1, 2, 'half'));
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'tok-1', progress: 1, total: 2, message: 'half' },
+      });
+    });
+
+    it('logs a failed send instead of throwing', async () => {
+      const send = jest.fn().mockRejectedValue(new Error('closed'));
+
+      await expect(
+        progressStorage.run({ token: 1, send }, () => reportProgress(1)),
+      ).resolves.toBeUndefined();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
   });
 });
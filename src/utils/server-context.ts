@@ -10,6 +10,7 @@
 
 import { AsyncLocalStorage } from 'async_hooks';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
 
 /**
  * Per-request server storage.
@@ -26,29 +27,75 @@ export function getServer(): Server | undefined {
 }
 
 /**
- * Ask the user to confirm a destructive action via MCP elicitation.
- *
- * Graceful degradation:
- * - No server in context → proceed (return true)
- * - Client doesn't support elicitation → proceed
- * - elicitInput() throws → proceed (log error)
- * - User declines or cancels → return false
+ * Where progress for the current request goes: the client's progressToken and
+ * the request's own notification sender, so notifications reach the session
+ * that made the call.
  */
-export async function confirmDestructiveAction(
+export interface ProgressChannel {
+  token: string | number;
+  send: (notification: ServerNotification) => Promise<void>;
+}
+
+/**
+ * Per-request progress storage. Only set when the client asked for progress
+ * by passing `_meta.progressToken`.
+ */
+export const progressStorage = new AsyncLocalStorage<ProgressChannel>();
+
+/**
+ * Send a `notifications/progress` for the current request. A no-op when the
+ * client did not ask for progress; a failed send is logged, never thrown, so
+ * progress cannot break the call it reports on.
+ */
+export async function reportProgress(
+  progress: number,
+  total?: number,
+  message?: string,
+): Promise<void> {
+  const channel = progressStorage.getStore();
+  if (!channel) return;
+
+  try {
+    await channel.send({
+      method: 'notifications/progress',
+      params: { progressToken: channel.token, progress, total, message },
+    });
+  } catch (error) {
+    console.error('[Server] Failed to send progress notification:', error);
+  }
+}
+
+/**
+ * How a destructive call was confirmed:
+ * - `accepted` / `declined` — the user answered the elicitation
+ * - `unavailable` — no server in context, or the client cannot elicit
+ * - `failed` — elicitInput() threw
+ */
+export type ConfirmationDecision = 'accepted' | 'declined' | 'unavailable' | 'failed';
+
+/**
+ * Ask the user to confirm a destructive action via MCP elicitation and report
+ * how it went. Cancelling counts as declining. `details` replaces the listing
+ * of the arguments in the prompt.
+ */
+export async function requestDestructiveConfirmation(
   toolName: string,
   args: Record<string, unknown>,
-): Promise<boolean> {
+  details?: string,
+): Promise<ConfirmationDecision> {
   const server = getServer();
-  if (!server) return true;
+  if (!server) return 'unavailable';
 
   // Check if the client supports elicitation
   const caps = server.getClientCapabilities();
-  if (!caps?.elicitation) return true;
+  if (!caps?.elicitation) return 'unavailable';
 
   try {
-    const argsPreview = Object.entries(args)
-      .map(([k, v]) => `  ${k}: ${JSON.stringify(v)}`)
-      .join('\n');
+    const argsPreview =
+      details ??
+      Object.entries(args)
+        .map(([k, v]) => `  ${k}: ${JSON.stringify(v)}`)
+        .join('\n');
 
     const result = await server.elicitInput({
       message: `Confirm destructive action: ${toolName}\n\n${argsPreview}`,
@@ -66,10 +113,28 @@ export async function confirmDestructiveAction(
       },
     });
 
-    return result.action === 'accept' && result.content?.confirm === true;
+    return result.action === 'accept' && result.content?.confirm === true ? 'accepted' : 'declined';
   } catch (error) {
     // Elicitation failed — graceful degradation: proceed without confirmation
     console.error('[Server] Elicitation failed, proceeding without confirmation:', error);
-    return true;
+    return 'failed';
   }
 }
+
+/**
+ * Ask the user to confirm a destructive action via MCP elicitation.
+ *
+ * Graceful degradation:
+ * - No server in context → proceed (return true)
+ * - Client doesn't support elicitation → proceed
+ * - elicitInput() throws → proceed (log error)
+ * - User declines or cancels → return false
+ *
+ * `requestDestructiveConfirmation` reports which of these happened.
+ */
+export async function confirmDestructiveAction(
+  toolName: string,
+  args: Record<string, unknown>,
+): Promise<boolean> {
+  return (await requestDestructiveConfirmation(toolName, args)) !== 'declined';
+}
@@ -0,0 +1,142 @@
+/**
+ * Suite Tree Utilities
+ *
+ * The suites endpoint returns a flat, paginated list where each suite points
+ * at its parent through `parent_id`. These helpers page through the whole list
+ * and rebuild the hierarchy from it.
+ */
+
+import { getApiClient } from '../client/index.js';
+import { toResultAsync, createToolError } from './errors.js';
+import { fetchAll, type ListPage } from './pagination.js';
+
+/** One suite in the rebuilt hierarchy. */
+export interface SuiteNode {
+  id: number;
+  title: string;
+  parent_id: number | null;
+  /** Cases directly in this suite, as reported by the API. */
+  cases_count: number;
+  children: SuiteNode[];
+}
+
+/** A suite as the suites endpoint lists it — the fields the tree is built from. */
+export interface SuiteRow {
+  id: number;
+  title?: string | null;
+  parent_id?: number | null;
+  cases_count?: number | null;
+  position?: number | null;
+}
+
+/** Every suite in a project, plus the API's own total for truncation checks. */
+export interface SuiteList {
+  suites: SuiteRow[];
+  total: number;
+}
+
+/**
+ * Page through every suite in a project. Fails the whole call when a page
+ * cannot be fetched — a tree built from a partial list would attach subtrees
+ * to the wrong place.
+ */
+export async function fetchAllSuites(code: string): Promise<SuiteList> {
+  const client = getApiClient();
+
+  const page = await fetchAll(async (limit, offset): Promise<ListPage> => {
+    const res = await toResultAsync(client.suites.getSuites(code, undefined, limit, offset));
+    return res.match(
+      (r) => r.data.result as ListPage,
+      (e) => {
+        throw createToolError(e, 'suite tree');
+      },
+    );
+  });
+
+  const suites = (page?.entities ?? []) as SuiteRow[];
+  return { suites, total: page?.total ?? suites.length };
+}
+
+/**
+ * Rebuild the parent/child hierarchy from a flat suite list.
+ *
+ * Suites whose parent is missing from the list (a truncated fetch, or a parent
+ * the token cannot see) are promoted to roots rather than dropped. Siblings keep
+ * the API's `position` order, falling back to ID.
+ */
+export function buildSuiteTree(suites: SuiteRow[]): SuiteNode[] {
+  const nodes = new Map<number, SuiteNode>();
+  for (const s of suites) {
+    nodes.set(s.id, {
+      id: s.id,
+      title: s.title ?? `#${s.id}`,
+      parent_id: s.parent_id ?? null,
+      cases_count: s.cases_count ?? 0,
+      children: [],
+    });
+  }
+
+  const position = new Map<number, number>(
+    suites.map((s) => [s.id, typeof s.position === 'number' ? s.position : s.id]),
+  );
+  const byPosition = (a: SuiteNode, b: SuiteNode) =>
+    (position.get(a.id) ?? a.id) - (position.get(b.id) ?? b.id);
+
+  const roots: SuiteNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id !== null ? nodes.get(node.parent_id) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const sortDeep = (list: SuiteNode[]) => {
+    list.sort(byPosition);
+    for (const n of list) sortDeep(n.children);
+  };
+  sortDeep(roots);
+
+  return roots;
+}
+
+/**
+ * IDs of a suite and every suite below it. Empty when the suite is not in the
+ * tree.
+ */
+export function suiteSubtreeIds(
+  nodes: SuiteNode[],
+  suiteId: number,
+  inside = false,
+  out = new Set<number>(),
+): Set<number> {
+  for (const node of nodes) {
+    const within = inside || node.id === suiteId;
+    if (within) out.add(node.id);
+    suiteSubtreeIds(node.children, suiteId, within, out);
+  }
+  return out;
+}
+
+/** A suite node with case counts rolled up from everything below it. */
+export interface CountedSuiteNode extends Omit<SuiteNode, 'children'> {
+  /** Cases in this suite and in all of its descendants. */
+  total_cases: number;
+  /** Suites anywhere below this one. */
+  descendants: number;
+  children: CountedSuiteNode[];
+}
+
+/** Add recursive case and sub-suite counts to every node of a tree. */
+export function countSuiteTree(nodes: SuiteNode[]): CountedSuiteNode[] {
+  return nodes.map((node) => {
+    const children = countSuiteTree(node.children);
+    return {
+      ...node,
+      total_cases: node.cases_count + children.reduce((n, c) => n + c.total_cases, 0),
+      descendants: children.reduce((n, c) => n + 1 + c.descendants, 0),
+      children,
+    };
+  });
+}
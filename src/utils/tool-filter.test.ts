@@ -0,0 +1,148 @@
+/**
+ * Tool Allow/Deny Filter Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import {
+  parseToolPatterns,
+  toolFilterFromEnv,
+  matchesToolPattern,
+  isToolAllowed,
+  unmatchedToolPatterns,
+} from './tool-filter.js';
+import { ToolRegistry, ReadAnnotation, CreateAnnotation, DeleteAnnotation } from './registry.js';
+
+const tool = (name: string, annotations = CreateAnnotation): Tool => ({
+  name,
+  inputSchema: { type: 'object' },
+  annotations,
+});
+
+const get = tool('qase_get', ReadAnnotation);
+const search = tool('qql_search', ReadAnnotation);
+const createCase = tool('qase_case_create');
+const deleteCase = tool('qase_case_delete', DeleteAnnotation);
+const ciReport = tool('qase_ci_report');
+
+describe('parseToolPatterns', () => {
+  it('splits on commas and whitespace', () => {
+    expect(parseToolPatterns(' read, qase_*_delete  qql_*,,')).toEqual([
+      'read',
+      'qase_*_delete',
+      'qql_*',
+    ]);
+    expect(parseToolPatterns(undefined)).toEqual([]);
+  });
+
+  it('reads both settings from the environment', () => {
+    expect(
+      toolFilterFromEnv({ QASE_MCP_TOOLS_ALLOW: 'read', QASE_MCP_TOOLS_DENY: 'qase_api' }),
+    ).toEqual({ allow: ['read'], deny: ['qase_api'] });
+  });
+});
+
+describe('matchesToolPattern', () => {
+  it('matches categories by annotation or name', () => {
+    expect(matchesToolPattern(get, 'read')).toBe(true);
+    expect(matchesToolPattern(createCase, 'write')).toBe(true);
+    expect(matchesToolPattern(deleteCase, 'delete')).toBe(true);
+    expect(matchesToolPattern(deleteCase, 'write')).toBe(false);
+    expect(matchesToolPattern(ciReport, 'composite')).toBe(true);
+    expect(matchesToolPattern(tool('qase_find_duplicates', ReadAnnotation), 'composite')).toBe(
+      true,
+    );
+    expect(matchesToolPattern(tool('qase_case_lint', ReadAnnotation), 'composite')).toBe(true);
+  });
+
+  it('matches globs and exact names against the whole name', () => {
+    expect(matchesToolPattern(deleteCase, 'qase_*_delete')).toBe(true);
+    expect(matchesToolPattern(createCase, 'qase_*_delete')).toBe(false);
+    expect(matchesToolPattern(search, 'qql_*')).toBe(true);
+    expect(matchesToolPattern(get, 'qase_?et')).toBe(true);
+    expect(matchesToolPattern(get, 'qase_get')).toBe(true);
+    expect(matchesToolPattern(get, 'qase_ge')).toBe(false);
+  });
+});
+
+describe('isToolAllowed', () => {
+  it('allows everything when both lists are empty', () => {
+    expect(isToolAllowed(deleteCase, { allow: [], deny: [] })).toBe(true);
+  });
+
+  it('requires an allow match when the allowlist is set', () => {
+    const filter = { allow: ['read', 'qql_*'], deny: [] };
+
+    expect(isToolAllowed(search, filter)).toBe(true);
+    expect(isToolAllowed(createCase, filter)).toBe(false);
+  });
+
+  it('lets deny win over allow', () => {
+    const filter = { allow: ['qase_case_*'], deny: ['delete'] };
+
+    expect(isToolAllowed(createCase, filter)).toBe(true);
+    expect(isToolAllowed(deleteCase, filter)).toBe(false);
+  });
+});
+
+describe('unmatchedToolPatterns', () => {
+  it('reports entries that match no tool', () => {
+    expect(
+      unmatchedToolPatterns([get, deleteCase], { allow: ['read', 'qase_gte'], deny: ['delete'] }),
+    ).toEqual(['qase_gte']);
+  });
+});
+
+describe('ToolRegistry with a tool filter', () => {
+  let registry: ToolRegistry;
+  let consoleErrorSpy: jest.SpiedFunction<typeof console.error>;
+
+  beforeEach(() => {
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    registry = new ToolRegistry();
+    const schema = z.object({});
+    const handler = jest.fn();
+    registry.register({
+      name: 'qase_get',
+      description: 'get',
+      schema,
+      handler,
+      annotations: ReadAnnotation,
+    });
+    registry.register({
+      name: 'qase_case_create',
+      description: 'create',
+      schema,
+      handler,
+      annotations: CreateAnnotation,
+    });
+    registry.register({
+      name: 'qase_case_delete',
+      description: 'delete a case',
+      schema,
+      handler,
+      annotations: DeleteAnnotation,
+      visibility: 'discoverable',
+    });
+    registry.setToolFilter({ allow: [], deny: ['qase_*_delete'] });
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('hides denied tools from listing, search, and activation', () => {
+    expect(registry.getAllTools().map((t) => t.name)).toEqual(['qase_case_create', 'qase_get']);
+    expect(registry.searchTools('delete')).toEqual([]);
+    expect(registry.activateTools(['qase_case_delete'])).toEqual([]);
+    expect(registry.isExposed('qase_case_delete')).toBe(false);
+  });
+
+  it('combines with read-only mode', () => {
+    registry.setToolFilter({ allow: ['qase_case_*', 'qase_get'], deny: [] });
+    registry.setReadOnly(true);
+
+    expect(registry.getTools().map((t) => t.name)).toEqual(['qase_get']);
+  });
+});
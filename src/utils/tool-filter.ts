@@ -0,0 +1,106 @@
+/**
+ * Tool Allow/Deny Filter
+ *
+ * Narrows the tool surface per deployment: `QASE_MCP_TOOLS_ALLOW` and
+ * `QASE_MCP_TOOLS_DENY` take comma-separated entries, each one of
+ *
+ * - a category, as in `qase_discover_tools`: `read`, `write`, `delete`, `composite`
+ * - a glob over tool names: `qase_*_delete`, `qql_*`, `qase_?et`
+ * - an exact tool name
+ *
+ * A tool is exposed when the allowlist is empty or any entry matches it, and
+ * no deny entry matches it — deny always wins.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const TOOL_CATEGORIES = ['read', 'write', 'delete', 'composite'] as const;
+
+export type ToolCategory = (typeof TOOL_CATEGORIES)[number];
+
+/** Name prefixes of the multi-step workflow tools. */
+const COMPOSITE_PREFIXES = [
+  'qase_ci_',
+  'qase_triage_',
+  'qase_regression_',
+  'qase_import_',
+  'qase_flaky_',
+  'qase_run_compare',
+  'qase_release_',
+  'qase_coverage_',
+  'qase_find_duplicates',
+  'qase_case_lint',
+];
+
+/**
+ * Whether a tool belongs to a category, judged by its annotations
+ * (read / write / delete) or its name (composite).
+ */
+export function matchesCategory(tool: Tool, category: ToolCategory): boolean {
+  const ann = tool.annotations;
+  switch (category) {
+    case 'delete':
+      return ann?.destructiveHint === true;
+    case 'read':
+      return ann?.readOnlyHint === true;
+    case 'write':
+      return !ann?.readOnlyHint && !ann?.destructiveHint;
+    case 'composite':
+      return COMPOSITE_PREFIXES.some((prefix) => tool.name.startsWith(prefix));
+  }
+}
+
+export interface ToolFilter {
+  allow: string[];
+  deny: string[];
+}
+
+/** Split a comma- or whitespace-separated setting into entries. */
+export function parseToolPatterns(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+export function toolFilterFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): ToolFilter {
+  return {
+    allow: parseToolPatterns(env.QASE_MCP_TOOLS_ALLOW),
+    deny: parseToolPatterns(env.QASE_MCP_TOOLS_DENY),
+  };
+}
+
+function isCategory(entry: string): entry is ToolCategory {
+  return (TOOL_CATEGORIES as readonly string[]).includes(entry);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/** Whether one allow/deny entry matches a tool. */
+export function matchesToolPattern(tool: Tool, entry: string): boolean {
+  if (isCategory(entry)) return matchesCategory(tool, entry);
+  return globToRegExp(entry).test(tool.name);
+}
+
+/** Whether the filter lets a tool through. */
+export function isToolAllowed(tool: Tool, filter: ToolFilter): boolean {
+  if (filter.allow.length > 0 && !filter.allow.some((e) => matchesToolPattern(tool, e))) {
+    return false;
+  }
+  return !filter.deny.some((e) => matchesToolPattern(tool, e));
+}
+
+/** Entries that match none of the given tools — almost always a typo. */
+export function unmatchedToolPatterns(tools: Tool[], filter: ToolFilter): string[] {
+  return [...filter.allow, ...filter.deny].filter(
+    (entry) => !tools.some((tool) => matchesToolPattern(tool, entry)),
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * Tests for the minimal XML reader used by test report parsers.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseXml, localName, childElements, descendants } from './xml.js';
+
+describe('parseXml', () => {
+  it('reads elements, attributes, and text', () => {
+    const root = parseXml('<?xml version="1.0"?><a x="1" y=\'two\'><b>hi</b><c/></a>');
+
+    expect(root.name).toBe('a');
+    expect(root.attributes).toEqual({ x: '1', y: 'two' });
+    expect(root.children.map((c) => c.name)).toEqual(['b', 'c']);
+    expect(root.children[0].text).toBe('hi');
+  });
+
+  it('decodes entities in text and attributes', () => {
+    const root = parseXml('<a msg="x &lt; y &amp;&amp; &#65;&#x42;">&quot;ok&quot; &gt;</a>');
+
+    expect(root.attributes.msg).toBe('x < y && AB');
+    expect(root.text).toBe('"ok" >');
+  });
+
+  it('keeps CDATA verbatim', () => {
+    const root = parseXml('<out><![CDATA[if (a < b && c) { <tag> }]]></out>');
+
+    expect(root.text).toBe('if (a < b && c) { <tag> }');
+  });
+
+  it('skips comments, DOCTYPE, and a byte order mark', () => {
+    const root = parseXml('\uFEFF<!DOCTYPE a [<!ENTITY e "x">]><!-- note --><a><!-- <b/> --></a>');
+
+    expect(root.name).toBe('a');
+    expect(root.children).toEqual([]);
+  });
+
+  it('allows > inside quoted attribute values', () => {
+    const root = parseXml('<a expr="x > 1"/>');
+
+    expect(root.attributes.expr).toBe('x > 1');
+  });
+
+  it('reports mismatched tags with their offset', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow(/Malformed XML at offset \d+: expected <\/b>/);
+  });
+
+  it('rejects unclosed elements and empty input', () => {
+    expect(() => parseXml('<a><b></b>')).toThrow(/unclosed element <a>/);
+    expect(() => parseXml('   ')).toThrow(/no root element/);
+  });
+});
+
+describe('lookups', () => {
+  it('match on local name, ignoring namespace prefixes', () => {
+    const root = parseXml('<t:run xmlns:t="urn:x"><t:item/><item/><group><item/></group></t:run>');
+
+    expect(localName(root)).toBe('run');
+    expect(childElements(root, 'item')).toHaveLength(2);
+    expect(descendants(root, 'item')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Minimal XML Reader
+ *
+ * Test report formats (JUnit, NUnit, xUnit, TRX) are small, well-formed XML
+ * documents that only need elements, attributes, and text. This reader covers
+ * exactly that: it skips the prolog, comments, processing instructions, and
+ * DOCTYPE, keeps CDATA verbatim, and decodes the predefined and numeric
+ * entities. Namespaces are not resolved — prefixed names are kept as written,
+ * and `localName` strips the prefix for lookups.
+ */
+
+export interface XmlElement {
+  /** Tag name as written, including any namespace prefix. */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text and CDATA directly inside this element. */
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ref] ?? match;
+  });
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parse an XML document and return its root element.
+ *
+ * @throws Error with the byte offset when the document is malformed
+ */
+export function parseXml(source: string): XmlElement {
+  // Strip a byte order mark — reports written on Windows often carry one.
+  const xml = source.charCodeAt(0) === 0xfeff ? source.slice(1) : source;
+
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Malformed XML at offset ${pos}: ${message}`);
+  };
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = xml.indexOf(terminator, pos);
+    if (end === -1) fail(`unterminated ${what}`);
+    const body = xml.slice(pos, end);
+    pos = end + terminator.length;
+    return body;
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    const textEnd = lt === -1 ? xml.length : lt;
+
+    if (textEnd > pos) {
+      const text = xml.slice(pos, textEnd);
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += decodeEntities(text);
+      } else if (text.trim()) {
+        fail('text outside the root element');
+      }
+      pos = textEnd;
+      continue;
+    }
+
+    if (xml.startsWith('<!--', pos)) {
+      pos += 4;
+      skipPast('-->', 'comment');
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      pos += 9;
+      const data = skipPast(']]>', 'CDATA section');
+      if (stack.length > 0) stack[stack.length - 1].text += data;
+    } else if (xml.startsWith('<?', pos)) {
+      pos += 2;
+      skipPast('?>', 'processing instruction');
+    } else if (xml.startsWith('<!', pos)) {
+      // DOCTYPE, possibly with an internal subset in brackets.
+      const bracket = xml.indexOf('[', pos);
+      const close = xml.indexOf('>', pos);
+      if (bracket !== -1 && close !== -1 && bracket < close) {
+        pos = bracket;
+        skipPast(']', 'DOCTYPE subset');
+      }
+      skipPast('>', 'declaration');
+    } else if (xml.startsWith('</', pos)) {
+      pos += 2;
+      const name = skipPast('>', 'closing tag').trim();
+      const open = stack.pop();
+      if (!open) fail(`unexpected closing tag </${name}>`);
+      if (open!.name !== name) fail(`expected </${open!.name}>, found </${name}>`);
+    } else {
+      pos += 1;
+      const tag = readTag(xml, pos);
+      if (tag === -1) fail('unterminated tag');
+      const raw = xml.slice(pos, tag);
+      pos = tag + 1;
+
+      const selfClosing = raw.endsWith('/');
+      const body = selfClosing ? raw.slice(0, -1) : raw;
+      const name = /^[^\s/>]+/.exec(body)?.[0];
+      if (!name) fail('missing tag name');
+
+      const element: XmlElement = {
+        name: name!,
+        attributes: parseAttributes(body.slice(name!.length)),
+        children: [],
+        text: '',
+      };
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail('more than one root element');
+      } else {
+        root = element;
+      }
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  if (!root) throw new Error('Malformed XML: no root element');
+  return root;
+}
+
+/** Index of the `>` ending a start tag, skipping `>` inside quoted attribute values. */
+function readTag(xml: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Tag name without its namespace prefix. */
+export function localName(element: XmlElement): string {
+  const colon = element.name.indexOf(':');
+  return colon === -1 ? element.name : element.name.slice(colon + 1);
+}
+
+/** Direct children with the given local name. */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((c) => localName(c) === name);
+}
+
+/** First direct child with the given local name. */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((c) => localName(c) === name);
+}
+
+/** Every descendant (not the element itself) with the given local name, in document order. */
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const walk = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (localName(child) === name) found.push(child);
+      walk(child);
+    }
+  };
+  walk(element);
+  return found;
+}